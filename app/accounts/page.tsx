@@ -0,0 +1,459 @@
+"use client";
+
+import React, { useState, useRef, useEffect } from "react";
+import { useFinancialState, useFinancialActions } from "@/context";
+import {
+  Account,
+  AccountType,
+  CreateAccountInput,
+  UpdateAccountInput,
+} from "@/types";
+import { useCurrency } from "@/context/CurrencyContext";
+import AccountTransfers from "@/components/AccountTransfers";
+import CurrencySelect from "@/components/CurrencySelect";
+import {
+  ACCOUNT_TYPE_LABELS,
+  getPrimaryAccountId,
+  getTotalAccountBalance,
+  isLiabilityAccount,
+} from "@/utils/accounts";
+import { convertPlanToBaseCurrency } from "@/utils/exchangeRates";
+
+const emptyAccount = (): CreateAccountInput => ({
+  name: "",
+  type: AccountType.CHECKING,
+  balance: 0,
+  description: "",
+  isActive: true,
+});
+
+export default function AccountsPage() {
+  const state = useFinancialState();
+  const { addAccount, updateAccount, deleteAccount } = useFinancialActions();
+  const { formatCurrency, formatAmount } = useCurrency();
+
+  const accounts = state.userPlan.accounts || [];
+  const primaryAccountId = getPrimaryAccountId(accounts);
+
+  const [isAddFormOpen, setIsAddFormOpen] = useState(false);
+  const [editingAccount, setEditingAccount] = useState<string | null>(null);
+  const [formData, setFormData] = useState<CreateAccountInput>(emptyAccount());
+
+  // Form ref for auto-scroll
+  const formRef = useRef<HTMLDivElement>(null);
+
+  // Auto-scroll to form when editing starts
+  useEffect(() => {
+    if (isAddFormOpen && formRef.current) {
+      formRef.current.scrollIntoView({
+        behavior: "smooth",
+        block: "start",
+      });
+    }
+  }, [isAddFormOpen]);
+
+  const handleInputChange = (
+    field: keyof CreateAccountInput,
+    value: string | number | boolean | AccountType
+  ) => {
+    setFormData((prev) => ({
+      ...prev,
+      [field]: value,
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      if (editingAccount) {
+        const updateData: UpdateAccountInput = {
+          id: editingAccount,
+          ...formData,
+        };
+        await updateAccount(updateData);
+      } else {
+        await addAccount(formData);
+      }
+      handleCancel();
+    } catch (error) {
+      console.error("Failed to save account:", error);
+    }
+  };
+
+  const handleEdit = (account: Account) => {
+    setFormData({
+      name: account.name,
+      type: account.type,
+      balance: account.balance,
+      currency: account.currency,
+      description: account.description || "",
+      isActive: account.isActive,
+    });
+    setEditingAccount(account.id);
+    setIsAddFormOpen(true);
+  };
+
+  const handleDelete = async (accountId: string) => {
+    if (
+      window.confirm(
+        "Are you sure you want to delete this account? Items tied to it will move to your primary account and its transfers will be removed."
+      )
+    ) {
+      try {
+        await deleteAccount(accountId);
+      } catch (error) {
+        console.error("Failed to delete account:", error);
+      }
+    }
+  };
+
+  const handleCancel = () => {
+    setIsAddFormOpen(false);
+    setEditingAccount(null);
+    setFormData(emptyAccount());
+  };
+
+  const countLinkedItems = (accountId: string) =>
+    [
+      ...state.userPlan.income,
+      ...state.userPlan.expenses,
+      ...state.userPlan.goals,
+    ].filter(
+      (item) =>
+        item.accountId === accountId ||
+        (!item.accountId && accountId === primaryAccountId)
+    ).length;
+
+  // Total in the base currency
+  const totalBalance = getTotalAccountBalance(
+    convertPlanToBaseCurrency(state.userPlan).accounts
+  );
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-8">
+      {/* Header Section */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+        <div className="flex justify-between items-start">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">
+              Accounts
+            </h1>
+            <p className="mt-2 text-gray-600 dark:text-gray-300">
+              Track where your money is held and move it between accounts
+            </p>
+          </div>
+
+          <div className="text-right">
+            <div className="text-sm text-gray-500 dark:text-gray-400">
+              Total Balance
+            </div>
+            <div
+              className={`text-2xl font-bold ${
+                totalBalance >= 0
+                  ? "text-green-600 dark:text-green-400"
+                  : "text-red-600 dark:text-red-400"
+              }`}
+            >
+              {formatCurrency(totalBalance)}
+            </div>
+            <div className="text-sm text-gray-500 dark:text-gray-400">
+              across {accounts.filter((a) => a.isActive).length} open accounts
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Add Account Button */}
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+          Your Accounts
+        </h2>
+        <button
+          onClick={() => setIsAddFormOpen(true)}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-2"
+        >
+          <svg
+            className="w-5 h-5"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M12 4v16m8-8H4"
+            />
+          </svg>
+          Add Account
+        </button>
+      </div>
+
+      {/* Add/Edit Form */}
+      {isAddFormOpen && (
+        <div
+          ref={formRef}
+          className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border-2 border-blue-200 dark:border-blue-800"
+        >
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">
+            {editingAccount ? "Edit Account" : "Add New Account"}
+          </h3>
+
+          <form
+            onSubmit={handleSubmit}
+            className="grid grid-cols-1 md:grid-cols-2 gap-6"
+          >
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Account Name *
+              </label>
+              <input
+                type="text"
+                required
+                value={formData.name}
+                onChange={(e) => handleInputChange("name", e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-gray-100"
+                placeholder="e.g., Everyday Checking, Visa Card"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Account Type *
+              </label>
+              <select
+                required
+                value={formData.type}
+                onChange={(e) =>
+                  handleInputChange("type", e.target.value as AccountType)
+                }
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-gray-100"
+              >
+                {Object.values(AccountType).map((type) => (
+                  <option key={type} value={type}>
+                    {ACCOUNT_TYPE_LABELS[type]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Current Balance *
+              </label>
+              <input
+                type="number"
+                required
+                step="0.01"
+                value={formData.balance === 0 ? "" : formData.balance}
+                onChange={(e) =>
+                  handleInputChange("balance", parseFloat(e.target.value) || 0)
+                }
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-gray-100"
+                placeholder="0.00"
+              />
+              {isLiabilityAccount(formData.type) && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  Enter the amount owed as a negative number
+                </p>
+              )}
+            </div>
+
+            <CurrencySelect
+              value={formData.currency}
+              onChange={(currency) =>
+                setFormData((prev) => ({ ...prev, currency }))
+              }
+            />
+
+            <div className="flex items-end">
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={formData.isActive}
+                  onChange={(e) =>
+                    handleInputChange("isActive", e.target.checked)
+                  }
+                  className="rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
+                />
+                <span className="ml-2 text-sm text-gray-700 dark:text-gray-300">
+                  Account is open
+                </span>
+              </label>
+            </div>
+
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Description
+              </label>
+              <textarea
+                value={formData.description}
+                onChange={(e) =>
+                  handleInputChange("description", e.target.value)
+                }
+                rows={2}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-gray-100"
+                placeholder="Bank, account number hint, notes..."
+              />
+            </div>
+
+            <div className="md:col-span-2 flex gap-3">
+              <button
+                type="submit"
+                className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                {editingAccount ? "Update Account" : "Add Account"}
+              </button>
+              <button
+                type="button"
+                onClick={handleCancel}
+                className="bg-gray-300 dark:bg-gray-600 text-gray-700 dark:text-gray-300 px-6 py-2 rounded-lg hover:bg-gray-400 dark:hover:bg-gray-500 transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {/* Account List */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm">
+        {accounts.length === 0 ? (
+          <div className="p-12 text-center">
+            <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-2">
+              No accounts yet
+            </h3>
+            <p className="text-gray-500 dark:text-gray-400 mb-4">
+              Your plan uses a single balance of{" "}
+              {formatCurrency(state.userPlan.currentBalance)}. Add accounts to
+              see where your money is and catch overdrafts early.
+            </p>
+            <button
+              onClick={() => setIsAddFormOpen(true)}
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Add Your First Account
+            </button>
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-200 dark:divide-gray-700">
+            {accounts.map((account) => (
+              <div
+                key={account.id}
+                className={`p-6 flex justify-between items-start ${
+                  editingAccount === account.id
+                    ? "bg-blue-50 dark:bg-blue-900/20"
+                    : ""
+                }`}
+              >
+                <div className="flex-1">
+                  <div className="flex items-center gap-3 mb-2">
+                    <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+                      {account.name}
+                    </h3>
+                    <span className="px-2 py-1 text-xs rounded-full bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">
+                      {ACCOUNT_TYPE_LABELS[account.type]}
+                    </span>
+                    {account.id === primaryAccountId && (
+                      <span className="px-2 py-1 text-xs rounded-full bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">
+                        Primary
+                      </span>
+                    )}
+                    {!account.isActive && (
+                      <span className="px-2 py-1 text-xs rounded-full bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200">
+                        Closed
+                      </span>
+                    )}
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <div className="text-sm text-gray-500 dark:text-gray-400">
+                        Balance
+                      </div>
+                      <div
+                        className={`text-lg font-medium ${
+                          account.balance >= 0
+                            ? "text-gray-900 dark:text-gray-100"
+                            : "text-red-600 dark:text-red-400"
+                        }`}
+                      >
+                        {formatAmount(account.balance, account.currency)}
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-sm text-gray-500 dark:text-gray-400">
+                        Linked Items
+                      </div>
+                      <div className="text-lg font-medium text-gray-900 dark:text-gray-100">
+                        {countLinkedItems(account.id)}
+                      </div>
+                    </div>
+                  </div>
+                  {account.description && (
+                    <p className="text-gray-600 dark:text-gray-300 text-sm mt-2">
+                      {account.description}
+                    </p>
+                  )}
+                </div>
+
+                <div className="flex gap-2 ml-4">
+                  <button
+                    onClick={() => handleEdit(account)}
+                    className="p-2 text-gray-400 hover:text-blue-600 transition-colors"
+                    title="Edit account"
+                  >
+                    <svg
+                      className="w-5 h-5"
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
+                      />
+                    </svg>
+                  </button>
+                  <button
+                    onClick={() => handleDelete(account.id)}
+                    className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                    title="Delete account"
+                  >
+                    <svg
+                      className="w-5 h-5"
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                      />
+                    </svg>
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Transfers */}
+      {accounts.length > 1 && <AccountTransfers />}
+
+      {/* Error Display */}
+      {state.error.accountError && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+          <p className="text-sm text-red-700 dark:text-red-300">
+            {state.error.accountError}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
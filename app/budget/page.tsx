@@ -0,0 +1,311 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { useFinancialState, useFinancialActions } from "@/context";
+import {
+  BudgetMethod,
+  BudgetRollover,
+  CategoryBudget,
+  ExpenseCategoryId,
+} from "@/types";
+import { useCurrency } from "@/context/CurrencyContext";
+import {
+  BUDGET_METHOD_LABELS,
+  BUDGET_ROLLOVER_LABELS,
+  CategoryBudgetMonth,
+  getBudgetMonth,
+  getBudgetSettings,
+  getMonthKey,
+} from "@/utils/budget";
+import { ensurePlanCategories, getCategoryTree } from "@/utils/categories";
+
+const inputClassName =
+  "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-gray-100";
+
+export default function BudgetPage() {
+  const state = useFinancialState();
+  const { updateBudgetSettings } = useFinancialActions();
+  const { formatCurrency } = useCurrency();
+
+  const [month, setMonth] = useState(getMonthKey());
+  const settings = getBudgetSettings(state.userPlan);
+  const budgetMonth = useMemo(
+    () => getBudgetMonth(state.userPlan, month),
+    [state.userPlan, month]
+  );
+
+  // Every category is listed so a budget can be set before anything is spent
+  const categoryTree = getCategoryTree(ensurePlanCategories(state.userPlan));
+  const lines = categoryTree.map(
+    ({
+      category,
+      depth,
+    }): CategoryBudgetMonth & {
+      name: string;
+      depth: number;
+    } => ({
+      ...(budgetMonth.categories.find(
+        (line) => line.category === category.id
+      ) || {
+        category: category.id,
+        planned: 0,
+        budgeted: 0,
+        rolloverIn: 0,
+        available: 0,
+        actual: 0,
+        remaining: 0,
+        hasBudget: false,
+      }),
+      name: category.name,
+      depth,
+    })
+  );
+
+  const handleBudgetChange = async (
+    category: ExpenseCategoryId,
+    budget: CategoryBudget
+  ) => {
+    const categories = { ...settings.categories };
+    if (budget.amount > 0) {
+      categories[category] = budget;
+    } else {
+      delete categories[category];
+    }
+
+    try {
+      await updateBudgetSettings({ categories });
+    } catch (error) {
+      console.error("Failed to update budget:", error);
+    }
+  };
+
+  const remainingClassName = (remaining: number) =>
+    remaining >= 0
+      ? "text-green-600 dark:text-green-400"
+      : "text-red-600 dark:text-red-400";
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-8">
+      {/* Header Section */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">
+              Budget
+            </h1>
+            <p className="mt-2 text-gray-600 dark:text-gray-300">
+              Give each category a monthly budget and compare it with what your
+              plan expects and what your transactions show you spent
+            </p>
+          </div>
+          <div className="flex gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Month
+              </label>
+              <input
+                type="month"
+                value={month}
+                onChange={(e) => setMonth(e.target.value || getMonthKey())}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Method
+              </label>
+              <select
+                value={settings.method}
+                onChange={(e) =>
+                  updateBudgetSettings({
+                    method: e.target.value as BudgetMethod,
+                  })
+                }
+                className={inputClassName}
+              >
+                {Object.values(BudgetMethod).map((method) => (
+                  <option key={method} value={method}>
+                    {BUDGET_METHOD_LABELS[method]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Zero-Based Summary */}
+      {settings.method === BudgetMethod.ZERO_BASED && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Planned Income
+            </p>
+            <p className="text-2xl font-bold text-gray-900 dark:text-gray-100">
+              {formatCurrency(budgetMonth.totals.plannedIncome)}
+            </p>
+          </div>
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+            <p className="text-sm text-gray-600 dark:text-gray-400">Budgeted</p>
+            <p className="text-2xl font-bold text-gray-900 dark:text-gray-100">
+              {formatCurrency(budgetMonth.totals.budgeted)}
+            </p>
+          </div>
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Left to Budget
+            </p>
+            <p
+              className={`text-2xl font-bold ${
+                Math.abs(budgetMonth.totals.leftToBudget) < 0.01
+                  ? "text-green-600 dark:text-green-400"
+                  : budgetMonth.totals.leftToBudget > 0
+                  ? "text-yellow-600 dark:text-yellow-400"
+                  : "text-red-600 dark:text-red-400"
+              }`}
+            >
+              {formatCurrency(budgetMonth.totals.leftToBudget)}
+            </p>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Every unit of income should have a job
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* Categories */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-4">
+          Categories
+        </h2>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 dark:text-gray-400">
+                <th className="py-2">Category</th>
+                <th className="py-2 text-right">Planned</th>
+                <th className="py-2">Budget</th>
+                <th className="py-2">Rollover</th>
+                <th className="py-2 text-right">Rolled In</th>
+                <th className="py-2 text-right">Available</th>
+                <th className="py-2 text-right">Actual</th>
+                <th className="py-2 text-right">Remaining</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {lines.map((line) => {
+                const budget = settings.categories[line.category];
+                const rollover = budget?.rollover || BudgetRollover.NONE;
+
+                return (
+                  <tr
+                    key={line.category}
+                    className="text-gray-900 dark:text-gray-100"
+                  >
+                    <td
+                      className="py-2 pr-2 font-medium"
+                      style={{ paddingLeft: `${line.depth * 1.25}rem` }}
+                    >
+                      {line.name}
+                    </td>
+                    <td className="py-2 pr-2 text-right">
+                      {formatCurrency(line.planned)}
+                    </td>
+                    <td className="py-2 pr-2 w-32">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={budget?.amount || ""}
+                        onChange={(e) =>
+                          handleBudgetChange(line.category, {
+                            amount: parseFloat(e.target.value) || 0,
+                            rollover,
+                          })
+                        }
+                        className={inputClassName}
+                        placeholder={
+                          line.planned > 0 ? line.planned.toFixed(2) : "0.00"
+                        }
+                      />
+                    </td>
+                    <td className="py-2 pr-2">
+                      <select
+                        value={rollover}
+                        disabled={!budget}
+                        onChange={(e) =>
+                          budget &&
+                          handleBudgetChange(line.category, {
+                            ...budget,
+                            rollover: e.target.value as BudgetRollover,
+                          })
+                        }
+                        className={`${inputClassName} disabled:opacity-50`}
+                      >
+                        {Object.values(BudgetRollover).map((option) => (
+                          <option key={option} value={option}>
+                            {BUDGET_ROLLOVER_LABELS[option]}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="py-2 pr-2 text-right">
+                      {line.rolloverIn !== 0
+                        ? formatCurrency(line.rolloverIn)
+                        : "—"}
+                    </td>
+                    <td className="py-2 pr-2 text-right">
+                      {line.hasBudget ? formatCurrency(line.available) : "—"}
+                    </td>
+                    <td className="py-2 pr-2 text-right">
+                      {formatCurrency(line.actual)}
+                    </td>
+                    <td
+                      className={`py-2 text-right font-medium ${
+                        line.hasBudget
+                          ? remainingClassName(line.remaining)
+                          : "text-gray-400"
+                      }`}
+                    >
+                      {line.hasBudget ? formatCurrency(line.remaining) : "—"}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+            <tfoot>
+              <tr className="font-semibold text-gray-900 dark:text-gray-100 border-t-2 border-gray-300 dark:border-gray-600">
+                <td className="py-2">Total</td>
+                <td className="py-2 pr-2 text-right">
+                  {formatCurrency(budgetMonth.totals.planned)}
+                </td>
+                <td className="py-2 pr-2">
+                  {formatCurrency(budgetMonth.totals.budgeted)}
+                </td>
+                <td className="py-2" colSpan={3} />
+                <td className="py-2 pr-2 text-right">
+                  {formatCurrency(budgetMonth.totals.actual)}
+                </td>
+                <td className="py-2" />
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+        <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">
+          Planned spending comes from your expenses; actual spending comes from
+          transactions in the month, by their category or the category of the
+          expense they are linked to.
+        </p>
+      </div>
+
+      {/* Error Display */}
+      {state.error.generalError && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+          <p className="text-sm text-red-700 dark:text-red-300">
+            {state.error.generalError}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
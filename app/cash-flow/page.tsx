@@ -0,0 +1,333 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { useFinancialState, useFinancialActions } from "@/context";
+import { useCurrency } from "@/context/CurrencyContext";
+import {
+  CashFlowDay,
+  generateDailyCashFlow,
+  getCashFlowSettings,
+} from "@/utils/cashFlow";
+import { parseDateOnly } from "@/utils/recurrence";
+
+const inputClassName =
+  "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-gray-100";
+
+const HORIZON_OPTIONS = [30, 60, 90, 180, 365];
+const WEEKDAY_HEADERS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const formatDate = (date: string) =>
+  parseDateOnly(date).toLocaleDateString(undefined, {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  });
+
+export default function CashFlowPage() {
+  const state = useFinancialState();
+  const { updateCashFlowSettings } = useFinancialActions();
+  const { formatCurrency } = useCurrency();
+
+  const settings = getCashFlowSettings(state.userPlan);
+  const cashFlow = useMemo(
+    () => generateDailyCashFlow(state.userPlan),
+    [state.userPlan]
+  );
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const selectedDay = cashFlow.days.find((day) => day.date === selectedDate);
+
+  // One calendar grid per month, padded so the 1st lands on its weekday
+  const months = useMemo(() => {
+    const grouped: Array<{ month: string; days: CashFlowDay[] }> = [];
+    cashFlow.days.forEach((day) => {
+      const month = day.date.slice(0, 7);
+      const last = grouped[grouped.length - 1];
+      if (last && last.month === month) {
+        last.days.push(day);
+      } else {
+        grouped.push({ month, days: [day] });
+      }
+    });
+    return grouped;
+  }, [cashFlow.days]);
+
+  const handleSettingsChange = async (
+    changes: Parameters<typeof updateCashFlowSettings>[0]
+  ) => {
+    try {
+      await updateCashFlowSettings(changes);
+    } catch (error) {
+      console.error("Failed to update cash flow settings:", error);
+    }
+  };
+
+  const balanceClassName = (day: CashFlowDay) =>
+    day.isBelowBuffer
+      ? "text-red-600 dark:text-red-400"
+      : "text-gray-900 dark:text-gray-100";
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-8">
+      {/* Header Section */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">
+              Cash Flow Calendar
+            </h1>
+            <p className="mt-2 text-gray-600 dark:text-gray-300">
+              Your balance day by day, with income on its pay dates and bills on
+              their due dates - so you can see a dip before payday coming
+            </p>
+          </div>
+          <div className="flex gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Keep at Least
+              </label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={settings.buffer || ""}
+                onChange={(e) =>
+                  handleSettingsChange({
+                    buffer: parseFloat(e.target.value) || 0,
+                  })
+                }
+                className={inputClassName}
+                placeholder="0.00"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Show
+              </label>
+              <select
+                value={settings.horizonDays}
+                onChange={(e) =>
+                  handleSettingsChange({
+                    horizonDays: parseInt(e.target.value),
+                  })
+                }
+                className={inputClassName}
+              >
+                {HORIZON_OPTIONS.map((days) => (
+                  <option key={days} value={days}>
+                    Next {days} days
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Lowest Balance
+          </p>
+          <p
+            className={`text-2xl font-bold ${
+              cashFlow.lowestDay && cashFlow.lowestDay.isBelowBuffer
+                ? "text-red-600 dark:text-red-400"
+                : "text-gray-900 dark:text-gray-100"
+            }`}
+          >
+            {formatCurrency(cashFlow.lowestDay?.lowBalance ?? 0)}
+          </p>
+          {cashFlow.lowestDay && (
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              {formatDate(cashFlow.lowestDay.date)}
+            </p>
+          )}
+        </div>
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Days Below {formatCurrency(cashFlow.buffer)}
+          </p>
+          <p
+            className={`text-2xl font-bold ${
+              cashFlow.daysBelowBuffer.length > 0
+                ? "text-red-600 dark:text-red-400"
+                : "text-green-600 dark:text-green-400"
+            }`}
+          >
+            {cashFlow.daysBelowBuffer.length}
+          </p>
+        </div>
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Balance After {cashFlow.days.length} Days
+          </p>
+          <p className="text-2xl font-bold text-gray-900 dark:text-gray-100">
+            {formatCurrency(cashFlow.endingBalance)}
+          </p>
+        </div>
+      </div>
+
+      {/* Low-Balance Alerts */}
+      {cashFlow.monthlyLows.some((low) => low.balance < cashFlow.buffer) && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4 space-y-1">
+          {cashFlow.monthlyLows
+            .filter((low) => low.balance < cashFlow.buffer)
+            .map((low) => (
+              <p
+                key={low.month}
+                className="text-sm text-red-700 dark:text-red-300"
+              >
+                ⚠️ Balance drops to {formatCurrency(low.balance)} on{" "}
+                {formatDate(low.date)}
+                {low.endingBalance >= cashFlow.buffer &&
+                  ` - the month still ends at ${formatCurrency(
+                    low.endingBalance
+                  )}, so a bill is due before the money to pay it arrives`}
+              </p>
+            ))}
+        </div>
+      )}
+
+      {/* Calendar */}
+      {months.map(({ month, days }) => (
+        <div
+          key={month}
+          className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6"
+        >
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-4">
+            {parseDateOnly(`${month}-01`).toLocaleDateString(undefined, {
+              month: "long",
+              year: "numeric",
+            })}
+          </h2>
+          <div className="grid grid-cols-7 gap-1 text-xs">
+            {WEEKDAY_HEADERS.map((weekday) => (
+              <div
+                key={weekday}
+                className="py-1 text-center font-medium text-gray-500 dark:text-gray-400"
+              >
+                {weekday}
+              </div>
+            ))}
+            {Array.from({ length: parseDateOnly(days[0].date).getDay() }).map(
+              (_, index) => (
+                <div key={`empty-${index}`} />
+              )
+            )}
+            {days.map((day) => (
+              <button
+                key={day.date}
+                onClick={() => setSelectedDate(day.date)}
+                className={`min-h-20 p-1 rounded text-left border ${
+                  day.date === selectedDate
+                    ? "border-blue-500"
+                    : "border-gray-200 dark:border-gray-700"
+                } ${
+                  day.isBelowBuffer
+                    ? "bg-red-50 dark:bg-red-900/20"
+                    : "hover:bg-gray-50 dark:hover:bg-gray-700"
+                }`}
+              >
+                <div className="font-medium text-gray-700 dark:text-gray-300">
+                  {parseDateOnly(day.date).getDate()}
+                </div>
+                {day.inflow > 0 && (
+                  <div className="text-green-600 dark:text-green-400 truncate">
+                    +{formatCurrency(day.inflow)}
+                  </div>
+                )}
+                {day.outflow > 0 && (
+                  <div className="text-red-600 dark:text-red-400 truncate">
+                    −{formatCurrency(day.outflow)}
+                  </div>
+                )}
+                <div className={`truncate ${balanceClassName(day)}`}>
+                  {formatCurrency(day.endingBalance)}
+                </div>
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      {/* Selected Day */}
+      {selectedDay && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-4">
+            {formatDate(selectedDay.date)}
+          </h2>
+          {selectedDay.events.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Nothing comes in or goes out on this day
+            </p>
+          ) : (
+            <div className="divide-y divide-gray-200 dark:divide-gray-700">
+              {selectedDay.events.map((event, index) => (
+                <div
+                  key={`${event.id}-${index}`}
+                  className="py-2 flex justify-between text-sm"
+                >
+                  <span className="text-gray-900 dark:text-gray-100">
+                    {event.name}
+                    <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                      {event.type}
+                    </span>
+                  </span>
+                  <span
+                    className={
+                      event.amount >= 0
+                        ? "text-green-600 dark:text-green-400"
+                        : "text-red-600 dark:text-red-400"
+                    }
+                  >
+                    {formatCurrency(event.amount)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="mt-4 grid grid-cols-3 gap-4 text-sm">
+            <div>
+              <p className="text-gray-500 dark:text-gray-400">Start of Day</p>
+              <p className="font-medium text-gray-900 dark:text-gray-100">
+                {formatCurrency(selectedDay.startingBalance)}
+              </p>
+            </div>
+            <div>
+              <p className="text-gray-500 dark:text-gray-400">
+                Low Point (bills first)
+              </p>
+              <p className={`font-medium ${balanceClassName(selectedDay)}`}>
+                {formatCurrency(selectedDay.lowBalance)}
+              </p>
+            </div>
+            <div>
+              <p className="text-gray-500 dark:text-gray-400">End of Day</p>
+              <p className="font-medium text-gray-900 dark:text-gray-100">
+                {formatCurrency(selectedDay.endingBalance)}
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Starts from your current balance. Debt minimums are taken on the 1st;
+        goal contributions, sinking fund set-asides and transfers are left out
+        because they come from what is left at the end of the month. Bills with
+        a sinking fund are paid from what it already holds.
+      </p>
+
+      {/* Error Display */}
+      {state.error.generalError && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+          <p className="text-sm text-red-700 dark:text-red-300">
+            {state.error.generalError}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,558 @@
+"use client";
+
+import React, { useState, useRef, useEffect } from "react";
+import { useFinancialContext } from "@/context";
+import {
+  CompoundingFrequency,
+  CreateDebtInput,
+  Debt,
+  UpdateDebtInput,
+} from "@/types";
+import { useCurrency } from "@/context/CurrencyContext";
+import AccountSelect from "@/components/AccountSelect";
+import DebtPayoffPlanner from "@/components/DebtPayoffPlanner";
+import {
+  generateAmortizationSchedule,
+  getMonthlyInterestRate,
+} from "@/utils/debtCalculator";
+
+const emptyDebt = (): CreateDebtInput => ({
+  name: "",
+  balance: 0,
+  apr: 0,
+  compounding: CompoundingFrequency.MONTHLY,
+  minimumPayment: 0,
+  description: "",
+  isActive: true,
+});
+
+const getCompoundingLabel = (compounding: CompoundingFrequency) =>
+  compounding.charAt(0).toUpperCase() + compounding.slice(1);
+
+export default function DebtsPage() {
+  const { state, addDebt, updateDebt, deleteDebt, moveDebt } =
+    useFinancialContext();
+  const { formatCurrency } = useCurrency();
+
+  const debts = state.userPlan.debts || [];
+
+  const [isAddFormOpen, setIsAddFormOpen] = useState(false);
+  const [editingDebt, setEditingDebt] = useState<string | null>(null);
+  const [scheduleDebt, setScheduleDebt] = useState<string | null>(null);
+  const [formData, setFormData] = useState<CreateDebtInput>(emptyDebt());
+
+  // Form ref for auto-scroll
+  const formRef = useRef<HTMLDivElement>(null);
+
+  // Auto-scroll to form when editing starts
+  useEffect(() => {
+    if (isAddFormOpen && formRef.current) {
+      formRef.current.scrollIntoView({
+        behavior: "smooth",
+        block: "start",
+      });
+    }
+  }, [isAddFormOpen]);
+
+  const handleInputChange = (
+    field: keyof CreateDebtInput,
+    value: string | number | boolean | CompoundingFrequency
+  ) => {
+    setFormData((prev) => ({
+      ...prev,
+      [field]: value,
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      if (editingDebt) {
+        const updateData: UpdateDebtInput = {
+          id: editingDebt,
+          ...formData,
+        };
+        await updateDebt(updateData);
+      } else {
+        await addDebt(formData);
+      }
+      handleCancel();
+    } catch (error) {
+      console.error("Failed to save debt:", error);
+    }
+  };
+
+  const handleEdit = (debt: Debt) => {
+    setFormData({
+      name: debt.name,
+      balance: debt.balance,
+      apr: debt.apr,
+      compounding: debt.compounding,
+      minimumPayment: debt.minimumPayment,
+      accountId: debt.accountId,
+      description: debt.description || "",
+      isActive: debt.isActive,
+    });
+    setEditingDebt(debt.id);
+    setIsAddFormOpen(true);
+  };
+
+  const handleDelete = async (debtId: string) => {
+    if (window.confirm("Are you sure you want to delete this debt?")) {
+      try {
+        await deleteDebt(debtId);
+      } catch (error) {
+        console.error("Failed to delete debt:", error);
+      }
+    }
+  };
+
+  const handleCancel = () => {
+    setIsAddFormOpen(false);
+    setEditingDebt(null);
+    setFormData(emptyDebt());
+  };
+
+  const activeDebts = debts.filter((debt) => debt.isActive);
+  const totalBalance = activeDebts.reduce((sum, debt) => sum + debt.balance, 0);
+  const totalMinimums = activeDebts.reduce(
+    (sum, debt) => sum + debt.minimumPayment,
+    0
+  );
+
+  // Minimum payments that don't even cover the first month's interest
+  const coversInterest = (
+    debt: Pick<Debt, "balance" | "apr" | "compounding">
+  ) => debt.balance * getMonthlyInterestRate(debt.apr, debt.compounding);
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-8">
+      {/* Header Section */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+        <div className="flex justify-between items-start">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">
+              Debts
+            </h1>
+            <p className="mt-2 text-gray-600 dark:text-gray-300">
+              Track loan balances and plan the fastest way to pay them off
+            </p>
+          </div>
+
+          <div className="text-right">
+            <div className="text-sm text-gray-500 dark:text-gray-400">
+              Total Owed
+            </div>
+            <div className="text-2xl font-bold text-red-600 dark:text-red-400">
+              {formatCurrency(totalBalance)}
+            </div>
+            <div className="text-sm text-gray-500 dark:text-gray-400">
+              {formatCurrency(totalMinimums)} minimum / month
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Add Debt Button */}
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+          Your Debts
+        </h2>
+        <button
+          onClick={() => setIsAddFormOpen(true)}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-2"
+        >
+          <svg
+            className="w-5 h-5"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M12 4v16m8-8H4"
+            />
+          </svg>
+          Add Debt
+        </button>
+      </div>
+
+      {/* Add/Edit Form */}
+      {isAddFormOpen && (
+        <div
+          ref={formRef}
+          className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border-2 border-blue-200 dark:border-blue-800"
+        >
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">
+            {editingDebt ? "Edit Debt" : "Add New Debt"}
+          </h3>
+
+          <form
+            onSubmit={handleSubmit}
+            className="grid grid-cols-1 md:grid-cols-2 gap-6"
+          >
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Debt Name *
+              </label>
+              <input
+                type="text"
+                required
+                value={formData.name}
+                onChange={(e) => handleInputChange("name", e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-gray-100"
+                placeholder="e.g., Car loan, Visa card"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Current Balance *
+              </label>
+              <input
+                type="number"
+                required
+                min="0"
+                step="0.01"
+                value={formData.balance === 0 ? "" : formData.balance}
+                onChange={(e) =>
+                  handleInputChange("balance", parseFloat(e.target.value) || 0)
+                }
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-gray-100"
+                placeholder="0.00"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                APR (%) *
+              </label>
+              <input
+                type="number"
+                required
+                min="0"
+                step="0.01"
+                value={formData.apr === 0 ? "" : formData.apr}
+                onChange={(e) =>
+                  handleInputChange("apr", parseFloat(e.target.value) || 0)
+                }
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-gray-100"
+                placeholder="e.g., 19.99"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Compounding *
+              </label>
+              <select
+                required
+                value={formData.compounding}
+                onChange={(e) =>
+                  handleInputChange(
+                    "compounding",
+                    e.target.value as CompoundingFrequency
+                  )
+                }
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-gray-100"
+              >
+                {Object.values(CompoundingFrequency).map((compounding) => (
+                  <option key={compounding} value={compounding}>
+                    {getCompoundingLabel(compounding)}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Minimum Monthly Payment *
+              </label>
+              <input
+                type="number"
+                required
+                min="0"
+                step="0.01"
+                value={
+                  formData.minimumPayment === 0 ? "" : formData.minimumPayment
+                }
+                onChange={(e) =>
+                  handleInputChange(
+                    "minimumPayment",
+                    parseFloat(e.target.value) || 0
+                  )
+                }
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-gray-100"
+                placeholder="0.00"
+              />
+              {formData.balance > 0 &&
+                formData.minimumPayment <= coversInterest(formData) && (
+                  <p className="text-xs text-red-600 mt-1">
+                    This doesn&apos;t cover the monthly interest of{" "}
+                    {formatCurrency(coversInterest(formData))}
+                  </p>
+                )}
+            </div>
+
+            <AccountSelect
+              label="Paid From"
+              value={formData.accountId}
+              onChange={(accountId) =>
+                setFormData((prev) => ({ ...prev, accountId }))
+              }
+            />
+
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Description
+              </label>
+              <textarea
+                value={formData.description}
+                onChange={(e) =>
+                  handleInputChange("description", e.target.value)
+                }
+                rows={2}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-gray-100"
+                placeholder="Lender, term, notes..."
+              />
+            </div>
+
+            <div className="md:col-span-2">
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={formData.isActive}
+                  onChange={(e) =>
+                    handleInputChange("isActive", e.target.checked)
+                  }
+                  className="rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
+                />
+                <span className="ml-2 text-sm text-gray-700 dark:text-gray-300">
+                  Include in forecast
+                </span>
+              </label>
+            </div>
+
+            <div className="md:col-span-2 flex gap-3">
+              <button
+                type="submit"
+                className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                {editingDebt ? "Update Debt" : "Add Debt"}
+              </button>
+              <button
+                type="button"
+                onClick={handleCancel}
+                className="bg-gray-300 dark:bg-gray-600 text-gray-700 dark:text-gray-300 px-6 py-2 rounded-lg hover:bg-gray-400 dark:hover:bg-gray-500 transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {/* Debt List */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm">
+        {debts.length === 0 ? (
+          <div className="p-12 text-center">
+            <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-2">
+              No debts tracked
+            </h3>
+            <p className="text-gray-500 dark:text-gray-400 mb-4">
+              Add loans and credit cards to see payoff dates and compare payoff
+              strategies
+            </p>
+            <button
+              onClick={() => setIsAddFormOpen(true)}
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Add Your First Debt
+            </button>
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-200 dark:divide-gray-700">
+            {debts.map((debt, index) => {
+              const schedule =
+                scheduleDebt === debt.id
+                  ? generateAmortizationSchedule(debt)
+                  : [];
+
+              return (
+                <div
+                  key={debt.id}
+                  className={`p-6 ${debt.isActive ? "" : "opacity-60"}`}
+                >
+                  <div className="flex justify-between items-start">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-3 mb-2">
+                        <span className="text-sm text-gray-400">
+                          {index + 1}.
+                        </span>
+                        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+                          {debt.name}
+                        </h3>
+                        <span className="px-2 py-1 text-xs rounded-full bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200">
+                          {debt.apr}% APR
+                        </span>
+                      </div>
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <div>
+                          <div className="text-sm text-gray-500 dark:text-gray-400">
+                            Balance
+                          </div>
+                          <div className="text-lg font-medium text-gray-900 dark:text-gray-100">
+                            {formatCurrency(debt.balance)}
+                          </div>
+                        </div>
+                        <div>
+                          <div className="text-sm text-gray-500 dark:text-gray-400">
+                            Minimum Payment
+                          </div>
+                          <div className="text-lg font-medium text-gray-900 dark:text-gray-100">
+                            {formatCurrency(debt.minimumPayment)}
+                          </div>
+                        </div>
+                        <div>
+                          <div className="text-sm text-gray-500 dark:text-gray-400">
+                            Compounding
+                          </div>
+                          <div className="text-lg font-medium text-gray-900 dark:text-gray-100">
+                            {getCompoundingLabel(debt.compounding)}
+                          </div>
+                        </div>
+                      </div>
+                      {debt.description && (
+                        <p className="text-gray-600 dark:text-gray-300 text-sm mt-2">
+                          {debt.description}
+                        </p>
+                      )}
+                    </div>
+
+                    <div className="flex gap-1 ml-4 text-sm">
+                      <button
+                        onClick={() => moveDebt(debt.id, "up")}
+                        disabled={index === 0}
+                        className="px-2 py-1 text-gray-400 hover:text-blue-600 disabled:opacity-30"
+                        title="Move up in custom payoff order"
+                      >
+                        ↑
+                      </button>
+                      <button
+                        onClick={() => moveDebt(debt.id, "down")}
+                        disabled={index === debts.length - 1}
+                        className="px-2 py-1 text-gray-400 hover:text-blue-600 disabled:opacity-30"
+                        title="Move down in custom payoff order"
+                      >
+                        ↓
+                      </button>
+                      <button
+                        onClick={() =>
+                          setScheduleDebt(
+                            scheduleDebt === debt.id ? null : debt.id
+                          )
+                        }
+                        className="px-2 py-1 text-gray-400 hover:text-blue-600"
+                      >
+                        Schedule
+                      </button>
+                      <button
+                        onClick={() => handleEdit(debt)}
+                        className="px-2 py-1 text-gray-400 hover:text-blue-600"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleDelete(debt.id)}
+                        className="px-2 py-1 text-gray-400 hover:text-red-600"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+
+                  {/* Amortization Schedule */}
+                  {scheduleDebt === debt.id && (
+                    <div className="mt-4 max-h-80 overflow-y-auto">
+                      <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">
+                        Paying the minimum only:{" "}
+                        {schedule.length > 0 &&
+                        schedule[schedule.length - 1].balance <= 0.005
+                          ? `paid off in ${
+                              schedule.length
+                            } months, ${formatCurrency(
+                              schedule.reduce(
+                                (sum, row) => sum + row.interest,
+                                0
+                              )
+                            )} interest`
+                          : "never paid off at this payment"}
+                      </p>
+                      <table className="w-full text-sm">
+                        <thead className="bg-gray-50 dark:bg-gray-700 sticky top-0">
+                          <tr>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                              Month
+                            </th>
+                            <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                              Payment
+                            </th>
+                            <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                              Interest
+                            </th>
+                            <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                              Principal
+                            </th>
+                            <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                              Balance
+                            </th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200 dark:divide-gray-600">
+                          {schedule.map((row) => (
+                            <tr key={row.month}>
+                              <td className="px-3 py-1 text-gray-900 dark:text-gray-100">
+                                {row.month}
+                              </td>
+                              <td className="px-3 py-1 text-right text-gray-900 dark:text-gray-100">
+                                {formatCurrency(row.payment)}
+                              </td>
+                              <td className="px-3 py-1 text-right text-red-600 dark:text-red-400">
+                                {formatCurrency(row.interest)}
+                              </td>
+                              <td className="px-3 py-1 text-right text-green-600 dark:text-green-400">
+                                {formatCurrency(row.principal)}
+                              </td>
+                              <td className="px-3 py-1 text-right text-gray-900 dark:text-gray-100">
+                                {formatCurrency(row.balance)}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Payoff Planner */}
+      <DebtPayoffPlanner />
+
+      {/* Error Display */}
+      {state.error.debtError && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+          <p className="text-sm text-red-700 dark:text-red-300">
+            {state.error.debtError}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
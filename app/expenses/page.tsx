@@ -1,26 +1,56 @@
 "use client";
 
-import React, { useState, useRef, useEffect } from "react";
+import React, { useState, useRef, useEffect, useCallback } from "react";
 import { useFinancialState, useFinancialActions } from "@/context";
 import {
   Frequency,
   ExpenseCategory,
+  ExpenseCategoryId,
   Priority,
   CreateExpenseInput,
   UpdateExpenseInput,
+  SplitRule,
+  RecurrenceRule,
+  SinkingFund,
 } from "@/types";
 import { useCurrency } from "@/context/CurrencyContext";
+import AccountSelect from "@/components/AccountSelect";
+import CurrencySelect from "@/components/CurrencySelect";
+import MemberSelect from "@/components/MemberSelect";
+import SplitSharesInput from "@/components/SplitSharesInput";
+import { SPLIT_RULE_LABELS } from "@/utils/household";
+import UndoToast from "@/components/UndoToast";
+import CategoryOptions from "@/components/CategoryOptions";
+import CategoryManager from "@/components/CategoryManager";
+import RecurrenceInput from "@/components/RecurrenceInput";
+import SinkingFundStatusLine from "@/components/SinkingFundStatusLine";
+import { convertPlanToBaseCurrency } from "@/utils/exchangeRates";
+import {
+  getCategories,
+  getCategoryIcon as getIconForCategory,
+  getCategoryName,
+  getDescendantIds,
+} from "@/utils/categories";
+import {
+  describeRecurrence,
+  getAverageMonthlyOccurrences,
+} from "@/utils/recurrence";
 
 export default function ExpensesPage() {
   const state = useFinancialState();
   const { addExpense, updateExpense, deleteExpense } = useFinancialActions();
-  const { formatCurrency } = useCurrency();
+  const { formatCurrency, formatAmount } = useCurrency();
+  const householdMembers = state.userPlan.householdMembers || [];
 
   const [isAddFormOpen, setIsAddFormOpen] = useState(false);
   const [editingExpense, setEditingExpense] = useState<string | null>(null);
+  const [undoMessage, setUndoMessage] = useState<string | null>(null);
+  const dismissUndo = useCallback(() => setUndoMessage(null), []);
   const [selectedCategory, setSelectedCategory] = useState<
-    ExpenseCategory | "all"
+    ExpenseCategoryId | "all"
   >("all");
+  const [isCategoryManagerOpen, setIsCategoryManagerOpen] = useState(false);
+  const categories = getCategories(state.userPlan);
 
   // Form ref for auto-scroll
   const formRef = useRef<HTMLDivElement>(null);
@@ -51,7 +81,7 @@ export default function ExpensesPage() {
 
   const handleInputChange = (
     field: keyof CreateExpenseInput,
-    value: string | number | boolean | Frequency | ExpenseCategory | Priority
+    value: string | number | boolean | Frequency | ExpenseCategoryId | Priority
   ) => {
     setFormData((prev) => {
       const newData = {
@@ -116,8 +146,9 @@ export default function ExpensesPage() {
     id: string;
     name: string;
     amount: number;
-    category: ExpenseCategory;
+    category: ExpenseCategoryId;
     frequency?: Frequency;
+    recurrence?: RecurrenceRule;
     description?: string;
     dueDate: string;
     recurring: boolean;
@@ -126,12 +157,19 @@ export default function ExpensesPage() {
     isInstallment?: boolean;
     installmentMonths?: number;
     installmentStartMonth?: string;
+    accountId?: string;
+    currency?: string;
+    ownerId?: string;
+    splitRule?: SplitRule;
+    splitShares?: Record<string, number>;
+    sinkingFund?: SinkingFund;
   }) => {
     setFormData({
       name: expense.name,
       amount: expense.amount,
       category: expense.category,
       frequency: expense.frequency || Frequency.MONTHLY,
+      recurrence: expense.recurrence,
       description: expense.description || "",
       dueDate: expense.dueDate ? expense.dueDate.split("T")[0] : "",
       recurring: expense.recurring,
@@ -140,18 +178,24 @@ export default function ExpensesPage() {
       isInstallment: expense.isInstallment || false,
       installmentMonths: expense.installmentMonths || 1,
       installmentStartMonth: expense.installmentStartMonth || "",
+      accountId: expense.accountId,
+      currency: expense.currency,
+      ownerId: expense.ownerId,
+      splitRule: expense.splitRule,
+      splitShares: expense.splitShares,
+      sinkingFund: expense.sinkingFund,
     });
     setEditingExpense(expense.id);
     setIsAddFormOpen(true);
   };
 
   const handleDelete = async (expenseId: string) => {
-    if (window.confirm("Are you sure you want to delete this expense?")) {
-      try {
-        await deleteExpense(expenseId);
-      } catch (error) {
-        console.error("Failed to delete expense:", error);
-      }
+    const expense = state.userPlan.expenses.find((e) => e.id === expenseId);
+    try {
+      await deleteExpense(expenseId);
+      setUndoMessage(`Deleted "${expense?.name || "expense"}"`);
+    } catch (error) {
+      console.error("Failed to delete expense:", error);
     }
   };
 
@@ -174,12 +218,8 @@ export default function ExpensesPage() {
     });
   };
 
-  const getCategoryLabel = (category: ExpenseCategory) => {
-    return category
-      .split("_")
-      .map((word) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
-      .join(" ");
-  };
+  const getCategoryLabel = (category: ExpenseCategoryId) =>
+    getCategoryName(categories, category);
 
   const getFrequencyLabel = (frequency: Frequency) => {
     return (
@@ -191,6 +231,8 @@ export default function ExpensesPage() {
   const calculateMonthlyAmount = (expense: {
     amount: number;
     frequency?: Frequency;
+    recurrence?: RecurrenceRule;
+    dueDate: string;
     isInstallment?: boolean;
     installmentMonths?: number;
   }) => {
@@ -199,6 +241,14 @@ export default function ExpensesPage() {
       return expense.amount / expense.installmentMonths;
     }
 
+    // A recurrence rule averages its payments over the year
+    if (expense.recurrence) {
+      return (
+        expense.amount *
+        getAverageMonthlyOccurrences(expense.recurrence, expense.dueDate)
+      );
+    }
+
     if (!expense.frequency) return 0;
 
     switch (expense.frequency) {
@@ -221,24 +271,32 @@ export default function ExpensesPage() {
     }
   };
 
+  // A category's filter includes its sub-categories
+  const selectedCategoryIds =
+    selectedCategory === "all"
+      ? []
+      : [selectedCategory, ...getDescendantIds(categories, selectedCategory)];
   const filteredExpenses =
     selectedCategory === "all"
       ? state.userPlan.expenses
-      : state.userPlan.expenses.filter(
-          (expense) => expense.category === selectedCategory
+      : state.userPlan.expenses.filter((expense) =>
+          selectedCategoryIds.includes(expense.category)
         );
 
-  const totalMonthlyExpenses = state.userPlan.expenses
+  // Totals are in the base currency
+  const baseExpenses = convertPlanToBaseCurrency(state.userPlan).expenses;
+
+  const totalMonthlyExpenses = baseExpenses
     .filter((expense) => expense.isActive)
     .reduce((total, expense) => total + calculateMonthlyAmount(expense), 0);
 
-  const expensesByCategory = Object.values(ExpenseCategory)
-    .map((category) => ({
+  const expensesByCategory = categories
+    .map(({ id: category }) => ({
       category,
       count: state.userPlan.expenses.filter(
         (expense) => expense.category === category && expense.isActive
       ).length,
-      total: state.userPlan.expenses
+      total: baseExpenses
         .filter((expense) => expense.category === category && expense.isActive)
         .reduce((sum, expense) => sum + calculateMonthlyAmount(expense), 0),
     }))
@@ -248,42 +306,8 @@ export default function ExpensesPage() {
     (expense) => expense.recurring && expense.isActive
   );
 
-  const getCategoryIcon = (category: ExpenseCategory) => {
-    switch (category) {
-      case ExpenseCategory.HOUSING:
-        return "🏠";
-      case ExpenseCategory.FOOD:
-        return "🍽️";
-      case ExpenseCategory.TRANSPORTATION:
-        return "🚗";
-      case ExpenseCategory.UTILITIES:
-        return "⚡";
-      case ExpenseCategory.HEALTHCARE:
-        return "🏥";
-      case ExpenseCategory.ENTERTAINMENT:
-        return "🎬";
-      case ExpenseCategory.PERSONAL_CARE:
-        return "💄";
-      case ExpenseCategory.EDUCATION:
-        return "📚";
-      case ExpenseCategory.SAVINGS:
-        return "💰";
-      case ExpenseCategory.DEBT_PAYMENTS:
-        return "💳";
-      case ExpenseCategory.INSURANCE:
-        return "🛡️";
-      case ExpenseCategory.TRAVEL:
-        return "✈️";
-      case ExpenseCategory.SHOPPING:
-        return "🛍️";
-      case ExpenseCategory.KIDS:
-        return "👶";
-      case ExpenseCategory.MISCELLANEOUS:
-        return "📦";
-      default:
-        return "📦";
-    }
-  };
+  const getCategoryIcon = (category: ExpenseCategoryId) =>
+    getIconForCategory(categories, category);
 
   return (
     <div className="max-w-6xl mx-auto space-y-8">
@@ -438,17 +462,19 @@ export default function ExpensesPage() {
           <select
             value={selectedCategory}
             onChange={(e) =>
-              setSelectedCategory(e.target.value as ExpenseCategory | "all")
+              setSelectedCategory(e.target.value as ExpenseCategoryId | "all")
             }
             className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-gray-100"
           >
             <option value="all">All Categories</option>
-            {Object.values(ExpenseCategory).map((category) => (
-              <option key={category} value={category}>
-                {getCategoryIcon(category)} {getCategoryLabel(category)}
-              </option>
-            ))}
+            <CategoryOptions showIcons />
           </select>
+          <button
+            onClick={() => setIsCategoryManagerOpen(!isCategoryManagerOpen)}
+            className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            {isCategoryManagerOpen ? "Hide categories" : "Manage categories"}
+          </button>
         </div>
 
         <button
@@ -472,6 +498,9 @@ export default function ExpensesPage() {
         </button>
       </div>
 
+      {/* Category Manager */}
+      {isCategoryManagerOpen && <CategoryManager />}
+
       {/* Add/Edit Form */}
       {isAddFormOpen && (
         <div
@@ -537,19 +566,10 @@ export default function ExpensesPage() {
               <select
                 required
                 value={formData.category}
-                onChange={(e) =>
-                  handleInputChange(
-                    "category",
-                    e.target.value as ExpenseCategory
-                  )
-                }
+                onChange={(e) => handleInputChange("category", e.target.value)}
                 className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-gray-100"
               >
-                {Object.values(ExpenseCategory).map((category) => (
-                  <option key={category} value={category}>
-                    {getCategoryIcon(category)} {getCategoryLabel(category)}
-                  </option>
-                ))}
+                <CategoryOptions showIcons />
               </select>
             </div>
 
@@ -622,6 +642,75 @@ export default function ExpensesPage() {
               </div>
             )}
 
+            {formData.recurring && (
+              <RecurrenceInput
+                value={formData.recurrence}
+                start={formData.dueDate}
+                onChange={(recurrence) =>
+                  setFormData((prev) => ({ ...prev, recurrence }))
+                }
+              />
+            )}
+
+            {/* Yearly and quarterly bills can be saved for month by month */}
+            {formData.recurring &&
+              !formData.recurrence &&
+              !formData.isInstallment &&
+              (formData.frequency === Frequency.YEARLY ||
+                formData.frequency === Frequency.QUARTERLY) && (
+                <div className="md:col-span-2 grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <label className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={!!formData.sinkingFund}
+                      onChange={(e) =>
+                        setFormData((prev) => ({
+                          ...prev,
+                          sinkingFund: e.target.checked
+                            ? { balance: 0 }
+                            : undefined,
+                        }))
+                      }
+                      className="rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
+                    />
+                    <span className="ml-2 text-sm text-gray-700 dark:text-gray-300">
+                      Sinking fund - set aside{" "}
+                      {formatAmount(
+                        calculateMonthlyAmount(formData),
+                        formData.currency
+                      )}{" "}
+                      a month and pay the bill from it
+                    </span>
+                  </label>
+                  {formData.sinkingFund && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                        Already Saved
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={formData.sinkingFund.balance || ""}
+                        onChange={(e) =>
+                          setFormData((prev) => ({
+                            ...prev,
+                            sinkingFund: {
+                              balance: Math.max(
+                                0,
+                                parseFloat(e.target.value) || 0
+                              ),
+                            },
+                          }))
+                        }
+                        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-gray-100"
+                        placeholder="0.00"
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+
             <div className="md:col-span-2">
               <label className="flex items-center">
                 <input
@@ -676,6 +765,64 @@ export default function ExpensesPage() {
               </>
             )}
 
+            <CurrencySelect
+              value={formData.currency}
+              onChange={(currency) =>
+                setFormData((prev) => ({ ...prev, currency }))
+              }
+            />
+
+            <AccountSelect
+              label="Paid From"
+              value={formData.accountId}
+              onChange={(accountId) =>
+                setFormData((prev) => ({ ...prev, accountId }))
+              }
+            />
+
+            <MemberSelect
+              label="Paid By"
+              jointLabel="Shared"
+              value={formData.ownerId}
+              onChange={(ownerId) =>
+                setFormData((prev) => ({ ...prev, ownerId }))
+              }
+            />
+
+            {householdMembers.length > 0 && !formData.ownerId && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Split
+                </label>
+                <select
+                  value={formData.splitRule || ""}
+                  onChange={(e) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      splitRule: (e.target.value as SplitRule) || undefined,
+                    }))
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-gray-100"
+                >
+                  <option value="">Household rule</option>
+                  {Object.values(SplitRule).map((rule) => (
+                    <option key={rule} value={rule}>
+                      {SPLIT_RULE_LABELS[rule]}
+                    </option>
+                  ))}
+                </select>
+                {formData.splitRule === SplitRule.FIXED && (
+                  <SplitSharesInput
+                    members={householdMembers}
+                    shares={formData.splitShares || {}}
+                    onChange={(splitShares) =>
+                      setFormData((prev) => ({ ...prev, splitShares }))
+                    }
+                  />
+                )}
+              </div>
+            )}
+
             <div className="md:col-span-2">
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                 Description
@@ -749,14 +896,14 @@ export default function ExpensesPage() {
               {selectedCategory === "all"
                 ? "No expenses yet"
                 : `No ${getCategoryLabel(
-                    selectedCategory as ExpenseCategory
+                    selectedCategory
                   ).toLowerCase()} expenses`}
             </h3>
             <p className="text-gray-500 dark:text-gray-400 mb-4">
               {selectedCategory === "all"
                 ? "Start by adding your first expense to track your spending"
                 : `Add your first ${getCategoryLabel(
-                    selectedCategory as ExpenseCategory
+                    selectedCategory
                   ).toLowerCase()} expense`}
             </p>
             <button
@@ -836,28 +983,39 @@ export default function ExpensesPage() {
                           Amount
                         </div>
                         <div className="text-lg font-medium text-gray-900 dark:text-gray-100">
-                          {formatCurrency(expense.amount)}{" "}
-                          {expense.frequency && (
+                          {formatAmount(expense.amount, expense.currency)}{" "}
+                          {expense.recurring && expense.recurrence ? (
                             <span className="text-sm text-gray-500">
-                              / {getFrequencyLabel(expense.frequency)}
+                              {describeRecurrence(expense.recurrence)}
                             </span>
+                          ) : (
+                            expense.frequency && (
+                              <span className="text-sm text-gray-500">
+                                / {getFrequencyLabel(expense.frequency)}
+                              </span>
+                            )
                           )}
                         </div>
                         {expense.isInstallment && (
                           <div className="text-sm text-gray-500 dark:text-gray-400">
-                            {formatCurrency(
-                              expense.amount / (expense.installmentMonths || 1)
+                            {formatAmount(
+                              expense.amount / (expense.installmentMonths || 1),
+                              expense.currency
                             )}{" "}
                             per month
                           </div>
                         )}
+                        <SinkingFundStatusLine expense={expense} />
                       </div>
                       <div>
                         <div className="text-sm text-gray-500 dark:text-gray-400">
                           Monthly Equivalent
                         </div>
                         <div className="text-lg font-medium text-red-600 dark:text-red-400">
-                          {formatCurrency(calculateMonthlyAmount(expense))}
+                          {formatAmount(
+                            calculateMonthlyAmount(expense),
+                            expense.currency
+                          )}
                         </div>
                       </div>
                       <div>
@@ -974,6 +1132,8 @@ export default function ExpensesPage() {
           </div>
         </div>
       )}
+
+      <UndoToast message={undoMessage} onDismiss={dismissUndo} />
     </div>
   );
 }
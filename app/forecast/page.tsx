@@ -11,6 +11,18 @@ import { useCurrency } from "@/context/CurrencyContext";
 import { useLanguage } from "@/context/LanguageContext";
 import { formatDateWithTranslations } from "@/utils/dateFormatting";
 import { ForecastConfig } from "@/types";
+import ScenarioComparison from "@/components/ScenarioComparison";
+import AccountBalanceForecast from "@/components/AccountBalanceForecast";
+import MonteCarloPanel from "@/components/MonteCarloPanel";
+import InflationSettingsPanel from "@/components/InflationSettingsPanel";
+import HouseholdViewSelect from "@/components/HouseholdViewSelect";
+import {
+  HOUSEHOLD_VIEW_ALL,
+  HouseholdView,
+  getHouseholdViewPlan,
+  getHouseholdViewShare,
+} from "@/utils/household";
+import { convertPlanToBaseCurrency } from "@/utils/exchangeRates";
 
 export default function ForecastPage() {
   const { state, updateForecastConfig } = useFinancialContext();
@@ -26,12 +38,15 @@ export default function ForecastPage() {
       updatedAt: new Date().toISOString(),
     }
   );
-  const [selectedView, setSelectedView] = useState<"table" | "chart" | "goals">(
-    "table"
-  );
+  const [selectedView, setSelectedView] = useState<
+    "table" | "chart" | "goals" | "accounts" | "scenarios"
+  >("table");
   const [isRecalculating, setIsRecalculating] = useState(false);
   const [showResetConfirmation, setShowResetConfirmation] = useState(false);
   const [isAutoRecalculating, setIsAutoRecalculating] = useState(false);
+  const [showMonteCarlo, setShowMonteCarlo] = useState(false);
+  const [householdView, setHouseholdView] =
+    useState<HouseholdView>(HOUSEHOLD_VIEW_ALL);
 
   // Convert persistent config to utils config
   const convertToUtilsConfig = (
@@ -45,6 +60,7 @@ export default function ForecastPage() {
         : undefined,
       includeGoalContributions: config.includeGoalContributions,
       conservativeMode: config.conservativeMode,
+      todaysMoney: config.showTodaysMoney,
     };
   };
 
@@ -106,15 +122,39 @@ export default function ForecastPage() {
     }
   };
 
+  // Plan and config the forecasts run on. A member's view starts from their
+  // share of the balance. Shares are worked out in the base currency.
+  const forecastInput = useMemo(() => {
+    if (!state.userPlan) return null;
+
+    const config = convertToUtilsConfig(localConfig);
+    const userPlan = convertPlanToBaseCurrency(
+      state.userPlan,
+      config.startDate || new Date()
+    );
+    return {
+      userPlan: getHouseholdViewPlan(userPlan, householdView),
+      config: {
+        ...config,
+        startingBalance:
+          (config.startingBalance || 0) *
+          getHouseholdViewShare(userPlan, householdView),
+      },
+    };
+  }, [state.userPlan, localConfig, householdView]);
+
   // Generate forecast when data or config changes
   const forecastResult: ForecastResult = useMemo(() => {
-    if (!state.userPlan)
+    if (!forecastInput)
       return {
         monthlyForecasts: [],
         summary: {
           totalIncome: 0,
           totalExpenses: 0,
           totalGoalContributions: 0,
+          totalGoalGrowth: 0,
+          totalDebtPayments: 0,
+          totalDebtInterest: 0,
           finalBalance: 0,
           averageMonthlyIncome: 0,
           averageMonthlyExpenses: 0,
@@ -122,12 +162,24 @@ export default function ForecastPage() {
           lowestBalance: 0,
           highestBalance: 0,
           monthsWithNegativeBalance: 0,
+          accountsWithNegativeBalance: 0,
         },
         goalProgress: [],
+        debtProgress: [],
+        sinkingFundProgress: [],
+        accountProjections: [],
       };
 
-    return generateForecast(state.userPlan, convertToUtilsConfig(localConfig));
-  }, [state.userPlan, localConfig]);
+    return generateForecast(forecastInput.userPlan, forecastInput.config);
+  }, [forecastInput]);
+
+  const hasDebts = forecastResult.debtProgress.length > 0;
+
+  // Utils config shared with the scenario comparison view
+  const utilsConfig = useMemo(
+    () => convertToUtilsConfig(localConfig),
+    [localConfig]
+  );
 
   // Auto-recalculation effect
   useEffect(() => {
@@ -185,9 +237,15 @@ export default function ForecastPage() {
         <div className="space-y-6">
           {/* Title Section */}
           <div>
-            <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">
-              📈 Financial Forecast
-            </h1>
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">
+                📈 Financial Forecast
+              </h1>
+              <HouseholdViewSelect
+                value={householdView}
+                onChange={setHouseholdView}
+              />
+            </div>
             <p className="mt-2 text-gray-600 dark:text-gray-300">
               Financial projections based on your current income, expenses, and
               goals. Choose your start date and forecast period.
@@ -337,6 +395,8 @@ export default function ForecastPage() {
               </div>
             </div>
 
+            <InflationSettingsPanel />
+
             {/* Row 3: Toggle Options */}
             <div className="flex flex-col sm:flex-row gap-4">
               <div className="flex items-center gap-3">
@@ -378,6 +438,43 @@ export default function ForecastPage() {
                   Include Goals
                 </label>
               </div>
+
+              <div className="flex items-center gap-3">
+                <input
+                  type="checkbox"
+                  id="showTodaysMoney"
+                  checked={localConfig.showTodaysMoney || false}
+                  onChange={(e) =>
+                    updateConfig({
+                      showTodaysMoney: e.target.checked,
+                    })
+                  }
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <label
+                  htmlFor="showTodaysMoney"
+                  className="text-sm font-medium text-gray-700 dark:text-gray-300"
+                  title="Deflate future amounts by the general inflation rate"
+                >
+                  Today&apos;s Money
+                </label>
+              </div>
+
+              <div className="flex items-center gap-3">
+                <input
+                  type="checkbox"
+                  id="monteCarlo"
+                  checked={showMonteCarlo}
+                  onChange={(e) => setShowMonteCarlo(e.target.checked)}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <label
+                  htmlFor="monteCarlo"
+                  className="text-sm font-medium text-gray-700 dark:text-gray-300"
+                >
+                  Monte Carlo Bands
+                </label>
+              </div>
             </div>
           </div>
         </div>
@@ -517,11 +614,47 @@ export default function ForecastPage() {
             </div>
           </div>
           <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
-            Toward your goals
+            {forecastResult.summary.totalGoalGrowth !== 0
+              ? `${
+                  forecastResult.summary.totalGoalGrowth > 0 ? "+" : ""
+                }${formatCurrency(
+                  forecastResult.summary.totalGoalGrowth
+                )} investment growth`
+              : "Toward your goals"}
           </p>
         </div>
       </div>
 
+      {/* Overdrawn Account Warning */}
+      {forecastResult.summary.accountsWithNegativeBalance > 0 && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+          <p className="text-sm font-medium text-red-800 dark:text-red-200">
+            {forecastResult.accountProjections
+              .filter((account) => account.goesNegative)
+              .map(
+                (account) =>
+                  `${account.name} goes negative in ${formatMonth(
+                    account.firstNegativeMonth as string
+                  )}`
+              )
+              .join("; ")}
+            {forecastResult.summary.monthsWithNegativeBalance === 0 &&
+              " even though your total balance stays positive"}
+            . Consider adding a transfer between accounts.
+          </p>
+        </div>
+      )}
+
+      {/* Monte Carlo Bands */}
+      {showMonteCarlo && forecastInput && (
+        <MonteCarloPanel
+          userPlan={forecastInput.userPlan}
+          config={forecastInput.config}
+          forecastResult={forecastResult}
+          formatMonth={formatMonth}
+        />
+      )}
+
       {/* View Selector */}
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
         <div className="flex items-center justify-between">
@@ -559,6 +692,26 @@ export default function ForecastPage() {
             >
               Goal Progress
             </button>
+            <button
+              onClick={() => setSelectedView("accounts")}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                selectedView === "accounts"
+                  ? "bg-blue-600 text-white"
+                  : "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+              }`}
+            >
+              Accounts
+            </button>
+            <button
+              onClick={() => setSelectedView("scenarios")}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                selectedView === "scenarios"
+                  ? "bg-blue-600 text-white"
+                  : "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+              }`}
+            >
+              Scenarios
+            </button>
           </div>
         </div>
       </div>
@@ -582,6 +735,11 @@ export default function ForecastPage() {
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
                     Expenses
                   </th>
+                  {hasDebts && (
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      Debt Payments
+                    </th>
+                  )}
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
                     Goals
                   </th>
@@ -716,6 +874,13 @@ export default function ForecastPage() {
                                               )
                                             </span>
                                           )}
+                                          {month.sinkingFundBreakdown.some(
+                                            (fund) => fund.id === expense.id
+                                          ) && (
+                                            <span className="text-xs text-blue-300 ml-2">
+                                              (sinking fund)
+                                            </span>
+                                          )}
                                         </div>
                                         <span className="font-medium text-red-300 whitespace-nowrap">
                                           -{formatCurrency(expense.amount)}
@@ -741,6 +906,21 @@ export default function ForecastPage() {
                         )}
                       </div>
                     </td>
+                    {hasDebts && (
+                      <td
+                        className="px-6 py-4 whitespace-nowrap text-sm text-orange-600 dark:text-orange-400"
+                        title={month.debtBreakdown
+                          .map(
+                            (payment) =>
+                              `${payment.name}: ${formatCurrency(
+                                payment.payment
+                              )} (interest ${formatCurrency(payment.interest)})`
+                          )
+                          .join("\n")}
+                      >
+                        -{formatCurrency(month.debtPayments)}
+                      </td>
+                    )}
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-blue-600 dark:text-blue-400">
                       <div className="flex items-center gap-2">
                         <span>-{formatCurrency(month.goalContributions)}</span>
@@ -1011,6 +1191,64 @@ export default function ForecastPage() {
         </div>
       )}
 
+      {/* Sinking Funds */}
+      {selectedView === "goals" &&
+        forecastResult.sinkingFundProgress.length > 0 && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">
+              Sinking Funds
+            </h3>
+            <div className="space-y-4">
+              {forecastResult.sinkingFundProgress.map((fund) => (
+                <div
+                  key={fund.id}
+                  className="p-4 bg-gray-50 dark:bg-gray-700 rounded-lg flex items-center justify-between"
+                >
+                  <div>
+                    <h4 className="font-medium text-gray-900 dark:text-gray-100">
+                      {fund.name}
+                    </h4>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                      {formatCurrency(fund.startingBalance)} saved now,{" "}
+                      {formatCurrency(fund.finalBalance)} at the end of the
+                      forecast
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p
+                      className={`text-sm font-medium ${
+                        fund.isFunded
+                          ? "text-green-600 dark:text-green-400"
+                          : "text-red-600 dark:text-red-400"
+                      }`}
+                    >
+                      {fund.isFunded ? "Fully Funded" : "Underfunded"}
+                    </p>
+                    {fund.firstShortfallMonth && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {formatCurrency(fund.totalShortfall)} short, first in{" "}
+                        {formatMonth(fund.firstShortfallMonth)}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+      {/* Scenario Comparison View */}
+      {selectedView === "accounts" && (
+        <AccountBalanceForecast
+          forecastResult={forecastResult}
+          formatMonth={formatMonth}
+        />
+      )}
+
+      {selectedView === "scenarios" && (
+        <ScenarioComparison config={utilsConfig} formatMonth={formatMonth} />
+      )}
+
       {/* Warnings */}
       {forecastResult.summary.monthsWithNegativeBalance > 0 && (
         <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, useCallback } from "react";
 import { useFinancialContext } from "@/context";
 import {
   Goal,
@@ -10,7 +10,12 @@ import {
   CreateGoalInput,
 } from "@/types";
 import { useCurrency } from "@/context/CurrencyContext";
+import AccountSelect from "@/components/AccountSelect";
+import CurrencySelect from "@/components/CurrencySelect";
+import MemberSelect from "@/components/MemberSelect";
+import UndoToast from "@/components/UndoToast";
 import { generateForecast } from "@/utils/forecastCalculator";
+import { convertPlanToBaseCurrency } from "@/utils/exchangeRates";
 import { useLanguage } from "@/context/LanguageContext";
 import {
   formatDateWithTranslations,
@@ -66,9 +71,11 @@ const priorityConfig = {
 export default function GoalsPage() {
   const { state, addGoal, updateGoal, deleteGoal } = useFinancialContext();
   const { language, t } = useLanguage();
-  const { formatCurrency } = useCurrency();
+  const { formatCurrency, formatAmount } = useCurrency();
   const [isAddingGoal, setIsAddingGoal] = useState(false);
   const [editingGoal, setEditingGoal] = useState<Goal | null>(null);
+  const [undoMessage, setUndoMessage] = useState<string | null>(null);
+  const dismissUndo = useCallback(() => setUndoMessage(null), []);
   const [selectedCategory, setSelectedCategory] = useState<
     GoalCategory | "all"
   >("all");
@@ -136,12 +143,13 @@ export default function GoalsPage() {
       }
     });
 
-  // Calculate total progress
-  const totalGoalAmount = goals.reduce(
+  // Calculate total progress, in the base currency
+  const baseGoals = convertPlanToBaseCurrency(state.userPlan).goals;
+  const totalGoalAmount = baseGoals.reduce(
     (sum, goal) => sum + goal.targetAmount,
     0
   );
-  const totalCurrentAmount = goals.reduce(
+  const totalCurrentAmount = baseGoals.reduce(
     (sum, goal) => sum + goal.currentAmount,
     0
   );
@@ -196,18 +204,23 @@ export default function GoalsPage() {
       isActive: goal.isActive,
       goalType: goal.goalType,
       priorityOrder: goal.priorityOrder,
+      accountId: goal.accountId,
+      currency: goal.currency,
+      ownerId: goal.ownerId,
+      expectedAnnualReturn: goal.expectedAnnualReturn,
+      annualVolatility: goal.annualVolatility,
     });
     setIsAddingGoal(true);
   };
 
   // Handle delete goal
   const handleDelete = async (goalId: string) => {
-    if (confirm("Are you sure you want to delete this goal?")) {
-      try {
-        await deleteGoal(goalId);
-      } catch (error) {
-        console.error("Failed to delete goal:", error);
-      }
+    const goal = state.userPlan.goals.find((g) => g.id === goalId);
+    try {
+      await deleteGoal(goalId);
+      setUndoMessage(`Deleted "${goal?.name || "goal"}"`);
+    } catch (error) {
+      console.error("Failed to delete goal:", error);
     }
   };
 
@@ -622,6 +635,82 @@ export default function GoalsPage() {
               </p>
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Expected Annual Return (%)
+              </label>
+              <input
+                type="number"
+                step="0.1"
+                value={formData.expectedAnnualReturn ?? ""}
+                onChange={(e) =>
+                  setFormData({
+                    ...formData,
+                    expectedAnnualReturn:
+                      e.target.value === ""
+                        ? undefined
+                        : parseFloat(e.target.value) || 0,
+                  })
+                }
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-gray-100"
+                placeholder="0"
+              />
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                Compounded monthly on the saved balance, e.g. 7 for an index
+                fund
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Annual Volatility (%)
+              </label>
+              <input
+                type="number"
+                min="0"
+                step="0.1"
+                value={formData.annualVolatility ?? ""}
+                onChange={(e) =>
+                  setFormData({
+                    ...formData,
+                    annualVolatility:
+                      e.target.value === ""
+                        ? undefined
+                        : Math.max(0, parseFloat(e.target.value) || 0),
+                  })
+                }
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-gray-100"
+                placeholder="Optional"
+              />
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                How much the return swings year to year, e.g. 15 for stocks
+              </p>
+            </div>
+
+            <CurrencySelect
+              value={formData.currency}
+              onChange={(currency) =>
+                setFormData((prev) => ({ ...prev, currency }))
+              }
+            />
+
+            <AccountSelect
+              label="Saved From"
+              value={formData.accountId}
+              onChange={(accountId) =>
+                setFormData((prev) => ({ ...prev, accountId }))
+              }
+            />
+
+            <MemberSelect
+              label="Saved By"
+              jointLabel="Joint"
+              value={formData.ownerId}
+              onChange={(ownerId) =>
+                setFormData((prev) => ({ ...prev, ownerId }))
+              }
+            />
+
             <div className="md:col-span-2">
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                 Description
@@ -797,7 +886,7 @@ export default function GoalsPage() {
                             Current
                           </p>
                           <p className="font-semibold text-gray-900 dark:text-gray-100">
-                            {formatCurrency(goal.currentAmount)}
+                            {formatAmount(goal.currentAmount, goal.currency)}
                           </p>
                         </div>
                         <div>
@@ -805,7 +894,7 @@ export default function GoalsPage() {
                             Target
                           </p>
                           <p className="font-semibold text-gray-900 dark:text-gray-100">
-                            {formatCurrency(goal.targetAmount)}
+                            {formatAmount(goal.targetAmount, goal.currency)}
                           </p>
                         </div>
                         <div>
@@ -813,8 +902,9 @@ export default function GoalsPage() {
                             Remaining
                           </p>
                           <p className="font-semibold text-gray-900 dark:text-gray-100">
-                            {formatCurrency(
-                              goal.targetAmount - goal.currentAmount
+                            {formatAmount(
+                              goal.targetAmount - goal.currentAmount,
+                              goal.currency
                             )}
                           </p>
                         </div>
@@ -937,6 +1027,8 @@ export default function GoalsPage() {
           </div>
         )}
       </div>
+
+      <UndoToast message={undoMessage} onDismiss={dismissUndo} />
     </div>
   );
 }
@@ -0,0 +1,307 @@
+"use client";
+
+import React, { useState } from "react";
+import { useFinancialState, useFinancialActions } from "@/context";
+import {
+  CreateHouseholdMemberInput,
+  HouseholdMember,
+  SplitRule,
+} from "@/types";
+import { useCurrency } from "@/context/CurrencyContext";
+import {
+  DEFAULT_HOUSEHOLD_SETTINGS,
+  MEMBER_COLORS,
+  SPLIT_RULE_LABELS,
+  getMemberSummaries,
+} from "@/utils/household";
+import { convertPlanToBaseCurrency } from "@/utils/exchangeRates";
+import SplitSharesInput from "@/components/SplitSharesInput";
+
+export default function HouseholdPage() {
+  const state = useFinancialState();
+  const {
+    addHouseholdMember,
+    updateHouseholdMember,
+    deleteHouseholdMember,
+    updateHouseholdSettings,
+  } = useFinancialActions();
+  const { formatCurrency } = useCurrency();
+
+  const members = state.userPlan.householdMembers || [];
+  const settings = {
+    ...DEFAULT_HOUSEHOLD_SETTINGS,
+    ...state.userPlan.householdSettings,
+  };
+  const summaries = getMemberSummaries(
+    convertPlanToBaseCurrency(state.userPlan)
+  );
+
+  const emptyMember = (): CreateHouseholdMemberInput => ({
+    name: "",
+    color: MEMBER_COLORS[members.length % MEMBER_COLORS.length],
+  });
+
+  const [editingMember, setEditingMember] = useState<string | null>(null);
+  const [formData, setFormData] = useState<CreateHouseholdMemberInput>(
+    emptyMember()
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      if (editingMember) {
+        await updateHouseholdMember({ id: editingMember, ...formData });
+      } else {
+        await addHouseholdMember(formData);
+      }
+      handleCancel();
+    } catch (error) {
+      console.error("Failed to save household member:", error);
+    }
+  };
+
+  const handleEdit = (member: HouseholdMember) => {
+    setFormData({ name: member.name, color: member.color });
+    setEditingMember(member.id);
+  };
+
+  const handleDelete = async (memberId: string) => {
+    if (
+      window.confirm(
+        "Are you sure you want to remove this member? Their income, expenses and goals will become joint."
+      )
+    ) {
+      try {
+        await deleteHouseholdMember(memberId);
+      } catch (error) {
+        console.error("Failed to delete household member:", error);
+      }
+    }
+  };
+
+  const handleCancel = () => {
+    setEditingMember(null);
+    setFormData(emptyMember());
+  };
+
+  const countOwnedItems = (memberId: string) =>
+    [
+      ...state.userPlan.income,
+      ...state.userPlan.expenses,
+      ...state.userPlan.goals,
+    ].filter((item) => item.ownerId === memberId).length;
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-8">
+      {/* Header Section */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">
+          Household
+        </h1>
+        <p className="mt-2 text-gray-600 dark:text-gray-300">
+          Plan together: give income, expenses and goals an owner, and decide
+          how shared costs are split
+        </p>
+      </div>
+
+      {/* Members */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-4">
+          Members
+        </h2>
+
+        {members.length > 0 && (
+          <div className="divide-y divide-gray-200 dark:divide-gray-700 mb-6">
+            {members.map((member) => (
+              <div
+                key={member.id}
+                className="py-3 flex items-center justify-between"
+              >
+                <div className="flex items-center gap-3">
+                  <span
+                    className="w-4 h-4 rounded-full"
+                    style={{ backgroundColor: member.color }}
+                  />
+                  <span className="font-medium text-gray-900 dark:text-gray-100">
+                    {member.name}
+                  </span>
+                  <span className="text-sm text-gray-500 dark:text-gray-400">
+                    {countOwnedItems(member.id)} items
+                  </span>
+                </div>
+                <div className="flex gap-3 text-sm">
+                  <button
+                    onClick={() => handleEdit(member)}
+                    className="text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleDelete(member.id)}
+                    className="text-red-600 dark:text-red-400 hover:underline"
+                  >
+                    Remove
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <form
+          onSubmit={handleSubmit}
+          className="flex flex-wrap items-end gap-3"
+        >
+          <div className="flex-1 min-w-[12rem]">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              {editingMember ? "Edit Member" : "Add Member"}
+            </label>
+            <input
+              type="text"
+              required
+              value={formData.name}
+              onChange={(e) =>
+                setFormData({ ...formData, name: e.target.value })
+              }
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-gray-100"
+              placeholder="Name"
+            />
+          </div>
+          <input
+            type="color"
+            value={formData.color}
+            onChange={(e) =>
+              setFormData({ ...formData, color: e.target.value })
+            }
+            className="h-10 w-14 border border-gray-300 dark:border-gray-600 rounded-lg"
+            title="Colour"
+          />
+          <button
+            type="submit"
+            className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            {editingMember ? "Update" : "Add"}
+          </button>
+          {editingMember && (
+            <button
+              type="button"
+              onClick={handleCancel}
+              className="bg-gray-300 dark:bg-gray-600 text-gray-700 dark:text-gray-300 px-6 py-2 rounded-lg hover:bg-gray-400 dark:hover:bg-gray-500 transition-colors"
+            >
+              Cancel
+            </button>
+          )}
+        </form>
+      </div>
+
+      {members.length > 0 && (
+        <>
+          {/* Split Rule */}
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+              Sharing Joint Costs
+            </h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+              Used for shared expenses without their own rule, joint income,
+              joint goals and the starting balance
+            </p>
+            <select
+              value={settings.splitRule}
+              onChange={(e) =>
+                updateHouseholdSettings({
+                  splitRule: e.target.value as SplitRule,
+                })
+              }
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-gray-100"
+            >
+              {Object.values(SplitRule).map((rule) => (
+                <option key={rule} value={rule}>
+                  {SPLIT_RULE_LABELS[rule]}
+                </option>
+              ))}
+            </select>
+            {settings.splitRule === SplitRule.FIXED && (
+              <SplitSharesInput
+                members={members}
+                shares={settings.fixedShares}
+                onChange={(fixedShares) =>
+                  updateHouseholdSettings({ fixedShares })
+                }
+              />
+            )}
+          </div>
+
+          {/* Member Summaries */}
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-4">
+              Monthly Contributions
+            </h2>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 dark:text-gray-400">
+                    <th className="py-2">Member</th>
+                    <th className="py-2 text-right">Income</th>
+                    <th className="py-2 text-right">Own Expenses</th>
+                    <th className="py-2 text-right">Share of Shared</th>
+                    <th className="py-2 text-right">Available for Goals</th>
+                    <th className="py-2 text-right">Share of Joint Goals</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {summaries.map((summary) => (
+                    <tr
+                      key={summary.member.id}
+                      className="text-gray-900 dark:text-gray-100"
+                    >
+                      <td className="py-2">
+                        <span className="flex items-center gap-2">
+                          <span
+                            className="w-3 h-3 rounded-full"
+                            style={{ backgroundColor: summary.member.color }}
+                          />
+                          {summary.member.name}
+                        </span>
+                      </td>
+                      <td className="py-2 text-right">
+                        {formatCurrency(summary.monthlyIncome)}
+                      </td>
+                      <td className="py-2 text-right">
+                        {formatCurrency(summary.personalExpenses)}
+                      </td>
+                      <td className="py-2 text-right">
+                        {formatCurrency(summary.sharedExpenses)}
+                      </td>
+                      <td
+                        className={`py-2 text-right font-medium ${
+                          summary.availableForGoals >= 0
+                            ? "text-green-600 dark:text-green-400"
+                            : "text-red-600 dark:text-red-400"
+                        }`}
+                      >
+                        {formatCurrency(summary.availableForGoals)}
+                      </td>
+                      <td className="py-2 text-right">
+                        {Math.round(summary.jointGoalShare * 100)}%
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+
+      {/* Error Display */}
+      {state.error.generalError && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+          <p className="text-sm text-red-700 dark:text-red-300">
+            {state.error.generalError}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,10 +2,10 @@
 
 import { useState } from "react";
 import { useFinancialContext } from "@/context";
-import { FinancialActionType } from "@/context/types";
 import {
   serializeToJSON,
   serializeToCSV,
+  encryptExport,
   validateExportData,
   ExportFormat,
 } from "@/utils/dataExport";
@@ -16,12 +16,18 @@ import {
   uploadFinancialData,
   isBrowserCompatible,
 } from "@/utils/fileOperations";
+import BankImport from "@/components/BankImport";
+import BackupHistory from "@/components/BackupHistory";
+import EncryptionSettings from "@/components/EncryptionSettings";
+import SyncPanel from "@/components/SyncPanel";
 
 export default function ImportExportPage() {
-  const { state, dispatch } = useFinancialContext();
+  const { state, importPlan } = useFinancialContext();
   const [isExporting, setIsExporting] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
   const [exportFormat, setExportFormat] = useState<ExportFormat>("json");
+  const [encryptExportFile, setEncryptExportFile] = useState(false);
+  const [exportPassphrase, setExportPassphrase] = useState("");
   const [importResult, setImportResult] = useState<ImportResult | null>(null);
   const [exportValidation, setExportValidation] = useState<{
     isValid: boolean;
@@ -55,9 +61,16 @@ export default function ImportExportPage() {
 
       if (exportFormat === "json") {
         exportData = serializeToJSON(state.userPlan);
-        downloadJSON(exportData);
       } else {
         exportData = serializeToCSV(state.userPlan);
+      }
+
+      // Encrypted files are always JSON, whatever was encrypted
+      if (encryptExportFile) {
+        downloadJSON(await encryptExport(exportData, exportPassphrase));
+      } else if (exportFormat === "json") {
+        downloadJSON(exportData);
+      } else {
         downloadCSV(exportData);
       }
 
@@ -86,36 +99,27 @@ export default function ImportExportPage() {
       // Upload and read file
       const fileData = await uploadFinancialData();
 
-      // Parse the imported data
-      const result = importFinancialData(fileData.content);
+      // Parse the imported data, asking for the passphrase of encrypted files
+      let result = await importFinancialData(fileData.content);
+      if (result.isEncrypted) {
+        const passphrase = prompt(
+          "This file is encrypted. Enter its passphrase:"
+        );
+        if (passphrase) {
+          result = await importFinancialData(fileData.content, passphrase);
+        }
+      }
       setImportResult(result);
 
       if (result.success && result.userPlan) {
-        // Ask user for confirmation before replacing data
-        const hasExistingData =
-          state.userPlan &&
-          ((state.userPlan.income && state.userPlan.income.length > 0) ||
-            (state.userPlan.expenses && state.userPlan.expenses.length > 0) ||
-            (state.userPlan.goals && state.userPlan.goals.length > 0));
-
-        if (hasExistingData) {
-          const confirmReplace = confirm(
-            "This will replace your current financial data. Are you sure you want to continue?"
-          );
-
-          if (!confirmReplace) {
-            setIsImporting(false);
-            return;
-          }
-        }
-
-        // Update the financial context with imported data
-        dispatch({
-          type: FinancialActionType.LOAD_SUCCESS,
-          payload: result.userPlan,
-        });
+        // Imported data opens as a new plan, leaving the current one as it is
+        const name =
+          result.userPlan.name ||
+          fileData.filename.replace(/\.[^.]+$/, "") ||
+          "Imported Plan";
+        await importPlan(result.userPlan, name);
 
-        alert("Financial plan imported successfully!");
+        alert(`Financial plan imported as "${name}"!`);
 
         // Clear import result after successful import
         setTimeout(() => setImportResult(null), 5000);
@@ -319,6 +323,28 @@ export default function ImportExportPage() {
             </div>
           </div>
 
+          {/* Export Encryption */}
+          <div className="mb-6">
+            <label className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={encryptExportFile}
+                onChange={(e) => setEncryptExportFile(e.target.checked)}
+                className="mr-2"
+              />
+              Encrypt with a passphrase
+            </label>
+            {encryptExportFile && (
+              <input
+                type="password"
+                value={exportPassphrase}
+                onChange={(e) => setExportPassphrase(e.target.value)}
+                placeholder="Passphrase for this file"
+                className="mt-2 w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-gray-100"
+              />
+            )}
+          </div>
+
           {/* Export Validation Errors */}
           {exportValidation && !exportValidation.isValid && (
             <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
@@ -351,6 +377,7 @@ export default function ImportExportPage() {
             disabled={
               isExporting ||
               dataStats.totalRecords === 0 ||
+              (encryptExportFile && !exportPassphrase) ||
               !browserSupport.download
             }
             className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
@@ -384,6 +411,7 @@ export default function ImportExportPage() {
             <ul className="text-sm text-green-700 list-disc list-inside">
               <li>JSON files exported from Finance Planner</li>
               <li>CSV files with proper structure</li>
+              <li>Encrypted exports (you will be asked for the passphrase)</li>
               <li>Maximum file size: 10MB</li>
             </ul>
           </div>
@@ -440,18 +468,25 @@ export default function ImportExportPage() {
             {isImporting ? "Importing..." : "Import Data File"}
           </button>
 
-          {/* Data Warning */}
-          {dataStats.totalRecords > 0 && (
-            <div className="mt-4 p-3 bg-yellow-50 border border-yellow-200 rounded-md">
-              <p className="text-sm text-yellow-800">
-                ⚠️ Importing will replace your current data. Make sure to export
-                your current data first if you want to keep it.
-              </p>
-            </div>
-          )}
+          <p className="mt-4 text-sm text-gray-600 dark:text-gray-400">
+            Imported data opens as a new plan - your current plan is kept and
+            can be switched back to at any time.
+          </p>
         </div>
       </div>
 
+      {/* Automatic Backups */}
+      <BackupHistory />
+
+      {/* Passphrase Encryption */}
+      <EncryptionSettings />
+
+      {/* Multi-device Sync */}
+      <SyncPanel />
+
+      {/* Bank Statement Import */}
+      <BankImport />
+
       {/* Tips Section */}
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
         <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">
@@ -476,7 +511,7 @@ export default function ImportExportPage() {
             <ul className="text-sm text-gray-600 dark:text-gray-300 space-y-1">
               <li>• Only import files you trust</li>
               <li>• Check validation errors before importing</li>
-              <li>• Backup current data before importing</li>
+              <li>• Each import opens as a new plan</li>
               <li>• Large files may take time to process</li>
             </ul>
           </div>
@@ -1,17 +1,38 @@
 "use client";
 
-import React, { useState, useRef, useEffect } from "react";
+import React, { useState, useRef, useEffect, useCallback } from "react";
 import { useFinancialState, useFinancialActions } from "@/context";
-import { Frequency, CreateIncomeInput, UpdateIncomeInput } from "@/types";
+import {
+  Frequency,
+  CreateIncomeInput,
+  Income,
+  IncomeRange,
+  Paycheck,
+  RecurrenceRule,
+  UpdateIncomeInput,
+} from "@/types";
 import { useCurrency } from "@/context/CurrencyContext";
+import AccountSelect from "@/components/AccountSelect";
+import CurrencySelect from "@/components/CurrencySelect";
+import MemberSelect from "@/components/MemberSelect";
+import TaxSettingsPanel from "@/components/TaxSettingsPanel";
+import UndoToast from "@/components/UndoToast";
+import RecurrenceInput from "@/components/RecurrenceInput";
+import IncomeVariationInput from "@/components/IncomeVariationInput";
+import PaycheckEditor from "@/components/PaycheckEditor";
+import { convertPlanToBaseCurrency } from "@/utils/exchangeRates";
+import { describeRecurrence } from "@/utils/recurrence";
+import { getIncomeMonthlyEquivalent } from "@/utils/amounts";
 
 export default function IncomePage() {
   const state = useFinancialState();
   const { addIncome, updateIncome, deleteIncome } = useFinancialActions();
-  const { formatCurrency } = useCurrency();
+  const { formatCurrency, formatAmount } = useCurrency();
 
   const [isAddFormOpen, setIsAddFormOpen] = useState(false);
   const [editingIncome, setEditingIncome] = useState<string | null>(null);
+  const [undoMessage, setUndoMessage] = useState<string | null>(null);
+  const dismissUndo = useCallback(() => setUndoMessage(null), []);
 
   // Form ref for auto-scroll
   const formRef = useRef<HTMLDivElement>(null);
@@ -82,34 +103,56 @@ export default function IncomePage() {
     id: string;
     name: string;
     amount: number;
+    currency?: string;
     frequency: Frequency;
+    recurrence?: RecurrenceRule;
+    amountRange?: IncomeRange;
+    seasonality?: number[];
+    monthlySchedule?: Record<string, number>;
     description?: string;
     startDate?: string;
     endDate?: string;
     isActive: boolean;
+    accountId?: string;
+    ownerId?: string;
+    annualRaisePercent?: number;
+    raiseMonth?: number;
+    isGross?: boolean;
+    paycheck?: Paycheck;
   }) => {
     setFormData({
       name: income.name,
       amount: income.amount,
+      currency: income.currency,
       frequency: income.frequency,
+      recurrence: income.recurrence,
+      amountRange: income.amountRange,
+      seasonality: income.seasonality,
+      monthlySchedule: income.monthlySchedule,
       description: income.description || "",
       startDate: income.startDate
         ? income.startDate.split("T")[0]
         : new Date().toISOString().split("T")[0],
       endDate: income.endDate ? income.endDate.split("T")[0] : "",
       isActive: income.isActive,
+      accountId: income.accountId,
+      ownerId: income.ownerId,
+      annualRaisePercent: income.annualRaisePercent,
+      raiseMonth: income.raiseMonth,
+      isGross: income.isGross,
+      paycheck: income.paycheck,
     });
     setEditingIncome(income.id);
     setIsAddFormOpen(true);
   };
 
   const handleDelete = async (incomeId: string) => {
-    if (window.confirm("Are you sure you want to delete this income source?")) {
-      try {
-        await deleteIncome(incomeId);
-      } catch (error) {
-        console.error("Failed to delete income:", error);
-      }
+    const income = state.userPlan.income.find((i) => i.id === incomeId);
+    try {
+      await deleteIncome(incomeId);
+      setUndoMessage(`Deleted "${income?.name || "income source"}"`);
+    } catch (error) {
+      console.error("Failed to delete income:", error);
     }
   };
 
@@ -134,34 +177,17 @@ export default function IncomePage() {
     );
   };
 
-  const calculateMonthlyAmount = (amount: number, frequency: Frequency) => {
-    switch (frequency) {
-      case Frequency.DAILY:
-        return amount * 30.44; // Average days per month
-      case Frequency.WEEKLY:
-        return amount * 4.33; // Average weeks per month
-      case Frequency.BIWEEKLY:
-        return amount * 2.17; // Average bi-weeks per month
-      case Frequency.MONTHLY:
-        return amount;
-      case Frequency.QUARTERLY:
-        return amount / 3;
-      case Frequency.YEARLY:
-        return amount / 12;
-      case Frequency.ONE_TIME:
-        return 0; // One-time payments don't contribute to monthly
-      default:
-        return amount;
-    }
-  };
+  // Income on a recurrence rule averages its payments over the year and a
+  // seasonal profile is averaged out; one-time payments don't count
+  const getMonthlyEquivalent = (income: Income) =>
+    income.frequency === Frequency.ONE_TIME && !income.recurrence
+      ? 0
+      : getIncomeMonthlyEquivalent(income);
 
-  const totalMonthlyIncome = state.userPlan.income
-    .filter((income) => income.isActive)
-    .reduce(
-      (total, income) =>
-        total + calculateMonthlyAmount(income.amount, income.frequency),
-      0
-    );
+  // Totals are in the base currency
+  const totalMonthlyIncome = convertPlanToBaseCurrency(state.userPlan)
+    .income.filter((income) => income.isActive)
+    .reduce((total, income) => total + getMonthlyEquivalent(income), 0);
 
   return (
     <div className="max-w-6xl mx-auto space-y-8">
@@ -192,6 +218,8 @@ export default function IncomePage() {
         </div>
       </div>
 
+      <TaxSettingsPanel />
+
       {/* Add Income Button */}
       <div className="flex justify-between items-center">
         <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
@@ -276,6 +304,28 @@ export default function IncomePage() {
               />
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Amount Is
+              </label>
+              <select
+                value={formData.isGross ? "gross" : "net"}
+                disabled={!!formData.paycheck}
+                onChange={(e) =>
+                  handleInputChange("isGross", e.target.value === "gross")
+                }
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-gray-100"
+              >
+                <option value="net">Net (take-home pay)</option>
+                <option value="gross">Gross (before tax)</option>
+              </select>
+              {formData.isGross && !state.userPlan.taxSettings?.ruleSetId && (
+                <p className="text-xs text-amber-600 dark:text-amber-400 mt-1">
+                  Choose tax rules above to deduct tax in the forecast
+                </p>
+              )}
+            </div>
+
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                 Frequency *
@@ -296,6 +346,39 @@ export default function IncomePage() {
               </select>
             </div>
 
+            <RecurrenceInput
+              value={formData.recurrence}
+              start={formData.startDate}
+              onChange={(recurrence) =>
+                setFormData((prev) => ({ ...prev, recurrence }))
+              }
+            />
+
+            <IncomeVariationInput
+              amount={formData.amount}
+              value={formData}
+              onChange={(variation) =>
+                setFormData((prev) => ({ ...prev, ...variation }))
+              }
+            />
+
+            {/* A paycheck breakdown sets the amount to the net deposit */}
+            <PaycheckEditor
+              value={formData.paycheck}
+              income={formData}
+              onChange={(paycheck, netPay) =>
+                setFormData((prev) => ({
+                  ...prev,
+                  paycheck,
+                  ...(paycheck && {
+                    amount: Math.max(0, netPay ?? prev.amount),
+                    isGross: false,
+                  }),
+                }))
+              }
+              formatAmount={(amount) => formatAmount(amount, formData.currency)}
+            />
+
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                 Start Date
@@ -324,6 +407,81 @@ export default function IncomePage() {
               </p>
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Annual Raise (%)
+              </label>
+              <input
+                type="number"
+                min="0"
+                step="0.1"
+                value={formData.annualRaisePercent ?? ""}
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    annualRaisePercent:
+                      e.target.value === ""
+                        ? undefined
+                        : Math.max(0, parseFloat(e.target.value) || 0),
+                  }))
+                }
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-gray-100"
+                placeholder="e.g., 3"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Raise Month
+              </label>
+              <select
+                value={formData.raiseMonth ?? ""}
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    raiseMonth: e.target.value
+                      ? parseInt(e.target.value)
+                      : undefined,
+                  }))
+                }
+                disabled={!formData.annualRaisePercent}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-gray-100 disabled:opacity-50"
+              >
+                <option value="">Same month as start date</option>
+                {Array.from({ length: 12 }, (_, index) => (
+                  <option key={index + 1} value={index + 1}>
+                    {new Date(2000, index, 1).toLocaleDateString("en-US", {
+                      month: "long",
+                    })}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <CurrencySelect
+              value={formData.currency}
+              onChange={(currency) =>
+                setFormData((prev) => ({ ...prev, currency }))
+              }
+            />
+
+            <AccountSelect
+              label="Paid Into"
+              value={formData.accountId}
+              onChange={(accountId) =>
+                setFormData((prev) => ({ ...prev, accountId }))
+              }
+            />
+
+            <MemberSelect
+              label="Earned By"
+              jointLabel="Joint"
+              value={formData.ownerId}
+              onChange={(ownerId) =>
+                setFormData((prev) => ({ ...prev, ownerId }))
+              }
+            />
+
             <div className="md:col-span-2">
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                 Description
@@ -452,6 +610,16 @@ export default function IncomePage() {
                       >
                         {income.isActive ? "Active" : "Inactive"}
                       </span>
+                      {income.isGross && (
+                        <span className="px-2 py-1 text-xs rounded-full bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200">
+                          Gross
+                        </span>
+                      )}
+                      {income.paycheck && (
+                        <span className="px-2 py-1 text-xs rounded-full bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">
+                          Paycheck
+                        </span>
+                      )}
                     </div>
 
                     <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-3">
@@ -460,22 +628,45 @@ export default function IncomePage() {
                           Amount
                         </div>
                         <div className="text-lg font-medium text-gray-900 dark:text-gray-100">
-                          {formatCurrency(income.amount)}{" "}
+                          {formatAmount(income.amount, income.currency)}{" "}
                           <span className="text-sm text-gray-500">
-                            / {getFrequencyLabel(income.frequency)}
+                            {income.recurrence
+                              ? describeRecurrence(income.recurrence)
+                              : `/ ${getFrequencyLabel(income.frequency)}`}
                           </span>
                         </div>
+                        {income.amountRange && (
+                          <div className="text-xs text-gray-500 dark:text-gray-400">
+                            {formatAmount(
+                              income.amountRange.min,
+                              income.currency
+                            )}{" "}
+                            –{" "}
+                            {formatAmount(
+                              income.amountRange.max,
+                              income.currency
+                            )}
+                          </div>
+                        )}
+                        {income.paycheck && (
+                          <div className="text-xs text-gray-500 dark:text-gray-400">
+                            Net of{" "}
+                            {formatAmount(
+                              income.paycheck.grossPay,
+                              income.currency
+                            )}{" "}
+                            gross
+                          </div>
+                        )}
                       </div>
                       <div>
                         <div className="text-sm text-gray-500 dark:text-gray-400">
                           Monthly Equivalent
                         </div>
                         <div className="text-lg font-medium text-green-600 dark:text-green-400">
-                          {formatCurrency(
-                            calculateMonthlyAmount(
-                              income.amount,
-                              income.frequency
-                            )
+                          {formatAmount(
+                            getMonthlyEquivalent(income),
+                            income.currency
                           )}
                         </div>
                       </div>
@@ -595,6 +786,8 @@ export default function IncomePage() {
           </div>
         </div>
       )}
+
+      <UndoToast message={undoMessage} onDismiss={dismissUndo} />
     </div>
   );
 }
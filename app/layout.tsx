@@ -7,7 +7,9 @@ import { CurrencyProvider } from "@/context/CurrencyContext";
 import { LanguageProvider } from "@/context/LanguageContext";
 import ThemeToggle from "@/components/ThemeToggle";
 import CurrencySelector from "@/components/CurrencySelector";
+import LanguageSelector from "@/components/LanguageSelector";
 import Navigation from "@/components/Navigation";
+import LockGate from "@/components/LockGate";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -64,6 +66,9 @@ export default function RootLayout({
                             {/* Currency Selector */}
                             <CurrencySelector />
 
+                            {/* Language Selector */}
+                            <LanguageSelector />
+
                             {/* Theme Toggle */}
                             <ThemeToggle />
 
@@ -90,7 +95,7 @@ export default function RootLayout({
                   </header>
 
                   <main className="flex-1 max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 w-full">
-                    {children}
+                    <LockGate>{children}</LockGate>
                   </main>
 
                   <footer className="bg-white dark:bg-gray-800 border-t border-gray-200 dark:border-gray-700">
@@ -1,9 +1,9 @@
 "use client";
 
-import React, { useMemo } from "react";
+import React, { useMemo, useState } from "react";
 import Link from "next/link";
 import { useFinancialState } from "@/context";
-import { Frequency, ExpenseCategory, GoalCategory, Priority } from "@/types";
+import { Frequency, ExpenseCategoryId, GoalCategory, Priority } from "@/types";
 import {
   generateSuggestions,
   DEFAULT_SUGGESTION_CONFIG,
@@ -16,11 +16,38 @@ import GoalProgressChart from "@/components/charts/GoalProgressChart";
 import ExpenseCategoryChart from "@/components/charts/ExpenseCategoryChart";
 import AskAIButton from "@/components/AskAIButton";
 import { generateForecast } from "@/utils/forecastCalculator";
+import { estimateAnnualTax } from "@/utils/tax";
+import HouseholdViewSelect from "@/components/HouseholdViewSelect";
+import CurrencyExposure from "@/components/CurrencyExposure";
+import {
+  HOUSEHOLD_VIEW_ALL,
+  HouseholdView,
+  getHouseholdViewPlan,
+} from "@/utils/household";
+import { convertPlanToBaseCurrency } from "@/utils/exchangeRates";
+import {
+  getCategories,
+  getCategoryIcon,
+  getCategoryName,
+  rollUpCategoryTotals,
+} from "@/utils/categories";
 
 export default function DashboardPage() {
   const state = useFinancialState();
   const { formatCurrency } = useCurrency();
   const { t } = useLanguage();
+  const [householdView, setHouseholdView] =
+    useState<HouseholdView>(HOUSEHOLD_VIEW_ALL);
+
+  // Figures below follow the selected household view, in the base currency
+  const userPlan = useMemo(
+    () =>
+      getHouseholdViewPlan(
+        convertPlanToBaseCurrency(state.userPlan),
+        householdView
+      ),
+    [state.userPlan, householdView]
+  );
 
   // Calculate financial metrics
   const calculateMonthlyAmount = (amount: number, frequency: Frequency) => {
@@ -46,7 +73,7 @@ export default function DashboardPage() {
 
   // Calculate annual income and expenses using forecast
   const calculateAnnualFinancials = () => {
-    if (!state.userPlan.id) {
+    if (!userPlan.id) {
       return {
         annualIncome: 0,
         annualExpenses: 0,
@@ -57,7 +84,7 @@ export default function DashboardPage() {
     // Use forecast starting from current month for 12 months
     const startDate = new Date();
 
-    const forecastResult = generateForecast(state.userPlan, {
+    const forecastResult = generateForecast(userPlan, {
       months: 12,
       startDate,
       includeGoalContributions: false, // Don't include goal contributions in totals
@@ -76,12 +103,15 @@ export default function DashboardPage() {
   const { annualIncome, annualExpenses, annualNet } =
     calculateAnnualFinancials();
 
-  const activeGoals = state.userPlan.goals.filter((goal) => goal.isActive);
+  const taxEstimate = estimateAnnualTax(userPlan);
+
+  const activeGoals = userPlan.goals.filter((goal) => goal.isActive);
 
   const savingsRate = annualIncome > 0 ? (annualNet / annualIncome) * 100 : 0;
 
-  // Get category breakdowns
-  const expensesByCategory = state.userPlan.expenses
+  // Get category breakdowns, with sub-categories counted in their parents
+  const categories = getCategories(userPlan);
+  const expensesBySubcategory = userPlan.expenses
     .filter((expense) => expense.isActive)
     .reduce((acc, expense) => {
       const monthlyAmount = calculateMonthlyAmount(
@@ -90,7 +120,11 @@ export default function DashboardPage() {
       );
       acc[expense.category] = (acc[expense.category] || 0) + monthlyAmount;
       return acc;
-    }, {} as Record<ExpenseCategory, number>);
+    }, {} as Record<ExpenseCategoryId, number>);
+  const expensesByCategory = rollUpCategoryTotals(
+    categories,
+    expensesBySubcategory
+  );
 
   // Calculate total monthly expenses
   const totalMonthlyExpenses = Object.values(expensesByCategory).reduce(
@@ -119,9 +153,9 @@ export default function DashboardPage() {
 
   // Comprehensive suggestions for dashboard
   const allSuggestions = useMemo(() => {
-    if (!state.userPlan) return [];
-    return generateSuggestions(state.userPlan, DEFAULT_SUGGESTION_CONFIG);
-  }, [state.userPlan]);
+    if (!userPlan) return [];
+    return generateSuggestions(userPlan, DEFAULT_SUGGESTION_CONFIG);
+  }, [userPlan]);
 
   const getPriorityIcon = (priority: Priority) => {
     switch (priority) {
@@ -185,12 +219,12 @@ export default function DashboardPage() {
 
   // Calculate Top Expense Months using forecast data
   const calculateTopExpenseMonths = () => {
-    if (!state.userPlan.id) {
+    if (!userPlan.id) {
       return [];
     }
 
     // Generate forecast for 12 months to get expense data
-    const forecastResult = generateForecast(state.userPlan, {
+    const forecastResult = generateForecast(userPlan, {
       months: 12,
       startDate: new Date(),
       includeGoalContributions: false,
@@ -225,27 +259,6 @@ export default function DashboardPage() {
     });
   };
 
-  const getCategoryIcon = (category: ExpenseCategory) => {
-    const icons = {
-      [ExpenseCategory.HOUSING]: "🏠",
-      [ExpenseCategory.TRANSPORTATION]: "🚗",
-      [ExpenseCategory.FOOD]: "🍽️",
-      [ExpenseCategory.UTILITIES]: "💡",
-      [ExpenseCategory.INSURANCE]: "🛡️",
-      [ExpenseCategory.HEALTHCARE]: "🏥",
-      [ExpenseCategory.ENTERTAINMENT]: "🎬",
-      [ExpenseCategory.PERSONAL_CARE]: "💅",
-      [ExpenseCategory.EDUCATION]: "📚",
-      [ExpenseCategory.DEBT_PAYMENTS]: "💳",
-      [ExpenseCategory.SAVINGS]: "💰",
-      [ExpenseCategory.TRAVEL]: "✈️",
-      [ExpenseCategory.SHOPPING]: "🛍️",
-      [ExpenseCategory.KIDS]: "👶",
-      [ExpenseCategory.MISCELLANEOUS]: "📦",
-    };
-    return icons[category] || "📦";
-  };
-
   const getGoalIcon = (category: GoalCategory) => {
     const icons = {
       [GoalCategory.EMERGENCY_FUND]: "🚨",
@@ -294,6 +307,12 @@ export default function DashboardPage() {
           </h1>
           <AskAIButton />
         </div>
+        <div className="flex justify-center">
+          <HouseholdViewSelect
+            value={householdView}
+            onChange={setHouseholdView}
+          />
+        </div>
         <p className="mt-2 text-xl text-gray-600 dark:text-gray-300">
           Your complete financial overview at a glance
         </p>
@@ -507,7 +526,11 @@ export default function DashboardPage() {
       {!isFirstTimeUser && (
         <>
           {/* Key Metrics Cards */}
-          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-4 gap-6">
+          <div
+            className={`grid grid-cols-1 md:grid-cols-3 gap-6 ${
+              taxEstimate ? "lg:grid-cols-5" : "lg:grid-cols-4"
+            }`}
+          >
             <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
               <div className="flex items-center justify-between">
                 <div>
@@ -521,7 +544,7 @@ export default function DashboardPage() {
                       </span>
                       <div className="invisible group-hover:visible absolute z-10 w-48 p-2 mt-1 text-xs text-white bg-gray-800 dark:bg-gray-700 rounded shadow-lg -translate-x-1/2 left-1/2">
                         Your total projected income for the year, including all
-                        income sources and frequencies
+                        income sources and frequencies, after estimated tax
                       </div>
                     </div>
                   </div>
@@ -732,8 +755,48 @@ export default function DashboardPage() {
                   : "🚨 Negative cash flow"}
               </p>
             </div>
+
+            {/* Estimated Tax */}
+            {taxEstimate && (
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+                <div className="flex items-center space-x-2">
+                  <p className="text-sm font-medium text-gray-600 dark:text-gray-400">
+                    Estimated Annual Tax
+                  </p>
+                  <div className="group relative">
+                    <span className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 cursor-help">
+                      ℹ️
+                    </span>
+                    <div className="invisible group-hover:visible absolute z-10 w-48 p-2 mt-1 text-xs text-white bg-gray-800 dark:bg-gray-700 rounded shadow-lg -translate-x-1/2 left-1/2">
+                      Income tax and contributions on your gross income sources
+                      for a year, using the tax rules chosen on the income page
+                    </div>
+                  </div>
+                </div>
+                <p className="text-2xl font-bold text-orange-600 dark:text-orange-400">
+                  {formatCurrency(taxEstimate.totalTax)}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                  {taxEstimate.grossIncome > 0 ? (
+                    `${taxEstimate.effectiveRate.toFixed(
+                      1
+                    )}% of ${formatCurrency(taxEstimate.grossIncome)} gross`
+                  ) : (
+                    <Link
+                      href="/income"
+                      className="text-blue-600 dark:text-blue-400 hover:underline"
+                    >
+                      💡 Mark income as gross to estimate tax
+                    </Link>
+                  )}
+                </p>
+              </div>
+            )}
           </div>
 
+          {/* Currency Exposure */}
+          <CurrencyExposure userPlan={state.userPlan} />
+
           {/* Quick Actions - Compact */}
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-4">
             <h3 className="text-md font-semibold text-gray-900 dark:text-gray-100 mb-3">
@@ -838,16 +901,10 @@ export default function DashboardPage() {
           {/* Advanced Charts Section */}
           <div className="space-y-8">
             {/* Income vs Expenses Trend Chart */}
-            <IncomeVsExpensesChart
-              userPlan={state.userPlan}
-              className="shadow-sm"
-            />
+            <IncomeVsExpensesChart userPlan={userPlan} className="shadow-sm" />
 
             {/* Expense Category Chart */}
-            <ExpenseCategoryChart
-              userPlan={state.userPlan}
-              className="shadow-sm"
-            />
+            <ExpenseCategoryChart userPlan={userPlan} className="shadow-sm" />
           </div>
 
           {/* Charts and Progress Section */}
@@ -866,12 +923,11 @@ export default function DashboardPage() {
                     >
                       <div className="flex items-center space-x-3">
                         <span className="text-2xl">
-                          {getCategoryIcon(category as ExpenseCategory)}
+                          {getCategoryIcon(categories, category)}
                         </span>
                         <div>
                           <p className="font-medium text-gray-900 dark:text-gray-100">
-                            {category.charAt(0).toUpperCase() +
-                              category.slice(1).toLowerCase().replace("_", " ")}
+                            {getCategoryName(categories, category)}
                           </p>
                           <p className="text-sm text-gray-500 dark:text-gray-400">
                             {formatCurrency(amount)} per month
@@ -1196,7 +1252,7 @@ export default function DashboardPage() {
           )}
 
           {/* Goal Progress Chart */}
-          <GoalProgressChart userPlan={state.userPlan} className="shadow-sm" />
+          <GoalProgressChart userPlan={userPlan} className="shadow-sm" />
 
           {/* Upcoming Goals */}
           {upcomingGoals.length > 0 && (
@@ -0,0 +1,215 @@
+"use client";
+
+import React, { useState } from "react";
+import { useFinancialContext } from "@/context";
+import { PlanSummary } from "@/types";
+import ExchangeRatesPanel from "@/components/ExchangeRatesPanel";
+
+export default function PlansPage() {
+  const {
+    state,
+    plans,
+    createPlan,
+    switchPlan,
+    duplicatePlan,
+    renamePlan,
+    deletePlan,
+  } = useFinancialContext();
+
+  const [newPlanName, setNewPlanName] = useState("");
+  const [editingPlan, setEditingPlan] = useState<string | null>(null);
+  const [editName, setEditName] = useState("");
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      await createPlan(newPlanName.trim());
+      setNewPlanName("");
+    } catch (error) {
+      console.error("Failed to create plan:", error);
+    }
+  };
+
+  const handleEdit = (plan: PlanSummary) => {
+    setEditingPlan(plan.id);
+    setEditName(plan.name);
+  };
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingPlan) return;
+
+    try {
+      await renamePlan(editingPlan, editName.trim());
+      setEditingPlan(null);
+    } catch (error) {
+      console.error("Failed to rename plan:", error);
+    }
+  };
+
+  const handleAction = async (action: () => Promise<void>, label: string) => {
+    try {
+      await action();
+    } catch (error) {
+      console.error(`Failed to ${label} plan:`, error);
+    }
+  };
+
+  const handleDelete = (plan: PlanSummary) => {
+    if (
+      window.confirm(
+        `Are you sure you want to delete "${plan.name}"? Its data and backups will be removed.`
+      )
+    ) {
+      handleAction(() => deletePlan(plan.id), "delete");
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-8">
+      {/* Header Section */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">
+          Plans
+        </h1>
+        <p className="mt-2 text-gray-600 dark:text-gray-300">
+          Keep separate plans - personal, business or what-if - each with its
+          own currency and language
+        </p>
+      </div>
+
+      {/* Plan List */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+        <div className="divide-y divide-gray-200 dark:divide-gray-700">
+          {plans.map((plan) => {
+            const isOpen = plan.id === state.userPlan.id;
+            return (
+              <div
+                key={plan.id}
+                className="py-3 flex flex-wrap items-center justify-between gap-3"
+              >
+                {editingPlan === plan.id ? (
+                  <form
+                    onSubmit={handleRename}
+                    className="flex flex-1 items-center gap-2"
+                  >
+                    <input
+                      type="text"
+                      required
+                      autoFocus
+                      value={editName}
+                      onChange={(e) => setEditName(e.target.value)}
+                      className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-gray-100"
+                    />
+                    <button
+                      type="submit"
+                      className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                    >
+                      Save
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setEditingPlan(null)}
+                      className="text-sm text-gray-600 dark:text-gray-400 hover:underline"
+                    >
+                      Cancel
+                    </button>
+                  </form>
+                ) : (
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-gray-900 dark:text-gray-100">
+                        {plan.name}
+                      </span>
+                      {isOpen && (
+                        <span className="px-2 py-0.5 text-xs rounded-full bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300">
+                          Open
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-sm text-gray-500 dark:text-gray-400">
+                      Updated {new Date(plan.updatedAt).toLocaleString()}
+                    </div>
+                  </div>
+                )}
+
+                <div className="flex gap-3 text-sm">
+                  {!isOpen && (
+                    <button
+                      onClick={() =>
+                        handleAction(() => switchPlan(plan.id), "open")
+                      }
+                      className="text-blue-600 dark:text-blue-400 hover:underline"
+                    >
+                      Open
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleEdit(plan)}
+                    className="text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    Rename
+                  </button>
+                  <button
+                    onClick={() =>
+                      handleAction(() => duplicatePlan(plan.id), "duplicate")
+                    }
+                    className="text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    Duplicate
+                  </button>
+                  {plans.length > 1 && (
+                    <button
+                      onClick={() => handleDelete(plan)}
+                      className="text-red-600 dark:text-red-400 hover:underline"
+                    >
+                      Delete
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <form
+          onSubmit={handleCreate}
+          className="mt-6 flex flex-wrap items-end gap-3"
+        >
+          <div className="flex-1 min-w-[12rem]">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              New Plan
+            </label>
+            <input
+              type="text"
+              required
+              value={newPlanName}
+              onChange={(e) => setNewPlanName(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-gray-100"
+              placeholder="e.g., Small Business"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={state.loading.isLoading}
+            className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            Create
+          </button>
+        </form>
+      </div>
+
+      <ExchangeRatesPanel />
+
+      {/* Error Display */}
+      {state.error.generalError && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+          <p className="text-sm text-red-700 dark:text-red-300">
+            {state.error.generalError}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,663 @@
+"use client";
+
+import React, { useState, useRef, useEffect, useMemo } from "react";
+import { useFinancialState, useFinancialActions } from "@/context";
+import {
+  ExpenseCategoryId,
+  Transaction,
+  TransactionLinkType,
+  CreateTransactionInput,
+} from "@/types";
+import { useCurrency } from "@/context/CurrencyContext";
+import ReconciliationView from "@/components/ReconciliationView";
+import CategorizationRules from "@/components/CategorizationRules";
+import CategoryOptions from "@/components/CategoryOptions";
+import { getTransactionMonth } from "@/utils/reconciliation";
+import { getCategories, getCategoryName } from "@/utils/categories";
+
+type Direction = "in" | "out";
+
+interface TransactionFormData {
+  date: string;
+  description: string;
+  amount: number;
+  direction: Direction;
+  account: string;
+  category: ExpenseCategoryId | "";
+  link: string; // "<linkType>:<id>" or ""
+  notes: string;
+}
+
+const emptyFormData = (): TransactionFormData => ({
+  date: new Date().toISOString().split("T")[0],
+  description: "",
+  amount: 0,
+  direction: "out",
+  account: "",
+  category: "",
+  link: "",
+  notes: "",
+});
+
+export default function TransactionsPage() {
+  const state = useFinancialState();
+  const { addTransaction, updateTransaction, deleteTransaction } =
+    useFinancialActions();
+  const { formatCurrency } = useCurrency();
+
+  const [selectedView, setSelectedView] = useState<
+    "ledger" | "reconciliation" | "rules"
+  >("ledger");
+  const [isAddFormOpen, setIsAddFormOpen] = useState(false);
+  const [editingTransaction, setEditingTransaction] = useState<string | null>(
+    null
+  );
+  const [monthFilter, setMonthFilter] = useState("");
+  const [formData, setFormData] = useState<TransactionFormData>(
+    emptyFormData()
+  );
+
+  // Form ref for auto-scroll
+  const formRef = useRef<HTMLDivElement>(null);
+
+  // Auto-scroll to form when editing starts
+  useEffect(() => {
+    if (isAddFormOpen && formRef.current) {
+      formRef.current.scrollIntoView({
+        behavior: "smooth",
+        block: "start",
+      });
+    }
+  }, [isAddFormOpen]);
+
+  const transactions = useMemo(
+    () => state.userPlan.transactions || [],
+    [state.userPlan.transactions]
+  );
+
+  const accounts = useMemo(
+    () =>
+      Array.from(new Set(transactions.map((t) => t.account).filter(Boolean))),
+    [transactions]
+  );
+
+  const months = useMemo(
+    () =>
+      Array.from(new Set(transactions.map(getTransactionMonth)))
+        .sort()
+        .reverse(),
+    [transactions]
+  );
+
+  const filteredTransactions = useMemo(
+    () =>
+      transactions
+        .filter(
+          (transaction) =>
+            !monthFilter || getTransactionMonth(transaction) === monthFilter
+        )
+        .sort((a, b) => b.date.localeCompare(a.date)),
+    [transactions, monthFilter]
+  );
+
+  const handleInputChange = <K extends keyof TransactionFormData>(
+    field: K,
+    value: TransactionFormData[K]
+  ) => {
+    setFormData((prev) => ({
+      ...prev,
+      [field]: value,
+    }));
+  };
+
+  const handleLinkChange = (link: string) => {
+    const [linkType, linkedId] = link.split(":");
+    const expense = state.userPlan.expenses.find((e) => e.id === linkedId);
+
+    setFormData((prev) => ({
+      ...prev,
+      link,
+      // Linking to an income implies money in; expenses and goals imply money out
+      direction:
+        linkType === TransactionLinkType.INCOME
+          ? "in"
+          : linkType
+          ? "out"
+          : prev.direction,
+      category: expense ? expense.category : prev.category,
+    }));
+  };
+
+  const toTransactionInput = (data: TransactionFormData) => {
+    const [linkType, linkedId] = data.link ? data.link.split(":") : [];
+    const input: CreateTransactionInput = {
+      date: data.date,
+      description: data.description,
+      amount: data.direction === "in" ? data.amount : -data.amount,
+      account: data.account,
+      category: data.category || undefined,
+      linkedType: (linkType as TransactionLinkType) || undefined,
+      linkedId: linkedId || undefined,
+      notes: data.notes || undefined,
+    };
+    return input;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      if (editingTransaction) {
+        await updateTransaction({
+          id: editingTransaction,
+          ...toTransactionInput(formData),
+        });
+        setEditingTransaction(null);
+      } else {
+        await addTransaction(toTransactionInput(formData));
+      }
+      setIsAddFormOpen(false);
+      setFormData(emptyFormData());
+    } catch (error) {
+      console.error("Failed to save transaction:", error);
+    }
+  };
+
+  const handleEdit = (transaction: Transaction) => {
+    setFormData({
+      date: transaction.date,
+      description: transaction.description,
+      amount: Math.abs(transaction.amount),
+      direction: transaction.amount >= 0 ? "in" : "out",
+      account: transaction.account,
+      category: transaction.category || "",
+      link:
+        transaction.linkedType && transaction.linkedId
+          ? `${transaction.linkedType}:${transaction.linkedId}`
+          : "",
+      notes: transaction.notes || "",
+    });
+    setEditingTransaction(transaction.id);
+    setIsAddFormOpen(true);
+  };
+
+  const handleDelete = async (transactionId: string) => {
+    if (window.confirm("Are you sure you want to delete this transaction?")) {
+      try {
+        await deleteTransaction(transactionId);
+      } catch (error) {
+        console.error("Failed to delete transaction:", error);
+      }
+    }
+  };
+
+  const handleCancel = () => {
+    setIsAddFormOpen(false);
+    setEditingTransaction(null);
+    setFormData(emptyFormData());
+  };
+
+  const getLinkedName = (transaction: Transaction) => {
+    if (!transaction.linkedType || !transaction.linkedId) return null;
+
+    const items: Array<{ id: string; name: string }> =
+      transaction.linkedType === TransactionLinkType.INCOME
+        ? state.userPlan.income
+        : transaction.linkedType === TransactionLinkType.EXPENSE
+        ? state.userPlan.expenses
+        : state.userPlan.goals;
+    return items.find((item) => item.id === transaction.linkedId)?.name;
+  };
+
+  const getCategoryLabel = (category: ExpenseCategoryId) =>
+    getCategoryName(getCategories(state.userPlan), category);
+
+  const totalIn = filteredTransactions
+    .filter((t) => t.amount > 0)
+    .reduce((total, t) => total + t.amount, 0);
+  const totalOut = filteredTransactions
+    .filter((t) => t.amount < 0)
+    .reduce((total, t) => total - t.amount, 0);
+
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-gray-100";
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-8">
+      {/* Header Section */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+        <div className="flex justify-between items-start">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">
+              Transactions
+            </h1>
+            <p className="mt-2 text-gray-600 dark:text-gray-300">
+              Record what actually happened and check it against your plan
+            </p>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setSelectedView("ledger")}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                selectedView === "ledger"
+                  ? "bg-blue-600 text-white"
+                  : "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+              }`}
+            >
+              Ledger
+            </button>
+            <button
+              onClick={() => setSelectedView("reconciliation")}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                selectedView === "reconciliation"
+                  ? "bg-blue-600 text-white"
+                  : "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+              }`}
+            >
+              Plan vs Actual
+            </button>
+            <button
+              onClick={() => setSelectedView("rules")}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                selectedView === "rules"
+                  ? "bg-blue-600 text-white"
+                  : "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+              }`}
+            >
+              Rules
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {selectedView === "reconciliation" && <ReconciliationView />}
+
+      {selectedView === "rules" && <CategorizationRules />}
+
+      {selectedView === "ledger" && (
+        <>
+          {/* Toolbar */}
+          <div className="flex justify-between items-center">
+            <div className="flex items-center gap-3">
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+                Ledger
+              </h2>
+              <select
+                value={monthFilter}
+                onChange={(e) => setMonthFilter(e.target.value)}
+                className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-gray-100"
+              >
+                <option value="">All months</option>
+                {months.map((month) => (
+                  <option key={month} value={month}>
+                    {month}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <button
+              onClick={() => setIsAddFormOpen(true)}
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-2"
+            >
+              <svg
+                className="w-5 h-5"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M12 4v16m8-8H4"
+                />
+              </svg>
+              Add Transaction
+            </button>
+          </div>
+
+          {/* Add/Edit Form */}
+          {isAddFormOpen && (
+            <div
+              ref={formRef}
+              className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border-2 border-blue-200 dark:border-blue-800"
+            >
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">
+                {editingTransaction ? "Edit Transaction" : "Add Transaction"}
+              </h3>
+
+              <form
+                onSubmit={handleSubmit}
+                className="grid grid-cols-1 md:grid-cols-2 gap-6"
+              >
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Date *
+                  </label>
+                  <input
+                    type="date"
+                    required
+                    value={formData.date}
+                    onChange={(e) => handleInputChange("date", e.target.value)}
+                    className={inputClass}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Description *
+                  </label>
+                  <input
+                    type="text"
+                    required
+                    value={formData.description}
+                    onChange={(e) =>
+                      handleInputChange("description", e.target.value)
+                    }
+                    className={inputClass}
+                    placeholder="e.g., Landlord, Supermarket"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Amount *
+                  </label>
+                  <div className="flex gap-2">
+                    <select
+                      value={formData.direction}
+                      onChange={(e) =>
+                        handleInputChange(
+                          "direction",
+                          e.target.value as Direction
+                        )
+                      }
+                      className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-gray-100"
+                    >
+                      <option value="out">Money out</option>
+                      <option value="in">Money in</option>
+                    </select>
+                    <input
+                      type="number"
+                      required
+                      min="0"
+                      step="0.01"
+                      value={formData.amount === 0 ? "" : formData.amount}
+                      onChange={(e) =>
+                        handleInputChange(
+                          "amount",
+                          parseFloat(e.target.value) || 0
+                        )
+                      }
+                      className={inputClass}
+                      placeholder="0.00"
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Account *
+                  </label>
+                  <input
+                    type="text"
+                    required
+                    list="transaction-accounts"
+                    value={formData.account}
+                    onChange={(e) =>
+                      handleInputChange("account", e.target.value)
+                    }
+                    className={inputClass}
+                    placeholder="e.g., Checking"
+                  />
+                  <datalist id="transaction-accounts">
+                    {accounts.map((account) => (
+                      <option key={account} value={account} />
+                    ))}
+                  </datalist>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Category
+                  </label>
+                  <select
+                    value={formData.category}
+                    onChange={(e) =>
+                      handleInputChange(
+                        "category",
+                        e.target.value as ExpenseCategoryId | ""
+                      )
+                    }
+                    className={inputClass}
+                  >
+                    <option value="">Uncategorised</option>
+                    <CategoryOptions />
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Fulfils Planned Item
+                  </label>
+                  <select
+                    value={formData.link}
+                    onChange={(e) => handleLinkChange(e.target.value)}
+                    className={inputClass}
+                  >
+                    <option value="">Not linked</option>
+                    <optgroup label="Income">
+                      {state.userPlan.income.map((income) => (
+                        <option
+                          key={income.id}
+                          value={`${TransactionLinkType.INCOME}:${income.id}`}
+                        >
+                          {income.name}
+                        </option>
+                      ))}
+                    </optgroup>
+                    <optgroup label="Expenses">
+                      {state.userPlan.expenses.map((expense) => (
+                        <option
+                          key={expense.id}
+                          value={`${TransactionLinkType.EXPENSE}:${expense.id}`}
+                        >
+                          {expense.name}
+                        </option>
+                      ))}
+                    </optgroup>
+                    <optgroup label="Goals">
+                      {state.userPlan.goals.map((goal) => (
+                        <option
+                          key={goal.id}
+                          value={`${TransactionLinkType.GOAL}:${goal.id}`}
+                        >
+                          {goal.name}
+                        </option>
+                      ))}
+                    </optgroup>
+                  </select>
+                </div>
+
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Notes
+                  </label>
+                  <textarea
+                    value={formData.notes}
+                    onChange={(e) => handleInputChange("notes", e.target.value)}
+                    rows={2}
+                    className={inputClass}
+                  />
+                </div>
+
+                <div className="md:col-span-2 flex gap-3">
+                  <button
+                    type="submit"
+                    className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+                  >
+                    {editingTransaction
+                      ? "Update Transaction"
+                      : "Add Transaction"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleCancel}
+                    className="bg-gray-300 dark:bg-gray-600 text-gray-700 dark:text-gray-300 px-6 py-2 rounded-lg hover:bg-gray-400 dark:hover:bg-gray-500 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </form>
+            </div>
+          )}
+
+          {/* Transaction List */}
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm overflow-hidden">
+            {filteredTransactions.length === 0 ? (
+              <div className="p-12 text-center">
+                <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-2">
+                  No transactions yet
+                </h3>
+                <p className="text-gray-500 dark:text-gray-400 mb-4">
+                  Record your actual income and spending to see how your plan is
+                  holding up
+                </p>
+                <button
+                  onClick={() => setIsAddFormOpen(true)}
+                  className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  Add Your First Transaction
+                </button>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-gray-50 dark:bg-gray-700">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                        Date
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                        Description
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                        Account
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                        Category
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                        Planned Item
+                      </th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                        Amount
+                      </th>
+                      <th className="px-6 py-3" />
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-600 text-sm">
+                    {filteredTransactions.map((transaction) => (
+                      <tr
+                        key={transaction.id}
+                        className={
+                          editingTransaction === transaction.id
+                            ? "bg-blue-50 dark:bg-blue-900/20"
+                            : ""
+                        }
+                      >
+                        <td className="px-6 py-3 whitespace-nowrap text-gray-900 dark:text-gray-100">
+                          {new Date(
+                            transaction.date + "T00:00:00"
+                          ).toLocaleDateString()}
+                        </td>
+                        <td className="px-6 py-3 text-gray-900 dark:text-gray-100">
+                          {transaction.description}
+                          {transaction.notes && (
+                            <span className="block text-xs text-gray-500 dark:text-gray-400">
+                              {transaction.notes}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-6 py-3 text-gray-600 dark:text-gray-300">
+                          {transaction.account}
+                        </td>
+                        <td className="px-6 py-3 text-gray-600 dark:text-gray-300">
+                          {transaction.category
+                            ? getCategoryLabel(transaction.category)
+                            : "—"}
+                        </td>
+                        <td className="px-6 py-3 text-gray-600 dark:text-gray-300">
+                          {getLinkedName(transaction) || (
+                            <span className="text-gray-400">Unplanned</span>
+                          )}
+                        </td>
+                        <td
+                          className={`px-6 py-3 text-right whitespace-nowrap font-medium ${
+                            transaction.amount >= 0
+                              ? "text-green-600 dark:text-green-400"
+                              : "text-red-600 dark:text-red-400"
+                          }`}
+                        >
+                          {formatCurrency(transaction.amount)}
+                        </td>
+                        <td className="px-6 py-3 text-right whitespace-nowrap">
+                          <button
+                            onClick={() => handleEdit(transaction)}
+                            className="p-1 text-gray-400 hover:text-blue-600 transition-colors"
+                            title="Edit transaction"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            onClick={() => handleDelete(transaction.id)}
+                            className="p-1 ml-2 text-gray-400 hover:text-red-600 transition-colors"
+                            title="Delete transaction"
+                          >
+                            Delete
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                  <tfoot className="bg-gray-50 dark:bg-gray-700 text-sm">
+                    <tr>
+                      <td
+                        colSpan={5}
+                        className="px-6 py-3 font-medium text-gray-900 dark:text-gray-100"
+                      >
+                        {filteredTransactions.length} transactions
+                      </td>
+                      <td className="px-6 py-3 text-right whitespace-nowrap">
+                        <span className="block text-green-600 dark:text-green-400">
+                          +{formatCurrency(totalIn)}
+                        </span>
+                        <span className="block text-red-600 dark:text-red-400">
+                          -{formatCurrency(totalOut)}
+                        </span>
+                      </td>
+                      <td />
+                    </tr>
+                  </tfoot>
+                </table>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+
+      {/* Error Display */}
+      {state.error.transactionError && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+          <h3 className="text-sm font-medium text-red-800 dark:text-red-200">
+            Error
+          </h3>
+          <p className="text-sm text-red-700 dark:text-red-300 mt-1">
+            {state.error.transactionError}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+"use client";
+
+import React from "react";
+import { useCurrency } from "@/context/CurrencyContext";
+import { ForecastResult } from "@/utils/forecastCalculator";
+import { ACCOUNT_TYPE_LABELS } from "@/utils/accounts";
+
+interface AccountBalanceForecastProps {
+  forecastResult: ForecastResult;
+  formatMonth: (monthKey: string) => string;
+}
+
+export default function AccountBalanceForecast({
+  forecastResult,
+  formatMonth,
+}: AccountBalanceForecastProps) {
+  const { formatCurrency } = useCurrency();
+  const { accountProjections, monthlyForecasts } = forecastResult;
+
+  const getBalanceColor = (balance: number) =>
+    balance >= 0
+      ? "text-gray-900 dark:text-gray-100"
+      : "text-red-600 dark:text-red-400";
+
+  if (accountProjections.length === 0) {
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-12 text-center text-gray-500 dark:text-gray-400">
+        Add accounts to see a balance forecast for each one.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Account Summary */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 dark:bg-gray-700">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Account
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Starting Balance
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Lowest Balance
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Final Balance
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Status
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-600">
+              {accountProjections.map((account) => (
+                <tr key={account.id}>
+                  <td className="px-6 py-4">
+                    <div className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                      {account.name}
+                    </div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {ACCOUNT_TYPE_LABELS[account.type]}
+                    </div>
+                  </td>
+                  <td
+                    className={`px-6 py-4 text-right text-sm ${getBalanceColor(
+                      account.startingBalance
+                    )}`}
+                  >
+                    {formatCurrency(account.startingBalance)}
+                  </td>
+                  <td
+                    className={`px-6 py-4 text-right text-sm ${getBalanceColor(
+                      account.lowestBalance
+                    )}`}
+                  >
+                    {formatCurrency(account.lowestBalance)}
+                  </td>
+                  <td
+                    className={`px-6 py-4 text-right text-sm font-medium ${getBalanceColor(
+                      account.finalBalance
+                    )}`}
+                  >
+                    {formatCurrency(account.finalBalance)}
+                  </td>
+                  <td className="px-6 py-4 text-sm">
+                    {account.goesNegative ? (
+                      <span className="px-2 py-1 text-xs rounded-full bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200">
+                        Overdrawn from{" "}
+                        {formatMonth(account.firstNegativeMonth as string)}
+                      </span>
+                    ) : (
+                      <span className="px-2 py-1 text-xs rounded-full bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">
+                        OK
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Monthly Balances by Account */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 dark:bg-gray-700">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Month
+                </th>
+                {accountProjections.map((account) => (
+                  <th
+                    key={account.id}
+                    className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider"
+                  >
+                    {account.name}
+                  </th>
+                ))}
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Total
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-600">
+              {monthlyForecasts.map((month) => (
+                <tr key={month.month}>
+                  <td className="px-6 py-3 text-sm font-medium text-gray-900 dark:text-gray-100">
+                    {formatMonth(month.month)}
+                  </td>
+                  {month.accountBalances.map((entry) => (
+                    <td
+                      key={entry.id}
+                      className={`px-6 py-3 text-right text-sm ${getBalanceColor(
+                        entry.endingBalance
+                      )}`}
+                    >
+                      {formatCurrency(entry.endingBalance)}
+                    </td>
+                  ))}
+                  <td
+                    className={`px-6 py-3 text-right text-sm font-medium ${getBalanceColor(
+                      month.endingBalance
+                    )}`}
+                  >
+                    {formatCurrency(month.endingBalance)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
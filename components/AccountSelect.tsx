@@ -0,0 +1,50 @@
+"use client";
+
+import React from "react";
+import { useFinancialState } from "@/context";
+import { getActiveAccounts, getPrimaryAccountId } from "@/utils/accounts";
+
+interface AccountSelectProps {
+  label: string;
+  value?: string;
+  onChange: (accountId: string | undefined) => void;
+}
+
+/**
+ * Account picker for income, expense and goal forms. Renders nothing until
+ * the plan has accounts; leaving it on the default uses the primary account.
+ */
+export default function AccountSelect({
+  label,
+  value,
+  onChange,
+}: AccountSelectProps) {
+  const state = useFinancialState();
+  const accounts = getActiveAccounts(state.userPlan.accounts);
+
+  if (accounts.length === 0) return null;
+
+  const primaryAccount = accounts.find(
+    (account) => account.id === getPrimaryAccountId(accounts)
+  );
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+        {label}
+      </label>
+      <select
+        value={value || ""}
+        onChange={(e) => onChange(e.target.value || undefined)}
+        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-gray-100"
+      >
+        <option value="">Primary account ({primaryAccount?.name})</option>
+        {accounts.map((account) => (
+          <option key={account.id} value={account.id}>
+            {account.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
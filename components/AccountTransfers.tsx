@@ -0,0 +1,322 @@
+"use client";
+
+import React, { useState } from "react";
+import { useFinancialContext } from "@/context";
+import { useCurrency } from "@/context/CurrencyContext";
+import { CreateTransferInput, Frequency, Transfer } from "@/types";
+
+const getFrequencyLabel = (frequency: Frequency) =>
+  frequency.charAt(0).toUpperCase() +
+  frequency.slice(1).toLowerCase().replace("_", " ");
+
+export default function AccountTransfers() {
+  const { state, addTransfer, updateTransfer, deleteTransfer } =
+    useFinancialContext();
+  const { formatCurrency } = useCurrency();
+
+  const accounts = state.userPlan.accounts || [];
+  const transfers = state.userPlan.transfers || [];
+
+  const emptyTransfer = (): CreateTransferInput => ({
+    name: "",
+    fromAccountId: accounts[0]?.id || "",
+    toAccountId: accounts[1]?.id || "",
+    amount: 0,
+    frequency: Frequency.MONTHLY,
+    startDate: new Date().toISOString().split("T")[0],
+    endDate: "",
+    description: "",
+    isActive: true,
+  });
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingTransfer, setEditingTransfer] = useState<string | null>(null);
+  const [formData, setFormData] = useState<CreateTransferInput>(emptyTransfer);
+
+  const handleInputChange = (
+    field: keyof CreateTransferInput,
+    value: string | number | boolean | Frequency
+  ) => {
+    setFormData((prev) => ({
+      ...prev,
+      [field]: value,
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (formData.fromAccountId === formData.toAccountId) return;
+
+    try {
+      if (editingTransfer) {
+        await updateTransfer({ id: editingTransfer, ...formData });
+      } else {
+        await addTransfer(formData);
+      }
+      handleCancel();
+    } catch (error) {
+      console.error("Failed to save transfer:", error);
+    }
+  };
+
+  const handleEdit = (transfer: Transfer) => {
+    setFormData({
+      name: transfer.name,
+      fromAccountId: transfer.fromAccountId,
+      toAccountId: transfer.toAccountId,
+      amount: transfer.amount,
+      frequency: transfer.frequency,
+      startDate: transfer.startDate.split("T")[0],
+      endDate: transfer.endDate ? transfer.endDate.split("T")[0] : "",
+      description: transfer.description || "",
+      isActive: transfer.isActive,
+    });
+    setEditingTransfer(transfer.id);
+    setIsFormOpen(true);
+  };
+
+  const handleDelete = async (transferId: string) => {
+    if (window.confirm("Are you sure you want to delete this transfer?")) {
+      try {
+        await deleteTransfer(transferId);
+      } catch (error) {
+        console.error("Failed to delete transfer:", error);
+      }
+    }
+  };
+
+  const handleCancel = () => {
+    setIsFormOpen(false);
+    setEditingTransfer(null);
+    setFormData(emptyTransfer());
+  };
+
+  const getAccountName = (accountId: string) =>
+    accounts.find((account) => account.id === accountId)?.name ||
+    "Deleted account";
+
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-gray-100";
+  const labelClass =
+    "block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2";
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+          Transfers
+        </h2>
+        <button
+          onClick={() => setIsFormOpen(true)}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          Add Transfer
+        </button>
+      </div>
+
+      {/* Add/Edit Form */}
+      {isFormOpen && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border-2 border-blue-200 dark:border-blue-800">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">
+            {editingTransfer ? "Edit Transfer" : "Add New Transfer"}
+          </h3>
+
+          <form
+            onSubmit={handleSubmit}
+            className="grid grid-cols-1 md:grid-cols-2 gap-6"
+          >
+            <div className="md:col-span-2">
+              <label className={labelClass}>Transfer Name *</label>
+              <input
+                type="text"
+                required
+                value={formData.name}
+                onChange={(e) => handleInputChange("name", e.target.value)}
+                className={inputClass}
+                placeholder="e.g., Credit card payment, Monthly savings"
+              />
+            </div>
+
+            <div>
+              <label className={labelClass}>From Account *</label>
+              <select
+                required
+                value={formData.fromAccountId}
+                onChange={(e) =>
+                  handleInputChange("fromAccountId", e.target.value)
+                }
+                className={inputClass}
+              >
+                {accounts.map((account) => (
+                  <option key={account.id} value={account.id}>
+                    {account.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className={labelClass}>To Account *</label>
+              <select
+                required
+                value={formData.toAccountId}
+                onChange={(e) =>
+                  handleInputChange("toAccountId", e.target.value)
+                }
+                className={inputClass}
+              >
+                {accounts.map((account) => (
+                  <option key={account.id} value={account.id}>
+                    {account.name}
+                  </option>
+                ))}
+              </select>
+              {formData.fromAccountId === formData.toAccountId && (
+                <p className="text-xs text-red-600 mt-1">
+                  Choose two different accounts
+                </p>
+              )}
+            </div>
+
+            <div>
+              <label className={labelClass}>Amount *</label>
+              <input
+                type="number"
+                required
+                min="0"
+                step="0.01"
+                value={formData.amount === 0 ? "" : formData.amount}
+                onChange={(e) =>
+                  handleInputChange("amount", parseFloat(e.target.value) || 0)
+                }
+                className={inputClass}
+                placeholder="0.00"
+              />
+            </div>
+
+            <div>
+              <label className={labelClass}>Frequency *</label>
+              <select
+                required
+                value={formData.frequency}
+                onChange={(e) =>
+                  handleInputChange("frequency", e.target.value as Frequency)
+                }
+                className={inputClass}
+              >
+                {Object.values(Frequency).map((freq) => (
+                  <option key={freq} value={freq}>
+                    {getFrequencyLabel(freq)}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className={labelClass}>Start Date</label>
+              <input
+                type="date"
+                value={formData.startDate}
+                onChange={(e) => handleInputChange("startDate", e.target.value)}
+                className={inputClass}
+              />
+            </div>
+
+            <div>
+              <label className={labelClass}>End Date</label>
+              <input
+                type="date"
+                value={formData.endDate}
+                onChange={(e) => handleInputChange("endDate", e.target.value)}
+                className={inputClass}
+                min={formData.startDate}
+              />
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                Leave empty for ongoing transfers
+              </p>
+            </div>
+
+            <div className="md:col-span-2">
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={formData.isActive}
+                  onChange={(e) =>
+                    handleInputChange("isActive", e.target.checked)
+                  }
+                  className="rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
+                />
+                <span className="ml-2 text-sm text-gray-700 dark:text-gray-300">
+                  Active transfer
+                </span>
+              </label>
+            </div>
+
+            <div className="md:col-span-2 flex gap-3">
+              <button
+                type="submit"
+                disabled={formData.fromAccountId === formData.toAccountId}
+                className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {editingTransfer ? "Update Transfer" : "Add Transfer"}
+              </button>
+              <button
+                type="button"
+                onClick={handleCancel}
+                className="bg-gray-300 dark:bg-gray-600 text-gray-700 dark:text-gray-300 px-6 py-2 rounded-lg hover:bg-gray-400 dark:hover:bg-gray-500 transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {/* Transfer List */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm">
+        {transfers.length === 0 ? (
+          <div className="p-12 text-center text-gray-500 dark:text-gray-400">
+            No transfers yet. Add one for card payments or regular savings.
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-200 dark:divide-gray-700">
+            {transfers.map((transfer) => (
+              <div
+                key={transfer.id}
+                className={`p-4 flex items-center justify-between ${
+                  transfer.isActive ? "" : "opacity-60"
+                }`}
+              >
+                <div>
+                  <div className="font-medium text-gray-900 dark:text-gray-100">
+                    {transfer.name}
+                  </div>
+                  <div className="text-sm text-gray-500 dark:text-gray-400">
+                    {getAccountName(transfer.fromAccountId)} →{" "}
+                    {getAccountName(transfer.toAccountId)} ·{" "}
+                    {formatCurrency(transfer.amount)} /{" "}
+                    {getFrequencyLabel(transfer.frequency)}
+                  </div>
+                </div>
+                <div className="flex gap-1 text-sm">
+                  <button
+                    onClick={() => handleEdit(transfer)}
+                    className="px-2 py-1 text-gray-400 hover:text-blue-600"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleDelete(transfer.id)}
+                    className="px-2 py-1 text-gray-400 hover:text-red-600"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { actions, useFinancialContext } from "@/context";
+import { useCurrency } from "@/context/CurrencyContext";
+import type { BackupSettings, ReadableBackup } from "@/context/storage";
+import { CollectionDiff, diffUserPlans, isEmptyDiff } from "@/utils/planDiff";
+
+const formatCollectionDiff = (label: string, diff: CollectionDiff) => {
+  const parts = [
+    diff.added > 0 && `+${diff.added}`,
+    diff.removed > 0 && `−${diff.removed}`,
+    diff.changed > 0 && `~${diff.changed}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? `${label} ${parts.join(" ")}` : null;
+};
+
+export default function BackupHistory() {
+  const { state, dispatch } = useFinancialContext();
+  const { formatCurrency } = useCurrency();
+  const [backups, setBackups] = useState<ReadableBackup[]>([]);
+  const [settings, setSettings] = useState<BackupSettings | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const planId = state.userPlan.id;
+
+  // Import storage functions dynamically to avoid SSR issues
+  const refresh = useCallback(async () => {
+    try {
+      const { listBackups, getBackupSettings } = await import(
+        "@/context/storage"
+      );
+      setSettings(getBackupSettings());
+      setBackups(await listBackups(planId));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load backups");
+    }
+  }, [planId]);
+
+  // Reload after each save, since saves add snapshots
+  useEffect(() => {
+    if (!state.hasUnsavedChanges) refresh();
+  }, [state.hasUnsavedChanges, refresh]);
+
+  const handleSettingChange = async (
+    field: keyof BackupSettings,
+    value: string
+  ) => {
+    const { updateBackupSettings } = await import("@/context/storage");
+    // At least one snapshot is always kept
+    const minimum = field === "maxBackups" ? 1 : 0;
+    setSettings(
+      updateBackupSettings({
+        [field]: Math.max(minimum, parseInt(value) || 0),
+      })
+    );
+  };
+
+  const handleRestore = (backup: ReadableBackup) => {
+    if (
+      !confirm(
+        `Restore your plan to ${new Date(
+          backup.timestamp
+        ).toLocaleString()}? Your current data will be replaced.`
+      )
+    ) {
+      return;
+    }
+    // Snapshots from before there were several plans may have another id
+    dispatch(actions.setUserPlan({ ...backup.userPlan, id: planId }));
+  };
+
+  const handleDelete = async (backup: ReadableBackup) => {
+    if (!confirm("Delete this backup?")) return;
+    const { deleteBackup } = await import("@/context/storage");
+    await deleteBackup(backup.id);
+    refresh();
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+      <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4 mb-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+            🕒 Backup History
+          </h2>
+          <p className="text-gray-600 dark:text-gray-300">
+            Snapshots taken automatically as your plan is saved
+          </p>
+        </div>
+
+        {settings && (
+          <div className="flex flex-wrap gap-3 text-sm">
+            <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+              Keep
+              <input
+                type="number"
+                min="1"
+                value={settings.maxBackups}
+                onChange={(e) =>
+                  handleSettingChange("maxBackups", e.target.value)
+                }
+                className="w-16 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded dark:bg-gray-700 dark:text-gray-100"
+              />
+              snapshots
+            </label>
+            <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+              for
+              <input
+                type="number"
+                min="0"
+                value={settings.maxAgeDays}
+                onChange={(e) =>
+                  handleSettingChange("maxAgeDays", e.target.value)
+                }
+                className="w-16 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded dark:bg-gray-700 dark:text-gray-100"
+              />
+              days
+            </label>
+            <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+              every
+              <input
+                type="number"
+                min="0"
+                value={settings.minIntervalMinutes}
+                onChange={(e) =>
+                  handleSettingChange("minIntervalMinutes", e.target.value)
+                }
+                className="w-16 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded dark:bg-gray-700 dark:text-gray-100"
+              />
+              min
+            </label>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {backups.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No backups yet. One is taken the next time your plan is saved.
+        </p>
+      ) : (
+        <div className="divide-y divide-gray-200 dark:divide-gray-700">
+          {backups.map((backup) => {
+            const diff = diffUserPlans(state.userPlan, backup.userPlan);
+            const changes = [
+              formatCollectionDiff("Income", diff.income),
+              formatCollectionDiff("Expenses", diff.expenses),
+              formatCollectionDiff("Goals", diff.goals),
+            ].filter(Boolean);
+
+            return (
+              <div
+                key={backup.id}
+                className="py-3 flex flex-col md:flex-row md:items-center md:justify-between gap-2"
+              >
+                <div>
+                  <div className="font-medium text-gray-900 dark:text-gray-100">
+                    {new Date(backup.timestamp).toLocaleString()}
+                  </div>
+                  <div className="text-sm text-gray-500 dark:text-gray-400">
+                    {backup.userPlan.income.length} income ·{" "}
+                    {backup.userPlan.expenses.length} expenses ·{" "}
+                    {backup.userPlan.goals.length} goals ·{" "}
+                    {formatCurrency(backup.userPlan.currentBalance)}
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {isEmptyDiff(diff)
+                      ? "No changes to income, expenses, goals or balance"
+                      : `Restoring changes: ${[
+                          ...changes,
+                          diff.balanceDelta !== 0 &&
+                            `Balance ${
+                              diff.balanceDelta > 0 ? "+" : ""
+                            }${formatCurrency(diff.balanceDelta)}`,
+                        ]
+                          .filter(Boolean)
+                          .join(", ")}`}
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleRestore(backup)}
+                    className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+                  >
+                    Restore
+                  </button>
+                  <button
+                    onClick={() => handleDelete(backup)}
+                    className="px-3 py-1 text-sm text-red-600 dark:text-red-400 hover:underline"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,651 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { useFinancialContext } from "@/context";
+import { useCurrency } from "@/context/CurrencyContext";
+import {
+  AmountSignConvention,
+  BankDateFormat,
+  BankImportProfile,
+  CreateBankImportProfileInput,
+  ExpenseCategoryId,
+} from "@/types";
+import {
+  detectBankFileFormat,
+  getBankCSVHeaders,
+  parseBankCSV,
+  parseOFX,
+  markDuplicates,
+  BankImportPreviewRow,
+  BankParseResult,
+} from "@/utils/bankImport";
+import { applyCategorizationRules } from "@/utils/categorizationRules";
+import { uploadFile } from "@/utils/fileOperations";
+import CategoryOptions from "@/components/CategoryOptions";
+
+const emptyMapping = (): CreateBankImportProfileInput => ({
+  name: "",
+  account: "",
+  delimiter: ",",
+  skipRows: 0,
+  dateColumn: "",
+  dateFormat: BankDateFormat.YYYY_MM_DD,
+  descriptionColumn: "",
+  amountSign: AmountSignConvention.POSITIVE_IS_INFLOW,
+  amountColumn: "",
+  debitColumn: "",
+  creditColumn: "",
+});
+
+const SIGN_CONVENTION_LABELS: Record<AmountSignConvention, string> = {
+  [AmountSignConvention.POSITIVE_IS_INFLOW]:
+    "Single column, negative = money out",
+  [AmountSignConvention.POSITIVE_IS_OUTFLOW]:
+    "Single column, positive = money out",
+  [AmountSignConvention.SEPARATE_COLUMNS]: "Separate debit / credit columns",
+};
+
+export default function BankImport() {
+  const {
+    state,
+    importTransactions,
+    addBankImportProfile,
+    updateBankImportProfile,
+    deleteBankImportProfile,
+  } = useFinancialContext();
+  const { formatCurrency } = useCurrency();
+  const profiles = state.userPlan.bankImportProfiles || [];
+
+  const [file, setFile] = useState<{
+    content: string;
+    filename: string;
+    format: "ofx" | "csv";
+  } | null>(null);
+  const [selectedProfileId, setSelectedProfileId] = useState("");
+  const [mapping, setMapping] = useState<CreateBankImportProfileInput>(
+    emptyMapping()
+  );
+  const [ofxAccount, setOfxAccount] = useState("");
+  const [parseResult, setParseResult] = useState<BankParseResult | null>(null);
+  const [previewRows, setPreviewRows] = useState<BankImportPreviewRow[]>([]);
+  const [included, setIncluded] = useState<boolean[]>([]);
+  const [message, setMessage] = useState<{
+    type: "success" | "error";
+    text: string;
+  } | null>(null);
+
+  const headers = useMemo(
+    () =>
+      file?.format === "csv"
+        ? getBankCSVHeaders(file.content, mapping).filter(Boolean)
+        : [],
+    [file, mapping]
+  );
+
+  const resetPreview = () => {
+    setParseResult(null);
+    setPreviewRows([]);
+    setIncluded([]);
+  };
+
+  const showPreview = (result: BankParseResult, account: string) => {
+    setParseResult(result);
+    const rules = state.userPlan.categorizationRules || [];
+    const rows = markDuplicates(
+      result.rows,
+      state.userPlan.transactions || []
+    ).map((row) => {
+      const assignment = applyCategorizationRules(rules, { ...row, account });
+      return assignment
+        ? {
+            ...row,
+            category: assignment.category,
+            priority: assignment.priority,
+            linkedType: assignment.linkedType,
+            linkedId: assignment.linkedId,
+            ruleName: assignment.ruleName,
+          }
+        : row;
+    });
+    setPreviewRows(rows);
+    setIncluded(rows.map((row) => !row.isDuplicate));
+  };
+
+  const handleChooseFile = async () => {
+    setMessage(null);
+    resetPreview();
+
+    try {
+      const fileData = await uploadFile({
+        accept: ".ofx,.qfx,.csv",
+        maxSize: 10 * 1024 * 1024, // 10MB
+      });
+      const format = detectBankFileFormat(fileData.content, fileData.filename);
+
+      if (format === "unknown") {
+        setMessage({ type: "error", text: "Unrecognised statement format" });
+        return;
+      }
+
+      setFile({
+        content: fileData.content,
+        filename: fileData.filename,
+        format,
+      });
+
+      if (format === "ofx") {
+        const result = parseOFX(fileData.content);
+        setOfxAccount(result.accountId || "");
+        showPreview(result, result.accountId || "");
+      }
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        error.message !== "File selection cancelled"
+      ) {
+        setMessage({ type: "error", text: error.message });
+      }
+    }
+  };
+
+  const handleSelectProfile = (profileId: string) => {
+    setSelectedProfileId(profileId);
+    resetPreview();
+    const profile = profiles.find((p) => p.id === profileId);
+    if (profile) {
+      setMapping({
+        name: profile.name,
+        account: profile.account,
+        delimiter: profile.delimiter,
+        skipRows: profile.skipRows,
+        dateColumn: profile.dateColumn,
+        dateFormat: profile.dateFormat,
+        descriptionColumn: profile.descriptionColumn,
+        amountSign: profile.amountSign,
+        amountColumn: profile.amountColumn || "",
+        debitColumn: profile.debitColumn || "",
+        creditColumn: profile.creditColumn || "",
+      });
+    } else {
+      setMapping(emptyMapping());
+    }
+  };
+
+  const updateMapping = <K extends keyof CreateBankImportProfileInput>(
+    field: K,
+    value: CreateBankImportProfileInput[K]
+  ) => {
+    setMapping((prev) => ({ ...prev, [field]: value }));
+    resetPreview();
+  };
+
+  const handleSaveProfile = async () => {
+    if (!mapping.name.trim()) {
+      setMessage({ type: "error", text: "Give the profile a name to save it" });
+      return;
+    }
+
+    try {
+      if (selectedProfileId) {
+        await updateBankImportProfile({ id: selectedProfileId, ...mapping });
+      } else {
+        await addBankImportProfile(mapping);
+      }
+      setMessage({ type: "success", text: `Saved profile "${mapping.name}"` });
+    } catch (error) {
+      console.error("Failed to save bank import profile:", error);
+    }
+  };
+
+  const handleDeleteProfile = async (profile: BankImportProfile) => {
+    if (!window.confirm(`Delete the "${profile.name}" profile?`)) return;
+
+    try {
+      await deleteBankImportProfile(profile.id);
+      handleSelectProfile("");
+    } catch (error) {
+      console.error("Failed to delete bank import profile:", error);
+    }
+  };
+
+  const handlePreviewCSV = () => {
+    if (!file) return;
+    showPreview(parseBankCSV(file.content, mapping), mapping.account);
+  };
+
+  const setRowCategory = (index: number, category: ExpenseCategoryId | "") => {
+    setPreviewRows((prev) =>
+      prev.map((row, i) =>
+        i === index ? { ...row, category: category || undefined } : row
+      )
+    );
+  };
+
+  const setAllCategories = (category: ExpenseCategoryId | "") => {
+    setPreviewRows((prev) =>
+      prev.map((row) => ({ ...row, category: category || undefined }))
+    );
+  };
+
+  const handleCommit = async () => {
+    const account = file?.format === "ofx" ? ofxAccount : mapping.account;
+    const rows = previewRows.filter((_, index) => included[index]);
+
+    try {
+      await importTransactions(
+        rows.map((row) => ({
+          date: row.date,
+          amount: row.amount,
+          description: row.description,
+          account,
+          category: row.category,
+          priority: row.priority,
+          linkedType: row.linkedType,
+          linkedId: row.linkedId,
+          externalId: row.externalId,
+        }))
+      );
+      setMessage({
+        type: "success",
+        text: `Imported ${rows.length} transactions from ${file?.filename}`,
+      });
+      setFile(null);
+      resetPreview();
+    } catch (error) {
+      setMessage({
+        type: "error",
+        text: error instanceof Error ? error.message : "Import failed",
+      });
+    }
+  };
+
+  const includedCount = included.filter(Boolean).length;
+  const duplicateCount = previewRows.filter((row) => row.isDuplicate).length;
+
+  const inputClass =
+    "w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-gray-100";
+  const labelClass =
+    "block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1";
+
+  const renderColumnSelect = (
+    field:
+      | "dateColumn"
+      | "descriptionColumn"
+      | "amountColumn"
+      | "debitColumn"
+      | "creditColumn",
+    label: string
+  ) => (
+    <div>
+      <label className={labelClass}>{label}</label>
+      <select
+        value={mapping[field] || ""}
+        onChange={(e) => updateMapping(field, e.target.value)}
+        className={inputClass}
+      >
+        <option value="">Select column...</option>
+        {headers.map((header) => (
+          <option key={header} value={header}>
+            {header}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+      <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-2">
+        🏦 Bank Statement Import
+      </h2>
+      <p className="text-gray-600 dark:text-gray-300 mb-6">
+        Import OFX/QFX statements or your bank&apos;s CSV export as
+        transactions. You can review every row before anything is saved.
+      </p>
+
+      {message && (
+        <div
+          className={`mb-4 p-3 rounded-md text-sm ${
+            message.type === "success"
+              ? "bg-green-50 border border-green-200 text-green-800"
+              : "bg-red-50 border border-red-200 text-red-800"
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      <div className="flex items-center gap-4 mb-6">
+        <button
+          onClick={handleChooseFile}
+          className="bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 transition-colors"
+        >
+          Choose Statement File
+        </button>
+        {file && (
+          <span className="text-sm text-gray-600 dark:text-gray-300">
+            {file.filename} ({file.format.toUpperCase()})
+          </span>
+        )}
+      </div>
+
+      {/* OFX account */}
+      {file?.format === "ofx" && (
+        <div className="mb-6 max-w-sm">
+          <label className={labelClass}>Account</label>
+          <input
+            type="text"
+            value={ofxAccount}
+            onChange={(e) => setOfxAccount(e.target.value)}
+            className={inputClass}
+            placeholder="e.g., Checking"
+          />
+        </div>
+      )}
+
+      {/* CSV column mapping */}
+      {file?.format === "csv" && (
+        <div className="mb-6 p-4 bg-gray-50 dark:bg-gray-700 rounded-lg space-y-4">
+          <div className="flex items-end gap-3">
+            <div className="flex-1">
+              <label className={labelClass}>Bank Profile</label>
+              <select
+                value={selectedProfileId}
+                onChange={(e) => handleSelectProfile(e.target.value)}
+                className={inputClass}
+              >
+                <option value="">New mapping</option>
+                {profiles.map((profile) => (
+                  <option key={profile.id} value={profile.id}>
+                    {profile.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {selectedProfileId && (
+              <button
+                onClick={() => {
+                  const profile = profiles.find(
+                    (p) => p.id === selectedProfileId
+                  );
+                  if (profile) handleDeleteProfile(profile);
+                }}
+                className="px-3 py-2 text-sm bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 rounded-md hover:bg-red-200 transition-colors"
+              >
+                Delete Profile
+              </button>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className={labelClass}>Profile Name</label>
+              <input
+                type="text"
+                value={mapping.name}
+                onChange={(e) => updateMapping("name", e.target.value)}
+                className={inputClass}
+                placeholder="e.g., My Bank"
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Account</label>
+              <input
+                type="text"
+                value={mapping.account}
+                onChange={(e) => updateMapping("account", e.target.value)}
+                className={inputClass}
+                placeholder="e.g., Checking"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className={labelClass}>Delimiter</label>
+                <select
+                  value={mapping.delimiter}
+                  onChange={(e) => updateMapping("delimiter", e.target.value)}
+                  className={inputClass}
+                >
+                  <option value=",">Comma</option>
+                  <option value=";">Semicolon</option>
+                  <option value={"\t"}>Tab</option>
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>Skip Lines</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={mapping.skipRows}
+                  onChange={(e) =>
+                    updateMapping("skipRows", parseInt(e.target.value) || 0)
+                  }
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            {renderColumnSelect("dateColumn", "Date Column")}
+            <div>
+              <label className={labelClass}>Date Format</label>
+              <select
+                value={mapping.dateFormat}
+                onChange={(e) =>
+                  updateMapping("dateFormat", e.target.value as BankDateFormat)
+                }
+                className={inputClass}
+              >
+                {Object.values(BankDateFormat).map((format) => (
+                  <option key={format} value={format}>
+                    {format}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {renderColumnSelect("descriptionColumn", "Description Column")}
+
+            <div>
+              <label className={labelClass}>Amount Sign Convention</label>
+              <select
+                value={mapping.amountSign}
+                onChange={(e) =>
+                  updateMapping(
+                    "amountSign",
+                    e.target.value as AmountSignConvention
+                  )
+                }
+                className={inputClass}
+              >
+                {Object.values(AmountSignConvention).map((convention) => (
+                  <option key={convention} value={convention}>
+                    {SIGN_CONVENTION_LABELS[convention]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {mapping.amountSign === AmountSignConvention.SEPARATE_COLUMNS ? (
+              <>
+                {renderColumnSelect("debitColumn", "Debit (Money Out) Column")}
+                {renderColumnSelect("creditColumn", "Credit (Money In) Column")}
+              </>
+            ) : (
+              renderColumnSelect("amountColumn", "Amount Column")
+            )}
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              onClick={handlePreviewCSV}
+              className="bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 transition-colors"
+            >
+              Preview
+            </button>
+            <button
+              onClick={handleSaveProfile}
+              className="bg-gray-300 dark:bg-gray-600 text-gray-700 dark:text-gray-300 py-2 px-4 rounded-md hover:bg-gray-400 dark:hover:bg-gray-500 transition-colors"
+            >
+              {selectedProfileId ? "Update Profile" : "Save as Profile"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Parse errors and warnings */}
+      {parseResult &&
+        (parseResult.errors.length > 0 || parseResult.warnings.length > 0) && (
+          <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-md text-sm">
+            {parseResult.errors.length > 0 && (
+              <ul className="text-red-700 list-disc list-inside">
+                {parseResult.errors.map((error, index) => (
+                  <li key={index}>{error}</li>
+                ))}
+              </ul>
+            )}
+            {parseResult.warnings.length > 0 && (
+              <ul className="text-yellow-700 list-disc list-inside">
+                {parseResult.warnings.map((warning, index) => (
+                  <li key={index}>{warning}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+      {/* Preview */}
+      {previewRows.length > 0 && (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div className="text-sm text-gray-600 dark:text-gray-300">
+              {previewRows.length} rows, {duplicateCount} already imported
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="text-sm text-gray-600 dark:text-gray-300">
+                Categorise all as
+              </label>
+              <select
+                onChange={(e) =>
+                  setAllCategories(e.target.value as ExpenseCategoryId | "")
+                }
+                className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-gray-100"
+              >
+                <option value="">Uncategorised</option>
+                <CategoryOptions />
+              </select>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto max-h-96 overflow-y-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-700 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-left">
+                    <input
+                      type="checkbox"
+                      checked={includedCount === previewRows.length}
+                      onChange={(e) =>
+                        setIncluded(previewRows.map(() => e.target.checked))
+                      }
+                    />
+                  </th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                    Date
+                  </th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                    Description
+                  </th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                    Amount
+                  </th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                    Category
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-600">
+                {previewRows.map((row, index) => (
+                  <tr
+                    key={row.externalId}
+                    className={row.isDuplicate ? "opacity-60" : ""}
+                  >
+                    <td className="px-3 py-2">
+                      <input
+                        type="checkbox"
+                        checked={included[index] || false}
+                        onChange={(e) =>
+                          setIncluded((prev) =>
+                            prev.map((value, i) =>
+                              i === index ? e.target.checked : value
+                            )
+                          )
+                        }
+                      />
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap text-gray-900 dark:text-gray-100">
+                      {row.date}
+                    </td>
+                    <td className="px-3 py-2 text-gray-900 dark:text-gray-100">
+                      {row.description}
+                      {row.isDuplicate && (
+                        <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200">
+                          Duplicate
+                        </span>
+                      )}
+                      {row.ruleName && (
+                        <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">
+                          Rule: {row.ruleName}
+                        </span>
+                      )}
+                    </td>
+                    <td
+                      className={`px-3 py-2 text-right whitespace-nowrap ${
+                        row.amount >= 0
+                          ? "text-green-600 dark:text-green-400"
+                          : "text-red-600 dark:text-red-400"
+                      }`}
+                    >
+                      {formatCurrency(row.amount)}
+                    </td>
+                    <td className="px-3 py-2">
+                      <select
+                        value={row.category || ""}
+                        onChange={(e) =>
+                          setRowCategory(
+                            index,
+                            e.target.value as ExpenseCategoryId | ""
+                          )
+                        }
+                        className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-gray-100"
+                      >
+                        <option value="">Uncategorised</option>
+                        <CategoryOptions />
+                      </select>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              onClick={handleCommit}
+              disabled={includedCount === 0}
+              className="bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Import {includedCount} Transactions
+            </button>
+            <button
+              onClick={() => {
+                setFile(null);
+                resetPreview();
+              }}
+              className="bg-gray-300 dark:bg-gray-600 text-gray-700 dark:text-gray-300 py-2 px-4 rounded-md hover:bg-gray-400 dark:hover:bg-gray-500 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,545 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { useFinancialContext } from "@/context";
+import { useCurrency } from "@/context/CurrencyContext";
+import {
+  CategorizationRule,
+  CreateCategorizationRuleInput,
+  ExpenseCategoryId,
+  Priority,
+  RuleMatchType,
+} from "@/types";
+import {
+  applyCategorizationRules,
+  isValidRulePattern,
+  parseRuleSamples,
+} from "@/utils/categorizationRules";
+import { getCategories, getCategoryName } from "@/utils/categories";
+import CategoryOptions from "@/components/CategoryOptions";
+
+const emptyRule = (): CreateCategorizationRuleInput => ({
+  name: "",
+  isActive: true,
+  payeeMatchType: RuleMatchType.CONTAINS,
+  payeePattern: "",
+  minAmount: undefined,
+  maxAmount: undefined,
+  account: "",
+  category: undefined,
+  priority: undefined,
+  linkedExpenseId: undefined,
+});
+
+const getLabel = (value: string) =>
+  value
+    .split("_")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+
+export default function CategorizationRules() {
+  const {
+    state,
+    addCategorizationRule,
+    updateCategorizationRule,
+    deleteCategorizationRule,
+    moveCategorizationRule,
+  } = useFinancialContext();
+  const { formatCurrency } = useCurrency();
+  const rules = useMemo(
+    () => state.userPlan.categorizationRules || [],
+    [state.userPlan.categorizationRules]
+  );
+  const categories = getCategories(state.userPlan);
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<string | null>(null);
+  const [formData, setFormData] = useState<CreateCategorizationRuleInput>(
+    emptyRule()
+  );
+
+  // Default samples are the most recent transactions in the ledger
+  const [sampleText, setSampleText] = useState(() =>
+    (state.userPlan.transactions || [])
+      .slice(-10)
+      .map((t) => `${t.description}, ${t.amount}, ${t.account}`)
+      .join("\n")
+  );
+
+  const samples = useMemo(() => parseRuleSamples(sampleText), [sampleText]);
+  const sampleResults = useMemo(
+    () =>
+      samples.map((sample) => ({
+        sample,
+        assignment: applyCategorizationRules(rules, sample),
+      })),
+    [samples, rules]
+  );
+
+  const handleInputChange = <K extends keyof CreateCategorizationRuleInput>(
+    field: K,
+    value: CreateCategorizationRuleInput[K]
+  ) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const parseOptionalNumber = (value: string) =>
+    value === "" ? undefined : parseFloat(value) || 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValidRulePattern(formData)) return;
+
+    const ruleInput: CreateCategorizationRuleInput = {
+      ...formData,
+      payeePattern: formData.payeePattern || undefined,
+      account: formData.account || undefined,
+    };
+
+    try {
+      if (editingRule) {
+        await updateCategorizationRule({ id: editingRule, ...ruleInput });
+      } else {
+        await addCategorizationRule(ruleInput);
+      }
+      handleCancel();
+    } catch (error) {
+      console.error("Failed to save rule:", error);
+    }
+  };
+
+  const handleEdit = (rule: CategorizationRule) => {
+    setFormData({
+      name: rule.name,
+      isActive: rule.isActive,
+      payeeMatchType: rule.payeeMatchType,
+      payeePattern: rule.payeePattern || "",
+      minAmount: rule.minAmount,
+      maxAmount: rule.maxAmount,
+      account: rule.account || "",
+      category: rule.category,
+      priority: rule.priority,
+      linkedExpenseId: rule.linkedExpenseId,
+    });
+    setEditingRule(rule.id);
+    setIsFormOpen(true);
+  };
+
+  const handleDelete = async (ruleId: string) => {
+    if (window.confirm("Are you sure you want to delete this rule?")) {
+      try {
+        await deleteCategorizationRule(ruleId);
+      } catch (error) {
+        console.error("Failed to delete rule:", error);
+      }
+    }
+  };
+
+  const handleCancel = () => {
+    setIsFormOpen(false);
+    setEditingRule(null);
+    setFormData(emptyRule());
+  };
+
+  const describeRule = (rule: CategorizationRule) => {
+    const conditions: string[] = [];
+    if (rule.payeePattern) {
+      conditions.push(
+        rule.payeeMatchType === RuleMatchType.REGEX
+          ? `payee matches /${rule.payeePattern}/`
+          : `payee contains "${rule.payeePattern}"`
+      );
+    }
+    if (rule.minAmount !== undefined) {
+      conditions.push(`amount ≥ ${formatCurrency(rule.minAmount)}`);
+    }
+    if (rule.maxAmount !== undefined) {
+      conditions.push(`amount ≤ ${formatCurrency(rule.maxAmount)}`);
+    }
+    if (rule.account) conditions.push(`account is "${rule.account}"`);
+
+    const assignments: string[] = [];
+    if (rule.category)
+      assignments.push(getCategoryName(categories, rule.category));
+    if (rule.priority) assignments.push(`${getLabel(rule.priority)} priority`);
+    const expense = state.userPlan.expenses.find(
+      (e) => e.id === rule.linkedExpenseId
+    );
+    if (expense) assignments.push(`link to ${expense.name}`);
+
+    return `If ${conditions.join(" and ") || "any transaction"} → ${
+      assignments.join(", ") || "no change"
+    }`;
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-gray-100";
+  const labelClass =
+    "block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2";
+  const patternIsValid = isValidRulePattern(formData);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+            Categorization Rules
+          </h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Rules run top to bottom when importing statements; the first match
+            wins.
+          </p>
+        </div>
+        <button
+          onClick={() => setIsFormOpen(true)}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          Add Rule
+        </button>
+      </div>
+
+      {/* Add/Edit Form */}
+      {isFormOpen && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border-2 border-blue-200 dark:border-blue-800">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">
+            {editingRule ? "Edit Rule" : "Add New Rule"}
+          </h3>
+
+          <form
+            onSubmit={handleSubmit}
+            className="grid grid-cols-1 md:grid-cols-2 gap-6"
+          >
+            <div>
+              <label className={labelClass}>Rule Name *</label>
+              <input
+                type="text"
+                required
+                value={formData.name}
+                onChange={(e) => handleInputChange("name", e.target.value)}
+                className={inputClass}
+                placeholder="e.g., Groceries"
+              />
+            </div>
+
+            <div>
+              <label className={labelClass}>Payee</label>
+              <div className="flex gap-2">
+                <select
+                  value={formData.payeeMatchType}
+                  onChange={(e) =>
+                    handleInputChange(
+                      "payeeMatchType",
+                      e.target.value as RuleMatchType
+                    )
+                  }
+                  className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-gray-100"
+                >
+                  <option value={RuleMatchType.CONTAINS}>Contains</option>
+                  <option value={RuleMatchType.REGEX}>Regex</option>
+                </select>
+                <input
+                  type="text"
+                  value={formData.payeePattern || ""}
+                  onChange={(e) =>
+                    handleInputChange("payeePattern", e.target.value)
+                  }
+                  className={`${inputClass} ${
+                    patternIsValid ? "" : "border-red-500 dark:border-red-500"
+                  }`}
+                  placeholder={
+                    formData.payeeMatchType === RuleMatchType.REGEX
+                      ? "e.g., ^(TESCO|LOTUS)"
+                      : "e.g., supermarket"
+                  }
+                />
+              </div>
+              {!patternIsValid && (
+                <p className="text-xs text-red-600 mt-1">
+                  Invalid regular expression
+                </p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className={labelClass}>Min Amount</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.minAmount ?? ""}
+                  onChange={(e) =>
+                    handleInputChange(
+                      "minAmount",
+                      parseOptionalNumber(e.target.value)
+                    )
+                  }
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Max Amount</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.maxAmount ?? ""}
+                  onChange={(e) =>
+                    handleInputChange(
+                      "maxAmount",
+                      parseOptionalNumber(e.target.value)
+                    )
+                  }
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className={labelClass}>Account</label>
+              <input
+                type="text"
+                value={formData.account || ""}
+                onChange={(e) => handleInputChange("account", e.target.value)}
+                className={inputClass}
+                placeholder="Any account"
+              />
+            </div>
+
+            <div>
+              <label className={labelClass}>Assign Category</label>
+              <select
+                value={formData.category || ""}
+                onChange={(e) =>
+                  handleInputChange(
+                    "category",
+                    (e.target.value as ExpenseCategoryId) || undefined
+                  )
+                }
+                className={inputClass}
+              >
+                <option value="">Don&apos;t change</option>
+                <CategoryOptions />
+              </select>
+            </div>
+
+            <div>
+              <label className={labelClass}>Assign Priority</label>
+              <select
+                value={formData.priority || ""}
+                onChange={(e) =>
+                  handleInputChange(
+                    "priority",
+                    (e.target.value as Priority) || undefined
+                  )
+                }
+                className={inputClass}
+              >
+                <option value="">Don&apos;t change</option>
+                {Object.values(Priority).map((priority) => (
+                  <option key={priority} value={priority}>
+                    {getLabel(priority)}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className={labelClass}>Link to Expense</label>
+              <select
+                value={formData.linkedExpenseId || ""}
+                onChange={(e) =>
+                  handleInputChange(
+                    "linkedExpenseId",
+                    e.target.value || undefined
+                  )
+                }
+                className={inputClass}
+              >
+                <option value="">Don&apos;t link</option>
+                {state.userPlan.expenses.map((expense) => (
+                  <option key={expense.id} value={expense.id}>
+                    {expense.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="flex items-end">
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={formData.isActive}
+                  onChange={(e) =>
+                    handleInputChange("isActive", e.target.checked)
+                  }
+                  className="rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
+                />
+                <span className="ml-2 text-sm text-gray-700 dark:text-gray-300">
+                  Active rule
+                </span>
+              </label>
+            </div>
+
+            <div className="md:col-span-2 flex gap-3">
+              <button
+                type="submit"
+                disabled={!patternIsValid}
+                className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {editingRule ? "Update Rule" : "Add Rule"}
+              </button>
+              <button
+                type="button"
+                onClick={handleCancel}
+                className="bg-gray-300 dark:bg-gray-600 text-gray-700 dark:text-gray-300 px-6 py-2 rounded-lg hover:bg-gray-400 dark:hover:bg-gray-500 transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {/* Rule List */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm">
+        {rules.length === 0 ? (
+          <div className="p-12 text-center text-gray-500 dark:text-gray-400">
+            No rules yet. Add one to categorise imported transactions
+            automatically.
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-200 dark:divide-gray-700">
+            {rules.map((rule, index) => (
+              <div
+                key={rule.id}
+                className={`p-4 flex items-center justify-between ${
+                  rule.isActive ? "" : "opacity-60"
+                }`}
+              >
+                <div className="flex items-center gap-3">
+                  <span className="w-6 text-sm text-gray-400">
+                    {index + 1}.
+                  </span>
+                  <div>
+                    <div className="font-medium text-gray-900 dark:text-gray-100">
+                      {rule.name}
+                      {!rule.isActive && (
+                        <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200">
+                          Inactive
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-sm text-gray-500 dark:text-gray-400">
+                      {describeRule(rule)}
+                    </div>
+                  </div>
+                </div>
+                <div className="flex gap-1 text-sm">
+                  <button
+                    onClick={() => moveCategorizationRule(rule.id, "up")}
+                    disabled={index === 0}
+                    className="px-2 py-1 text-gray-400 hover:text-blue-600 disabled:opacity-30"
+                    title="Move up"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    onClick={() => moveCategorizationRule(rule.id, "down")}
+                    disabled={index === rules.length - 1}
+                    className="px-2 py-1 text-gray-400 hover:text-blue-600 disabled:opacity-30"
+                    title="Move down"
+                  >
+                    ↓
+                  </button>
+                  <button
+                    onClick={() => handleEdit(rule)}
+                    className="px-2 py-1 text-gray-400 hover:text-blue-600"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleDelete(rule.id)}
+                    className="px-2 py-1 text-gray-400 hover:text-red-600"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Rule Tester */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-2">
+          Test Rules
+        </h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+          One sample per line: description, amount, account
+        </p>
+        <textarea
+          value={sampleText}
+          onChange={(e) => setSampleText(e.target.value)}
+          rows={5}
+          className={`${inputClass} font-mono text-sm`}
+          placeholder="SUPERMARKET 123, -45.20, Checking"
+        />
+
+        {sampleResults.length > 0 && (
+          <table className="w-full mt-4 text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-700">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                  Sample
+                </th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                  Matched Rule
+                </th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                  Result
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-600">
+              {sampleResults.map(({ sample, assignment }, index) => (
+                <tr key={index}>
+                  <td className="px-3 py-2 text-gray-900 dark:text-gray-100">
+                    {sample.description}{" "}
+                    <span className="text-gray-500">
+                      ({formatCurrency(sample.amount)})
+                    </span>
+                  </td>
+                  <td className="px-3 py-2 text-gray-900 dark:text-gray-100">
+                    {assignment ? (
+                      assignment.ruleName
+                    ) : (
+                      <span className="text-gray-400">No match</span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-gray-600 dark:text-gray-300">
+                    {assignment
+                      ? [
+                          assignment.category &&
+                            getCategoryName(categories, assignment.category),
+                          assignment.priority &&
+                            `${getLabel(assignment.priority)} priority`,
+                          assignment.linkedId &&
+                            state.userPlan.expenses.find(
+                              (e) => e.id === assignment.linkedId
+                            )?.name,
+                        ]
+                          .filter(Boolean)
+                          .join(", ")
+                      : "—"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+"use client";
+
+import React, { useState } from "react";
+import { useFinancialContext } from "@/context";
+import { Category, CreateCategoryInput } from "@/types";
+import {
+  getCategories,
+  getCategoryColor,
+  getCategoryIcon,
+  getCategoryTree,
+  getDescendantIds,
+} from "@/utils/categories";
+
+const inputClassName =
+  "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-gray-100";
+
+const emptyCategory = (): CreateCategoryInput => ({
+  name: "",
+  parentId: undefined,
+  icon: "",
+  color: undefined,
+});
+
+/**
+ * Add, rename, recolour and nest the plan's expense categories. Built-in
+ * categories can be edited but not deleted.
+ */
+export default function CategoryManager() {
+  const { state, addCategory, updateCategory, deleteCategory } =
+    useFinancialContext();
+  const categories = getCategories(state.userPlan);
+  const tree = getCategoryTree(categories);
+
+  const [editingCategory, setEditingCategory] = useState<string | null>(null);
+  const [formData, setFormData] = useState<CreateCategoryInput>(
+    emptyCategory()
+  );
+
+  // A category cannot be moved under itself or one of its sub-categories
+  const excludedParentIds = editingCategory
+    ? [editingCategory, ...getDescendantIds(categories, editingCategory)]
+    : [];
+
+  const countExpenses = (categoryId: string) =>
+    state.userPlan.expenses.filter((expense) => expense.category === categoryId)
+      .length;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const input = {
+      ...formData,
+      name: formData.name.trim(),
+      icon: formData.icon?.trim() || undefined,
+    };
+
+    try {
+      if (editingCategory) {
+        await updateCategory({ id: editingCategory, ...input });
+      } else {
+        await addCategory(input);
+      }
+      handleCancel();
+    } catch (error) {
+      console.error("Failed to save category:", error);
+    }
+  };
+
+  const handleEdit = (category: Category) => {
+    setFormData({
+      name: category.name,
+      parentId: category.parentId,
+      icon: category.icon || "",
+      color: category.color,
+    });
+    setEditingCategory(category.id);
+  };
+
+  const handleDelete = async (category: Category) => {
+    if (
+      window.confirm(
+        `Delete "${category.name}"? Its expenses and sub-categories move to ${
+          category.parentId ? "its parent" : "Miscellaneous"
+        }.`
+      )
+    ) {
+      try {
+        await deleteCategory(category.id);
+      } catch (error) {
+        console.error("Failed to delete category:", error);
+      }
+    }
+  };
+
+  const handleCancel = () => {
+    setEditingCategory(null);
+    setFormData(emptyCategory());
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+      <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+        Categories
+      </h2>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Add your own categories or split one into sub-categories - their
+        spending rolls up into the parent in charts
+      </p>
+
+      <div className="divide-y divide-gray-200 dark:divide-gray-700 mb-6 max-h-96 overflow-y-auto">
+        {tree.map(({ category, depth }) => (
+          <div
+            key={category.id}
+            className="py-2 flex items-center justify-between"
+            style={{ paddingLeft: `${depth * 1.5}rem` }}
+          >
+            <div className="flex items-center gap-2">
+              <span
+                className="w-3 h-3 rounded-full"
+                style={{
+                  backgroundColor: getCategoryColor(categories, category.id),
+                }}
+              />
+              <span>{getCategoryIcon(categories, category.id)}</span>
+              <span className="font-medium text-gray-900 dark:text-gray-100">
+                {category.name}
+              </span>
+              {category.builtIn && (
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  Built-in
+                </span>
+              )}
+              <span className="text-sm text-gray-500 dark:text-gray-400">
+                {countExpenses(category.id)} expenses
+              </span>
+            </div>
+            <div className="flex gap-3 text-sm">
+              <button
+                onClick={() => handleEdit(category)}
+                className="text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                Edit
+              </button>
+              {!category.builtIn && (
+                <button
+                  onClick={() => handleDelete(category)}
+                  className="text-red-600 dark:text-red-400 hover:underline"
+                >
+                  Delete
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <form
+        onSubmit={handleSubmit}
+        className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end"
+      >
+        <div className="col-span-2 md:col-span-1">
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            {editingCategory ? "Edit Category" : "Add Category"}
+          </label>
+          <input
+            type="text"
+            required
+            value={formData.name}
+            onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+            className={inputClassName}
+            placeholder="e.g. Pets"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Parent
+          </label>
+          <select
+            value={formData.parentId || ""}
+            onChange={(e) =>
+              setFormData({
+                ...formData,
+                parentId: e.target.value || undefined,
+              })
+            }
+            className={inputClassName}
+          >
+            <option value="">None (top level)</option>
+            {tree
+              .filter(
+                ({ category }) => !excludedParentIds.includes(category.id)
+              )
+              .map(({ category, depth }) => (
+                <option key={category.id} value={category.id}>
+                  {"\u00A0\u00A0".repeat(depth)}
+                  {category.name}
+                </option>
+              ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Icon
+          </label>
+          <input
+            type="text"
+            value={formData.icon || ""}
+            onChange={(e) => setFormData({ ...formData, icon: e.target.value })}
+            className={inputClassName}
+            placeholder="🐾"
+            maxLength={4}
+          />
+        </div>
+        <div className="flex items-end gap-3">
+          <input
+            type="color"
+            value={
+              formData.color ||
+              (formData.parentId
+                ? getCategoryColor(categories, formData.parentId)
+                : "#6B7280")
+            }
+            onChange={(e) =>
+              setFormData({ ...formData, color: e.target.value })
+            }
+            className="h-10 w-14 border border-gray-300 dark:border-gray-600 rounded-lg"
+            title="Colour (sub-categories use their parent's unless set)"
+          />
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="submit"
+            className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            {editingCategory ? "Update" : "Add"}
+          </button>
+          {editingCategory && (
+            <button
+              type="button"
+              onClick={handleCancel}
+              className="bg-gray-300 dark:bg-gray-600 text-gray-700 dark:text-gray-300 px-4 py-2 rounded-lg hover:bg-gray-400 dark:hover:bg-gray-500 transition-colors"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </form>
+
+      {state.error.generalError && (
+        <p className="mt-4 text-sm text-red-700 dark:text-red-300">
+          {state.error.generalError}
+        </p>
+      )}
+    </div>
+  );
+}
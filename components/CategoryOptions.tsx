@@ -0,0 +1,34 @@
+"use client";
+
+import React from "react";
+import { useFinancialState } from "@/context";
+import { getCategories, getCategoryTree } from "@/utils/categories";
+
+interface CategoryOptionsProps {
+  /** Show each category's icon before its name */
+  showIcons?: boolean;
+}
+
+/**
+ * `<option>`s for the plan's expense categories, sub-categories indented
+ * under their parents. Place inside a `<select>` after any "none" or "all"
+ * option.
+ */
+export default function CategoryOptions({
+  showIcons = false,
+}: CategoryOptionsProps) {
+  const state = useFinancialState();
+  const tree = getCategoryTree(getCategories(state.userPlan));
+
+  return (
+    <>
+      {tree.map(({ category, depth }) => (
+        <option key={category.id} value={category.id}>
+          {"\u00A0\u00A0".repeat(depth)}
+          {showIcons && category.icon ? `${category.icon} ` : ""}
+          {category.name}
+        </option>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,193 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import { Frequency, UserPlan } from "@/types";
+import { useCurrency } from "@/context/CurrencyContext";
+import { calculateMonthlyAmount } from "@/utils/amounts";
+import {
+  getBaseCurrency,
+  getExchangeRate,
+  getItemCurrency,
+  getMissingExchangeRates,
+  hasForeignCurrencies,
+} from "@/utils/exchangeRates";
+
+interface CurrencyExposureProps {
+  userPlan: UserPlan;
+}
+
+interface CurrencyTotals {
+  currency: string;
+  monthlyIncome: number;
+  monthlyExpenses: number;
+  balances: number;
+  goalSavings: number;
+}
+
+/**
+ * How much of the plan's money is in each currency, in that currency and
+ * in the base currency. Renders nothing while everything is in the base
+ * currency.
+ */
+export default function CurrencyExposure({ userPlan }: CurrencyExposureProps) {
+  const { formatCurrency, formatAmount } = useCurrency();
+
+  if (!hasForeignCurrencies(userPlan)) return null;
+
+  const baseCurrency = getBaseCurrency(userPlan);
+  const missingRates = getMissingExchangeRates(userPlan);
+  const totals = new Map<string, CurrencyTotals>();
+  const totalsFor = (item: { currency?: string }) => {
+    const currency = getItemCurrency(item, baseCurrency);
+    if (!totals.has(currency)) {
+      totals.set(currency, {
+        currency,
+        monthlyIncome: 0,
+        monthlyExpenses: 0,
+        balances: 0,
+        goalSavings: 0,
+      });
+    }
+    return totals.get(currency)!;
+  };
+
+  for (const income of userPlan.income) {
+    if (!income.isActive || income.frequency === Frequency.ONE_TIME) continue;
+    totalsFor(income).monthlyIncome += calculateMonthlyAmount(
+      income.amount,
+      income.frequency
+    );
+  }
+  for (const expense of userPlan.expenses) {
+    if (!expense.isActive || !expense.recurring) continue;
+    totalsFor(expense).monthlyExpenses += calculateMonthlyAmount(
+      expense.amount,
+      expense.frequency || Frequency.MONTHLY
+    );
+  }
+  for (const account of userPlan.accounts || []) {
+    if (!account.isActive) continue;
+    totalsFor(account).balances += account.balance;
+  }
+  for (const goal of userPlan.goals) {
+    if (!goal.isActive) continue;
+    totalsFor(goal).goalSavings += goal.currentAmount;
+  }
+
+  const rows = Array.from(totals.values())
+    .map((row) => ({
+      ...row,
+      rate: getExchangeRate(userPlan.exchangeRates, row.currency, baseCurrency),
+    }))
+    .sort((a, b) =>
+      a.currency === baseCurrency
+        ? -1
+        : b.currency === baseCurrency
+        ? 1
+        : a.currency.localeCompare(b.currency)
+    );
+  const totalIncome = rows.reduce(
+    (sum, row) => sum + row.monthlyIncome * (row.rate ?? 1),
+    0
+  );
+  const totalExpenses = rows.reduce(
+    (sum, row) => sum + row.monthlyExpenses * (row.rate ?? 1),
+    0
+  );
+
+  const renderAmount = (amount: number, row: (typeof rows)[number]) => (
+    <>
+      {formatAmount(amount, row.currency)}
+      {row.currency !== baseCurrency && amount !== 0 && (
+        <span className="block text-xs text-gray-500 dark:text-gray-400">
+          ≈ {formatCurrency(amount * (row.rate ?? 1))}
+        </span>
+      )}
+    </>
+  );
+  const renderShare = (amount: number, total: number) =>
+    total > 0 ? `${Math.round((amount / total) * 100)}%` : "—";
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+      <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+        💱 Currency Exposure
+      </h3>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Totals elsewhere on this page are converted into {baseCurrency}
+      </p>
+
+      {missingRates.length > 0 && (
+        <p className="mb-4 text-sm text-yellow-700 dark:text-yellow-300">
+          ⚠️ No exchange rate for{" "}
+          {missingRates.map(({ from }) => from).join(", ")} - counted
+          one-for-one.{" "}
+          <Link
+            href="/plans"
+            className="text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            Add rates
+          </Link>
+        </p>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 dark:text-gray-400">
+              <th className="py-2">Currency</th>
+              <th className="py-2 text-right">Income / mo</th>
+              <th className="py-2 text-right">Expenses / mo</th>
+              <th className="py-2 text-right">Account Balances</th>
+              <th className="py-2 text-right">Goal Savings</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+            {rows.map((row) => (
+              <tr
+                key={row.currency}
+                className="text-gray-900 dark:text-gray-100 align-top"
+              >
+                <td className="py-2">
+                  <span className="font-medium">{row.currency}</span>
+                  <span className="block text-xs text-gray-500 dark:text-gray-400">
+                    {row.currency === baseCurrency
+                      ? "Base currency"
+                      : row.rate !== null
+                      ? `1 = ${row.rate.toFixed(4)} ${baseCurrency}`
+                      : "No rate"}
+                  </span>
+                </td>
+                <td className="py-2 text-right">
+                  {renderAmount(row.monthlyIncome, row)}
+                  <span className="block text-xs text-gray-500 dark:text-gray-400">
+                    {renderShare(
+                      row.monthlyIncome * (row.rate ?? 1),
+                      totalIncome
+                    )}
+                  </span>
+                </td>
+                <td className="py-2 text-right">
+                  {renderAmount(row.monthlyExpenses, row)}
+                  <span className="block text-xs text-gray-500 dark:text-gray-400">
+                    {renderShare(
+                      row.monthlyExpenses * (row.rate ?? 1),
+                      totalExpenses
+                    )}
+                  </span>
+                </td>
+                <td className="py-2 text-right">
+                  {renderAmount(row.balances, row)}
+                </td>
+                <td className="py-2 text-right">
+                  {renderAmount(row.goalSavings, row)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
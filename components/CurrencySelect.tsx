@@ -0,0 +1,45 @@
+"use client";
+
+import React from "react";
+import { useFinancialState } from "@/context";
+import { SUPPORTED_CURRENCIES } from "@/context/CurrencyContext";
+import { getBaseCurrency } from "@/utils/exchangeRates";
+
+interface CurrencySelectProps {
+  label?: string;
+  value?: string;
+  onChange: (currency: string | undefined) => void;
+}
+
+/**
+ * Currency picker for income, expense, goal and account forms. Leaving it on
+ * the default keeps the item in the plan's base currency.
+ */
+export default function CurrencySelect({
+  label = "Currency",
+  value,
+  onChange,
+}: CurrencySelectProps) {
+  const state = useFinancialState();
+  const baseCurrency = getBaseCurrency(state.userPlan);
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+        {label}
+      </label>
+      <select
+        value={value || ""}
+        onChange={(e) => onChange(e.target.value || undefined)}
+        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-gray-100"
+      >
+        <option value="">Plan currency ({baseCurrency})</option>
+        {Object.values(SUPPORTED_CURRENCIES).map((currency) => (
+          <option key={currency.code} value={currency.code}>
+            {currency.code} - {currency.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
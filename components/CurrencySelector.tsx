@@ -6,14 +6,17 @@ import {
   SUPPORTED_CURRENCIES,
   CurrencyCode,
 } from "@/context/CurrencyContext";
+import { useFinancialActions } from "@/context";
 
 export default function CurrencySelector() {
-  const { currency, setCurrency, getCurrencyInfo } = useCurrency();
+  const { currency, getCurrencyInfo } = useCurrency();
+  const { updatePlanPreferences } = useFinancialActions();
   const [isOpen, setIsOpen] = useState(false);
   const currentCurrency = getCurrencyInfo();
 
+  // The currency is kept with the open plan
   const handleCurrencyChange = (newCurrency: CurrencyCode) => {
-    setCurrency(newCurrency);
+    updatePlanPreferences({ currency: newCurrency });
     setIsOpen(false);
   };
 
@@ -0,0 +1,238 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { useFinancialContext } from "@/context";
+import { useCurrency } from "@/context/CurrencyContext";
+import { DebtPayoffStrategy } from "@/types";
+import { generateForecast } from "@/utils/forecastCalculator";
+import {
+  DEFAULT_DEBT_PAYOFF_SETTINGS,
+  compareDebtStrategies,
+  simulateDebtPayoff,
+} from "@/utils/debtCalculator";
+
+const STRATEGY_LABELS: Record<DebtPayoffStrategy, string> = {
+  [DebtPayoffStrategy.SNOWBALL]: "Snowball (smallest balance first)",
+  [DebtPayoffStrategy.AVALANCHE]: "Avalanche (highest rate first)",
+  [DebtPayoffStrategy.CUSTOM]: "Custom (your list order)",
+};
+
+export default function DebtPayoffPlanner() {
+  const { state, updateDebtPayoffSettings } = useFinancialContext();
+  const { formatCurrency } = useCurrency();
+  const debts = useMemo(
+    () => (state.userPlan.debts || []).filter((debt) => debt.isActive),
+    [state.userPlan.debts]
+  );
+  const settings = {
+    ...DEFAULT_DEBT_PAYOFF_SETTINGS,
+    ...state.userPlan.debtPayoffSettings,
+  };
+
+  // Average extra payment the forecast currently puts toward debts
+  const forecastExtraPayment = useMemo(() => {
+    const forecast = generateForecast(state.userPlan, { months: 12 });
+    const minimums = debts.reduce((sum, debt) => sum + debt.minimumPayment, 0);
+    const months = forecast.monthlyForecasts.filter(
+      (month) => month.debtPayments > 0
+    );
+    if (months.length === 0) return 0;
+    const average =
+      months.reduce((sum, month) => sum + month.debtPayments, 0) /
+      months.length;
+    return Math.max(0, Math.round(average - minimums));
+  }, [state.userPlan, debts]);
+
+  const [extraPayment, setExtraPayment] = useState<number | null>(null);
+  const effectiveExtraPayment = extraPayment ?? forecastExtraPayment;
+
+  const plans = useMemo(
+    () => compareDebtStrategies(debts, effectiveExtraPayment),
+    [debts, effectiveExtraPayment]
+  );
+  const minimumOnly = useMemo(
+    () => simulateDebtPayoff(debts, DebtPayoffStrategy.CUSTOM, 0),
+    [debts]
+  );
+
+  const bestInterest = Math.min(...plans.map((plan) => plan.totalInterest));
+
+  const formatMonths = (months: number) => {
+    const years = Math.floor(months / 12);
+    const remainder = months % 12;
+    return years > 0 ? `${years}y ${remainder}m` : `${remainder}m`;
+  };
+
+  if (debts.length === 0) return null;
+
+  return (
+    <div className="space-y-6">
+      {/* Forecast Settings */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-4">
+          Payoff Settings
+        </h2>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Strategy used in the forecast
+            </label>
+            <select
+              value={settings.strategy}
+              onChange={(e) =>
+                updateDebtPayoffSettings({
+                  strategy: e.target.value as DebtPayoffStrategy,
+                })
+              }
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-gray-100"
+            >
+              {Object.values(DebtPayoffStrategy).map((strategy) => (
+                <option key={strategy} value={strategy}>
+                  {STRATEGY_LABELS[strategy]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Share of monthly surplus for extra payments:{" "}
+              {settings.extraPaymentPercent}%
+            </label>
+            <input
+              type="range"
+              min="0"
+              max="100"
+              step="5"
+              value={settings.extraPaymentPercent}
+              onChange={(e) =>
+                updateDebtPayoffSettings({
+                  extraPaymentPercent: parseInt(e.target.value),
+                })
+              }
+              className="w-full"
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Taken from the same surplus that funds your goals; goals get the
+              rest
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* Strategy Comparison */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+        <div className="flex flex-wrap justify-between items-end gap-4 mb-4">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+            Compare Strategies
+          </h2>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Extra monthly payment
+            </label>
+            <input
+              type="number"
+              min="0"
+              step="100"
+              value={effectiveExtraPayment}
+              onChange={(e) =>
+                setExtraPayment(Math.max(0, parseFloat(e.target.value) || 0))
+              }
+              className="w-40 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-gray-100"
+            />
+            {extraPayment === null && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                From your forecast
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-700">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                  Strategy
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                  Debt-Free
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                  Total Interest
+                </th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                  Interest Saved
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                  Payoff Order
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-600">
+              <tr className="text-gray-500 dark:text-gray-400">
+                <td className="px-4 py-3">Minimum payments only</td>
+                <td className="px-4 py-3">
+                  {minimumOnly.isPaidOff
+                    ? `${minimumOnly.payoffMonth} (${formatMonths(
+                        minimumOnly.months
+                      )})`
+                    : "Never"}
+                </td>
+                <td className="px-4 py-3 text-right">
+                  {formatCurrency(minimumOnly.totalInterest)}
+                </td>
+                <td className="px-4 py-3 text-right">—</td>
+                <td className="px-4 py-3">—</td>
+              </tr>
+              {plans.map((plan) => (
+                <tr
+                  key={plan.strategy}
+                  className={
+                    plan.strategy === settings.strategy
+                      ? "bg-blue-50 dark:bg-blue-900/20"
+                      : ""
+                  }
+                >
+                  <td className="px-4 py-3 font-medium text-gray-900 dark:text-gray-100">
+                    {STRATEGY_LABELS[plan.strategy]}
+                    {plan.totalInterest === bestInterest && (
+                      <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">
+                        Lowest interest
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-gray-900 dark:text-gray-100">
+                    {plan.isPaidOff
+                      ? `${plan.payoffMonth} (${formatMonths(plan.months)})`
+                      : "Never"}
+                  </td>
+                  <td className="px-4 py-3 text-right text-red-600 dark:text-red-400">
+                    {formatCurrency(plan.totalInterest)}
+                  </td>
+                  <td className="px-4 py-3 text-right text-green-600 dark:text-green-400">
+                    {formatCurrency(
+                      Math.max(
+                        0,
+                        minimumOnly.totalInterest - plan.totalInterest
+                      )
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-gray-600 dark:text-gray-300">
+                    {plan.debts
+                      .map(
+                        (debt) =>
+                          `${debt.name}${
+                            debt.payoffMonth ? ` (${debt.payoffMonth})` : ""
+                          }`
+                      )
+                      .join(" → ")}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
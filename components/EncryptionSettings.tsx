@@ -0,0 +1,122 @@
+"use client";
+
+import React, { useState } from "react";
+import { useFinancialContext } from "@/context";
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+export default function EncryptionSettings() {
+  const { isEncrypted, enableEncryption, disableEncryption, lock } =
+    useFinancialContext();
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const run = async (task: () => Promise<void>) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      await task();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Encryption change failed");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleEnable = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(
+        `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`
+      );
+      return;
+    }
+    if (passphrase !== confirmation) {
+      setError("Passphrases do not match");
+      return;
+    }
+    run(async () => {
+      await enableEncryption(passphrase);
+      setPassphrase("");
+      setConfirmation("");
+    });
+  };
+
+  const handleDisable = () => {
+    if (
+      !confirm(
+        "Store your plan without encryption? Anyone with access to this browser will be able to read it."
+      )
+    ) {
+      return;
+    }
+    run(disableEncryption);
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+      <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+        🔐 Passphrase Encryption
+      </h2>
+      <p className="text-gray-600 dark:text-gray-300 mb-4">
+        {isEncrypted
+          ? "Your saved plan and backups are encrypted. The passphrase is needed each time the app is opened."
+          : "Encrypt your saved plan and backups in this browser. There is no way to recover the data if the passphrase is forgotten."}
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {isEncrypted ? (
+        <div className="flex gap-2">
+          <button
+            onClick={() => run(lock)}
+            disabled={isWorking}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            Lock Now
+          </button>
+          <button
+            onClick={handleDisable}
+            disabled={isWorking}
+            className="px-4 py-2 text-red-600 dark:text-red-400 hover:underline disabled:opacity-50"
+          >
+            Remove Encryption
+          </button>
+        </div>
+      ) : (
+        <form
+          onSubmit={handleEnable}
+          className="flex flex-col md:flex-row gap-2"
+        >
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder="Passphrase"
+            className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-gray-100"
+          />
+          <input
+            type="password"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            placeholder="Confirm passphrase"
+            className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-gray-100"
+          />
+          <button
+            type="submit"
+            disabled={isWorking || !passphrase}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            {isWorking ? "Encrypting..." : "Encrypt"}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
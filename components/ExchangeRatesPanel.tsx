@@ -0,0 +1,268 @@
+"use client";
+
+import React, { useState } from "react";
+import { useFinancialContext } from "@/context";
+import { SUPPORTED_CURRENCIES } from "@/context/CurrencyContext";
+import { CreateExchangeRateInput } from "@/types";
+import {
+  getBaseCurrency,
+  getMissingExchangeRates,
+  parseExchangeRatesCSV,
+} from "@/utils/exchangeRates";
+import { uploadFile } from "@/utils/fileOperations";
+
+const inputClassName =
+  "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-gray-100";
+
+/**
+ * Dated exchange rates of the open plan, entered by hand or imported from a
+ * CSV of historical rates
+ */
+export default function ExchangeRatesPanel() {
+  const { state, addExchangeRate, deleteExchangeRate, importExchangeRates } =
+    useFinancialContext();
+  const baseCurrency = getBaseCurrency(state.userPlan);
+  const missingRates = getMissingExchangeRates(state.userPlan);
+  const rates = [...(state.userPlan.exchangeRates || [])].sort(
+    (a, b) =>
+      b.date.localeCompare(a.date) ||
+      a.from.localeCompare(b.from) ||
+      a.to.localeCompare(b.to)
+  );
+
+  const emptyRate = (): CreateExchangeRateInput => ({
+    from: missingRates[0]?.from || "",
+    to: baseCurrency,
+    rate: 0,
+    date: new Date().toISOString().split("T")[0],
+  });
+
+  const [formData, setFormData] = useState<CreateExchangeRateInput>(
+    emptyRate()
+  );
+  const [message, setMessage] = useState<{
+    type: "success" | "error";
+    text: string;
+  } | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.from || formData.from === formData.to) {
+      setMessage({ type: "error", text: "Choose two different currencies" });
+      return;
+    }
+
+    try {
+      await addExchangeRate(formData);
+      setFormData(emptyRate());
+      setMessage(null);
+    } catch (error) {
+      console.error("Failed to add exchange rate:", error);
+    }
+  };
+
+  const handleImport = async () => {
+    try {
+      const fileData = await uploadFile({
+        accept: ".csv",
+        maxSize: 10 * 1024 * 1024, // 10MB
+      });
+      const result = parseExchangeRatesCSV(fileData.content);
+
+      if (!result.success) {
+        setMessage({ type: "error", text: result.errors.join(". ") });
+        return;
+      }
+
+      await importExchangeRates(result.rates);
+      setMessage({
+        type: "success",
+        text:
+          `Imported ${result.rates.length} rate${
+            result.rates.length === 1 ? "" : "s"
+          }` +
+          (result.warnings.length > 0
+            ? ` (${result.warnings.length} row${
+                result.warnings.length === 1 ? "" : "s"
+              } skipped)`
+            : ""),
+      });
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        error.message !== "File selection cancelled"
+      ) {
+        setMessage({ type: "error", text: error.message });
+      }
+    }
+  };
+
+  const handleDelete = async (rateId: string) => {
+    try {
+      await deleteExchangeRate(rateId);
+    } catch (error) {
+      console.error("Failed to delete exchange rate:", error);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+      <div className="flex flex-wrap items-start justify-between gap-3 mb-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+            Exchange Rates
+          </h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Amounts in other currencies are converted into {baseCurrency}, the
+            plan&apos;s currency, at the latest rate on or before each date.
+            Forecasts use the rate on their start date for every month.
+          </p>
+        </div>
+        <button
+          onClick={handleImport}
+          className="px-4 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+        >
+          Import CSV
+        </button>
+      </div>
+
+      {missingRates.length > 0 && (
+        <p className="mb-4 text-sm text-yellow-700 dark:text-yellow-300">
+          ⚠️ No rate for{" "}
+          {missingRates.map(({ from, to }) => `${from}/${to}`).join(", ")} -
+          these amounts are counted one-for-one until you add one
+        </p>
+      )}
+
+      {message && (
+        <div
+          className={`mb-4 p-3 rounded-md text-sm ${
+            message.type === "success"
+              ? "bg-green-50 border border-green-200 text-green-800"
+              : "bg-red-50 border border-red-200 text-red-800"
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      {rates.length > 0 && (
+        <div className="overflow-x-auto mb-6">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 dark:text-gray-400">
+                <th className="py-2">Since</th>
+                <th className="py-2">Rate</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {rates.map((rate) => (
+                <tr key={rate.id} className="text-gray-900 dark:text-gray-100">
+                  <td className="py-2">{rate.date}</td>
+                  <td className="py-2">
+                    1 {rate.from} = {rate.rate} {rate.to}
+                  </td>
+                  <td className="py-2 text-right">
+                    <button
+                      onClick={() => handleDelete(rate.id)}
+                      className="text-red-600 dark:text-red-400 hover:underline"
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <form
+        onSubmit={handleSubmit}
+        className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end"
+      >
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            From Date
+          </label>
+          <input
+            type="date"
+            required
+            value={formData.date}
+            onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            1 Unit Of
+          </label>
+          <select
+            required
+            value={formData.from}
+            onChange={(e) => setFormData({ ...formData, from: e.target.value })}
+            className={inputClassName}
+          >
+            <option value="">Currency</option>
+            {Object.keys(SUPPORTED_CURRENCIES).map((code) => (
+              <option key={code} value={code}>
+                {code}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Is Worth
+          </label>
+          <input
+            type="number"
+            required
+            min="0"
+            step="any"
+            value={formData.rate === 0 ? "" : formData.rate}
+            onChange={(e) =>
+              setFormData({
+                ...formData,
+                rate: parseFloat(e.target.value) || 0,
+              })
+            }
+            className={inputClassName}
+            placeholder="0.00"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            In
+          </label>
+          <select
+            required
+            value={formData.to}
+            onChange={(e) => setFormData({ ...formData, to: e.target.value })}
+            className={inputClassName}
+          >
+            {Object.keys(SUPPORTED_CURRENCIES).map((code) => (
+              <option key={code} value={code}>
+                {code}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button
+          type="submit"
+          disabled={!(formData.rate > 0)}
+          className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          Add Rate
+        </button>
+      </form>
+
+      <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">
+        CSV files need date (YYYY-MM-DD), from, to and rate columns, e.g.
+        &quot;2024-01-31,EUR,USD,1.08&quot;. Rates for the same pair and day are
+        replaced.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+"use client";
+
+import React from "react";
+import { useFinancialState } from "@/context";
+import {
+  HOUSEHOLD_VIEW_ALL,
+  HOUSEHOLD_VIEW_JOINT,
+  HouseholdView,
+} from "@/utils/household";
+
+interface HouseholdViewSelectProps {
+  value: HouseholdView;
+  onChange: (view: HouseholdView) => void;
+}
+
+/**
+ * Switch between the whole household, joint items and each member's share.
+ * Renders nothing until the plan has household members.
+ */
+export default function HouseholdViewSelect({
+  value,
+  onChange,
+}: HouseholdViewSelectProps) {
+  const state = useFinancialState();
+  const members = state.userPlan.householdMembers || [];
+
+  if (members.length === 0) return null;
+
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      aria-label="Household view"
+      className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 dark:text-gray-100"
+    >
+      <option value={HOUSEHOLD_VIEW_ALL}>Whole household</option>
+      <option value={HOUSEHOLD_VIEW_JOINT}>Joint only</option>
+      {members.map((member) => (
+        <option key={member.id} value={member.id}>
+          {member.name}&apos;s share
+        </option>
+      ))}
+    </select>
+  );
+}
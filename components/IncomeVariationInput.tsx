@@ -0,0 +1,238 @@
+"use client";
+
+import React, { useState } from "react";
+import { Income } from "@/types";
+
+const inputClassName =
+  "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-gray-100";
+
+type IncomeVariation = Pick<
+  Income,
+  "amountRange" | "seasonality" | "monthlySchedule"
+>;
+
+interface IncomeVariationInputProps {
+  /** Expected amount per payment */
+  amount: number;
+  value: IncomeVariation;
+  onChange: (changes: Partial<IncomeVariation>) => void;
+}
+
+const MONTH_LABELS = Array.from({ length: 12 }, (_, index) =>
+  new Date(2000, index, 1).toLocaleDateString("en-US", { month: "short" })
+);
+
+/**
+ * How a freelance or commission income varies: a low-to-high range per
+ * payment, a seasonal profile by calendar month and known totals for
+ * specific months. All three are optional and combine.
+ */
+export default function IncomeVariationInput({
+  amount,
+  value,
+  onChange,
+}: IncomeVariationInputProps) {
+  const { amountRange, seasonality, monthlySchedule } = value;
+  const [isToggled, setIsToggled] = useState(false);
+  const isOpen = isToggled || !!(amountRange || seasonality || monthlySchedule);
+  const [newMonth, setNewMonth] = useState("");
+  const [newMonthAmount, setNewMonthAmount] = useState("");
+
+  const scheduleEntries = Object.entries(monthlySchedule || {}).sort(
+    ([a], [b]) => a.localeCompare(b)
+  );
+  const isRangeValid =
+    !amountRange || (amountRange.min <= amount && amount <= amountRange.max);
+
+  const handleRangeChange = (field: "min" | "max", input: string) => {
+    const next = {
+      min: amountRange?.min ?? amount,
+      max: amountRange?.max ?? amount,
+      [field]: Math.max(0, parseFloat(input) || 0),
+    };
+    onChange({ amountRange: next });
+  };
+
+  const handleSeasonChange = (month: number, input: string) => {
+    const next = Array.from(
+      { length: 12 },
+      (_, index) => seasonality?.[index] ?? 100
+    );
+    next[month] = input === "" ? 100 : Math.max(0, parseFloat(input) || 0);
+    onChange({
+      seasonality: next.every((percent) => percent === 100) ? undefined : next,
+    });
+  };
+
+  const handleAddMonth = () => {
+    if (!newMonth || newMonthAmount === "") return;
+    onChange({
+      monthlySchedule: {
+        ...monthlySchedule,
+        [newMonth]: Math.max(0, parseFloat(newMonthAmount) || 0),
+      },
+    });
+    setNewMonth("");
+    setNewMonthAmount("");
+  };
+
+  const handleRemoveMonth = (month: string) => {
+    const next = { ...monthlySchedule };
+    delete next[month];
+    onChange({
+      monthlySchedule: Object.keys(next).length > 0 ? next : undefined,
+    });
+  };
+
+  return (
+    <div className="md:col-span-2 space-y-3">
+      <label className="flex items-center">
+        <input
+          type="checkbox"
+          checked={isOpen}
+          onChange={(e) => {
+            setIsToggled(e.target.checked);
+            if (!e.target.checked) {
+              onChange({
+                amountRange: undefined,
+                seasonality: undefined,
+                monthlySchedule: undefined,
+              });
+            }
+          }}
+          className="rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
+        />
+        <span className="ml-2 text-sm text-gray-700 dark:text-gray-300">
+          Amount varies (freelance, commission, seasonal work)
+        </span>
+      </label>
+
+      {isOpen && (
+        <div className="space-y-4 border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+          {/* Range */}
+          <div>
+            <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Range per payment
+            </p>
+            <div className="grid grid-cols-3 gap-3">
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={amountRange?.min ?? ""}
+                onChange={(e) => handleRangeChange("min", e.target.value)}
+                className={inputClassName}
+                placeholder="Low"
+              />
+              <div className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400">
+                Expected: {amount.toLocaleString()}
+              </div>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={amountRange?.max ?? ""}
+                onChange={(e) => handleRangeChange("max", e.target.value)}
+                className={inputClassName}
+                placeholder="High"
+              />
+            </div>
+            <p
+              className={`text-xs mt-1 ${
+                isRangeValid
+                  ? "text-gray-500 dark:text-gray-400"
+                  : "text-red-600 dark:text-red-400"
+              }`}
+            >
+              {isRangeValid
+                ? "Conservative forecasts count on the low end instead of cutting 10%"
+                : "The expected amount should be between the low and high ends"}
+            </p>
+          </div>
+
+          {/* Seasonal profile */}
+          <div>
+            <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Seasonal profile (% of the usual amount)
+            </p>
+            <div className="grid grid-cols-6 md:grid-cols-12 gap-2">
+              {MONTH_LABELS.map((label, month) => (
+                <div key={label}>
+                  <div className="text-xs text-center text-gray-500 dark:text-gray-400">
+                    {label}
+                  </div>
+                  <input
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={seasonality?.[month] ?? ""}
+                    onChange={(e) => handleSeasonChange(month, e.target.value)}
+                    className={`${inputClassName} px-1 text-center text-sm`}
+                    placeholder="100"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Known months */}
+          <div>
+            <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Known amounts by month
+            </p>
+            {scheduleEntries.length > 0 && (
+              <div className="divide-y divide-gray-200 dark:divide-gray-700 mb-2">
+                {scheduleEntries.map(([month, total]) => (
+                  <div
+                    key={month}
+                    className="py-1 flex justify-between text-sm text-gray-900 dark:text-gray-100"
+                  >
+                    <span>{month}</span>
+                    <span className="flex gap-3">
+                      {total.toLocaleString()}
+                      <button
+                        type="button"
+                        onClick={() => handleRemoveMonth(month)}
+                        className="text-red-600 dark:text-red-400 hover:underline"
+                      >
+                        Remove
+                      </button>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="grid grid-cols-3 gap-3">
+              <input
+                type="month"
+                value={newMonth}
+                onChange={(e) => setNewMonth(e.target.value)}
+                className={inputClassName}
+              />
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={newMonthAmount}
+                onChange={(e) => setNewMonthAmount(e.target.value)}
+                className={inputClassName}
+                placeholder="Total for the month"
+              />
+              <button
+                type="button"
+                onClick={handleAddMonth}
+                className="bg-gray-300 dark:bg-gray-600 text-gray-700 dark:text-gray-300 px-4 py-2 rounded-lg hover:bg-gray-400 dark:hover:bg-gray-500 transition-colors"
+              >
+                Add Month
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              A known month replaces the usual amount, e.g. a signed contract or
+              a commission already earned
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
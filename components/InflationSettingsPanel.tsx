@@ -0,0 +1,116 @@
+"use client";
+
+import React, { useState } from "react";
+import { useFinancialContext } from "@/context";
+import { ExpenseCategoryId } from "@/types";
+import {
+  DEFAULT_INFLATION_SETTINGS,
+  SUGGESTED_CATEGORY_RATES,
+  getCategoryInflationRate,
+} from "@/utils/inflation";
+import { getCategories, getCategoryTree } from "@/utils/categories";
+
+export default function InflationSettingsPanel() {
+  const { state, updateInflationSettings } = useFinancialContext();
+  const [showCategories, setShowCategories] = useState(false);
+
+  const settings = {
+    ...DEFAULT_INFLATION_SETTINGS,
+    ...state.userPlan.inflationSettings,
+  };
+  const overrideCount = Object.keys(settings.categoryRates).length;
+  const categories = getCategories(state.userPlan);
+  const categoryTree = getCategoryTree(categories);
+
+  const setCategoryRate = (category: ExpenseCategoryId, value: string) => {
+    const categoryRates = { ...settings.categoryRates };
+    if (value === "") {
+      delete categoryRates[category];
+    } else {
+      categoryRates[category] = parseFloat(value) || 0;
+    }
+    updateInflationSettings({ categoryRates });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+        <label className="text-sm font-medium text-gray-700 dark:text-gray-300 min-w-fit">
+          Inflation (% / year)
+        </label>
+        <input
+          type="number"
+          step="0.1"
+          value={settings.rate || ""}
+          onChange={(e) =>
+            updateInflationSettings({
+              rate: parseFloat(e.target.value) || 0,
+            })
+          }
+          className="w-24 px-3 py-2 rounded-lg border-gray-300 text-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100 dark:border-gray-600"
+          placeholder="0"
+        />
+        <button
+          type="button"
+          onClick={() => setShowCategories(!showCategories)}
+          className="text-sm text-blue-600 dark:text-blue-400 hover:underline text-left"
+        >
+          {showCategories ? "Hide" : "Show"} category rates
+          {overrideCount > 0 && ` (${overrideCount} custom)`}
+        </button>
+      </div>
+
+      {showCategories && (
+        <div className="p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
+          <div className="flex justify-between items-center mb-3">
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Leave blank to use the parent category&apos;s rate, or the general
+              rate. Installment payments never inflate.
+            </p>
+            <button
+              type="button"
+              onClick={() =>
+                updateInflationSettings({
+                  categoryRates: {
+                    ...SUGGESTED_CATEGORY_RATES,
+                    ...settings.categoryRates,
+                  },
+                })
+              }
+              className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              Use suggested rates
+            </button>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-3">
+            {categoryTree.map(
+              ({ category: { id: category, name, parentId } }) => (
+                <div key={category}>
+                  <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">
+                    {name}
+                  </label>
+                  <input
+                    type="number"
+                    step="0.1"
+                    value={settings.categoryRates[category] ?? ""}
+                    onChange={(e) => setCategoryRate(category, e.target.value)}
+                    className="w-full px-2 py-1 rounded border-gray-300 text-sm dark:bg-gray-700 dark:text-gray-100 dark:border-gray-600"
+                    placeholder={`${
+                      parentId
+                        ? getCategoryInflationRate(
+                            settings,
+                            parentId,
+                            categories
+                          )
+                        : settings.rate
+                    }`}
+                  />
+                </div>
+              )
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,14 +6,17 @@ import {
   SUPPORTED_LANGUAGES,
   LanguageCode,
 } from "@/context/LanguageContext";
+import { useFinancialActions } from "@/context";
 
 export default function LanguageSelector() {
-  const { language, setLanguage, getLanguageInfo, t } = useLanguage();
+  const { language, getLanguageInfo, t } = useLanguage();
+  const { updatePlanPreferences } = useFinancialActions();
   const [isOpen, setIsOpen] = useState(false);
   const currentLanguage = getLanguageInfo();
 
+  // The language is kept with the open plan
   const handleLanguageChange = (newLanguage: LanguageCode) => {
-    setLanguage(newLanguage);
+    updatePlanPreferences({ language: newLanguage });
     setIsOpen(false);
   };
 
@@ -0,0 +1,67 @@
+"use client";
+
+import React, { useState } from "react";
+import { useFinancialContext } from "@/context";
+
+/**
+ * Shows a lock screen in place of the page until the passphrase for
+ * encrypted data has been entered
+ */
+export default function LockGate({ children }: { children: React.ReactNode }) {
+  const { isLocked, unlock } = useFinancialContext();
+  const [passphrase, setPassphrase] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  if (!isLocked) return <>{children}</>;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsUnlocking(true);
+    try {
+      await unlock(passphrase);
+      setPassphrase("");
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to unlock");
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="max-w-md mx-auto mt-16 bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+      <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-2">
+        🔒 Your plan is locked
+      </h2>
+      <p className="text-gray-600 dark:text-gray-300 mb-4">
+        Enter your passphrase to decrypt your saved data
+      </p>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="Passphrase"
+          autoFocus
+          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-gray-100"
+        />
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={!passphrase || isUnlocking}
+          className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          {isUnlocking ? "Unlocking..." : "Unlock"}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+"use client";
+
+import React from "react";
+import { useFinancialState } from "@/context";
+
+interface MemberSelectProps {
+  label: string;
+  /** Option for items that belong to the whole household */
+  jointLabel: string;
+  value?: string;
+  onChange: (memberId: string | undefined) => void;
+}
+
+/**
+ * Owner picker for income, expense and goal forms. Renders nothing until
+ * the plan has household members; leaving it on the default makes the item
+ * joint.
+ */
+export default function MemberSelect({
+  label,
+  jointLabel,
+  value,
+  onChange,
+}: MemberSelectProps) {
+  const state = useFinancialState();
+  const members = state.userPlan.householdMembers || [];
+
+  if (members.length === 0) return null;
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+        {label}
+      </label>
+      <select
+        value={value || ""}
+        onChange={(e) => onChange(e.target.value || undefined)}
+        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-gray-100"
+      >
+        <option value="">{jointLabel}</option>
+        {members.map((member) => (
+          <option key={member.id} value={member.id}>
+            {member.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,314 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import {
+  Area,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { useCurrency } from "@/context/CurrencyContext";
+import { useMonteCarloForecast } from "@/hooks/useMonteCarloForecast";
+import { UserPlan } from "@/types";
+import { ForecastConfig, ForecastResult } from "@/utils/forecastCalculator";
+import {
+  DEFAULT_MONTE_CARLO_SETTINGS,
+  MonteCarloSettings,
+} from "@/utils/monteCarlo";
+
+interface MonteCarloPanelProps {
+  /** Plan the deterministic forecast ran on, already in the base currency */
+  userPlan: UserPlan;
+  config: ForecastConfig;
+  /** Deterministic forecast drawn alongside the bands */
+  forecastResult: ForecastResult;
+  formatMonth: (monthKey: string) => string;
+}
+
+export default function MonteCarloPanel({
+  userPlan,
+  config,
+  forecastResult,
+  formatMonth,
+}: MonteCarloPanelProps) {
+  const { formatCurrency } = useCurrency();
+  const [settings, setSettings] = useState<MonteCarloSettings>(
+    DEFAULT_MONTE_CARLO_SETTINGS
+  );
+
+  const { result, isRunning, progress, error } = useMonteCarloForecast(
+    userPlan,
+    config,
+    settings
+  );
+
+  const chartData = useMemo(
+    () =>
+      (result?.balance || []).map((band, index) => ({
+        month: band.month,
+        range: [band.p10, band.p90],
+        p50: band.p50,
+        expected: forecastResult.monthlyForecasts[index]?.endingBalance,
+      })),
+    [result, forecastResult]
+  );
+
+  const updateSettings = (updates: Partial<MonteCarloSettings>) =>
+    setSettings((prev) => ({ ...prev, ...updates }));
+
+  const getProbabilityColor = (probability: number) =>
+    probability >= 0.8
+      ? "text-green-600 dark:text-green-400"
+      : probability >= 0.5
+      ? "text-yellow-600 dark:text-yellow-400"
+      : "text-red-600 dark:text-red-400";
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 space-y-6">
+      <div className="flex flex-col lg:flex-row lg:items-end lg:justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+            Monte Carlo Forecast
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {result
+              ? `${result.runs} simulated runs - shaded area covers the middle 80% of outcomes`
+              : "Simulating a range of outcomes..."}
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-4 text-sm">
+          <div>
+            <label className="block text-gray-600 dark:text-gray-400 mb-1">
+              Runs
+            </label>
+            <select
+              value={settings.runs}
+              onChange={(e) =>
+                updateSettings({ runs: parseInt(e.target.value) })
+              }
+              className="px-3 py-1 rounded-lg border-gray-300 dark:bg-gray-700 dark:text-gray-100 dark:border-gray-600"
+            >
+              <option value={200}>200</option>
+              <option value={500}>500</option>
+              <option value={1000}>1000</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-gray-600 dark:text-gray-400 mb-1">
+              Income ± %
+            </label>
+            <input
+              type="number"
+              min="0"
+              max="100"
+              value={settings.incomeVariability}
+              onChange={(e) =>
+                updateSettings({
+                  incomeVariability: Math.max(
+                    0,
+                    parseFloat(e.target.value) || 0
+                  ),
+                })
+              }
+              className="w-20 px-2 py-1 rounded-lg border-gray-300 dark:bg-gray-700 dark:text-gray-100 dark:border-gray-600"
+            />
+          </div>
+          <div>
+            <label className="block text-gray-600 dark:text-gray-400 mb-1">
+              Expenses ± %
+            </label>
+            <input
+              type="number"
+              min="0"
+              max="100"
+              value={settings.expenseVariability}
+              onChange={(e) =>
+                updateSettings({
+                  expenseVariability: Math.max(
+                    0,
+                    parseFloat(e.target.value) || 0
+                  ),
+                })
+              }
+              className="w-20 px-2 py-1 rounded-lg border-gray-300 dark:bg-gray-700 dark:text-gray-100 dark:border-gray-600"
+            />
+          </div>
+          <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300 pb-1">
+            <input
+              type="checkbox"
+              checked={settings.randomizeReturns}
+              onChange={(e) =>
+                updateSettings({ randomizeReturns: e.target.checked })
+              }
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            Vary investment returns
+          </label>
+        </div>
+      </div>
+
+      {isRunning && (
+        <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+          <div
+            className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+            style={{ width: `${Math.round(progress * 100)}%` }}
+          />
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+          <p className="text-sm text-red-700 dark:text-red-300">{error}</p>
+        </div>
+      )}
+
+      {result && (
+        <>
+          <div className={`h-72 ${isRunning ? "opacity-50" : ""}`}>
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart
+                data={chartData}
+                margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+              >
+                <CartesianGrid strokeDasharray="3 3" opacity={0.3} />
+                <XAxis
+                  dataKey="month"
+                  tickFormatter={formatMonth}
+                  tick={{ fontSize: 12 }}
+                />
+                <YAxis
+                  tickFormatter={(value) => formatCurrency(value)}
+                  tick={{ fontSize: 12 }}
+                  width={90}
+                />
+                <Tooltip
+                  labelFormatter={(label) => formatMonth(label as string)}
+                  formatter={(value, name) => [
+                    Array.isArray(value)
+                      ? `${formatCurrency(Number(value[0]))} – ${formatCurrency(
+                          Number(value[1])
+                        )}`
+                      : formatCurrency(value as number),
+                    name,
+                  ]}
+                />
+                <Legend />
+                <Area
+                  type="monotone"
+                  dataKey="range"
+                  name="P10 – P90"
+                  stroke="none"
+                  fill="#3B82F6"
+                  fillOpacity={0.2}
+                />
+                <Line
+                  type="monotone"
+                  dataKey="p50"
+                  name="Median (P50)"
+                  stroke="#3B82F6"
+                  strokeWidth={2}
+                  dot={false}
+                />
+                <Line
+                  type="monotone"
+                  dataKey="expected"
+                  name="Plan"
+                  stroke="#6B7280"
+                  strokeDasharray="5 5"
+                  dot={false}
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-center">
+            <div>
+              <div className="text-2xl font-bold text-gray-900 dark:text-gray-100">
+                {formatCurrency(
+                  result.balance[result.balance.length - 1]?.p10 || 0
+                )}
+              </div>
+              <div className="text-sm text-gray-600 dark:text-gray-400">
+                Final Balance (bad case, P10)
+              </div>
+            </div>
+            <div>
+              <div className="text-2xl font-bold text-blue-600 dark:text-blue-400">
+                {formatCurrency(
+                  result.balance[result.balance.length - 1]?.p50 || 0
+                )}
+              </div>
+              <div className="text-sm text-gray-600 dark:text-gray-400">
+                Final Balance (median)
+              </div>
+            </div>
+            <div>
+              <div
+                className={`text-2xl font-bold ${getProbabilityColor(
+                  1 - result.probabilityOfNegativeBalance
+                )}`}
+              >
+                {Math.round(result.probabilityOfNegativeBalance * 100)}%
+              </div>
+              <div className="text-sm text-gray-600 dark:text-gray-400">
+                Chance of a negative balance
+              </div>
+            </div>
+          </div>
+
+          {result.goalProbabilities.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-700">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                      Goal
+                    </th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                      Target Date
+                    </th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                      Median at Target
+                    </th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                      Chance of Success
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-600">
+                  {result.goalProbabilities.map((goal) => (
+                    <tr key={goal.id}>
+                      <td className="px-4 py-3 font-medium text-gray-900 dark:text-gray-100">
+                        {goal.name}
+                      </td>
+                      <td className="px-4 py-3 text-gray-600 dark:text-gray-300">
+                        {formatMonth(goal.targetMonth)}
+                      </td>
+                      <td className="px-4 py-3 text-right text-gray-900 dark:text-gray-100">
+                        {formatCurrency(goal.medianAmountAtTarget)} /{" "}
+                        {formatCurrency(goal.targetAmount)}
+                      </td>
+                      <td
+                        className={`px-4 py-3 text-right font-semibold ${getProbabilityColor(
+                          goal.probability
+                        )}`}
+                      >
+                        {Math.round(goal.probability * 100)}%
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 import React, { useState } from "react";
 import Link from "next/link";
 import { useLanguage } from "@/context/LanguageContext";
+import PlanSwitcher from "@/components/PlanSwitcher";
 
 export default function Navigation() {
   const { t } = useLanguage();
@@ -12,10 +13,17 @@ export default function Navigation() {
     { href: "/", key: "nav.dashboard" },
     { href: "/income", key: "nav.income" },
     { href: "/expenses", key: "nav.expenses" },
+    { href: "/budget", key: "nav.budget" },
     { href: "/goals", key: "nav.goals" },
+    { href: "/household", key: "nav.household" },
+    { href: "/accounts", key: "nav.accounts" },
+    { href: "/debts", key: "nav.debts" },
+    { href: "/transactions", key: "nav.transactions" },
     { href: "/forecast", key: "nav.forecast" },
+    { href: "/cash-flow", key: "nav.cashFlow" },
     { href: "/goal-plan", key: "nav.goalPlanning" },
     { href: "/import-export", key: "nav.importExport" },
+    { href: "/plans", key: "nav.plans" },
   ];
 
   const toggleMobileMenu = () => {
@@ -29,7 +37,8 @@ export default function Navigation() {
   return (
     <>
       {/* Desktop Navigation */}
-      <nav className="hidden md:flex space-x-8">
+      <nav className="hidden md:flex items-center space-x-8">
+        <PlanSwitcher />
         {navItems.map((item) => (
           <Link
             key={item.href}
@@ -106,6 +115,7 @@ export default function Navigation() {
               </button>
             </div>
             <nav className="flex flex-col p-4 space-y-4">
+              <PlanSwitcher />
               {navItems.map((item) => (
                 <Link
                   key={item.href}
@@ -0,0 +1,386 @@
+"use client";
+
+import React, { useState } from "react";
+import { useFinancialState } from "@/context";
+import {
+  GoalCategory,
+  Income,
+  Paycheck,
+  PaycheckDeduction,
+  PaycheckDeductionType,
+} from "@/types";
+import {
+  PAYCHECK_DEDUCTION_LABELS,
+  calculatePaycheck,
+  getAnnualPaycheckTotals,
+} from "@/utils/paycheck";
+
+const inputClassName =
+  "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-gray-100";
+
+const generateDeductionId = () =>
+  `deduction-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+const emptyPaycheck = (grossPay: number): Paycheck => ({
+  grossPay,
+  deductions: [],
+});
+
+interface PaycheckEditorProps {
+  value?: Paycheck;
+  /** Schedule of the income, for the annual totals */
+  income: Pick<Income, "amount" | "frequency" | "recurrence" | "startDate">;
+  /** Called with the new paycheck and the net deposit it adds up to */
+  onChange: (paycheck: Paycheck | undefined, netPay?: number) => void;
+  formatAmount: (amount: number) => string;
+}
+
+/**
+ * Build a salary's net deposit from gross pay, pre-tax deductions and tax
+ * withheld. Retirement and provident fund contributions, with the
+ * employer's match, are paid into the linked retirement goal.
+ */
+export default function PaycheckEditor({
+  value,
+  income,
+  onChange,
+  formatAmount,
+}: PaycheckEditorProps) {
+  const state = useFinancialState();
+  const [isToggled, setIsToggled] = useState(false);
+  const isOpen = isToggled || !!value;
+
+  const retirementGoals = state.userPlan.goals.filter(
+    (goal) => goal.category === GoalCategory.RETIREMENT
+  );
+  const paycheck = value || emptyPaycheck(income.amount);
+  const breakdown = calculatePaycheck(paycheck);
+  const annual = getAnnualPaycheckTotals(income, paycheck);
+
+  const update = (changes: Partial<Paycheck>) => {
+    const next = { ...paycheck, ...changes };
+    onChange(next, calculatePaycheck(next).netPay);
+  };
+
+  const updateDeduction = (id: string, changes: Partial<PaycheckDeduction>) => {
+    update({
+      deductions: paycheck.deductions.map((deduction) =>
+        deduction.id === id ? { ...deduction, ...changes } : deduction
+      ),
+    });
+  };
+
+  const addDeduction = () => {
+    update({
+      deductions: [
+        ...paycheck.deductions,
+        {
+          id: generateDeductionId(),
+          name: "",
+          type: PaycheckDeductionType.RETIREMENT,
+          amount: 0,
+          isPercent: true,
+        },
+      ],
+    });
+  };
+
+  const removeDeduction = (id: string) => {
+    update({
+      deductions: paycheck.deductions.filter(
+        (deduction) => deduction.id !== id
+      ),
+    });
+  };
+
+  const parseAmount = (input: string) => Math.max(0, parseFloat(input) || 0);
+
+  return (
+    <div className="md:col-span-2 space-y-3">
+      <label className="flex items-center">
+        <input
+          type="checkbox"
+          checked={isOpen}
+          onChange={(e) => {
+            setIsToggled(e.target.checked);
+            if (e.target.checked) {
+              update({});
+            } else {
+              onChange(undefined);
+            }
+          }}
+          className="rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
+        />
+        <span className="ml-2 text-sm text-gray-700 dark:text-gray-300">
+          Salary paycheck breakdown (gross pay, deductions, employer match)
+        </span>
+      </label>
+
+      {isOpen && (
+        <div className="space-y-4 border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Gross Pay per Paycheck
+              </label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={paycheck.grossPay || ""}
+                onChange={(e) =>
+                  update({ grossPay: parseAmount(e.target.value) })
+                }
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Tax Withheld per Paycheck
+              </label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={paycheck.taxWithheld ?? ""}
+                onChange={(e) =>
+                  update({
+                    taxWithheld:
+                      e.target.value === ""
+                        ? undefined
+                        : parseAmount(e.target.value),
+                  })
+                }
+                className={inputClassName}
+                placeholder="0.00"
+              />
+            </div>
+          </div>
+
+          {/* Pre-tax deductions */}
+          <div>
+            <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Pre-tax Deductions
+            </p>
+            <div className="space-y-2">
+              {paycheck.deductions.map((deduction) => (
+                <div
+                  key={deduction.id}
+                  className="grid grid-cols-2 md:grid-cols-5 gap-2 items-center"
+                >
+                  <input
+                    type="text"
+                    value={deduction.name}
+                    onChange={(e) =>
+                      updateDeduction(deduction.id, { name: e.target.value })
+                    }
+                    className={inputClassName}
+                    placeholder="e.g. 401(k)"
+                  />
+                  <select
+                    value={deduction.type}
+                    onChange={(e) =>
+                      updateDeduction(deduction.id, {
+                        type: e.target.value as PaycheckDeductionType,
+                      })
+                    }
+                    className={inputClassName}
+                  >
+                    {Object.values(PaycheckDeductionType).map((type) => (
+                      <option key={type} value={type}>
+                        {PAYCHECK_DEDUCTION_LABELS[type]}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={deduction.amount || ""}
+                    onChange={(e) =>
+                      updateDeduction(deduction.id, {
+                        amount: parseAmount(e.target.value),
+                      })
+                    }
+                    className={inputClassName}
+                  />
+                  <select
+                    value={deduction.isPercent ? "percent" : "amount"}
+                    onChange={(e) =>
+                      updateDeduction(deduction.id, {
+                        isPercent: e.target.value === "percent",
+                      })
+                    }
+                    className={inputClassName}
+                  >
+                    <option value="percent">% of gross</option>
+                    <option value="amount">Fixed amount</option>
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => removeDeduction(deduction.id)}
+                    className="text-sm text-red-600 dark:text-red-400 hover:underline"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={addDeduction}
+              className="mt-2 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              + Add deduction
+            </button>
+          </div>
+
+          {/* Employer match */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Employer Match (%)
+              </label>
+              <input
+                type="number"
+                min="0"
+                step="1"
+                value={paycheck.employerMatchPercent ?? ""}
+                onChange={(e) =>
+                  update({
+                    employerMatchPercent:
+                      e.target.value === ""
+                        ? undefined
+                        : parseAmount(e.target.value),
+                  })
+                }
+                className={inputClassName}
+                placeholder="e.g. 50"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Up to (% of gross)
+              </label>
+              <input
+                type="number"
+                min="0"
+                step="0.1"
+                value={paycheck.employerMatchCapPercent ?? ""}
+                onChange={(e) =>
+                  update({
+                    employerMatchCapPercent:
+                      e.target.value === ""
+                        ? undefined
+                        : parseAmount(e.target.value),
+                  })
+                }
+                className={inputClassName}
+                placeholder="No limit"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Retirement Goal
+              </label>
+              <select
+                value={paycheck.retirementGoalId || ""}
+                onChange={(e) =>
+                  update({ retirementGoalId: e.target.value || undefined })
+                }
+                className={inputClassName}
+              >
+                <option value="">Not linked</option>
+                {retirementGoals.map((goal) => (
+                  <option key={goal.id} value={goal.id}>
+                    {goal.name}
+                  </option>
+                ))}
+              </select>
+              {retirementGoals.length === 0 && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  Add a retirement goal to track contributions
+                </p>
+              )}
+            </div>
+          </div>
+
+          {/* Per paycheck and annual totals */}
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 dark:text-gray-400">
+                <th className="py-1">Component</th>
+                <th className="py-1 text-right">Per Paycheck</th>
+                <th className="py-1 text-right">Per Year</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-900 dark:text-gray-100">
+              <tr>
+                <td className="py-1">Gross pay</td>
+                <td className="py-1 text-right">
+                  {formatAmount(breakdown.grossPay)}
+                </td>
+                <td className="py-1 text-right">
+                  {formatAmount(annual.grossPay)}
+                </td>
+              </tr>
+              {breakdown.deductions.map((deduction, index) => (
+                <tr key={deduction.id}>
+                  <td className="py-1">
+                    {deduction.name ||
+                      PAYCHECK_DEDUCTION_LABELS[deduction.type]}
+                  </td>
+                  <td className="py-1 text-right">
+                    −{formatAmount(deduction.amount)}
+                  </td>
+                  <td className="py-1 text-right">
+                    −{formatAmount(annual.deductions[index].amount)}
+                  </td>
+                </tr>
+              ))}
+              <tr>
+                <td className="py-1">Tax withheld</td>
+                <td className="py-1 text-right">
+                  −{formatAmount(breakdown.taxWithheld)}
+                </td>
+                <td className="py-1 text-right">
+                  −{formatAmount(annual.taxWithheld)}
+                </td>
+              </tr>
+              <tr className="font-semibold">
+                <td className="py-1">Net deposit</td>
+                <td
+                  className={`py-1 text-right ${
+                    breakdown.netPay < 0 ? "text-red-600 dark:text-red-400" : ""
+                  }`}
+                >
+                  {formatAmount(breakdown.netPay)}
+                </td>
+                <td className="py-1 text-right">
+                  {formatAmount(annual.netPay)}
+                </td>
+              </tr>
+              <tr className="text-green-600 dark:text-green-400">
+                <td className="py-1">Employer match</td>
+                <td className="py-1 text-right">
+                  +{formatAmount(breakdown.employerMatch)}
+                </td>
+                <td className="py-1 text-right">
+                  +{formatAmount(annual.employerMatch)}
+                </td>
+              </tr>
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            The income amount is set to the net deposit. Retirement and
+            provident fund contributions plus the match (
+            {formatAmount(
+              annual.retirementContributions + annual.employerMatch
+            )}{" "}
+            a year) go into the linked goal in the forecast.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+"use client";
+
+import React from "react";
+import { useFinancialContext } from "@/context";
+
+/**
+ * Switch which plan is open. Renders nothing until there is a second plan
+ * to switch to, or while storage is locked.
+ */
+export default function PlanSwitcher() {
+  const { state, plans, switchPlan, isLocked } = useFinancialContext();
+
+  if (isLocked || plans.length < 2) return null;
+
+  const handleChange = async (planId: string) => {
+    try {
+      await switchPlan(planId);
+    } catch (error) {
+      console.error("Failed to switch plan:", error);
+    }
+  };
+
+  return (
+    <select
+      value={state.userPlan.id}
+      onChange={(e) => handleChange(e.target.value)}
+      disabled={state.loading.isLoading}
+      aria-label="Open plan"
+      className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-100"
+    >
+      {plans.map((plan) => (
+        <option key={plan.id} value={plan.id}>
+          {plan.name}
+        </option>
+      ))}
+    </select>
+  );
+}
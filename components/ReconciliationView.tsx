@@ -0,0 +1,234 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { useFinancialContext } from "@/context";
+import { useCurrency } from "@/context/CurrencyContext";
+import { reconcilePlan, ReconciliationLine } from "@/utils/reconciliation";
+
+interface LineTableProps {
+  title: string;
+  lines: ReconciliationLine[];
+  /** Whether spending more than planned is bad (expenses) or good (income) */
+  overIsBad: boolean;
+}
+
+function LineTable({ title, lines, overIsBad }: LineTableProps) {
+  const { formatCurrency } = useCurrency();
+
+  const getVarianceColor = (variance: number) => {
+    if (variance === 0) return "text-gray-600 dark:text-gray-300";
+    const isBad = overIsBad ? variance > 0 : variance < 0;
+    return isBad
+      ? "text-red-600 dark:text-red-400"
+      : "text-green-600 dark:text-green-400";
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm overflow-hidden">
+      <h3 className="px-6 pt-6 pb-3 text-lg font-semibold text-gray-900 dark:text-gray-100">
+        {title}
+      </h3>
+      {lines.length === 0 ? (
+        <p className="px-6 pb-6 text-sm text-gray-500 dark:text-gray-400">
+          Nothing planned or recorded this month.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-700">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Item
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Planned
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Actual
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Variance
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-600">
+              {lines.map((line) => (
+                <tr key={line.id}>
+                  <td className="px-6 py-3 text-gray-900 dark:text-gray-100">
+                    {line.name}
+                    <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                      {line.transactionCount} matched
+                    </span>
+                  </td>
+                  <td className="px-6 py-3 text-right text-gray-600 dark:text-gray-300">
+                    {formatCurrency(line.planned)}
+                  </td>
+                  <td className="px-6 py-3 text-right text-gray-900 dark:text-gray-100">
+                    {formatCurrency(line.actual)}
+                  </td>
+                  <td
+                    className={`px-6 py-3 text-right font-medium ${getVarianceColor(
+                      line.variance
+                    )}`}
+                  >
+                    {line.variance > 0 ? "+" : ""}
+                    {formatCurrency(line.variance)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function ReconciliationView() {
+  const { state } = useFinancialContext();
+  const { formatCurrency } = useCurrency();
+  const { forecastConfig } = state.userPlan;
+
+  const reconciliation = useMemo(
+    () =>
+      reconcilePlan(state.userPlan, {
+        startingBalance: forecastConfig?.startingBalance,
+        includeGoalContributions: forecastConfig?.includeGoalContributions,
+        conservativeMode: forecastConfig?.conservativeMode,
+      }),
+    [state.userPlan, forecastConfig]
+  );
+
+  const [selectedMonth, setSelectedMonth] = useState("");
+  const current =
+    reconciliation.find((month) => month.month === selectedMonth) ||
+    reconciliation[reconciliation.length - 1];
+
+  if (!current) {
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-12 text-center">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-2">
+          Nothing to reconcile yet
+        </h3>
+        <p className="text-gray-500 dark:text-gray-400">
+          Add transactions to the ledger and link them to your planned income,
+          expenses and goals to compare plan against actual.
+        </p>
+      </div>
+    );
+  }
+
+  const { totals } = current;
+  const summaryCards = [
+    {
+      label: "Income",
+      planned: totals.plannedIncome,
+      actual: totals.actualIncome,
+    },
+    {
+      label: "Expenses",
+      planned: totals.plannedExpenses,
+      actual: totals.actualExpenses,
+    },
+    {
+      label: "Goal Contributions",
+      planned: totals.plannedGoalContributions,
+      actual: totals.actualGoalContributions,
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+            Plan vs Actual
+          </h2>
+          <select
+            value={current.month}
+            onChange={(e) => setSelectedMonth(e.target.value)}
+            className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-gray-100"
+          >
+            {reconciliation.map((month) => (
+              <option key={month.month} value={month.month}>
+                {month.month}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {summaryCards.map((card) => (
+            <div
+              key={card.label}
+              className="p-4 bg-gray-50 dark:bg-gray-700 rounded-lg"
+            >
+              <div className="text-sm text-gray-500 dark:text-gray-400">
+                {card.label}
+              </div>
+              <div className="text-2xl font-bold text-gray-900 dark:text-gray-100">
+                {formatCurrency(card.actual)}
+              </div>
+              <div className="text-sm text-gray-500 dark:text-gray-400">
+                of {formatCurrency(card.planned)} planned
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <LineTable title="Income" lines={current.income} overIsBad={false} />
+      <LineTable title="Expenses" lines={current.expenses} overIsBad={true} />
+      <LineTable
+        title="Goal Contributions"
+        lines={current.goals}
+        overIsBad={false}
+      />
+
+      {/* Unmatched Transactions */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+            Unplanned Transactions
+          </h3>
+          <div className="text-sm text-gray-500 dark:text-gray-400">
+            <span className="text-green-600 dark:text-green-400">
+              +{formatCurrency(totals.unmatchedIn)}
+            </span>{" "}
+            /{" "}
+            <span className="text-red-600 dark:text-red-400">
+              -{formatCurrency(totals.unmatchedOut)}
+            </span>
+          </div>
+        </div>
+        {current.unmatched.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Every transaction this month is linked to a planned item.
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+            {current.unmatched.map((transaction) => (
+              <li
+                key={transaction.id}
+                className="flex justify-between py-2 text-gray-900 dark:text-gray-100"
+              >
+                <span>
+                  {transaction.date} · {transaction.description}
+                </span>
+                <span
+                  className={
+                    transaction.amount >= 0
+                      ? "text-green-600 dark:text-green-400"
+                      : "text-red-600 dark:text-red-400"
+                  }
+                >
+                  {formatCurrency(transaction.amount)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
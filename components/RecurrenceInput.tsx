@@ -0,0 +1,139 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { RecurrenceFrequency, RecurrenceRule } from "@/types";
+import {
+  RECURRENCE_PRESETS,
+  describeRecurrence,
+  formatRRule,
+  getNextOccurrences,
+  parseRRule,
+} from "@/utils/recurrence";
+
+const inputClassName =
+  "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-gray-100";
+
+interface RecurrenceInputProps {
+  value?: RecurrenceRule;
+  /** First possible occurrence - the item's start or due date */
+  start?: string;
+  onChange: (rule: RecurrenceRule | undefined) => void;
+}
+
+/**
+ * Exact schedule for an income or expense: a preset or a custom RFC 5545
+ * RRULE, with a plain-English summary and the next dates it falls on.
+ * Leaving it empty keeps the item on its frequency.
+ */
+export default function RecurrenceInput({
+  value,
+  start,
+  onChange,
+}: RecurrenceInputProps) {
+  const [text, setText] = useState(value ? formatRRule(value) : "");
+  const [isCustom, setIsCustom] = useState(false);
+
+  useEffect(() => {
+    setText(value ? formatRRule(value) : "");
+  }, [value]);
+
+  // Presets match whatever the end count is
+  const presetIndex = value
+    ? RECURRENCE_PRESETS.findIndex(
+        (preset) =>
+          formatRRule(preset.rule) ===
+          formatRRule({ ...value, count: undefined })
+      )
+    : -1;
+  const selected =
+    presetIndex >= 0 ? String(presetIndex) : value || isCustom ? "custom" : "";
+  const isTextValid = !text || parseRRule(text) !== null;
+  const firstDate = start || new Date().toISOString().split("T")[0];
+
+  const handlePresetChange = (option: string) => {
+    setIsCustom(option === "custom");
+    if (option === "") {
+      onChange(undefined);
+    } else if (option === "custom") {
+      onChange(value || { freq: RecurrenceFrequency.MONTHLY });
+    } else {
+      onChange({
+        ...RECURRENCE_PRESETS[Number(option)].rule,
+        count: value?.count,
+      });
+    }
+  };
+
+  const handleTextChange = (newText: string) => {
+    setText(newText);
+    const rule = parseRRule(newText);
+    if (rule) onChange(rule);
+  };
+
+  return (
+    <div className="md:col-span-2 space-y-2">
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+        Exact Schedule
+      </label>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <select
+          value={selected}
+          onChange={(e) => handlePresetChange(e.target.value)}
+          className={inputClassName}
+        >
+          <option value="">None - use the frequency</option>
+          {RECURRENCE_PRESETS.map((preset, index) => (
+            <option key={preset.label} value={index}>
+              {preset.label}
+            </option>
+          ))}
+          <option value="custom">Custom rule (RRULE)</option>
+        </select>
+
+        {selected !== "" && (
+          <>
+            <input
+              type="text"
+              value={text}
+              onChange={(e) => handleTextChange(e.target.value)}
+              className={`${inputClassName} font-mono text-sm ${
+                isTextValid ? "" : "border-red-500 dark:border-red-500"
+              }`}
+              placeholder="FREQ=MONTHLY;BYDAY=2FR,4FR"
+            />
+            <input
+              type="number"
+              min="1"
+              step="1"
+              value={value?.count ?? ""}
+              onChange={(e) =>
+                value &&
+                onChange({
+                  ...value,
+                  count: parseInt(e.target.value) || undefined,
+                })
+              }
+              className={inputClassName}
+              placeholder="Ends after N payments (optional)"
+            />
+          </>
+        )}
+      </div>
+
+      {!isTextValid && (
+        <p className="text-xs text-red-600 dark:text-red-400">
+          Not a valid rule - e.g. FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1
+        </p>
+      )}
+      {value && (
+        <p className="text-xs text-gray-600 dark:text-gray-400">
+          {describeRecurrence(value)}
+          {" · Next: "}
+          {getNextOccurrences(value, firstDate, 3)
+            .map((date) => date.toLocaleDateString())
+            .join(", ") || "none"}
+        </p>
+      )}
+    </div>
+  );
+}
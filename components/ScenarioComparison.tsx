@@ -0,0 +1,860 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { useFinancialContext } from "@/context";
+import { useCurrency } from "@/context/CurrencyContext";
+import {
+  Scenario,
+  ScenarioOverride,
+  ScenarioOverrideAction,
+  Income,
+  Expense,
+  Goal,
+  Frequency,
+  ExpenseCategory,
+  Priority,
+  CreateScenarioInput,
+} from "@/types";
+import {
+  compareScenarios,
+  ForecastConfig as UtilsForecastConfig,
+} from "@/utils/forecastCalculator";
+import { SCENARIO_COLORS, countScenarioChanges } from "@/utils/scenarios";
+
+interface ScenarioComparisonProps {
+  config: UtilsForecastConfig;
+  formatMonth: (monthKey: string) => string;
+}
+
+type ChangeType =
+  | "remove-income"
+  | "remove-expense"
+  | "remove-goal"
+  | "modify-income"
+  | "modify-expense"
+  | "modify-goal"
+  | "add-income"
+  | "add-expense";
+
+const CHANGE_TYPE_LABELS: Record<ChangeType, string> = {
+  "remove-income": "Remove income source",
+  "remove-expense": "Remove expense",
+  "remove-goal": "Remove goal",
+  "modify-income": "Change income amount",
+  "modify-expense": "Change expense amount",
+  "modify-goal": "Change goal target",
+  "add-income": "Add monthly income",
+  "add-expense": "Add monthly expense",
+};
+
+const emptyScenario = (colorIndex: number): CreateScenarioInput => ({
+  name: "",
+  description: "",
+  color: SCENARIO_COLORS[colorIndex % SCENARIO_COLORS.length],
+  incomeOverrides: [],
+  expenseOverrides: [],
+  goalOverrides: [],
+  forecastConfigOverrides: {},
+});
+
+const generateOverrideId = () =>
+  `override-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+export default function ScenarioComparison({
+  config,
+  formatMonth,
+}: ScenarioComparisonProps) {
+  const { state, addScenario, updateScenario, deleteScenario } =
+    useFinancialContext();
+  const { formatCurrency } = useCurrency();
+  const scenarios = useMemo(
+    () => state.userPlan.scenarios || [],
+    [state.userPlan.scenarios]
+  );
+
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [editingScenarioId, setEditingScenarioId] = useState<string | null>(
+    null
+  );
+  const [draft, setDraft] = useState<CreateScenarioInput>(emptyScenario(0));
+  const [changeType, setChangeType] = useState<ChangeType>("remove-income");
+  const [changeTargetId, setChangeTargetId] = useState("");
+  const [changeName, setChangeName] = useState("");
+  const [changeAmount, setChangeAmount] = useState(0);
+
+  const selectedScenarios = useMemo(
+    () => scenarios.filter((scenario) => selectedIds.includes(scenario.id)),
+    [scenarios, selectedIds]
+  );
+
+  const comparison = useMemo(
+    () => compareScenarios(state.userPlan, selectedScenarios, config),
+    [state.userPlan, selectedScenarios, config]
+  );
+
+  // Union of months across all series (scenarios may change the period)
+  const months = useMemo(() => {
+    const keys = new Set<string>();
+    comparison.forEach((series) =>
+      series.result.monthlyForecasts.forEach((month) => keys.add(month.month))
+    );
+    return Array.from(keys).sort();
+  }, [comparison]);
+
+  const baseline = comparison[0];
+
+  const toggleSelected = (scenarioId: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(scenarioId)
+        ? prev.filter((id) => id !== scenarioId)
+        : [...prev, scenarioId]
+    );
+  };
+
+  const openNewScenario = () => {
+    setDraft(emptyScenario(scenarios.length));
+    setEditingScenarioId(null);
+    setIsEditorOpen(true);
+  };
+
+  const openEditScenario = (scenario: Scenario) => {
+    setDraft({
+      name: scenario.name,
+      description: scenario.description || "",
+      color: scenario.color,
+      incomeOverrides: scenario.incomeOverrides,
+      expenseOverrides: scenario.expenseOverrides,
+      goalOverrides: scenario.goalOverrides,
+      forecastConfigOverrides: scenario.forecastConfigOverrides || {},
+    });
+    setEditingScenarioId(scenario.id);
+    setIsEditorOpen(true);
+  };
+
+  const closeEditor = () => {
+    setIsEditorOpen(false);
+    setEditingScenarioId(null);
+  };
+
+  const handleSave = async () => {
+    if (!draft.name.trim()) return;
+
+    try {
+      if (editingScenarioId) {
+        await updateScenario({ id: editingScenarioId, ...draft });
+      } else {
+        await addScenario(draft);
+      }
+      closeEditor();
+    } catch (error) {
+      console.error("Failed to save scenario:", error);
+    }
+  };
+
+  const handleDelete = async (scenarioId: string) => {
+    if (!window.confirm("Are you sure you want to delete this scenario?")) {
+      return;
+    }
+
+    try {
+      await deleteScenario(scenarioId);
+      setSelectedIds((prev) => prev.filter((id) => id !== scenarioId));
+    } catch (error) {
+      console.error("Failed to delete scenario:", error);
+    }
+  };
+
+  const getTargetOptions = (): Array<{ id: string; name: string }> => {
+    if (changeType.endsWith("income")) return state.userPlan.income;
+    if (changeType.endsWith("expense")) return state.userPlan.expenses;
+    return state.userPlan.goals;
+  };
+
+  const handleAddChange = () => {
+    const now = new Date().toISOString();
+    const id = generateOverrideId();
+
+    switch (changeType) {
+      case "remove-income":
+      case "remove-expense":
+      case "remove-goal": {
+        if (!changeTargetId) return;
+        const override = {
+          id,
+          action: ScenarioOverrideAction.REMOVE,
+          targetId: changeTargetId,
+        };
+        if (changeType === "remove-income") {
+          setDraft((prev) => ({
+            ...prev,
+            incomeOverrides: [...prev.incomeOverrides, override],
+          }));
+        } else if (changeType === "remove-expense") {
+          setDraft((prev) => ({
+            ...prev,
+            expenseOverrides: [...prev.expenseOverrides, override],
+          }));
+        } else {
+          setDraft((prev) => ({
+            ...prev,
+            goalOverrides: [...prev.goalOverrides, override],
+          }));
+        }
+        break;
+      }
+
+      case "modify-income":
+        if (!changeTargetId) return;
+        setDraft((prev) => ({
+          ...prev,
+          incomeOverrides: [
+            ...prev.incomeOverrides,
+            {
+              id,
+              action: ScenarioOverrideAction.MODIFY,
+              targetId: changeTargetId,
+              changes: { amount: changeAmount },
+            },
+          ],
+        }));
+        break;
+
+      case "modify-expense":
+        if (!changeTargetId) return;
+        setDraft((prev) => ({
+          ...prev,
+          expenseOverrides: [
+            ...prev.expenseOverrides,
+            {
+              id,
+              action: ScenarioOverrideAction.MODIFY,
+              targetId: changeTargetId,
+              changes: { amount: changeAmount },
+            },
+          ],
+        }));
+        break;
+
+      case "modify-goal":
+        if (!changeTargetId) return;
+        setDraft((prev) => ({
+          ...prev,
+          goalOverrides: [
+            ...prev.goalOverrides,
+            {
+              id,
+              action: ScenarioOverrideAction.MODIFY,
+              targetId: changeTargetId,
+              changes: { targetAmount: changeAmount },
+            },
+          ],
+        }));
+        break;
+
+      case "add-income": {
+        if (!changeName.trim()) return;
+        const item: Income = {
+          id: `income-${id}`,
+          name: changeName,
+          amount: changeAmount,
+          frequency: Frequency.MONTHLY,
+          startDate: now.split("T")[0],
+          isActive: true,
+          createdAt: now,
+          updatedAt: now,
+        };
+        setDraft((prev) => ({
+          ...prev,
+          incomeOverrides: [
+            ...prev.incomeOverrides,
+            { id, action: ScenarioOverrideAction.ADD, item },
+          ],
+        }));
+        break;
+      }
+
+      case "add-expense": {
+        if (!changeName.trim()) return;
+        const item: Expense = {
+          id: `expense-${id}`,
+          name: changeName,
+          amount: changeAmount,
+          category: ExpenseCategory.MISCELLANEOUS,
+          dueDate: now.split("T")[0],
+          recurring: true,
+          frequency: Frequency.MONTHLY,
+          priority: Priority.MEDIUM,
+          isActive: true,
+          createdAt: now,
+          updatedAt: now,
+        };
+        setDraft((prev) => ({
+          ...prev,
+          expenseOverrides: [
+            ...prev.expenseOverrides,
+            { id, action: ScenarioOverrideAction.ADD, item },
+          ],
+        }));
+        break;
+      }
+    }
+
+    setChangeTargetId("");
+    setChangeName("");
+    setChangeAmount(0);
+  };
+
+  const removeChange = (overrideId: string) => {
+    setDraft((prev) => ({
+      ...prev,
+      incomeOverrides: prev.incomeOverrides.filter((o) => o.id !== overrideId),
+      expenseOverrides: prev.expenseOverrides.filter(
+        (o) => o.id !== overrideId
+      ),
+      goalOverrides: prev.goalOverrides.filter((o) => o.id !== overrideId),
+    }));
+  };
+
+  const describeOverride = <T extends { id: string; name: string }>(
+    override: ScenarioOverride<T>,
+    baseline: T[],
+    label: string
+  ): string => {
+    const targetName =
+      baseline.find((item) => item.id === override.targetId)?.name || "Unknown";
+
+    switch (override.action) {
+      case ScenarioOverrideAction.ADD:
+        return `Add ${label}: ${override.item?.name}`;
+      case ScenarioOverrideAction.REMOVE:
+        return `Remove ${label}: ${targetName}`;
+      case ScenarioOverrideAction.MODIFY: {
+        const changes = override.changes as Record<string, unknown>;
+        const amount = changes?.amount ?? changes?.targetAmount;
+        return `Change ${label}: ${targetName}${
+          typeof amount === "number" ? ` → ${formatCurrency(amount)}` : ""
+        }`;
+      }
+    }
+  };
+
+  const draftChanges = [
+    ...draft.incomeOverrides.map((o) => ({
+      id: o.id,
+      text: describeOverride(o, state.userPlan.income, "income"),
+    })),
+    ...draft.expenseOverrides.map((o) => ({
+      id: o.id,
+      text: describeOverride(o, state.userPlan.expenses, "expense"),
+    })),
+    ...draft.goalOverrides.map((o: ScenarioOverride<Goal>) => ({
+      id: o.id,
+      text: describeOverride(o, state.userPlan.goals, "goal"),
+    })),
+  ];
+
+  const updateConfigOverride = (
+    field: "startingBalance" | "months" | "conservativeMode",
+    value: number | boolean | undefined
+  ) => {
+    setDraft((prev) => {
+      const overrides = { ...(prev.forecastConfigOverrides || {}) };
+      if (value === undefined) {
+        delete overrides[field];
+      } else {
+        (overrides as Record<string, number | boolean>)[field] = value;
+      }
+      return { ...prev, forecastConfigOverrides: overrides };
+    });
+  };
+
+  const getBalanceColor = (balance: number) =>
+    balance >= 0
+      ? "text-green-600 dark:text-green-400"
+      : "text-red-600 dark:text-red-400";
+
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-gray-100 text-sm";
+
+  return (
+    <div className="space-y-6">
+      {/* Scenario List */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+              What-If Scenarios
+            </h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Select scenarios to compare against your baseline plan. Your real
+              data is never changed.
+            </p>
+          </div>
+          <button
+            onClick={openNewScenario}
+            className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            New Scenario
+          </button>
+        </div>
+
+        {scenarios.length === 0 ? (
+          <p className="text-center py-6 text-gray-500 dark:text-gray-400">
+            No scenarios yet. Create one to explore a what-if.
+          </p>
+        ) : (
+          <div className="divide-y divide-gray-200 dark:divide-gray-700">
+            {scenarios.map((scenario) => (
+              <div
+                key={scenario.id}
+                className="flex items-center justify-between py-3"
+              >
+                <label className="flex items-center gap-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.includes(scenario.id)}
+                    onChange={() => toggleSelected(scenario.id)}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span
+                    className="w-3 h-3 rounded-full"
+                    style={{ backgroundColor: scenario.color }}
+                  />
+                  <span>
+                    <span className="font-medium text-gray-900 dark:text-gray-100">
+                      {scenario.name}
+                    </span>
+                    <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                      {countScenarioChanges(scenario)} changes
+                    </span>
+                    {scenario.description && (
+                      <span className="block text-xs text-gray-500 dark:text-gray-400">
+                        {scenario.description}
+                      </span>
+                    )}
+                  </span>
+                </label>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => openEditScenario(scenario)}
+                    className="px-3 py-1 text-xs bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-500 transition-colors"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleDelete(scenario.id)}
+                    className="px-3 py-1 text-xs bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 rounded-lg hover:bg-red-200 dark:hover:bg-red-900/50 transition-colors"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Scenario Editor */}
+      {isEditorOpen && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 border-2 border-blue-200 dark:border-blue-800 space-y-4">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+            {editingScenarioId ? "Edit Scenario" : "New Scenario"}
+          </h3>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Scenario Name *
+              </label>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) =>
+                  setDraft((prev) => ({ ...prev, name: e.target.value }))
+                }
+                className={inputClass}
+                placeholder="e.g., Quit the side gig"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Description
+              </label>
+              <input
+                type="text"
+                value={draft.description}
+                onChange={(e) =>
+                  setDraft((prev) => ({
+                    ...prev,
+                    description: e.target.value,
+                  }))
+                }
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          {/* Changes */}
+          <div>
+            <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+              Changes to the baseline
+            </h4>
+            {draftChanges.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                No changes yet.
+              </p>
+            ) : (
+              <ul className="space-y-1">
+                {draftChanges.map((change) => (
+                  <li
+                    key={change.id}
+                    className="flex items-center justify-between text-sm bg-gray-50 dark:bg-gray-700 rounded px-3 py-2"
+                  >
+                    <span className="text-gray-800 dark:text-gray-200">
+                      {change.text}
+                    </span>
+                    <button
+                      onClick={() => removeChange(change.id)}
+                      className="text-xs text-red-600 dark:text-red-400 hover:underline"
+                    >
+                      Remove
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="mt-3 grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+              <div>
+                <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+                  Change
+                </label>
+                <select
+                  value={changeType}
+                  onChange={(e) => {
+                    setChangeType(e.target.value as ChangeType);
+                    setChangeTargetId("");
+                  }}
+                  className={inputClass}
+                >
+                  {(Object.keys(CHANGE_TYPE_LABELS) as ChangeType[]).map(
+                    (type) => (
+                      <option key={type} value={type}>
+                        {CHANGE_TYPE_LABELS[type]}
+                      </option>
+                    )
+                  )}
+                </select>
+              </div>
+
+              {changeType.startsWith("add") ? (
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+                    Name
+                  </label>
+                  <input
+                    type="text"
+                    value={changeName}
+                    onChange={(e) => setChangeName(e.target.value)}
+                    className={inputClass}
+                  />
+                </div>
+              ) : (
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+                    Item
+                  </label>
+                  <select
+                    value={changeTargetId}
+                    onChange={(e) => setChangeTargetId(e.target.value)}
+                    className={inputClass}
+                  >
+                    <option value="">Select...</option>
+                    {getTargetOptions().map((item) => (
+                      <option key={item.id} value={item.id}>
+                        {item.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {!changeType.startsWith("remove") ? (
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+                    {changeType === "modify-goal" ? "New Target" : "Amount"}
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={changeAmount || ""}
+                    onChange={(e) =>
+                      setChangeAmount(parseFloat(e.target.value) || 0)
+                    }
+                    className={inputClass}
+                    placeholder="0.00"
+                  />
+                </div>
+              ) : (
+                <div />
+              )}
+
+              <button
+                type="button"
+                onClick={handleAddChange}
+                className="px-4 py-2 text-sm bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
+              >
+                Add Change
+              </button>
+            </div>
+          </div>
+
+          {/* Forecast Settings Overrides */}
+          <div>
+            <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+              Forecast settings (leave empty to use the baseline)
+            </h4>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div>
+                <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+                  Starting Balance
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  value={draft.forecastConfigOverrides?.startingBalance ?? ""}
+                  onChange={(e) =>
+                    updateConfigOverride(
+                      "startingBalance",
+                      e.target.value === ""
+                        ? undefined
+                        : parseFloat(e.target.value) || 0
+                    )
+                  }
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+                  Forecast Period (months)
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  max="120"
+                  value={draft.forecastConfigOverrides?.months ?? ""}
+                  onChange={(e) =>
+                    updateConfigOverride(
+                      "months",
+                      e.target.value === ""
+                        ? undefined
+                        : parseInt(e.target.value) || 1
+                    )
+                  }
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+                  Conservative Mode
+                </label>
+                <select
+                  value={
+                    draft.forecastConfigOverrides?.conservativeMode ===
+                    undefined
+                      ? ""
+                      : String(draft.forecastConfigOverrides.conservativeMode)
+                  }
+                  onChange={(e) =>
+                    updateConfigOverride(
+                      "conservativeMode",
+                      e.target.value === ""
+                        ? undefined
+                        : e.target.value === "true"
+                    )
+                  }
+                  className={inputClass}
+                >
+                  <option value="">Same as baseline</option>
+                  <option value="true">On</option>
+                  <option value="false">Off</option>
+                </select>
+              </div>
+            </div>
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              onClick={handleSave}
+              disabled={!draft.name.trim()}
+              className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {editingScenarioId ? "Update Scenario" : "Save Scenario"}
+            </button>
+            <button
+              onClick={closeEditor}
+              className="bg-gray-300 dark:bg-gray-600 text-gray-700 dark:text-gray-300 px-6 py-2 rounded-lg hover:bg-gray-400 dark:hover:bg-gray-500 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Side-by-side Comparison */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm overflow-hidden">
+        <div className="p-6 pb-0">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">
+            Scenario Comparison
+          </h3>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 dark:bg-gray-700">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Metric
+                </th>
+                {comparison.map((series) => (
+                  <th
+                    key={series.scenarioId || "baseline"}
+                    className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider"
+                  >
+                    <span className="inline-flex items-center gap-2">
+                      <span
+                        className="w-2 h-2 rounded-full"
+                        style={{ backgroundColor: series.color }}
+                      />
+                      {series.name}
+                    </span>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-600 text-sm">
+              {[
+                {
+                  label: "Final Balance",
+                  value: (s: typeof baseline) => s.result.summary.finalBalance,
+                },
+                {
+                  label: "Lowest Balance",
+                  value: (s: typeof baseline) => s.result.summary.lowestBalance,
+                },
+                {
+                  label: "Avg Monthly Net",
+                  value: (s: typeof baseline) =>
+                    s.result.summary.averageMonthlyNet,
+                },
+                {
+                  label: "Goal Contributions",
+                  value: (s: typeof baseline) =>
+                    s.result.summary.totalGoalContributions,
+                },
+              ].map((row) => (
+                <tr key={row.label}>
+                  <td className="px-6 py-3 font-medium text-gray-900 dark:text-gray-100">
+                    {row.label}
+                  </td>
+                  {comparison.map((series) => {
+                    const value = row.value(series);
+                    const delta = value - row.value(baseline);
+                    return (
+                      <td
+                        key={series.scenarioId || "baseline"}
+                        className={`px-6 py-3 ${getBalanceColor(value)}`}
+                      >
+                        {formatCurrency(value)}
+                        {series.scenarioId && delta !== 0 && (
+                          <span className="block text-xs text-gray-500 dark:text-gray-400">
+                            {delta > 0 ? "+" : ""}
+                            {formatCurrency(delta)} vs baseline
+                          </span>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+              <tr>
+                <td className="px-6 py-3 font-medium text-gray-900 dark:text-gray-100">
+                  Months Negative
+                </td>
+                {comparison.map((series) => (
+                  <td
+                    key={series.scenarioId || "baseline"}
+                    className="px-6 py-3 text-gray-900 dark:text-gray-100"
+                  >
+                    {series.result.summary.monthsWithNegativeBalance}
+                  </td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+
+        <div className="overflow-x-auto border-t border-gray-200 dark:border-gray-700">
+          <table className="w-full">
+            <thead className="bg-gray-50 dark:bg-gray-700">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Month
+                </th>
+                {comparison.map((series) => (
+                  <th
+                    key={series.scenarioId || "baseline"}
+                    className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider"
+                  >
+                    {series.name} Ending Balance
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-600 text-sm">
+              {months.map((monthKey, index) => (
+                <tr
+                  key={monthKey}
+                  className={
+                    index % 2 === 0
+                      ? "bg-white dark:bg-gray-800"
+                      : "bg-gray-50 dark:bg-gray-700"
+                  }
+                >
+                  <td className="px-6 py-3 whitespace-nowrap font-medium text-gray-900 dark:text-gray-100">
+                    {formatMonth(monthKey)}
+                  </td>
+                  {comparison.map((series) => {
+                    const month = series.result.monthlyForecasts.find(
+                      (m) => m.month === monthKey
+                    );
+                    return (
+                      <td
+                        key={series.scenarioId || "baseline"}
+                        className={`px-6 py-3 whitespace-nowrap ${
+                          month
+                            ? getBalanceColor(month.endingBalance)
+                            : "text-gray-400"
+                        }`}
+                        title={
+                          month
+                            ? `Income ${formatCurrency(
+                                month.income
+                              )}, Expenses ${formatCurrency(month.expenses)}`
+                            : undefined
+                        }
+                      >
+                        {month ? formatCurrency(month.endingBalance) : "—"}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+"use client";
+
+import React from "react";
+import { Expense } from "@/types";
+import { useCurrency } from "@/context/CurrencyContext";
+import { getSinkingFundStatus } from "@/utils/sinkingFund";
+
+interface SinkingFundStatusLineProps {
+  expense: Expense;
+}
+
+/**
+ * How much a bill's sinking fund holds and whether it will cover the next
+ * bill. Renders nothing for expenses without a sinking fund.
+ */
+export default function SinkingFundStatusLine({
+  expense,
+}: SinkingFundStatusLineProps) {
+  const { formatAmount } = useCurrency();
+  const status = getSinkingFundStatus(expense);
+  if (!status) return null;
+
+  const dueMonth = new Date(
+    `${status.nextDueMonth}-01T00:00:00`
+  ).toLocaleDateString("en-US", { year: "numeric", month: "long" });
+
+  return (
+    <div className="text-sm text-gray-500 dark:text-gray-400">
+      {formatAmount(status.balance, expense.currency)} saved for {dueMonth}
+      {" - "}
+      {status.isFunded ? (
+        <span className="text-green-600 dark:text-green-400">on track</span>
+      ) : (
+        <span className="text-red-600 dark:text-red-400">
+          needs {formatAmount(status.requiredMonthly, expense.currency)} a month
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+"use client";
+
+import React from "react";
+import { HouseholdMember } from "@/types";
+
+interface SplitSharesInputProps {
+  members: HouseholdMember[];
+  /** Percent per member id */
+  shares: Record<string, number>;
+  onChange: (shares: Record<string, number>) => void;
+}
+
+/**
+ * Percentage inputs for a fixed split between household members
+ */
+export default function SplitSharesInput({
+  members,
+  shares,
+  onChange,
+}: SplitSharesInputProps) {
+  const total = members.reduce(
+    (sum, member) => sum + (shares[member.id] || 0),
+    0
+  );
+
+  return (
+    <div className="mt-3 flex flex-wrap items-center gap-4">
+      {members.map((member) => (
+        <label
+          key={member.id}
+          className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300"
+        >
+          {member.name}
+          <input
+            type="number"
+            min="0"
+            max="100"
+            value={shares[member.id] ?? ""}
+            onChange={(e) =>
+              onChange({
+                ...shares,
+                [member.id]: parseFloat(e.target.value) || 0,
+              })
+            }
+            className="w-20 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded dark:bg-gray-700 dark:text-gray-100"
+          />
+          %
+        </label>
+      ))}
+      {total !== 100 && (
+        <span className="text-xs text-yellow-700 dark:text-yellow-300">
+          Adds up to {total}% - shares are scaled to 100%
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,424 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { actions, useFinancialContext } from "@/context";
+import { useCurrency } from "@/context/CurrencyContext";
+import type { SyncAdapter } from "@/context/syncAdapters";
+import {
+  Account,
+  BankImportProfile,
+  CategorizationRule,
+  Category,
+  Debt,
+  ExchangeRate,
+  Expense,
+  Goal,
+  HouseholdMember,
+  Income,
+  Scenario,
+  SyncCollection,
+  Transaction,
+  Transfer,
+} from "@/types";
+import {
+  ConflictResolution,
+  MergeResult,
+  SyncConflict,
+  SyncRecord,
+  SyncSettingsKey,
+  getConflictKey,
+  resolveConflicts,
+} from "@/utils/syncMerge";
+
+const COLLECTION_LABELS: Record<SyncCollection, string> = {
+  income: "Income",
+  expenses: "Expense",
+  goals: "Goal",
+  transactions: "Transaction",
+  accounts: "Account",
+  transfers: "Transfer",
+  debts: "Debt",
+  categories: "Category",
+  categorizationRules: "Categorisation Rule",
+  exchangeRates: "Exchange Rate",
+  scenarios: "Scenario",
+  householdMembers: "Household Member",
+  bankImportProfiles: "Bank Import Profile",
+};
+
+const SETTINGS_LABELS: Record<SyncSettingsKey, string> = {
+  forecastConfig: "Forecast Settings",
+  debtPayoffSettings: "Debt Payoff Settings",
+  inflationSettings: "Inflation Settings",
+  taxSettings: "Tax Settings",
+  budgetSettings: "Budget Settings",
+  cashFlowSettings: "Cash Flow Settings",
+  householdSettings: "Household Settings",
+};
+
+export default function SyncPanel() {
+  const { state, dispatch, isEncrypted } = useFinancialContext();
+  const [syncPassphrase, setSyncPassphrase] = useState("");
+  const { formatCurrency } = useCurrency();
+  const [adapter, setAdapter] = useState<SyncAdapter | null>(null);
+  const [folderSupported, setFolderSupported] = useState(false);
+  const [httpConfig, setHttpConfig] = useState({
+    url: "",
+    username: "",
+    password: "",
+  });
+  const [lastSyncedAt, setLastSyncedAt] = useState<string | null>(null);
+  const [pending, setPending] = useState<MergeResult | null>(null);
+  const [resolutions, setResolutions] = useState<
+    Record<string, ConflictResolution>
+  >({});
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Import sync modules dynamically to avoid SSR issues
+  useEffect(() => {
+    const loadSettings = async () => {
+      const { isFileSystemSyncSupported } = await import(
+        "@/context/syncAdapters"
+      );
+      const { getSyncSettings } = await import("@/context/sync");
+      setFolderSupported(isFileSystemSyncSupported());
+      const { http } = getSyncSettings();
+      if (http) {
+        setHttpConfig((config) => ({
+          ...config,
+          url: http.url,
+          username: http.username || "",
+        }));
+      }
+    };
+    loadSettings();
+  }, []);
+
+  const planId = state.userPlan.id;
+
+  // Sync state is kept per plan - start over when another plan is opened
+  useEffect(() => {
+    if (!adapter) return;
+    const loadLastSyncedAt = async () => {
+      const { getLastSyncedAt } = await import("@/context/sync");
+      setLastSyncedAt(getLastSyncedAt(adapter, planId));
+    };
+    loadLastSyncedAt();
+    setPending(null);
+    setError(null);
+  }, [adapter, planId]);
+
+  const handlePickFolder = async () => {
+    try {
+      const { pickSyncFolder, createFileSystemSyncAdapter } = await import(
+        "@/context/syncAdapters"
+      );
+      setAdapter(createFileSystemSyncAdapter(await pickSyncFolder()));
+    } catch (err) {
+      // Closing the picker is not an error
+      if (err instanceof DOMException && err.name === "AbortError") return;
+      setError(err instanceof Error ? err.message : "Failed to open folder");
+    }
+  };
+
+  const handleConnectUrl = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const { createHttpSyncAdapter } = await import("@/context/syncAdapters");
+    const { saveHttpSyncConfig } = await import("@/context/sync");
+    saveHttpSyncConfig(httpConfig);
+    setAdapter(createHttpSyncAdapter(httpConfig));
+  };
+
+  const handleSync = async () => {
+    if (!adapter) return;
+    setIsSyncing(true);
+    setError(null);
+    try {
+      const { syncUserPlan, getLastSyncedAt } = await import("@/context/sync");
+      const passphrase = syncPassphrase || undefined;
+      let result = await syncUserPlan(adapter, state.userPlan, passphrase);
+      if (result.otherPlanName) {
+        if (
+          !confirm(
+            `${adapter.name} holds the plan "${result.otherPlanName}", not this one. Merge it into this plan?`
+          )
+        ) {
+          return;
+        }
+        result = await syncUserPlan(adapter, state.userPlan, passphrase, true);
+      }
+      dispatch(actions.setUserPlan(result.userPlan));
+
+      if (result.conflicts.length > 0) {
+        setPending(result);
+        setResolutions({});
+      } else {
+        setLastSyncedAt(getLastSyncedAt(adapter, planId));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Sync failed");
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const handleResolve = async () => {
+    if (!adapter || !pending) return;
+    setIsSyncing(true);
+    setError(null);
+    try {
+      const { pushSyncedPlan, getLastSyncedAt } = await import(
+        "@/context/sync"
+      );
+      const userPlan = resolveConflicts(pending, resolutions);
+      await pushSyncedPlan(adapter, userPlan);
+      dispatch(actions.setUserPlan(userPlan));
+      setPending(null);
+      setLastSyncedAt(getLastSyncedAt(adapter, planId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Sync failed");
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const describeConflict = (
+    conflict: SyncConflict,
+    side: "local" | "remote"
+  ) => {
+    if (conflict.collection === "settings") {
+      return "All settings in this group";
+    }
+    return describeRecord(conflict.collection, conflict[side]);
+  };
+
+  const describeRecord = (
+    collection: SyncCollection,
+    record: SyncRecord | null
+  ) => {
+    if (!record) return "Deleted";
+
+    switch (collection) {
+      case "transactions": {
+        const { description, amount } = record as Transaction;
+        return `${description} · ${formatCurrency(amount)}`;
+      }
+      case "accounts":
+      case "debts": {
+        const { name, balance } = record as Account | Debt;
+        return `${name} · ${formatCurrency(balance)}`;
+      }
+      case "categories":
+      case "categorizationRules":
+      case "scenarios":
+      case "householdMembers":
+      case "bankImportProfiles":
+        return (
+          record as
+            | Category
+            | CategorizationRule
+            | Scenario
+            | HouseholdMember
+            | BankImportProfile
+        ).name;
+      case "exchangeRates": {
+        const { from, to, rate, date } = record as ExchangeRate;
+        return `1 ${from} = ${rate} ${to} from ${date}`;
+      }
+      case "goals": {
+        const { name, targetAmount } = record as Goal;
+        return `${name} · ${formatCurrency(targetAmount)}`;
+      }
+      default: {
+        const { name, amount } = record as Income | Expense | Transfer;
+        return `${name} · ${formatCurrency(amount)}`;
+      }
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+      <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+        🔄 Sync Between Devices
+      </h2>
+      <p className="text-gray-600 dark:text-gray-300 mb-4">
+        Merge your plan with a copy kept in a shared folder or on a WebDAV/REST
+        server
+      </p>
+
+      {isEncrypted && (
+        <p className="mb-4 text-sm text-green-700 dark:text-green-300">
+          🔒 The synced copy is encrypted with your passphrase
+        </p>
+      )}
+
+      <div className="grid md:grid-cols-2 gap-4 mb-4">
+        <div>
+          <h3 className="font-medium text-gray-900 dark:text-gray-100 mb-2">
+            Folder
+          </h3>
+          {folderSupported ? (
+            <button
+              onClick={handlePickFolder}
+              className="px-4 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+            >
+              Choose Folder
+            </button>
+          ) : (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              This browser cannot sync through a folder
+            </p>
+          )}
+        </div>
+
+        <form onSubmit={handleConnectUrl} className="space-y-2">
+          <h3 className="font-medium text-gray-900 dark:text-gray-100">
+            WebDAV / REST
+          </h3>
+          <input
+            type="url"
+            required
+            value={httpConfig.url}
+            onChange={(e) =>
+              setHttpConfig({ ...httpConfig, url: e.target.value })
+            }
+            placeholder="https://example.com/dav/finance-planner.json"
+            className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-gray-100"
+          />
+          <div className="flex gap-2">
+            <input
+              value={httpConfig.username}
+              onChange={(e) =>
+                setHttpConfig({ ...httpConfig, username: e.target.value })
+              }
+              placeholder="Username (optional)"
+              className="flex-1 min-w-0 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-gray-100"
+            />
+            <input
+              type="password"
+              value={httpConfig.password}
+              onChange={(e) =>
+                setHttpConfig({ ...httpConfig, password: e.target.value })
+              }
+              placeholder="Password"
+              className="flex-1 min-w-0 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-gray-100"
+            />
+            <button
+              type="submit"
+              className="px-4 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+            >
+              Connect
+            </button>
+          </div>
+        </form>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {adapter && (
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2 p-3 bg-gray-50 dark:bg-gray-700 rounded-md">
+          <div className="text-sm text-gray-700 dark:text-gray-300">
+            Syncing with <span className="font-medium">{adapter.name}</span>
+            {" · "}
+            {lastSyncedAt
+              ? `last synced ${new Date(lastSyncedAt).toLocaleString()}`
+              : "never synced"}
+          </div>
+          <input
+            type="password"
+            value={syncPassphrase}
+            onChange={(e) => setSyncPassphrase(e.target.value)}
+            placeholder="Passphrase of the synced copy (if encrypted)"
+            className="md:w-72 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-gray-100"
+          />
+          <button
+            onClick={handleSync}
+            disabled={isSyncing || !!pending}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            {isSyncing ? "Syncing..." : "Sync Now"}
+          </button>
+        </div>
+      )}
+
+      {pending && (
+        <div className="mt-4">
+          <h3 className="font-medium text-gray-900 dark:text-gray-100 mb-1">
+            {pending.conflicts.length} conflicting change
+            {pending.conflicts.length === 1 ? "" : "s"}
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+            These records changed on both devices. Choose which version to keep.
+          </p>
+
+          <div className="divide-y divide-gray-200 dark:divide-gray-700">
+            {pending.conflicts.map((conflict) => {
+              const key = getConflictKey(conflict);
+              const choice = resolutions[key] || "local";
+              return (
+                <div key={key} className="py-3">
+                  <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">
+                    {conflict.collection === "settings"
+                      ? SETTINGS_LABELS[conflict.id]
+                      : COLLECTION_LABELS[conflict.collection]}
+                  </div>
+                  <div className="grid md:grid-cols-2 gap-2">
+                    {(["local", "remote"] as const).map((side) => (
+                      <label
+                        key={side}
+                        className={`flex items-start gap-2 p-2 border rounded-md cursor-pointer ${
+                          choice === side
+                            ? "border-blue-500 bg-blue-50 dark:bg-blue-900/20"
+                            : "border-gray-200 dark:border-gray-600"
+                        }`}
+                      >
+                        <input
+                          type="radio"
+                          name={key}
+                          checked={choice === side}
+                          onChange={() =>
+                            setResolutions({ ...resolutions, [key]: side })
+                          }
+                          className="mt-1"
+                        />
+                        <span className="text-sm">
+                          <span className="block font-medium text-gray-900 dark:text-gray-100">
+                            {side === "local" ? "This device" : "Other device"}
+                          </span>
+                          <span className="text-gray-600 dark:text-gray-300">
+                            {describeConflict(conflict, side)}
+                          </span>
+                          {conflict[side]?.updatedAt && (
+                            <span className="block text-xs text-gray-500 dark:text-gray-400">
+                              Edited{" "}
+                              {new Date(
+                                conflict[side]!.updatedAt!
+                              ).toLocaleString()}
+                            </span>
+                          )}
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          <button
+            onClick={handleResolve}
+            disabled={isSyncing}
+            className="mt-3 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            Keep Selected Versions
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
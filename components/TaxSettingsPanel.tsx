@@ -0,0 +1,120 @@
+"use client";
+
+import React from "react";
+import { useFinancialContext } from "@/context";
+import { useCurrency } from "@/context/CurrencyContext";
+import {
+  convertPlanToBaseCurrency,
+  getBaseCurrency,
+} from "@/utils/exchangeRates";
+import {
+  estimateAnnualTax,
+  getTaxCurrencyRate,
+  getTaxRuleSet,
+  getTaxRuleSets,
+} from "@/utils/tax";
+
+export default function TaxSettingsPanel() {
+  const { state, updateTaxSettings } = useFinancialContext();
+  const { formatCurrency } = useCurrency();
+
+  const ruleSetId = state.userPlan.taxSettings?.ruleSetId || "";
+  const estimate = estimateAnnualTax(convertPlanToBaseCurrency(state.userPlan));
+  const ruleSet = getTaxRuleSet(ruleSetId);
+  const baseCurrency = getBaseCurrency(state.userPlan);
+  const isMissingRate =
+    !!ruleSet && getTaxCurrencyRate(state.userPlan, ruleSet) === null;
+  const grossCount = state.userPlan.income.filter(
+    (income) => income.isActive && income.isGross
+  ).length;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+            Income Tax
+          </h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Gross income sources are reduced to take-home pay in the forecast
+          </p>
+        </div>
+        <select
+          value={ruleSetId}
+          onChange={(e) => updateTaxSettings({ ruleSetId: e.target.value })}
+          className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-gray-100"
+        >
+          <option value="">No tax rules</option>
+          {getTaxRuleSets().map((ruleSet) => (
+            <option key={ruleSet.id} value={ruleSet.id}>
+              {ruleSet.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {ruleSet && isMissingRate && (
+        <p className="mt-4 text-sm text-yellow-700 dark:text-yellow-300">
+          ⚠️ The {ruleSet.name} thresholds are in {ruleSet.currency}. Add an
+          exchange rate from {baseCurrency} to {ruleSet.currency} - until then
+          they are applied to amounts in {baseCurrency}.
+        </p>
+      )}
+
+      {estimate && grossCount === 0 && (
+        <p className="mt-4 text-sm text-gray-500 dark:text-gray-400">
+          💡 Mark income sources as gross to estimate the tax on them
+        </p>
+      )}
+
+      {estimate && grossCount > 0 && (
+        <div className="mt-4 grid grid-cols-2 md:grid-cols-5 gap-4">
+          <div>
+            <div className="text-sm text-gray-500 dark:text-gray-400">
+              Gross Income
+            </div>
+            <div className="text-lg font-medium text-gray-900 dark:text-gray-100">
+              {formatCurrency(estimate.grossIncome)}
+            </div>
+          </div>
+          <div>
+            <div className="text-sm text-gray-500 dark:text-gray-400">
+              Deductions
+            </div>
+            <div className="text-lg font-medium text-gray-900 dark:text-gray-100">
+              {formatCurrency(estimate.deductions)}
+            </div>
+          </div>
+          <div>
+            <div className="text-sm text-gray-500 dark:text-gray-400">
+              Income Tax
+            </div>
+            <div className="text-lg font-medium text-red-600 dark:text-red-400">
+              {formatCurrency(estimate.incomeTax)}
+            </div>
+          </div>
+          <div>
+            <div className="text-sm text-gray-500 dark:text-gray-400">
+              Contributions
+            </div>
+            <div className="text-lg font-medium text-red-600 dark:text-red-400">
+              {formatCurrency(estimate.contributions)}
+            </div>
+          </div>
+          <div>
+            <div className="text-sm text-gray-500 dark:text-gray-400">
+              Take-Home Pay
+            </div>
+            <div className="text-lg font-medium text-green-600 dark:text-green-400">
+              {formatCurrency(estimate.netIncome)}
+            </div>
+            <div className="text-xs text-gray-500 dark:text-gray-400">
+              {estimate.effectiveRate.toFixed(1)}% effective,{" "}
+              {estimate.marginalRate}% marginal
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
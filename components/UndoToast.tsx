@@ -0,0 +1,54 @@
+"use client";
+
+import React, { useEffect } from "react";
+import { useFinancialContext } from "@/context";
+
+const TOAST_DURATION_MS = 8000;
+
+interface UndoToastProps {
+  /** Message for the change that can be undone; hidden when null */
+  message: string | null;
+  onDismiss: () => void;
+}
+
+/**
+ * Toast offering to undo the last change, e.g. after deleting a record
+ */
+export default function UndoToast({ message, onDismiss }: UndoToastProps) {
+  const { undo, canUndo } = useFinancialContext();
+
+  useEffect(() => {
+    if (!message) return;
+    const timeoutId = setTimeout(onDismiss, TOAST_DURATION_MS);
+    return () => clearTimeout(timeoutId);
+  }, [message, onDismiss]);
+
+  if (!message) return null;
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 px-4 py-3 bg-gray-900 dark:bg-gray-700 text-white rounded-lg shadow-lg"
+    >
+      <span className="text-sm">{message}</span>
+      {canUndo && (
+        <button
+          onClick={() => {
+            undo();
+            onDismiss();
+          }}
+          className="text-sm font-semibold text-blue-300 hover:text-blue-200"
+        >
+          Undo
+        </button>
+      )}
+      <button
+        onClick={onDismiss}
+        aria-label="Dismiss"
+        className="text-gray-400 hover:text-gray-200"
+      >
+        ✕
+      </button>
+    </div>
+  );
+}
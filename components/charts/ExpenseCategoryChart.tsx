@@ -16,8 +16,15 @@ import {
   ResponsiveContainer,
   Treemap,
 } from "recharts";
-import { UserPlan, ExpenseCategory, Frequency } from "@/types";
+import { UserPlan, ExpenseCategoryId, Frequency } from "@/types";
 import { useCurrency } from "@/context/CurrencyContext";
+import {
+  getCategories,
+  getCategoryColor,
+  getCategoryIcon,
+  getCategoryName,
+  getRootCategoryId,
+} from "@/utils/categories";
 
 interface ExpenseCategoryChartProps {
   userPlan: UserPlan;
@@ -25,13 +32,16 @@ interface ExpenseCategoryChartProps {
 }
 
 interface CategoryData {
-  category: ExpenseCategory;
+  /** Top-level category - sub-categories are counted in it */
+  category: ExpenseCategoryId;
   amount: number;
   percentage: number;
   count: number;
   expenses: Array<{
     id: string;
     name: string;
+    /** Sub-category name when the expense is in one */
+    subcategory?: string;
     amount: number;
     frequency: Frequency;
     monthlyAmount: number;
@@ -39,42 +49,6 @@ interface CategoryData {
   color: string;
 }
 
-const CATEGORY_COLORS = {
-  [ExpenseCategory.HOUSING]: "#EF4444",
-  [ExpenseCategory.TRANSPORTATION]: "#F97316",
-  [ExpenseCategory.FOOD]: "#EAB308",
-  [ExpenseCategory.UTILITIES]: "#22C55E",
-  [ExpenseCategory.INSURANCE]: "#06B6D4",
-  [ExpenseCategory.HEALTHCARE]: "#3B82F6",
-  [ExpenseCategory.ENTERTAINMENT]: "#8B5CF6",
-  [ExpenseCategory.PERSONAL_CARE]: "#EC4899",
-  [ExpenseCategory.EDUCATION]: "#14B8A6",
-  [ExpenseCategory.DEBT_PAYMENTS]: "#F59E0B",
-  [ExpenseCategory.SAVINGS]: "#10B981",
-  [ExpenseCategory.TRAVEL]: "#84CC16",
-  [ExpenseCategory.SHOPPING]: "#F472B6",
-  [ExpenseCategory.KIDS]: "#A78BFA",
-  [ExpenseCategory.MISCELLANEOUS]: "#6B7280",
-};
-
-const CATEGORY_ICONS = {
-  [ExpenseCategory.HOUSING]: "🏠",
-  [ExpenseCategory.TRANSPORTATION]: "🚗",
-  [ExpenseCategory.FOOD]: "🍽️",
-  [ExpenseCategory.UTILITIES]: "💡",
-  [ExpenseCategory.INSURANCE]: "🛡️",
-  [ExpenseCategory.HEALTHCARE]: "🏥",
-  [ExpenseCategory.ENTERTAINMENT]: "🎬",
-  [ExpenseCategory.PERSONAL_CARE]: "💅",
-  [ExpenseCategory.EDUCATION]: "📚",
-  [ExpenseCategory.DEBT_PAYMENTS]: "💳",
-  [ExpenseCategory.SAVINGS]: "💰",
-  [ExpenseCategory.TRAVEL]: "✈️",
-  [ExpenseCategory.SHOPPING]: "🛍️",
-  [ExpenseCategory.KIDS]: "👶",
-  [ExpenseCategory.MISCELLANEOUS]: "📦",
-};
-
 export default function ExpenseCategoryChart({
   userPlan,
   className = "",
@@ -84,7 +58,7 @@ export default function ExpenseCategoryChart({
     "donut"
   );
   const [selectedCategory, setSelectedCategory] =
-    useState<ExpenseCategory | null>(null);
+    useState<ExpenseCategoryId | null>(null);
   const [showInactive, setShowInactive] = useState(false);
 
   // Calculate monthly amount based on frequency
@@ -109,7 +83,9 @@ export default function ExpenseCategoryChart({
     }
   };
 
-  // Process expense data by category
+  const categories = useMemo(() => getCategories(userPlan), [userPlan]);
+
+  // Process expense data by top-level category
   const categoryData = useMemo(() => {
     if (!userPlan?.expenses) return [];
 
@@ -117,31 +93,36 @@ export default function ExpenseCategoryChart({
       ? userPlan.expenses
       : userPlan.expenses.filter((expense) => expense.isActive);
 
-    const categoryMap = new Map<ExpenseCategory, CategoryData>();
+    const categoryMap = new Map<ExpenseCategoryId, CategoryData>();
 
     expenses.forEach((expense) => {
       const monthlyAmount = calculateMonthlyAmount(
         expense.amount,
         expense.frequency || Frequency.MONTHLY
       );
+      const rootId = getRootCategoryId(categories, expense.category);
 
-      if (!categoryMap.has(expense.category)) {
-        categoryMap.set(expense.category, {
-          category: expense.category,
+      if (!categoryMap.has(rootId)) {
+        categoryMap.set(rootId, {
+          category: rootId,
           amount: 0,
           percentage: 0,
           count: 0,
           expenses: [],
-          color: CATEGORY_COLORS[expense.category],
+          color: getCategoryColor(categories, rootId),
         });
       }
 
-      const categoryData = categoryMap.get(expense.category)!;
+      const categoryData = categoryMap.get(rootId)!;
       categoryData.amount += monthlyAmount;
       categoryData.count += 1;
       categoryData.expenses.push({
         id: expense.id,
         name: expense.name,
+        subcategory:
+          expense.category !== rootId
+            ? getCategoryName(categories, expense.category)
+            : undefined,
         amount: expense.amount,
         frequency: expense.frequency || Frequency.MONTHLY,
         monthlyAmount,
@@ -162,14 +143,10 @@ export default function ExpenseCategoryChart({
       .sort((a, b) => b.amount - a.amount);
 
     return result;
-  }, [userPlan, showInactive]);
+  }, [userPlan, categories, showInactive]);
 
-  const formatCategoryName = (category: ExpenseCategory) => {
-    return (
-      category.charAt(0).toUpperCase() +
-      category.slice(1).toLowerCase().replace("_", " ")
-    );
-  };
+  const formatCategoryName = (category: ExpenseCategoryId) =>
+    getCategoryName(categories, category);
 
   const CustomTooltip = ({
     active,
@@ -481,7 +458,7 @@ export default function ExpenseCategoryChart({
                     <div className="flex items-center justify-between mb-1">
                       <div className="flex items-center gap-2">
                         <span className="text-lg">
-                          {CATEGORY_ICONS[cat.category]}
+                          {getCategoryIcon(categories, cat.category)}
                         </span>
                         <span
                           className="w-3 h-3 rounded-full"
@@ -514,7 +491,7 @@ export default function ExpenseCategoryChart({
             <div className="mt-6 pt-6 border-t border-gray-200 dark:border-gray-700">
               <div className="flex items-center gap-2 mb-4">
                 <span className="text-2xl">
-                  {CATEGORY_ICONS[selectedCategory]}
+                  {getCategoryIcon(categories, selectedCategory)}
                 </span>
                 <h4 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
                   {formatCategoryName(selectedCategory)} Details
@@ -532,6 +509,11 @@ export default function ExpenseCategoryChart({
                       <div className="flex justify-between items-start mb-2">
                         <h5 className="font-medium text-gray-900 dark:text-gray-100 text-sm">
                           {expense.name}
+                          {expense.subcategory && (
+                            <span className="block text-xs font-normal text-gray-500 dark:text-gray-400">
+                              {expense.subcategory}
+                            </span>
+                          )}
                         </h5>
                         <span className="text-xs bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200 px-2 py-1 rounded">
                           {expense.frequency}
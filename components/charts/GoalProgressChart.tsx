@@ -39,6 +39,10 @@ interface GoalProgressData {
   goalType: GoalType;
   monthsUntilTarget: number;
   averageMonthlyAllocation: number;
+  projectedAmount: number;
+  contributedAmount: number;
+  growthAmount: number;
+  expectedAnnualReturn: number;
 }
 
 const COLORS = {
@@ -46,6 +50,8 @@ const COLORS = {
   behindSchedule: "#EF4444",
   completed: "#10B981",
   openEnded: "#8B5CF6",
+  contributed: "#3B82F6",
+  growth: "#10B981",
 };
 
 const PRIORITY_COLORS = {
@@ -60,7 +66,7 @@ export default function GoalProgressChart({
   className = "",
 }: GoalProgressChartProps) {
   const [viewMode, setViewMode] = useState<
-    "progress" | "timeline" | "allocation"
+    "progress" | "timeline" | "allocation" | "growth"
   >("progress");
   const [selectedGoal, setSelectedGoal] = useState<string | null>(null);
   const [showOnlyActive, setShowOnlyActive] = useState(true);
@@ -112,6 +118,11 @@ export default function GoalProgressChart({
         goalType: goal.goalType,
         monthsUntilTarget,
         averageMonthlyAllocation: goalProgress?.averageMonthlyAllocation || 0,
+        projectedAmount: goalProgress?.projectedAmount ?? goal.currentAmount,
+        contributedAmount:
+          goalProgress?.contributedAmount ?? goal.currentAmount,
+        growthAmount: goalProgress?.growthAmount || 0,
+        expectedAnnualReturn: goal.expectedAnnualReturn || 0,
       };
     });
   }, [userPlan, showOnlyActive]);
@@ -281,6 +292,18 @@ export default function GoalProgressChart({
                 </span>
                 <span className="font-medium">{goal.monthsUntilTarget}</span>
               </div>
+              {goal.expectedAnnualReturn !== 0 && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600 dark:text-gray-400">
+                    In 12 Months:
+                  </span>
+                  <span className="font-medium">
+                    {formatCurrency(goal.contributedAmount)} contributed +{" "}
+                    {formatCurrency(goal.growthAmount)} growth (
+                    {goal.expectedAnnualReturn}%/yr)
+                  </span>
+                </div>
+              )}
               {goal.estimatedCompletionMonth && (
                 <div className="flex justify-between">
                   <span className="text-gray-600 dark:text-gray-400">
@@ -328,6 +351,48 @@ export default function GoalProgressChart({
     </div>
   );
 
+  const GrowthView = () => (
+    <div className="h-80">
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart
+          data={goalData}
+          margin={{ top: 20, right: 30, left: 20, bottom: 60 }}
+        >
+          <CartesianGrid strokeDasharray="3 3" opacity={0.3} />
+          <XAxis
+            dataKey="name"
+            angle={-45}
+            textAnchor="end"
+            height={80}
+            tick={{ fontSize: 12 }}
+          />
+          <YAxis
+            tickFormatter={(value) => formatCurrency(value)}
+            tick={{ fontSize: 12 }}
+            width={90}
+          />
+          <Tooltip
+            formatter={(value, name) => [formatCurrency(value as number), name]}
+          />
+          <Legend />
+          <Bar
+            dataKey="contributedAmount"
+            name="Contributed"
+            stackId="projected"
+            fill={COLORS.contributed}
+          />
+          <Bar
+            dataKey="growthAmount"
+            name="Investment Growth"
+            stackId="projected"
+            fill={COLORS.growth}
+            radius={[4, 4, 0, 0]}
+          />
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+
   const AllocationView = () => {
     const pieData = goalData
       .filter((goal) => goal.averageMonthlyAllocation > 0)
@@ -429,6 +494,16 @@ export default function GoalProgressChart({
             >
               🥧 Allocation
             </button>
+            <button
+              onClick={() => setViewMode("growth")}
+              className={`px-3 py-1 rounded text-sm font-medium transition-colors ${
+                viewMode === "growth"
+                  ? "bg-white dark:bg-gray-600 text-gray-900 dark:text-gray-100 shadow-sm"
+                  : "text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100"
+              }`}
+            >
+              📈 Growth
+            </button>
           </div>
         </div>
       </div>
@@ -438,6 +513,7 @@ export default function GoalProgressChart({
           {viewMode === "progress" && <ProgressBarView />}
           {viewMode === "timeline" && <TimelineView />}
           {viewMode === "allocation" && <AllocationView />}
+          {viewMode === "growth" && <GrowthView />}
 
           {/* Summary Stats */}
           <div className="mt-6 grid grid-cols-1 md:grid-cols-4 gap-4 pt-4 border-t border-gray-200 dark:border-gray-700">
@@ -2,7 +2,8 @@
 
 import React, { useState, useMemo } from "react";
 import {
-  LineChart,
+  ComposedChart,
+  Area,
   Line,
   XAxis,
   YAxis,
@@ -15,6 +16,7 @@ import {
 import { UserPlan } from "@/types";
 import { useCurrency } from "@/context/CurrencyContext";
 import { generateForecast } from "@/utils/forecastCalculator";
+import { useMonteCarloForecast } from "@/hooks/useMonteCarloForecast";
 
 interface IncomeVsExpensesChartProps {
   userPlan: UserPlan;
@@ -29,6 +31,9 @@ interface ChartDataPoint {
   netIncome: number;
   surplus: number;
   deficit: number;
+  /** P10-P90 range when confidence bands are shown */
+  incomeRange?: [number, number];
+  expensesRange?: [number, number];
 }
 
 export default function IncomeVsExpensesChart({
@@ -38,6 +43,7 @@ export default function IncomeVsExpensesChart({
   const [selectedPeriod, setSelectedPeriod] = useState<"6" | "12" | "24">("12");
   const [showProjection, setShowProjection] = useState(true);
   const [focusedLine, setFocusedLine] = useState<string | null>(null);
+  const [showBands, setShowBands] = useState(false);
   const { formatCurrency } = useCurrency();
 
   // Helper function to format month
@@ -49,10 +55,8 @@ export default function IncomeVsExpensesChart({
     });
   };
 
-  // Generate forecast data for the chart
-  const chartData = useMemo(() => {
-    if (!userPlan) return [];
-
+  // Forecast settings for the selected period
+  const utilsConfig = useMemo(() => {
     const forecastConfig = userPlan.forecastConfig || {
       startingBalance: userPlan.currentBalance || 0,
       startDate: new Date().toISOString().slice(0, 7),
@@ -62,7 +66,7 @@ export default function IncomeVsExpensesChart({
       updatedAt: new Date().toISOString(),
     };
 
-    const utilsConfig = {
+    return {
       months: parseInt(selectedPeriod),
       startingBalance: forecastConfig.startingBalance,
       startDate: forecastConfig.startDate
@@ -70,23 +74,43 @@ export default function IncomeVsExpensesChart({
         : new Date(),
       includeGoalContributions: forecastConfig.includeGoalContributions,
       conservativeMode: forecastConfig.conservativeMode,
+      todaysMoney: forecastConfig.showTodaysMoney,
     };
+  }, [userPlan, selectedPeriod]);
+
+  const monteCarlo = useMonteCarloForecast(
+    userPlan,
+    utilsConfig,
+    undefined,
+    showBands
+  );
+  const bands = showBands ? monteCarlo.result : null;
+
+  // Generate forecast data for the chart
+  const chartData = useMemo(() => {
+    if (!userPlan) return [];
 
     const forecastResult = generateForecast(userPlan, utilsConfig);
 
-    return forecastResult.monthlyForecasts.map((forecast): ChartDataPoint => {
-      const netIncome = forecast.income - forecast.expenses;
-      return {
-        month: forecast.month,
-        monthLabel: formatMonth(forecast.month),
-        income: forecast.income,
-        expenses: forecast.expenses,
-        netIncome,
-        surplus: netIncome > 0 ? netIncome : 0,
-        deficit: netIncome < 0 ? Math.abs(netIncome) : 0,
-      };
-    });
-  }, [userPlan, selectedPeriod]);
+    return forecastResult.monthlyForecasts.map(
+      (forecast, index): ChartDataPoint => {
+        const netIncome = forecast.income - forecast.expenses;
+        const incomeBand = bands?.income[index];
+        const expensesBand = bands?.expenses[index];
+        return {
+          month: forecast.month,
+          monthLabel: formatMonth(forecast.month),
+          income: forecast.income,
+          expenses: forecast.expenses,
+          netIncome,
+          surplus: netIncome > 0 ? netIncome : 0,
+          deficit: netIncome < 0 ? Math.abs(netIncome) : 0,
+          incomeRange: incomeBand && [incomeBand.p10, incomeBand.p90],
+          expensesRange: expensesBand && [expensesBand.p10, expensesBand.p90],
+        };
+      }
+    );
+  }, [userPlan, utilsConfig, bands]);
 
   const CustomTooltip = ({
     active,
@@ -120,6 +144,14 @@ export default function IncomeVsExpensesChart({
                 {formatCurrency(data.expenses)}
               </span>
             </div>
+            {data.incomeRange && data.expensesRange && (
+              <div className="text-xs text-gray-500 dark:text-gray-400">
+                P10–P90: income {formatCurrency(data.incomeRange[0])}–
+                {formatCurrency(data.incomeRange[1])}, expenses{" "}
+                {formatCurrency(data.expensesRange[0])}–
+                {formatCurrency(data.expensesRange[1])}
+              </div>
+            )}
             <div className="border-t border-gray-200 dark:border-gray-600 pt-1">
               <div className="flex justify-between items-center">
                 <span className="text-gray-700 dark:text-gray-300">
@@ -217,12 +249,30 @@ export default function IncomeVsExpensesChart({
               Show Projection
             </label>
           </div>
+
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              id="showBands"
+              checked={showBands}
+              onChange={(e) => setShowBands(e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <label
+              htmlFor="showBands"
+              className="text-sm text-gray-600 dark:text-gray-400"
+            >
+              {showBands && monteCarlo.isRunning
+                ? `Simulating ${Math.round(monteCarlo.progress * 100)}%`
+                : "Confidence Bands"}
+            </label>
+          </div>
         </div>
       </div>
 
       <div className="h-80">
         <ResponsiveContainer width="100%" height="100%">
-          <LineChart
+          <ComposedChart
             data={chartData}
             margin={{
               top: 5,
@@ -251,6 +301,30 @@ export default function IncomeVsExpensesChart({
             {/* Zero reference line */}
             <ReferenceLine y={0} stroke="#666" strokeDasharray="2 2" />
 
+            {/* Monte Carlo P10-P90 bands */}
+            {bands && (
+              <Area
+                type="monotone"
+                dataKey="incomeRange"
+                stroke="none"
+                fill="#10B981"
+                fillOpacity={0.15}
+                name="Income P10–P90"
+                legendType="none"
+              />
+            )}
+            {bands && (
+              <Area
+                type="monotone"
+                dataKey="expensesRange"
+                stroke="none"
+                fill="#EF4444"
+                fillOpacity={0.15}
+                name="Expenses P10–P90"
+                legendType="none"
+              />
+            )}
+
             {/* Income line */}
             <Line
               type="monotone"
@@ -287,7 +361,7 @@ export default function IncomeVsExpensesChart({
               activeDot={{ r: 6, fill: "#3B82F6" }}
               strokeDasharray="5 5"
             />
-          </LineChart>
+          </ComposedChart>
         </ResponsiveContainer>
       </div>
 
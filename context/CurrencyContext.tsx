@@ -30,6 +30,7 @@ interface CurrencyContextType {
   currency: CurrencyCode;
   setCurrency: (currency: CurrencyCode) => void;
   formatCurrency: (amount: number, compact?: boolean) => string;
+  formatAmount: (amount: number, currencyCode?: string) => string;
   formatNumber: (amount: number) => string;
   parseCurrency: (currencyString: string) => number;
   getCurrencyInfo: () => Currency;
@@ -89,6 +90,22 @@ export function CurrencyProvider({ children }: { children: React.ReactNode }) {
     }).format(amount);
   };
 
+  // Format an amount kept in its own currency, e.g. a foreign-currency expense
+  const formatAmount = (amount: number, currencyCode?: string): string => {
+    if (!currencyCode || currencyCode === currency) {
+      return formatCurrency(amount);
+    }
+
+    const currencyInfo =
+      SUPPORTED_CURRENCIES[currencyCode as CurrencyCode] || getCurrencyInfo();
+    return new Intl.NumberFormat(currencyInfo.locale, {
+      style: "currency",
+      currency: currencyCode,
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 2,
+    }).format(amount);
+  };
+
   const formatNumber = (amount: number): string => {
     const currencyInfo = getCurrencyInfo();
     return new Intl.NumberFormat(currencyInfo.locale, {
@@ -112,6 +129,7 @@ export function CurrencyProvider({ children }: { children: React.ReactNode }) {
     currency,
     setCurrency,
     formatCurrency,
+    formatAmount,
     formatNumber,
     parseCurrency,
     getCurrencyInfo,
@@ -13,6 +13,9 @@ import React, {
   useReducer,
   useCallback,
   useEffect,
+  useMemo,
+  useRef,
+  useState,
 } from "react";
 import {
   FinancialState,
@@ -21,8 +24,25 @@ import {
   ErrorState,
 } from "./types";
 import { enhancedFinancialReducer } from "./reducer";
-import { createFreshInitialState, mergeWithInitialState } from "./initialState";
+import { createUndoableState, withUndoHistory } from "./history";
+import {
+  DEFAULT_PLAN_NAME,
+  initialForecastConfig,
+  createFreshInitialState,
+  mergeWithInitialState,
+} from "./initialState";
 import * as actions from "./actions";
+import { useUndoShortcuts } from "../hooks/useUndoShortcuts";
+import {
+  CurrencyCode,
+  SUPPORTED_CURRENCIES,
+  useCurrency,
+} from "./CurrencyContext";
+import {
+  LanguageCode,
+  SUPPORTED_LANGUAGES,
+  useLanguage,
+} from "./LanguageContext";
 import {
   CreateIncomeInput,
   CreateExpenseInput,
@@ -34,12 +54,54 @@ import {
   Expense,
   Goal,
   ForecastConfig,
+  Scenario,
+  CreateScenarioInput,
+  UpdateScenarioInput,
+  Transaction,
+  CreateTransactionInput,
+  UpdateTransactionInput,
+  BankImportProfile,
+  CreateBankImportProfileInput,
+  UpdateBankImportProfileInput,
+  CategorizationRule,
+  CreateCategorizationRuleInput,
+  UpdateCategorizationRuleInput,
+  Account,
+  CreateAccountInput,
+  UpdateAccountInput,
+  Transfer,
+  CreateTransferInput,
+  UpdateTransferInput,
+  Debt,
+  DebtPayoffSettings,
+  InflationSettings,
+  TaxSettings,
+  BudgetSettings,
+  CashFlowSettings,
+  Category,
+  CreateCategoryInput,
+  UpdateCategoryInput,
+  CreateDebtInput,
+  UpdateDebtInput,
+  HouseholdMember,
+  HouseholdSettings,
+  CreateHouseholdMemberInput,
+  UpdateHouseholdMemberInput,
+  ExchangeRate,
+  CreateExchangeRateInput,
+  UpdateExchangeRateInput,
+  PlanPreferences,
+  PlanSummary,
+  UserPlan,
 } from "../types";
+import { getCategories, getDescendantIds } from "../utils/categories";
 
 // =============================================================================
 // CONTEXT CREATION
 // =============================================================================
 
+const undoableFinancialReducer = withUndoHistory(enhancedFinancialReducer);
+
 /**
  * Financial Context - provides access to financial state and actions
  */
@@ -63,6 +125,19 @@ export function useFinancialContext(): FinancialContextValue {
   return context;
 }
 
+/**
+ * Whether a plan holds anything worth saving - the default plan is only
+ * saved once data has been added to it
+ */
+function hasPlanData(userPlan: UserPlan): boolean {
+  return (
+    userPlan.id !== "default-plan" ||
+    userPlan.income.length > 0 ||
+    userPlan.expenses.length > 0 ||
+    userPlan.goals.length > 0
+  );
+}
+
 /**
  * Financial Provider Component
  *
@@ -74,12 +149,21 @@ export function FinancialProvider({
   initialState,
 }: FinancialProviderProps) {
   // Initialize state with provided initial state or fresh state
-  const [state, dispatch] = useReducer(
-    enhancedFinancialReducer,
+  const [history, dispatch] = useReducer(
+    undoableFinancialReducer,
     initialState
       ? mergeWithInitialState(initialState)
-      : createFreshInitialState()
+      : createFreshInitialState(),
+    createUndoableState
   );
+  const state = history.present;
+  const [isLocked, setIsLocked] = useState(false);
+  const [isEncrypted, setIsEncrypted] = useState(false);
+  /** Plans other than the open one */
+  const [storedPlans, setStoredPlans] = useState<PlanSummary[]>([]);
+  const { currency, setCurrency } = useCurrency();
+  const { language, setLanguage } = useLanguage();
+  const preferencesAppliedTo = useRef<string | null>(null);
 
   // Auto-load user plan on mount (for any page)
   useEffect(() => {
@@ -96,8 +180,23 @@ export function FinancialProvider({
           dispatch(actions.clearError("generalError"));
 
           // Import storage function dynamically to avoid SSR issues
-          const { loadUserPlan: loadFromStorage } = await import("./storage");
+          const {
+            loadUserPlan: loadFromStorage,
+            listStoredPlans,
+            isEncryptionEnabled,
+            isStorageLocked,
+          } = await import("./storage");
+
+          // Encrypted data waits for the passphrase on the lock screen
+          setIsEncrypted(isEncryptionEnabled());
+          if (isStorageLocked()) {
+            setIsLocked(true);
+            dispatch(actions.setLoading(false));
+            return;
+          }
+
           const loadedPlan = await loadFromStorage();
+          setStoredPlans(await listStoredPlans());
 
           if (loadedPlan) {
             dispatch(actions.loadSuccess(loadedPlan));
@@ -115,23 +214,50 @@ export function FinancialProvider({
     }
   }, []); // Empty dependency array - only run on mount
 
+  // Show each plan in its own currency and language once it is open
+  useEffect(() => {
+    if (
+      state.loading.isLoading ||
+      preferencesAppliedTo.current === state.userPlan.id
+    ) {
+      return;
+    }
+    preferencesAppliedTo.current = state.userPlan.id;
+
+    const { currency: planCurrency, language: planLanguage } =
+      state.userPlan.preferences || {};
+    if (planCurrency && planCurrency in SUPPORTED_CURRENCIES) {
+      setCurrency(planCurrency as CurrencyCode);
+    } else if (!planCurrency) {
+      // Plans from before per-plan currencies take the one on screen as
+      // their base currency
+      dispatch(actions.updatePlanPreferences({ currency }));
+    }
+    if (planLanguage && planLanguage in SUPPORTED_LANGUAGES) {
+      setLanguage(planLanguage as LanguageCode);
+    }
+  }, [
+    state.userPlan.id,
+    state.userPlan.preferences,
+    state.loading.isLoading,
+    currency,
+    setCurrency,
+    setLanguage,
+  ]);
+
   // Auto-save user plan when data changes
   useEffect(() => {
     // Only auto-save if:
     // 1. We have real data (not default empty state) OR we have default plan with actual data
     // 2. We're not currently loading
     // 3. We have unsaved changes
-    const hasRealData =
-      state.userPlan.id !== "default-plan" ||
-      state.userPlan.income.length > 0 ||
-      state.userPlan.expenses.length > 0 ||
-      state.userPlan.goals.length > 0;
-
+    // 4. Storage is not locked
     if (
-      hasRealData &&
+      hasPlanData(state.userPlan) &&
       !state.loading.isLoading &&
       !state.loading.isSaving &&
-      state.hasUnsavedChanges
+      state.hasUnsavedChanges &&
+      !isLocked
     ) {
       const saveData = async () => {
         try {
@@ -159,6 +285,7 @@ export function FinancialProvider({
     state.hasUnsavedChanges,
     state.loading.isLoading,
     state.loading.isSaving,
+    isLocked,
   ]);
 
   // Helper function to generate unique IDs
@@ -404,114 +531,1441 @@ export function FinancialProvider({
   }, []);
 
   // =============================================================================
-  // UTILITY FUNCTIONS
+  // CONVENIENCE FUNCTIONS FOR SCENARIOS
   // =============================================================================
 
-  const regenerateForecast = useCallback(async (): Promise<void> => {
-    try {
-      dispatch(actions.setLoadingForecast(true));
-      dispatch(actions.clearError("forecastError"));
+  const addScenario = useCallback(
+    async (scenarioInput: CreateScenarioInput): Promise<void> => {
+      try {
+        dispatch(actions.clearError("forecastError"));
 
-      dispatch(actions.regenerateForecast());
-    } catch (error) {
-      const errorMessage =
-        error instanceof Error
-          ? error.message
-          : "Failed to regenerate forecast";
-      dispatch(actions.setForecastError(errorMessage));
-      throw error;
-    } finally {
-      dispatch(actions.setLoadingForecast(false));
-    }
-  }, []);
+        const newScenario: Scenario = {
+          id: generateId("scenario"),
+          ...scenarioInput,
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+        };
 
-  const updateCurrentBalance = useCallback(
-    async (balance: number): Promise<void> => {
+        dispatch(actions.addScenario(newScenario));
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to add scenario";
+        dispatch(actions.setForecastError(errorMessage));
+        throw error;
+      }
+    },
+    [generateId]
+  );
+
+  const updateScenario = useCallback(
+    async (scenarioInput: UpdateScenarioInput): Promise<void> => {
       try {
-        dispatch(actions.setSaving(true));
-        dispatch(actions.clearError("generalError"));
+        dispatch(actions.clearError("forecastError"));
 
-        dispatch(actions.updateCurrentBalance(balance));
+        const existingScenario = (state.userPlan.scenarios || []).find(
+          (scenario) => scenario.id === scenarioInput.id
+        );
+        if (!existingScenario) {
+          throw new Error("Scenario not found");
+        }
+
+        const updatedScenario: Scenario = {
+          ...existingScenario,
+          ...scenarioInput,
+          updatedAt: new Date().toISOString(),
+        };
+
+        dispatch(actions.updateScenario(updatedScenario));
       } catch (error) {
         const errorMessage =
-          error instanceof Error ? error.message : "Failed to update balance";
-        dispatch(actions.setGeneralError(errorMessage));
+          error instanceof Error ? error.message : "Failed to update scenario";
+        dispatch(actions.setForecastError(errorMessage));
         throw error;
-      } finally {
-        dispatch(actions.setSaving(false));
       }
     },
-    []
+    [state.userPlan.scenarios]
   );
 
-  const updateForecastConfig = useCallback(
-    async (config: Partial<ForecastConfig>): Promise<void> => {
+  const deleteScenario = useCallback(
+    async (scenarioId: string): Promise<void> => {
       try {
-        dispatch(actions.setLoadingForecast(true));
         dispatch(actions.clearError("forecastError"));
 
-        dispatch(actions.updateForecastConfig(config));
+        dispatch(actions.deleteScenario(scenarioId));
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to delete scenario";
+        dispatch(actions.setForecastError(errorMessage));
+        throw error;
+      }
+    },
+    []
+  );
+
+  // =============================================================================
+  // CONVENIENCE FUNCTIONS FOR TRANSACTIONS
+  // =============================================================================
+
+  const addTransaction = useCallback(
+    async (transactionInput: CreateTransactionInput): Promise<void> => {
+      try {
+        dispatch(actions.clearError("transactionError"));
+
+        const newTransaction: Transaction = {
+          id: generateId("transaction"),
+          ...transactionInput,
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+        };
+
+        dispatch(actions.addTransaction(newTransaction));
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to add transaction";
+        dispatch(actions.setTransactionError(errorMessage));
+        throw error;
+      }
+    },
+    [generateId]
+  );
+
+  const updateTransaction = useCallback(
+    async (transactionInput: UpdateTransactionInput): Promise<void> => {
+      try {
+        dispatch(actions.clearError("transactionError"));
+
+        const existingTransaction = (state.userPlan.transactions || []).find(
+          (transaction) => transaction.id === transactionInput.id
+        );
+        if (!existingTransaction) {
+          throw new Error("Transaction not found");
+        }
+
+        const updatedTransaction: Transaction = {
+          ...existingTransaction,
+          ...transactionInput,
+          updatedAt: new Date().toISOString(),
+        };
+
+        dispatch(actions.updateTransaction(updatedTransaction));
       } catch (error) {
         const errorMessage =
           error instanceof Error
             ? error.message
-            : "Failed to update forecast config";
-        dispatch(actions.setForecastError(errorMessage));
+            : "Failed to update transaction";
+        dispatch(actions.setTransactionError(errorMessage));
+        throw error;
+      }
+    },
+    [state.userPlan.transactions]
+  );
+
+  const deleteTransaction = useCallback(
+    async (transactionId: string): Promise<void> => {
+      try {
+        dispatch(actions.clearError("transactionError"));
+
+        dispatch(actions.deleteTransaction(transactionId));
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error
+            ? error.message
+            : "Failed to delete transaction";
+        dispatch(actions.setTransactionError(errorMessage));
         throw error;
-      } finally {
-        dispatch(actions.setLoadingForecast(false));
       }
     },
     []
   );
 
-  const saveUserPlan = useCallback(async (): Promise<void> => {
-    try {
-      dispatch(actions.setSaving(true));
-      dispatch(actions.clearError("generalError"));
+  const importTransactions = useCallback(
+    async (transactionInputs: CreateTransactionInput[]): Promise<void> => {
+      try {
+        dispatch(actions.clearError("transactionError"));
+
+        const now = new Date().toISOString();
+        const newTransactions: Transaction[] = transactionInputs.map(
+          (transactionInput) => ({
+            id: generateId("transaction"),
+            ...transactionInput,
+            createdAt: now,
+            updatedAt: now,
+          })
+        );
 
-      // Import storage function dynamically to avoid SSR issues
-      const { saveUserPlan: saveToStorage } = await import("./storage");
-      const savedPlan = await saveToStorage(state.userPlan);
+        dispatch(actions.importTransactions(newTransactions));
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error
+            ? error.message
+            : "Failed to import transactions";
+        dispatch(actions.setTransactionError(errorMessage));
+        throw error;
+      }
+    },
+    [generateId]
+  );
 
-      // If the ID changed (first save), update the state
-      if (savedPlan.id !== state.userPlan.id) {
-        dispatch(actions.setUserPlan(savedPlan));
+  // =============================================================================
+  // CONVENIENCE FUNCTIONS FOR BANK IMPORT PROFILES
+  // =============================================================================
+
+  const addBankImportProfile = useCallback(
+    async (
+      bankImportProfileInput: CreateBankImportProfileInput
+    ): Promise<void> => {
+      try {
+        dispatch(actions.clearError("transactionError"));
+
+        const newBankImportProfile: BankImportProfile = {
+          id: generateId("bankImportProfile"),
+          ...bankImportProfileInput,
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+        };
+
+        dispatch(actions.addBankImportProfile(newBankImportProfile));
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error
+            ? error.message
+            : "Failed to add bank import profile";
+        dispatch(actions.setTransactionError(errorMessage));
+        throw error;
       }
+    },
+    [generateId]
+  );
 
-      dispatch(actions.saveSuccess());
-    } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : "Failed to save user plan";
-      dispatch(actions.saveError(errorMessage));
-      throw error;
-    }
-  }, [state.userPlan]);
+  const updateBankImportProfile = useCallback(
+    async (
+      bankImportProfileInput: UpdateBankImportProfileInput
+    ): Promise<void> => {
+      try {
+        dispatch(actions.clearError("transactionError"));
 
-  const loadUserPlan = useCallback(async (): Promise<void> => {
-    try {
-      dispatch(actions.setLoading(true));
-      dispatch(actions.clearError("generalError"));
+        const existingBankImportProfile = (
+          state.userPlan.bankImportProfiles || []
+        ).find(
+          (bankImportProfile) =>
+            bankImportProfile.id === bankImportProfileInput.id
+        );
+        if (!existingBankImportProfile) {
+          throw new Error("Bank import profile not found");
+        }
 
-      // Import storage function dynamically to avoid SSR issues
-      const { loadUserPlan: loadFromStorage } = await import("./storage");
-      const loadedPlan = await loadFromStorage();
+        const updatedBankImportProfile: BankImportProfile = {
+          ...existingBankImportProfile,
+          ...bankImportProfileInput,
+          updatedAt: new Date().toISOString(),
+        };
 
-      if (loadedPlan) {
-        dispatch(actions.loadSuccess(loadedPlan));
-      } else {
-        dispatch(actions.setLoading(false));
+        dispatch(actions.updateBankImportProfile(updatedBankImportProfile));
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error
+            ? error.message
+            : "Failed to update bank import profile";
+        dispatch(actions.setTransactionError(errorMessage));
+        throw error;
       }
-    } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : "Failed to load user plan";
-      dispatch(actions.loadError(errorMessage));
-      throw error;
-    }
-  }, []);
+    },
+    [state.userPlan.bankImportProfiles]
+  );
 
-  const resetAll = useCallback((): void => {
-    dispatch(actions.resetState());
+  const deleteBankImportProfile = useCallback(
+    async (bankImportProfileId: string): Promise<void> => {
+      try {
+        dispatch(actions.clearError("transactionError"));
+
+        dispatch(actions.deleteBankImportProfile(bankImportProfileId));
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error
+            ? error.message
+            : "Failed to delete bank import profile";
+        dispatch(actions.setTransactionError(errorMessage));
+        throw error;
+      }
+    },
+    []
+  );
+
+  // =============================================================================
+  // CONVENIENCE FUNCTIONS FOR CATEGORIZATION RULES
+  // =============================================================================
+
+  const addCategorizationRule = useCallback(
+    async (
+      categorizationRuleInput: CreateCategorizationRuleInput
+    ): Promise<void> => {
+      try {
+        dispatch(actions.clearError("transactionError"));
+
+        const newCategorizationRule: CategorizationRule = {
+          id: generateId("categorizationRule"),
+          ...categorizationRuleInput,
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+        };
+
+        dispatch(actions.addCategorizationRule(newCategorizationRule));
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error
+            ? error.message
+            : "Failed to add categorization rule";
+        dispatch(actions.setTransactionError(errorMessage));
+        throw error;
+      }
+    },
+    [generateId]
+  );
+
+  const updateCategorizationRule = useCallback(
+    async (
+      categorizationRuleInput: UpdateCategorizationRuleInput
+    ): Promise<void> => {
+      try {
+        dispatch(actions.clearError("transactionError"));
+
+        const existingCategorizationRule = (
+          state.userPlan.categorizationRules || []
+        ).find(
+          (categorizationRule) =>
+            categorizationRule.id === categorizationRuleInput.id
+        );
+        if (!existingCategorizationRule) {
+          throw new Error("Categorization rule not found");
+        }
+
+        const updatedCategorizationRule: CategorizationRule = {
+          ...existingCategorizationRule,
+          ...categorizationRuleInput,
+          updatedAt: new Date().toISOString(),
+        };
+
+        dispatch(actions.updateCategorizationRule(updatedCategorizationRule));
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error
+            ? error.message
+            : "Failed to update categorization rule";
+        dispatch(actions.setTransactionError(errorMessage));
+        throw error;
+      }
+    },
+    [state.userPlan.categorizationRules]
+  );
+
+  const deleteCategorizationRule = useCallback(
+    async (categorizationRuleId: string): Promise<void> => {
+      try {
+        dispatch(actions.clearError("transactionError"));
+
+        dispatch(actions.deleteCategorizationRule(categorizationRuleId));
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error
+            ? error.message
+            : "Failed to delete categorization rule";
+        dispatch(actions.setTransactionError(errorMessage));
+        throw error;
+      }
+    },
+    []
+  );
+
+  const moveCategorizationRule = useCallback(
+    async (
+      categorizationRuleId: string,
+      direction: "up" | "down"
+    ): Promise<void> => {
+      try {
+        dispatch(actions.clearError("transactionError"));
+
+        const rules = [...(state.userPlan.categorizationRules || [])];
+        const index = rules.findIndex(
+          (rule) => rule.id === categorizationRuleId
+        );
+        const target = direction === "up" ? index - 1 : index + 1;
+        if (index === -1 || target < 0 || target >= rules.length) return;
+
+        [rules[index], rules[target]] = [rules[target], rules[index]];
+        dispatch(actions.setCategorizationRuleList(rules));
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error
+            ? error.message
+            : "Failed to reorder categorization rules";
+        dispatch(actions.setTransactionError(errorMessage));
+        throw error;
+      }
+    },
+    [state.userPlan.categorizationRules]
+  );
+
+  // =============================================================================
+  // CONVENIENCE FUNCTIONS FOR ACCOUNTS
+  // =============================================================================
+
+  const addAccount = useCallback(
+    async (accountInput: CreateAccountInput): Promise<void> => {
+      try {
+        dispatch(actions.clearError("accountError"));
+
+        const newAccount: Account = {
+          id: generateId("account"),
+          ...accountInput,
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+        };
+
+        dispatch(actions.addAccount(newAccount));
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to add account";
+        dispatch(actions.setAccountError(errorMessage));
+        throw error;
+      }
+    },
+    [generateId]
+  );
+
+  const updateAccount = useCallback(
+    async (accountInput: UpdateAccountInput): Promise<void> => {
+      try {
+        dispatch(actions.clearError("accountError"));
+
+        const existingAccount = (state.userPlan.accounts || []).find(
+          (account) => account.id === accountInput.id
+        );
+        if (!existingAccount) {
+          throw new Error("Account not found");
+        }
+
+        const updatedAccount: Account = {
+          ...existingAccount,
+          ...accountInput,
+          updatedAt: new Date().toISOString(),
+        };
+
+        dispatch(actions.updateAccount(updatedAccount));
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to update account";
+        dispatch(actions.setAccountError(errorMessage));
+        throw error;
+      }
+    },
+    [state.userPlan.accounts]
+  );
+
+  const deleteAccount = useCallback(
+    async (accountId: string): Promise<void> => {
+      try {
+        dispatch(actions.clearError("accountError"));
+
+        dispatch(actions.deleteAccount(accountId));
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to delete account";
+        dispatch(actions.setAccountError(errorMessage));
+        throw error;
+      }
+    },
+    []
+  );
+
+  // =============================================================================
+  // CONVENIENCE FUNCTIONS FOR TRANSFERS
+  // =============================================================================
+
+  const addTransfer = useCallback(
+    async (transferInput: CreateTransferInput): Promise<void> => {
+      try {
+        dispatch(actions.clearError("accountError"));
+
+        const newTransfer: Transfer = {
+          id: generateId("transfer"),
+          ...transferInput,
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+        };
+
+        dispatch(actions.addTransfer(newTransfer));
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to add transfer";
+        dispatch(actions.setAccountError(errorMessage));
+        throw error;
+      }
+    },
+    [generateId]
+  );
+
+  const updateTransfer = useCallback(
+    async (transferInput: UpdateTransferInput): Promise<void> => {
+      try {
+        dispatch(actions.clearError("accountError"));
+
+        const existingTransfer = (state.userPlan.transfers || []).find(
+          (transfer) => transfer.id === transferInput.id
+        );
+        if (!existingTransfer) {
+          throw new Error("Transfer not found");
+        }
+
+        const updatedTransfer: Transfer = {
+          ...existingTransfer,
+          ...transferInput,
+          updatedAt: new Date().toISOString(),
+        };
+
+        dispatch(actions.updateTransfer(updatedTransfer));
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to update transfer";
+        dispatch(actions.setAccountError(errorMessage));
+        throw error;
+      }
+    },
+    [state.userPlan.transfers]
+  );
+
+  const deleteTransfer = useCallback(
+    async (transferId: string): Promise<void> => {
+      try {
+        dispatch(actions.clearError("accountError"));
+
+        dispatch(actions.deleteTransfer(transferId));
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to delete transfer";
+        dispatch(actions.setAccountError(errorMessage));
+        throw error;
+      }
+    },
+    []
+  );
+
+  // =============================================================================
+  // CONVENIENCE FUNCTIONS FOR DEBTS
+  // =============================================================================
+
+  const addDebt = useCallback(
+    async (debtInput: CreateDebtInput): Promise<void> => {
+      try {
+        dispatch(actions.clearError("debtError"));
+
+        const newDebt: Debt = {
+          id: generateId("debt"),
+          ...debtInput,
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+        };
+
+        dispatch(actions.addDebt(newDebt));
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to add debt";
+        dispatch(actions.setDebtError(errorMessage));
+        throw error;
+      }
+    },
+    [generateId]
+  );
+
+  const updateDebt = useCallback(
+    async (debtInput: UpdateDebtInput): Promise<void> => {
+      try {
+        dispatch(actions.clearError("debtError"));
+
+        const existingDebt = (state.userPlan.debts || []).find(
+          (debt) => debt.id === debtInput.id
+        );
+        if (!existingDebt) {
+          throw new Error("Debt not found");
+        }
+
+        const updatedDebt: Debt = {
+          ...existingDebt,
+          ...debtInput,
+          updatedAt: new Date().toISOString(),
+        };
+
+        dispatch(actions.updateDebt(updatedDebt));
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to update debt";
+        dispatch(actions.setDebtError(errorMessage));
+        throw error;
+      }
+    },
+    [state.userPlan.debts]
+  );
+
+  const deleteDebt = useCallback(async (debtId: string): Promise<void> => {
+    try {
+      dispatch(actions.clearError("debtError"));
+
+      dispatch(actions.deleteDebt(debtId));
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to delete debt";
+      dispatch(actions.setDebtError(errorMessage));
+      throw error;
+    }
+  }, []);
+
+  const moveDebt = useCallback(
+    async (debtId: string, direction: "up" | "down"): Promise<void> => {
+      try {
+        dispatch(actions.clearError("debtError"));
+
+        const debts = [...(state.userPlan.debts || [])];
+        const index = debts.findIndex((debt) => debt.id === debtId);
+        const target = direction === "up" ? index - 1 : index + 1;
+        if (index === -1 || target < 0 || target >= debts.length) return;
+
+        [debts[index], debts[target]] = [debts[target], debts[index]];
+        dispatch(actions.setDebtList(debts));
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to reorder debts";
+        dispatch(actions.setDebtError(errorMessage));
+        throw error;
+      }
+    },
+    [state.userPlan.debts]
+  );
+
+  const updateDebtPayoffSettings = useCallback(
+    async (settings: Partial<DebtPayoffSettings>): Promise<void> => {
+      try {
+        dispatch(actions.clearError("debtError"));
+
+        dispatch(actions.updateDebtPayoffSettings(settings));
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error
+            ? error.message
+            : "Failed to update debt payoff settings";
+        dispatch(actions.setDebtError(errorMessage));
+        throw error;
+      }
+    },
+    []
+  );
+
+  // =============================================================================
+  // CONVENIENCE FUNCTIONS FOR HOUSEHOLD MEMBERS
+  // =============================================================================
+
+  const addHouseholdMember = useCallback(
+    async (memberInput: CreateHouseholdMemberInput): Promise<void> => {
+      try {
+        dispatch(actions.clearError("generalError"));
+
+        const newMember: HouseholdMember = {
+          id: generateId("member"),
+          ...memberInput,
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+        };
+
+        dispatch(actions.addHouseholdMember(newMember));
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error
+            ? error.message
+            : "Failed to add household member";
+        dispatch(actions.setGeneralError(errorMessage));
+        throw error;
+      }
+    },
+    [generateId]
+  );
+
+  const updateHouseholdMember = useCallback(
+    async (memberInput: UpdateHouseholdMemberInput): Promise<void> => {
+      try {
+        dispatch(actions.clearError("generalError"));
+
+        const existingMember = (state.userPlan.householdMembers || []).find(
+          (member) => member.id === memberInput.id
+        );
+        if (!existingMember) {
+          throw new Error("Household member not found");
+        }
+
+        const updatedMember: HouseholdMember = {
+          ...existingMember,
+          ...memberInput,
+          updatedAt: new Date().toISOString(),
+        };
+
+        dispatch(actions.updateHouseholdMember(updatedMember));
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error
+            ? error.message
+            : "Failed to update household member";
+        dispatch(actions.setGeneralError(errorMessage));
+        throw error;
+      }
+    },
+    [state.userPlan.householdMembers]
+  );
+
+  const deleteHouseholdMember = useCallback(
+    async (memberId: string): Promise<void> => {
+      try {
+        dispatch(actions.clearError("generalError"));
+
+        dispatch(actions.deleteHouseholdMember(memberId));
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error
+            ? error.message
+            : "Failed to delete household member";
+        dispatch(actions.setGeneralError(errorMessage));
+        throw error;
+      }
+    },
+    []
+  );
+
+  const updateHouseholdSettings = useCallback(
+    async (settings: Partial<HouseholdSettings>): Promise<void> => {
+      try {
+        dispatch(actions.clearError("generalError"));
+
+        dispatch(actions.updateHouseholdSettings(settings));
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error
+            ? error.message
+            : "Failed to update household settings";
+        dispatch(actions.setGeneralError(errorMessage));
+        throw error;
+      }
+    },
+    []
+  );
+
+  // =============================================================================
+  // CONVENIENCE FUNCTIONS FOR EXCHANGE RATES
+  // =============================================================================
+
+  const addExchangeRate = useCallback(
+    async (rateInput: CreateExchangeRateInput): Promise<void> => {
+      try {
+        dispatch(actions.clearError("generalError"));
+
+        const newRate: ExchangeRate = {
+          id: generateId("rate"),
+          ...rateInput,
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+        };
+
+        dispatch(actions.addExchangeRate(newRate));
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error
+            ? error.message
+            : "Failed to add exchange rate";
+        dispatch(actions.setGeneralError(errorMessage));
+        throw error;
+      }
+    },
+    [generateId]
+  );
+
+  const updateExchangeRate = useCallback(
+    async (rateInput: UpdateExchangeRateInput): Promise<void> => {
+      try {
+        dispatch(actions.clearError("generalError"));
+
+        const existingRate = (state.userPlan.exchangeRates || []).find(
+          (rate) => rate.id === rateInput.id
+        );
+        if (!existingRate) {
+          throw new Error("Exchange rate not found");
+        }
+
+        const updatedRate: ExchangeRate = {
+          ...existingRate,
+          ...rateInput,
+          updatedAt: new Date().toISOString(),
+        };
+
+        dispatch(actions.updateExchangeRate(updatedRate));
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error
+            ? error.message
+            : "Failed to update exchange rate";
+        dispatch(actions.setGeneralError(errorMessage));
+        throw error;
+      }
+    },
+    [state.userPlan.exchangeRates]
+  );
+
+  const deleteExchangeRate = useCallback(
+    async (rateId: string): Promise<void> => {
+      try {
+        dispatch(actions.clearError("generalError"));
+
+        dispatch(actions.deleteExchangeRate(rateId));
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error
+            ? error.message
+            : "Failed to delete exchange rate";
+        dispatch(actions.setGeneralError(errorMessage));
+        throw error;
+      }
+    },
+    []
+  );
+
+  const importExchangeRates = useCallback(
+    async (rateInputs: CreateExchangeRateInput[]): Promise<void> => {
+      try {
+        dispatch(actions.clearError("generalError"));
+
+        const now = new Date().toISOString();
+        dispatch(
+          actions.importExchangeRates(
+            rateInputs.map((rateInput) => ({
+              id: generateId("rate"),
+              ...rateInput,
+              createdAt: now,
+              updatedAt: now,
+            }))
+          )
+        );
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error
+            ? error.message
+            : "Failed to import exchange rates";
+        dispatch(actions.setGeneralError(errorMessage));
+        throw error;
+      }
+    },
+    [generateId]
+  );
+
+  // =============================================================================
+  // CONVENIENCE FUNCTIONS FOR BUDGETS
+  // =============================================================================
+
+  const updateBudgetSettings = useCallback(
+    async (settings: Partial<BudgetSettings>): Promise<void> => {
+      try {
+        dispatch(actions.clearError("generalError"));
+
+        dispatch(actions.updateBudgetSettings(settings));
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error
+            ? error.message
+            : "Failed to update budget settings";
+        dispatch(actions.setGeneralError(errorMessage));
+        throw error;
+      }
+    },
+    []
+  );
+
+  // =============================================================================
+  // CONVENIENCE FUNCTIONS FOR CATEGORIES
+  // =============================================================================
+
+  const addCategory = useCallback(
+    async (categoryInput: CreateCategoryInput): Promise<void> => {
+      try {
+        dispatch(actions.clearError("generalError"));
+
+        if (!categoryInput.name.trim()) {
+          throw new Error("Category name is required");
+        }
+
+        const newCategory: Category = {
+          id: generateId("category"),
+          ...categoryInput,
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+        };
+
+        dispatch(actions.addCategory(newCategory));
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to add category";
+        dispatch(actions.setGeneralError(errorMessage));
+        throw error;
+      }
+    },
+    [generateId]
+  );
+
+  const updateCategory = useCallback(
+    async (categoryInput: UpdateCategoryInput): Promise<void> => {
+      try {
+        dispatch(actions.clearError("generalError"));
+
+        const categories = getCategories(state.userPlan);
+        const existingCategory = categories.find(
+          (category) => category.id === categoryInput.id
+        );
+        if (!existingCategory) {
+          throw new Error("Category not found");
+        }
+        if (
+          categoryInput.parentId &&
+          (categoryInput.parentId === categoryInput.id ||
+            getDescendantIds(categories, categoryInput.id).includes(
+              categoryInput.parentId
+            ))
+        ) {
+          throw new Error("A category cannot be moved under itself");
+        }
+
+        const updatedCategory: Category = {
+          ...existingCategory,
+          ...categoryInput,
+          updatedAt: new Date().toISOString(),
+        };
+
+        dispatch(actions.updateCategory(updatedCategory));
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to update category";
+        dispatch(actions.setGeneralError(errorMessage));
+        throw error;
+      }
+    },
+    [state.userPlan]
+  );
+
+  const deleteCategory = useCallback(
+    async (categoryId: string): Promise<void> => {
+      try {
+        dispatch(actions.clearError("generalError"));
+
+        const category = getCategories(state.userPlan).find(
+          (entry) => entry.id === categoryId
+        );
+        if (!category) {
+          throw new Error("Category not found");
+        }
+        if (category.builtIn) {
+          throw new Error("Built-in categories cannot be deleted");
+        }
+
+        dispatch(actions.deleteCategory(categoryId));
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to delete category";
+        dispatch(actions.setGeneralError(errorMessage));
+        throw error;
+      }
+    },
+    [state.userPlan]
+  );
+
+  // =============================================================================
+  // CONVENIENCE FUNCTIONS FOR CASH FLOW
+  // =============================================================================
+
+  const updateCashFlowSettings = useCallback(
+    async (settings: Partial<CashFlowSettings>): Promise<void> => {
+      try {
+        dispatch(actions.clearError("generalError"));
+
+        if (settings.buffer !== undefined && settings.buffer < 0) {
+          throw new Error("Low-balance buffer cannot be negative");
+        }
+        if (
+          settings.horizonDays !== undefined &&
+          (settings.horizonDays < 1 || settings.horizonDays > 366)
+        ) {
+          throw new Error("Calendar horizon must be between 1 and 366 days");
+        }
+
+        dispatch(actions.updateCashFlowSettings(settings));
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error
+            ? error.message
+            : "Failed to update cash flow settings";
+        dispatch(actions.setGeneralError(errorMessage));
+        throw error;
+      }
+    },
+    []
+  );
+
+  // =============================================================================
+  // UTILITY FUNCTIONS
+  // =============================================================================
+
+  const regenerateForecast = useCallback(async (): Promise<void> => {
+    try {
+      dispatch(actions.setLoadingForecast(true));
+      dispatch(actions.clearError("forecastError"));
+
+      dispatch(actions.regenerateForecast());
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : "Failed to regenerate forecast";
+      dispatch(actions.setForecastError(errorMessage));
+      throw error;
+    } finally {
+      dispatch(actions.setLoadingForecast(false));
+    }
+  }, []);
+
+  const updateCurrentBalance = useCallback(
+    async (balance: number): Promise<void> => {
+      try {
+        dispatch(actions.setSaving(true));
+        dispatch(actions.clearError("generalError"));
+
+        dispatch(actions.updateCurrentBalance(balance));
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to update balance";
+        dispatch(actions.setGeneralError(errorMessage));
+        throw error;
+      } finally {
+        dispatch(actions.setSaving(false));
+      }
+    },
+    []
+  );
+
+  const updateForecastConfig = useCallback(
+    async (config: Partial<ForecastConfig>): Promise<void> => {
+      try {
+        dispatch(actions.setLoadingForecast(true));
+        dispatch(actions.clearError("forecastError"));
+
+        dispatch(actions.updateForecastConfig(config));
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error
+            ? error.message
+            : "Failed to update forecast config";
+        dispatch(actions.setForecastError(errorMessage));
+        throw error;
+      } finally {
+        dispatch(actions.setLoadingForecast(false));
+      }
+    },
+    []
+  );
+
+  const updateInflationSettings = useCallback(
+    async (settings: Partial<InflationSettings>): Promise<void> => {
+      try {
+        dispatch(actions.clearError("forecastError"));
+
+        dispatch(actions.updateInflationSettings(settings));
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error
+            ? error.message
+            : "Failed to update inflation settings";
+        dispatch(actions.setForecastError(errorMessage));
+        throw error;
+      }
+    },
+    []
+  );
+
+  const updateTaxSettings = useCallback(
+    async (settings: Partial<TaxSettings>): Promise<void> => {
+      try {
+        dispatch(actions.clearError("forecastError"));
+
+        dispatch(actions.updateTaxSettings(settings));
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error
+            ? error.message
+            : "Failed to update tax settings";
+        dispatch(actions.setForecastError(errorMessage));
+        throw error;
+      }
+    },
+    []
+  );
+
+  const saveUserPlan = useCallback(async (): Promise<void> => {
+    try {
+      dispatch(actions.setSaving(true));
+      dispatch(actions.clearError("generalError"));
+
+      // Import storage function dynamically to avoid SSR issues
+      const { saveUserPlan: saveToStorage } = await import("./storage");
+      const savedPlan = await saveToStorage(state.userPlan);
+
+      // If the ID changed (first save), update the state
+      if (savedPlan.id !== state.userPlan.id) {
+        dispatch(actions.setUserPlan(savedPlan));
+      }
+
+      dispatch(actions.saveSuccess());
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to save user plan";
+      dispatch(actions.saveError(errorMessage));
+      throw error;
+    }
+  }, [state.userPlan]);
+
+  const loadUserPlan = useCallback(async (): Promise<void> => {
+    try {
+      dispatch(actions.setLoading(true));
+      dispatch(actions.clearError("generalError"));
+
+      // Import storage function dynamically to avoid SSR issues
+      const { loadUserPlan: loadFromStorage } = await import("./storage");
+      const loadedPlan = await loadFromStorage();
+
+      if (loadedPlan) {
+        dispatch(actions.loadSuccess(loadedPlan));
+      } else {
+        dispatch(actions.setLoading(false));
+      }
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to load user plan";
+      dispatch(actions.loadError(errorMessage));
+      throw error;
+    }
+  }, []);
+
+  const resetAll = useCallback((): void => {
+    dispatch(actions.resetState());
+  }, []);
+
+  // =============================================================================
+  // PLANS
+  // =============================================================================
+
+  const plans = useMemo(
+    () =>
+      [
+        {
+          id: state.userPlan.id,
+          name: state.userPlan.name || DEFAULT_PLAN_NAME,
+          updatedAt: state.userPlan.updatedAt,
+        },
+        ...storedPlans,
+      ].sort((a, b) => a.name.localeCompare(b.name)),
+    [
+      state.userPlan.id,
+      state.userPlan.name,
+      state.userPlan.updatedAt,
+      storedPlans,
+    ]
+  );
+
+  const refreshPlans = useCallback(async (): Promise<void> => {
+    const { listStoredPlans } = await import("./storage");
+    setStoredPlans(await listStoredPlans());
+  }, []);
+
+  // Open a stored plan, storing the open one in its place unless it is
+  // being discarded
+  const openPlan = useCallback(
+    async (planId: string, keepOpenPlan: boolean): Promise<void> => {
+      const { saveUserPlan: saveToStorage, openStoredPlan } = await import(
+        "./storage"
+      );
+      const currentPlan =
+        keepOpenPlan && hasPlanData(state.userPlan)
+          ? await saveToStorage(state.userPlan)
+          : null;
+
+      dispatch(actions.loadSuccess(await openStoredPlan(planId, currentPlan)));
+      await refreshPlans();
+    },
+    [state.userPlan, refreshPlans]
+  );
+
+  const switchPlan = useCallback(
+    async (planId: string): Promise<void> => {
+      if (planId === state.userPlan.id) return;
+
+      try {
+        dispatch(actions.setLoading(true));
+        dispatch(actions.clearError("generalError"));
+
+        await openPlan(planId, true);
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to switch plan";
+        dispatch(actions.loadError(errorMessage));
+        throw error;
+      }
+    },
+    [state.userPlan.id, openPlan]
+  );
+
+  const createPlan = useCallback(
+    async (name: string): Promise<void> => {
+      try {
+        dispatch(actions.setLoading(true));
+        dispatch(actions.clearError("generalError"));
+
+        const { storePlan } = await import("./storage");
+        const newPlan: UserPlan = {
+          ...createFreshInitialState().userPlan,
+          id: generateId("user-plan"),
+          name,
+          // New plans start in the currency and language in use
+          preferences: { currency, language },
+        };
+
+        await storePlan(newPlan);
+        await openPlan(newPlan.id, true);
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to create plan";
+        dispatch(actions.loadError(errorMessage));
+        throw error;
+      }
+    },
+    [generateId, openPlan, currency, language]
+  );
+
+  const duplicatePlan = useCallback(
+    async (planId: string): Promise<void> => {
+      try {
+        dispatch(actions.clearError("generalError"));
+
+        const { loadStoredPlan, storePlan } = await import("./storage");
+        const source =
+          planId === state.userPlan.id
+            ? state.userPlan
+            : await loadStoredPlan(planId);
+        const now = new Date().toISOString();
+
+        await storePlan({
+          ...source,
+          id: generateId("user-plan"),
+          name: `${source.name || DEFAULT_PLAN_NAME} (copy)`,
+          // The copy has not been synced anywhere yet
+          deletedRecords: undefined,
+          createdAt: now,
+          updatedAt: now,
+        });
+        await refreshPlans();
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to duplicate plan";
+        dispatch(actions.setGeneralError(errorMessage));
+        throw error;
+      }
+    },
+    [state.userPlan, generateId, refreshPlans]
+  );
+
+  const renamePlan = useCallback(
+    async (planId: string, name: string): Promise<void> => {
+      try {
+        dispatch(actions.clearError("generalError"));
+
+        if (planId === state.userPlan.id) {
+          dispatch(actions.updatePlanName(name));
+          return;
+        }
+
+        const { renameStoredPlan } = await import("./storage");
+        await renameStoredPlan(planId, name);
+        await refreshPlans();
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to rename plan";
+        dispatch(actions.setGeneralError(errorMessage));
+        throw error;
+      }
+    },
+    [state.userPlan.id, refreshPlans]
+  );
+
+  const deletePlan = useCallback(
+    async (planId: string): Promise<void> => {
+      try {
+        dispatch(actions.clearError("generalError"));
+
+        // The open plan is replaced by another before it is deleted
+        if (planId === state.userPlan.id) {
+          if (storedPlans.length === 0) {
+            throw new Error("The only plan cannot be deleted");
+          }
+          dispatch(actions.setLoading(true));
+          await openPlan(storedPlans[0].id, false);
+        }
+
+        const { deleteStoredPlan } = await import("./storage");
+        await deleteStoredPlan(planId);
+        await refreshPlans();
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to delete plan";
+        dispatch(actions.loadError(errorMessage));
+        throw error;
+      }
+    },
+    [state.userPlan.id, storedPlans, openPlan, refreshPlans]
+  );
+
+  const importPlan = useCallback(
+    async (userPlan: UserPlan, name: string): Promise<void> => {
+      try {
+        dispatch(actions.setLoading(true));
+        dispatch(actions.clearError("generalError"));
+
+        const { storePlan } = await import("./storage");
+        const importedPlan: UserPlan = {
+          ...userPlan,
+          id: generateId("user-plan"),
+          name,
+          preferences: userPlan.preferences || { currency, language },
+          // Files from older releases may lack newer forecast settings
+          forecastConfig: {
+            ...initialForecastConfig,
+            ...userPlan.forecastConfig,
+          },
+        };
+
+        await storePlan(importedPlan);
+        await openPlan(importedPlan.id, true);
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to import plan";
+        dispatch(actions.loadError(errorMessage));
+        throw error;
+      }
+    },
+    [generateId, openPlan, currency, language]
+  );
+
+  const updatePlanPreferences = useCallback(
+    async (preferences: Partial<PlanPreferences>): Promise<void> => {
+      try {
+        dispatch(actions.clearError("generalError"));
+
+        if (preferences.currency) {
+          setCurrency(preferences.currency as CurrencyCode);
+        }
+        if (preferences.language) {
+          setLanguage(preferences.language as LanguageCode);
+        }
+        dispatch(actions.updatePlanPreferences(preferences));
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error
+            ? error.message
+            : "Failed to update plan preferences";
+        dispatch(actions.setGeneralError(errorMessage));
+        throw error;
+      }
+    },
+    [setCurrency, setLanguage]
+  );
+
+  // =============================================================================
+  // UNDO / REDO
+  // =============================================================================
+
+  const undo = useCallback((): void => {
+    dispatch(actions.undo());
+  }, []);
+
+  const redo = useCallback((): void => {
+    dispatch(actions.redo());
+  }, []);
+
+  useUndoShortcuts(undo, redo);
+
+  // =============================================================================
+  // ENCRYPTION
+  // =============================================================================
+
+  const unlock = useCallback(async (passphrase: string): Promise<void> => {
+    // A wrong passphrase throws here, for the lock screen to show
+    const {
+      unlockStorage,
+      loadUserPlan: loadFromStorage,
+      listStoredPlans,
+    } = await import("./storage");
+    await unlockStorage(passphrase);
+    setIsLocked(false);
+
+    try {
+      dispatch(actions.setLoading(true));
+      dispatch(actions.clearError("generalError"));
+
+      const loadedPlan = await loadFromStorage();
+      setStoredPlans(await listStoredPlans());
+
+      if (loadedPlan) {
+        dispatch(actions.loadSuccess(loadedPlan));
+      } else {
+        dispatch(actions.setLoading(false));
+      }
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to load user plan";
+      dispatch(actions.loadError(errorMessage));
+      throw error;
+    }
+  }, []);
+
+  const lock = useCallback(async (): Promise<void> => {
+    const { saveUserPlan: saveToStorage, lockStorage } = await import(
+      "./storage"
+    );
+
+    // Keep pending changes before the key is forgotten
+    if (state.hasUnsavedChanges) {
+      await saveToStorage(state.userPlan);
+    }
+
+    lockStorage();
+    setIsLocked(true);
+    setStoredPlans([]);
+    dispatch(actions.resetState());
+  }, [state.userPlan, state.hasUnsavedChanges]);
+
+  const enableEncryption = useCallback(
+    async (passphrase: string): Promise<void> => {
+      const { enableEncryption: enableStorageEncryption } = await import(
+        "./storage"
+      );
+      await enableStorageEncryption(passphrase);
+      setIsEncrypted(true);
+    },
+    []
+  );
+
+  const disableEncryption = useCallback(async (): Promise<void> => {
+    const { disableEncryption: disableStorageEncryption } = await import(
+      "./storage"
+    );
+    await disableStorageEncryption();
+    setIsEncrypted(false);
   }, []);
 
   const clearError = useCallback((errorType?: keyof ErrorState): void => {
@@ -534,12 +1988,70 @@ export function FinancialProvider({
     addGoal,
     updateGoal,
     deleteGoal,
+    addScenario,
+    updateScenario,
+    deleteScenario,
+    addTransaction,
+    updateTransaction,
+    deleteTransaction,
+    importTransactions,
+    addBankImportProfile,
+    updateBankImportProfile,
+    deleteBankImportProfile,
+    addCategorizationRule,
+    updateCategorizationRule,
+    deleteCategorizationRule,
+    moveCategorizationRule,
+    addAccount,
+    updateAccount,
+    deleteAccount,
+    addTransfer,
+    updateTransfer,
+    deleteTransfer,
+    addDebt,
+    updateDebt,
+    deleteDebt,
+    moveDebt,
+    updateDebtPayoffSettings,
+    addHouseholdMember,
+    updateHouseholdMember,
+    deleteHouseholdMember,
+    updateHouseholdSettings,
+    addExchangeRate,
+    updateExchangeRate,
+    deleteExchangeRate,
+    importExchangeRates,
+    updateBudgetSettings,
+    addCategory,
+    updateCategory,
+    deleteCategory,
+    updateCashFlowSettings,
     regenerateForecast,
     updateCurrentBalance,
     updateForecastConfig,
+    updateInflationSettings,
+    updateTaxSettings,
     saveUserPlan,
     loadUserPlan,
     resetAll,
+    plans,
+    createPlan,
+    switchPlan,
+    duplicatePlan,
+    renamePlan,
+    deletePlan,
+    importPlan,
+    updatePlanPreferences,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    isLocked,
+    isEncrypted,
+    unlock,
+    lock,
+    enableEncryption,
+    disableEncryption,
     clearError,
   };
 
@@ -570,12 +2082,65 @@ export function useFinancialActions() {
     addGoal,
     updateGoal,
     deleteGoal,
+    addScenario,
+    updateScenario,
+    deleteScenario,
+    addTransaction,
+    updateTransaction,
+    deleteTransaction,
+    importTransactions,
+    addBankImportProfile,
+    updateBankImportProfile,
+    deleteBankImportProfile,
+    addCategorizationRule,
+    updateCategorizationRule,
+    deleteCategorizationRule,
+    moveCategorizationRule,
+    addAccount,
+    updateAccount,
+    deleteAccount,
+    addTransfer,
+    updateTransfer,
+    deleteTransfer,
+    addDebt,
+    updateDebt,
+    deleteDebt,
+    moveDebt,
+    updateDebtPayoffSettings,
+    addHouseholdMember,
+    updateHouseholdMember,
+    deleteHouseholdMember,
+    updateHouseholdSettings,
+    addExchangeRate,
+    updateExchangeRate,
+    deleteExchangeRate,
+    importExchangeRates,
+    updateBudgetSettings,
+    addCategory,
+    updateCategory,
+    deleteCategory,
+    updateCashFlowSettings,
     regenerateForecast,
     updateCurrentBalance,
     updateForecastConfig,
+    updateInflationSettings,
+    updateTaxSettings,
     saveUserPlan,
     loadUserPlan,
     resetAll,
+    createPlan,
+    switchPlan,
+    duplicatePlan,
+    renamePlan,
+    deletePlan,
+    importPlan,
+    updatePlanPreferences,
+    undo,
+    redo,
+    unlock,
+    lock,
+    enableEncryption,
+    disableEncryption,
     clearError,
   } = useFinancialContext();
 
@@ -589,12 +2154,65 @@ export function useFinancialActions() {
     addGoal,
     updateGoal,
     deleteGoal,
+    addScenario,
+    updateScenario,
+    deleteScenario,
+    addTransaction,
+    updateTransaction,
+    deleteTransaction,
+    importTransactions,
+    addBankImportProfile,
+    updateBankImportProfile,
+    deleteBankImportProfile,
+    addCategorizationRule,
+    updateCategorizationRule,
+    deleteCategorizationRule,
+    moveCategorizationRule,
+    addAccount,
+    updateAccount,
+    deleteAccount,
+    addTransfer,
+    updateTransfer,
+    deleteTransfer,
+    addDebt,
+    updateDebt,
+    deleteDebt,
+    moveDebt,
+    updateDebtPayoffSettings,
+    addHouseholdMember,
+    updateHouseholdMember,
+    deleteHouseholdMember,
+    updateHouseholdSettings,
+    addExchangeRate,
+    updateExchangeRate,
+    deleteExchangeRate,
+    importExchangeRates,
+    updateBudgetSettings,
+    addCategory,
+    updateCategory,
+    deleteCategory,
+    updateCashFlowSettings,
     regenerateForecast,
     updateCurrentBalance,
     updateForecastConfig,
+    updateInflationSettings,
+    updateTaxSettings,
     saveUserPlan,
     loadUserPlan,
     resetAll,
+    createPlan,
+    switchPlan,
+    duplicatePlan,
+    renamePlan,
+    deletePlan,
+    importPlan,
+    updatePlanPreferences,
+    undo,
+    redo,
+    unlock,
+    lock,
+    enableEncryption,
+    disableEncryption,
     clearError,
   };
 }
@@ -95,7 +95,14 @@ const translations = {
     "nav.dashboard": "Dashboard",
     "nav.income": "Income",
     "nav.expenses": "Expenses",
+    "nav.budget": "Budget",
     "nav.goals": "Goals",
+    "nav.accounts": "Accounts",
+    "nav.debts": "Debts",
+    "nav.household": "Household",
+    "nav.plans": "Plans",
+    "nav.transactions": "Transactions",
+    "nav.cashFlow": "Cash Flow",
     "nav.forecast": "Forecast",
     "nav.goalPlanning": "Goal Planning",
     "nav.importExport": "Import/Export",
@@ -155,7 +162,14 @@ const translations = {
     "nav.dashboard": "แดชบอร์ด",
     "nav.income": "รายได้",
     "nav.expenses": "รายจ่าย",
+    "nav.budget": "งบประมาณ",
     "nav.goals": "เป้าหมาย",
+    "nav.accounts": "บัญชี",
+    "nav.debts": "หนี้สิน",
+    "nav.household": "ครัวเรือน",
+    "nav.plans": "แผน",
+    "nav.transactions": "รายการธุรกรรม",
+    "nav.cashFlow": "กระแสเงินสด",
     "nav.forecast": "พยากรณ์",
     "nav.goalPlanning": "วางแผนเป้าหมาย",
     "nav.importExport": "นำเข้า/ส่งออก",
@@ -26,17 +26,62 @@ import {
   UpdateGoalAction,
   DeleteGoalAction,
   SetGoalListAction,
+  AddScenarioAction,
+  UpdateScenarioAction,
+  DeleteScenarioAction,
+  AddTransactionAction,
+  UpdateTransactionAction,
+  DeleteTransactionAction,
+  SetTransactionListAction,
+  ImportTransactionsAction,
+  AddBankImportProfileAction,
+  UpdateBankImportProfileAction,
+  DeleteBankImportProfileAction,
+  AddCategorizationRuleAction,
+  UpdateCategorizationRuleAction,
+  DeleteCategorizationRuleAction,
+  SetCategorizationRuleListAction,
+  AddAccountAction,
+  UpdateAccountAction,
+  DeleteAccountAction,
+  AddTransferAction,
+  UpdateTransferAction,
+  DeleteTransferAction,
+  AddDebtAction,
+  UpdateDebtAction,
+  DeleteDebtAction,
+  SetDebtListAction,
+  UpdateDebtPayoffSettingsAction,
+  AddHouseholdMemberAction,
+  UpdateHouseholdMemberAction,
+  DeleteHouseholdMemberAction,
+  UpdateHouseholdSettingsAction,
+  AddExchangeRateAction,
+  UpdateExchangeRateAction,
+  DeleteExchangeRateAction,
+  ImportExchangeRatesAction,
+  UpdateBudgetSettingsAction,
+  AddCategoryAction,
+  UpdateCategoryAction,
+  DeleteCategoryAction,
+  UpdateCashFlowSettingsAction,
+  UpdateInflationSettingsAction,
+  UpdateTaxSettingsAction,
   SetForecastAction,
   RegenerateForecastAction,
   UpdateForecastConfigAction,
   SetUserPlanAction,
   UpdateCurrentBalanceAction,
+  UpdatePlanNameAction,
+  UpdatePlanPreferencesAction,
   SaveSuccessAction,
   SaveErrorAction,
   LoadSuccessAction,
   LoadErrorAction,
   MarkUnsavedChangesAction,
   MarkSavedAction,
+  UndoAction,
+  RedoAction,
   FinancialState,
   ErrorState,
 } from "./types";
@@ -47,6 +92,23 @@ import {
   Forecast,
   UserPlan,
   ForecastConfig,
+  Scenario,
+  Transaction,
+  BankImportProfile,
+  CategorizationRule,
+  Account,
+  Transfer,
+  Debt,
+  DebtPayoffSettings,
+  HouseholdMember,
+  HouseholdSettings,
+  ExchangeRate,
+  InflationSettings,
+  TaxSettings,
+  BudgetSettings,
+  Category,
+  CashFlowSettings,
+  PlanPreferences,
 } from "../types";
 
 // =============================================================================
@@ -263,6 +325,410 @@ export const setGoalList = (goalList: Goal[]): SetGoalListAction => ({
   payload: goalList,
 });
 
+// =============================================================================
+// SCENARIO ACTION CREATORS
+// =============================================================================
+
+/**
+ * Add a new what-if scenario
+ */
+export const addScenario = (scenario: Scenario): AddScenarioAction => ({
+  type: FinancialActionType.ADD_SCENARIO,
+  payload: scenario,
+});
+
+/**
+ * Update an existing scenario
+ */
+export const updateScenario = (scenario: Scenario): UpdateScenarioAction => ({
+  type: FinancialActionType.UPDATE_SCENARIO,
+  payload: scenario,
+});
+
+/**
+ * Delete a scenario
+ */
+export const deleteScenario = (scenarioId: string): DeleteScenarioAction => ({
+  type: FinancialActionType.DELETE_SCENARIO,
+  payload: scenarioId,
+});
+
+// =============================================================================
+// TRANSACTION ACTION CREATORS
+// =============================================================================
+
+/**
+ * Add a new transaction
+ */
+export const addTransaction = (
+  transaction: Transaction
+): AddTransactionAction => ({
+  type: FinancialActionType.ADD_TRANSACTION,
+  payload: transaction,
+});
+
+/**
+ * Update an existing transaction
+ */
+export const updateTransaction = (
+  transaction: Transaction
+): UpdateTransactionAction => ({
+  type: FinancialActionType.UPDATE_TRANSACTION,
+  payload: transaction,
+});
+
+/**
+ * Delete a transaction
+ */
+export const deleteTransaction = (
+  transactionId: string
+): DeleteTransactionAction => ({
+  type: FinancialActionType.DELETE_TRANSACTION,
+  payload: transactionId,
+});
+
+/**
+ * Set the entire transaction list
+ */
+export const setTransactionList = (
+  transactionList: Transaction[]
+): SetTransactionListAction => ({
+  type: FinancialActionType.SET_TRANSACTION_LIST,
+  payload: transactionList,
+});
+
+/**
+ * Append a batch of imported transactions
+ */
+export const importTransactions = (
+  transactions: Transaction[]
+): ImportTransactionsAction => ({
+  type: FinancialActionType.IMPORT_TRANSACTIONS,
+  payload: transactions,
+});
+
+// =============================================================================
+// BANK IMPORT PROFILE ACTION CREATORS
+// =============================================================================
+
+/**
+ * Add a new bank import profile
+ */
+export const addBankImportProfile = (
+  bankImportProfile: BankImportProfile
+): AddBankImportProfileAction => ({
+  type: FinancialActionType.ADD_BANK_IMPORT_PROFILE,
+  payload: bankImportProfile,
+});
+
+/**
+ * Update an existing bank import profile
+ */
+export const updateBankImportProfile = (
+  bankImportProfile: BankImportProfile
+): UpdateBankImportProfileAction => ({
+  type: FinancialActionType.UPDATE_BANK_IMPORT_PROFILE,
+  payload: bankImportProfile,
+});
+
+/**
+ * Delete a bank import profile
+ */
+export const deleteBankImportProfile = (
+  bankImportProfileId: string
+): DeleteBankImportProfileAction => ({
+  type: FinancialActionType.DELETE_BANK_IMPORT_PROFILE,
+  payload: bankImportProfileId,
+});
+
+// =============================================================================
+// CATEGORIZATION RULE ACTION CREATORS
+// =============================================================================
+
+/**
+ * Add a new categorization rule
+ */
+export const addCategorizationRule = (
+  categorizationRule: CategorizationRule
+): AddCategorizationRuleAction => ({
+  type: FinancialActionType.ADD_CATEGORIZATION_RULE,
+  payload: categorizationRule,
+});
+
+/**
+ * Update an existing categorization rule
+ */
+export const updateCategorizationRule = (
+  categorizationRule: CategorizationRule
+): UpdateCategorizationRuleAction => ({
+  type: FinancialActionType.UPDATE_CATEGORIZATION_RULE,
+  payload: categorizationRule,
+});
+
+/**
+ * Delete a categorization rule
+ */
+export const deleteCategorizationRule = (
+  categorizationRuleId: string
+): DeleteCategorizationRuleAction => ({
+  type: FinancialActionType.DELETE_CATEGORIZATION_RULE,
+  payload: categorizationRuleId,
+});
+
+/**
+ * Set the entire categorization rule list
+ */
+export const setCategorizationRuleList = (
+  categorizationRuleList: CategorizationRule[]
+): SetCategorizationRuleListAction => ({
+  type: FinancialActionType.SET_CATEGORIZATION_RULE_LIST,
+  payload: categorizationRuleList,
+});
+
+// =============================================================================
+// ACCOUNT ACTION CREATORS
+// =============================================================================
+
+/**
+ * Add a new account
+ */
+export const addAccount = (account: Account): AddAccountAction => ({
+  type: FinancialActionType.ADD_ACCOUNT,
+  payload: account,
+});
+
+/**
+ * Update an existing account
+ */
+export const updateAccount = (account: Account): UpdateAccountAction => ({
+  type: FinancialActionType.UPDATE_ACCOUNT,
+  payload: account,
+});
+
+/**
+ * Delete a account
+ */
+export const deleteAccount = (accountId: string): DeleteAccountAction => ({
+  type: FinancialActionType.DELETE_ACCOUNT,
+  payload: accountId,
+});
+
+// =============================================================================
+// TRANSFER ACTION CREATORS
+// =============================================================================
+
+/**
+ * Add a new transfer
+ */
+export const addTransfer = (transfer: Transfer): AddTransferAction => ({
+  type: FinancialActionType.ADD_TRANSFER,
+  payload: transfer,
+});
+
+/**
+ * Update an existing transfer
+ */
+export const updateTransfer = (transfer: Transfer): UpdateTransferAction => ({
+  type: FinancialActionType.UPDATE_TRANSFER,
+  payload: transfer,
+});
+
+/**
+ * Delete a transfer
+ */
+export const deleteTransfer = (transferId: string): DeleteTransferAction => ({
+  type: FinancialActionType.DELETE_TRANSFER,
+  payload: transferId,
+});
+
+// =============================================================================
+// DEBT ACTION CREATORS
+// =============================================================================
+
+/**
+ * Add a new debt
+ */
+export const addDebt = (debt: Debt): AddDebtAction => ({
+  type: FinancialActionType.ADD_DEBT,
+  payload: debt,
+});
+
+/**
+ * Update an existing debt
+ */
+export const updateDebt = (debt: Debt): UpdateDebtAction => ({
+  type: FinancialActionType.UPDATE_DEBT,
+  payload: debt,
+});
+
+/**
+ * Delete a debt
+ */
+export const deleteDebt = (debtId: string): DeleteDebtAction => ({
+  type: FinancialActionType.DELETE_DEBT,
+  payload: debtId,
+});
+
+/**
+ * Set the entire debt list
+ */
+export const setDebtList = (debtList: Debt[]): SetDebtListAction => ({
+  type: FinancialActionType.SET_DEBT_LIST,
+  payload: debtList,
+});
+
+/**
+ * Update how surplus cash is put toward debts
+ */
+export const updateDebtPayoffSettings = (
+  settings: Partial<DebtPayoffSettings>
+): UpdateDebtPayoffSettingsAction => ({
+  type: FinancialActionType.UPDATE_DEBT_PAYOFF_SETTINGS,
+  payload: settings,
+});
+
+// =============================================================================
+// HOUSEHOLD ACTION CREATORS
+// =============================================================================
+
+/**
+ * Add a new household member
+ */
+export const addHouseholdMember = (
+  member: HouseholdMember
+): AddHouseholdMemberAction => ({
+  type: FinancialActionType.ADD_HOUSEHOLD_MEMBER,
+  payload: member,
+});
+
+/**
+ * Update an existing household member
+ */
+export const updateHouseholdMember = (
+  member: HouseholdMember
+): UpdateHouseholdMemberAction => ({
+  type: FinancialActionType.UPDATE_HOUSEHOLD_MEMBER,
+  payload: member,
+});
+
+/**
+ * Delete a household member
+ */
+export const deleteHouseholdMember = (
+  memberId: string
+): DeleteHouseholdMemberAction => ({
+  type: FinancialActionType.DELETE_HOUSEHOLD_MEMBER,
+  payload: memberId,
+});
+
+/**
+ * Update how joint costs and goals are split
+ */
+export const updateHouseholdSettings = (
+  settings: Partial<HouseholdSettings>
+): UpdateHouseholdSettingsAction => ({
+  type: FinancialActionType.UPDATE_HOUSEHOLD_SETTINGS,
+  payload: settings,
+});
+
+// =============================================================================
+// EXCHANGE RATE ACTION CREATORS
+// =============================================================================
+
+/**
+ * Add an exchange rate
+ */
+export const addExchangeRate = (rate: ExchangeRate): AddExchangeRateAction => ({
+  type: FinancialActionType.ADD_EXCHANGE_RATE,
+  payload: rate,
+});
+
+/**
+ * Update an existing exchange rate
+ */
+export const updateExchangeRate = (
+  rate: ExchangeRate
+): UpdateExchangeRateAction => ({
+  type: FinancialActionType.UPDATE_EXCHANGE_RATE,
+  payload: rate,
+});
+
+/**
+ * Delete an exchange rate
+ */
+export const deleteExchangeRate = (
+  rateId: string
+): DeleteExchangeRateAction => ({
+  type: FinancialActionType.DELETE_EXCHANGE_RATE,
+  payload: rateId,
+});
+
+/**
+ * Import historical exchange rates, replacing rates for the same pair and day
+ */
+export const importExchangeRates = (
+  rates: ExchangeRate[]
+): ImportExchangeRatesAction => ({
+  type: FinancialActionType.IMPORT_EXCHANGE_RATES,
+  payload: rates,
+});
+
+// =============================================================================
+// BUDGET ACTION CREATORS
+// =============================================================================
+
+/**
+ * Update the budget method or category budgets
+ */
+export const updateBudgetSettings = (
+  settings: Partial<BudgetSettings>
+): UpdateBudgetSettingsAction => ({
+  type: FinancialActionType.UPDATE_BUDGET_SETTINGS,
+  payload: settings,
+});
+
+// =============================================================================
+// CATEGORY ACTION CREATORS
+// =============================================================================
+
+/**
+ * Add an expense category
+ */
+export const addCategory = (category: Category): AddCategoryAction => ({
+  type: FinancialActionType.ADD_CATEGORY,
+  payload: category,
+});
+
+/**
+ * Update an expense category
+ */
+export const updateCategory = (category: Category): UpdateCategoryAction => ({
+  type: FinancialActionType.UPDATE_CATEGORY,
+  payload: category,
+});
+
+/**
+ * Delete a user-defined expense category
+ */
+export const deleteCategory = (categoryId: string): DeleteCategoryAction => ({
+  type: FinancialActionType.DELETE_CATEGORY,
+  payload: categoryId,
+});
+
+// =============================================================================
+// CASH FLOW ACTION CREATORS
+// =============================================================================
+
+/**
+ * Update the low-balance buffer or the cash-flow calendar's horizon
+ */
+export const updateCashFlowSettings = (
+  settings: Partial<CashFlowSettings>
+): UpdateCashFlowSettingsAction => ({
+  type: FinancialActionType.UPDATE_CASH_FLOW_SETTINGS,
+  payload: settings,
+});
+
 // =============================================================================
 // FORECAST ACTION CREATORS
 // =============================================================================
@@ -292,6 +758,26 @@ export const updateForecastConfig = (
   payload: config,
 });
 
+/**
+ * Update the inflation rates applied in the forecast
+ */
+export const updateInflationSettings = (
+  settings: Partial<InflationSettings>
+): UpdateInflationSettingsAction => ({
+  type: FinancialActionType.UPDATE_INFLATION_SETTINGS,
+  payload: settings,
+});
+
+/**
+ * Choose the tax rules applied to gross income
+ */
+export const updateTaxSettings = (
+  settings: Partial<TaxSettings>
+): UpdateTaxSettingsAction => ({
+  type: FinancialActionType.UPDATE_TAX_SETTINGS,
+  payload: settings,
+});
+
 // =============================================================================
 // USER PLAN ACTION CREATORS
 // =============================================================================
@@ -314,6 +800,24 @@ export const updateCurrentBalance = (
   payload: balance,
 });
 
+/**
+ * Rename the open plan
+ */
+export const updatePlanName = (name: string): UpdatePlanNameAction => ({
+  type: FinancialActionType.UPDATE_PLAN_NAME,
+  payload: name,
+});
+
+/**
+ * Update the currency and language the open plan is shown in
+ */
+export const updatePlanPreferences = (
+  preferences: Partial<PlanPreferences>
+): UpdatePlanPreferencesAction => ({
+  type: FinancialActionType.UPDATE_PLAN_PREFERENCES,
+  payload: preferences,
+});
+
 // =============================================================================
 // DATA PERSISTENCE ACTION CREATORS
 // =============================================================================
@@ -367,6 +871,24 @@ export const markSaved = (): MarkSavedAction => ({
   type: FinancialActionType.MARK_SAVED,
 });
 
+// =============================================================================
+// HISTORY ACTION CREATORS
+// =============================================================================
+
+/**
+ * Return the user plan to its state before the last change
+ */
+export const undo = (): UndoAction => ({
+  type: FinancialActionType.UNDO,
+});
+
+/**
+ * Reapply the last undone change
+ */
+export const redo = (): RedoAction => ({
+  type: FinancialActionType.REDO,
+});
+
 // =============================================================================
 // CONVENIENCE ACTION CREATORS
 // =============================================================================
@@ -440,3 +962,21 @@ export const setGoalError = (message: string): SetErrorAction =>
  */
 export const setForecastError = (message: string): SetErrorAction =>
   setError("forecastError", message);
+
+/**
+ * Set transaction error (shorthand)
+ */
+export const setTransactionError = (message: string): SetErrorAction =>
+  setError("transactionError", message);
+
+/**
+ * Set account error (shorthand)
+ */
+export const setAccountError = (message: string): SetErrorAction =>
+  setError("accountError", message);
+
+/**
+ * Set debt error (shorthand)
+ */
+export const setDebtError = (message: string): SetErrorAction =>
+  setError("debtError", message);
@@ -0,0 +1,160 @@
+/**
+ * Undo History
+ *
+ * Wraps the financial reducer with undo/redo over user plan states. Each
+ * action that changes the plan pushes the previous plan onto the history;
+ * UNDO and REDO move between them by dispatching SET_USER_PLAN to the wrapped
+ * reducer, so the summary is recalculated and the change is auto-saved.
+ */
+
+import { UserPlan } from "../types";
+import { FinancialAction, FinancialActionType, FinancialState } from "./types";
+
+/**
+ * Most plan states kept for undo
+ */
+export const MAX_HISTORY_DEPTH = 50;
+
+/**
+ * Repeats of the same update to the same record within this window (e.g.
+ * typing into a field) are undone together
+ */
+export const COALESCE_WINDOW_MS = 1000;
+
+/**
+ * Actions that replace the plan wholesale start a fresh history
+ */
+const HISTORY_RESET_ACTIONS = new Set<FinancialActionType>([
+  FinancialActionType.INITIALIZE_STATE,
+  FinancialActionType.RESET_STATE,
+  FinancialActionType.LOAD_SUCCESS,
+]);
+
+export interface UndoableState {
+  present: FinancialState;
+  /** Earlier plans, oldest first */
+  past: UserPlan[];
+  /** Undone plans, next redo last */
+  future: UserPlan[];
+  /** Last recorded action, for coalescing */
+  lastAction: {
+    type: FinancialActionType;
+    /** Record the action updated, when it updates one */
+    recordId?: string;
+    timestamp: number;
+  } | null;
+}
+
+export function createUndoableState(state: FinancialState): UndoableState {
+  return { present: state, past: [], future: [], lastAction: null };
+}
+
+/**
+ * Whether two plans differ in more than their id, timestamp and display
+ * preferences. Saving the plan for the first time assigns an id, which is
+ * not a change to undo.
+ */
+function hasPlanChanged(previous: UserPlan, next: UserPlan): boolean {
+  if (previous === next) return false;
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)]);
+  return Array.from(keys).some(
+    (key) =>
+      key !== "id" &&
+      key !== "updatedAt" &&
+      key !== "preferences" &&
+      previous[key as keyof UserPlan] !== next[key as keyof UserPlan]
+  );
+}
+
+/**
+ * Id of the record an update action carries, if any
+ */
+function getRecordId(action: FinancialAction): string | undefined {
+  const payload: unknown = "payload" in action ? action.payload : undefined;
+  return payload &&
+    typeof payload === "object" &&
+    "id" in payload &&
+    typeof payload.id === "string"
+    ? payload.id
+    : undefined;
+}
+
+/**
+ * Add undo/redo to a financial reducer
+ */
+export function withUndoHistory(
+  reducer: (state: FinancialState, action: FinancialAction) => FinancialState
+) {
+  return function undoableReducer(
+    state: UndoableState,
+    action: FinancialAction
+  ): UndoableState {
+    const { present, past, future } = state;
+
+    // The plan keeps its current id, which may have been assigned since,
+    // and its display preferences, which are not undone. Reapplying the
+    // preferences revalues foreign-currency accounts in the kept base
+    // currency.
+    const restore = (userPlan: UserPlan) =>
+      reducer(
+        reducer(present, {
+          type: FinancialActionType.SET_USER_PLAN,
+          payload: {
+            ...userPlan,
+            id: present.userPlan.id,
+            preferences: present.userPlan.preferences,
+          },
+        }),
+        { type: FinancialActionType.UPDATE_PLAN_PREFERENCES, payload: {} }
+      );
+
+    switch (action.type) {
+      case FinancialActionType.UNDO: {
+        if (past.length === 0) return state;
+        return {
+          present: restore(past[past.length - 1]),
+          past: past.slice(0, -1),
+          future: [...future, present.userPlan],
+          lastAction: null,
+        };
+      }
+
+      case FinancialActionType.REDO: {
+        if (future.length === 0) return state;
+        return {
+          present: restore(future[future.length - 1]),
+          past: [...past, present.userPlan],
+          future: future.slice(0, -1),
+          lastAction: null,
+        };
+      }
+    }
+
+    const next = reducer(present, action);
+
+    if (HISTORY_RESET_ACTIONS.has(action.type)) {
+      return createUndoableState(next);
+    }
+    if (!hasPlanChanged(present.userPlan, next.userPlan)) {
+      return { ...state, present: next };
+    }
+
+    const now = Date.now();
+    const recordId = getRecordId(action);
+    const coalesce =
+      action.type.startsWith("UPDATE_") &&
+      state.lastAction?.type === action.type &&
+      state.lastAction.recordId === recordId &&
+      now - state.lastAction.timestamp < COALESCE_WINDOW_MS &&
+      past.length > 0;
+
+    return {
+      present: next,
+      past: coalesce
+        ? past
+        : [...past, present.userPlan].slice(-MAX_HISTORY_DEPTH),
+      future: [],
+      lastAction: { type: action.type, recordId, timestamp: now },
+    };
+  };
+}
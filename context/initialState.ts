@@ -51,6 +51,9 @@ export const initialErrorState: ErrorState = {
   expenseError: null,
   goalError: null,
   forecastError: null,
+  transactionError: null,
+  accountError: null,
+  debtError: null,
 };
 
 /**
@@ -68,6 +71,11 @@ export const initialUserPlan: UserPlan = {
   updatedAt: new Date().toISOString(),
 };
 
+/**
+ * Name shown for plans that have not been given one
+ */
+export const DEFAULT_PLAN_NAME = "My Plan";
+
 /**
  * Initial financial summary with zero values
  */
@@ -0,0 +1,143 @@
+/**
+ * Schema Migrations
+ *
+ * Stored user plans carry the schema version they were saved with. On load
+ * every migration newer than that version runs in order, so a plan saved by
+ * any earlier release is brought up to CURRENT_SCHEMA_VERSION. Add new
+ * migrations to the end of MIGRATIONS and bump the version - never edit or
+ * reorder one that has shipped.
+ */
+
+import { UserPlan } from "../types";
+import { initialForecastConfig } from "./initialState";
+import { createBuiltInCategories } from "../utils/categories";
+
+/**
+ * A plan as stored by some earlier release, before it is migrated
+ */
+type StoredPlan = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+/**
+ * A single step in the migration chain
+ */
+export interface Migration {
+  /** Schema version the plan is at after this migration */
+  version: number;
+  description: string;
+  migrate: (userPlan: StoredPlan) => StoredPlan;
+}
+
+/**
+ * Collections that are optional on UserPlan but stored one record per entity
+ */
+const OPTIONAL_COLLECTIONS = [
+  "accounts",
+  "transfers",
+  "debts",
+  "scenarios",
+  "transactions",
+  "bankImportProfiles",
+  "categorizationRules",
+] as const;
+
+/**
+ * Ordered migration chain. Version 1 is the original localStorage format.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: "Add forecast configuration",
+    migrate: (userPlan) =>
+      userPlan.forecastConfig
+        ? userPlan
+        : {
+            ...userPlan,
+            forecastConfig: {
+              ...initialForecastConfig,
+              startingBalance:
+                typeof userPlan.currentBalance === "number"
+                  ? userPlan.currentBalance
+                  : 0,
+            },
+          },
+  },
+  {
+    version: 3,
+    description: "Drop malformed entries from entity collections",
+    migrate: (userPlan) => {
+      const migrated = { ...userPlan };
+      for (const key of [
+        "income",
+        "expenses",
+        "goals",
+        ...OPTIONAL_COLLECTIONS,
+      ]) {
+        const entities = migrated[key];
+        if (entities === undefined) continue;
+        migrated[key] = Array.isArray(entities)
+          ? entities.filter((entity) => isRecord(entity) && !!entity.id)
+          : [];
+      }
+      return migrated;
+    },
+  },
+  {
+    version: 4,
+    description: "Add the built-in expense categories",
+    migrate: (userPlan) =>
+      Array.isArray(userPlan.categories) && userPlan.categories.length > 0
+        ? userPlan
+        : {
+            ...userPlan,
+            categories: createBuiltInCategories(
+              typeof userPlan.createdAt === "string"
+                ? userPlan.createdAt
+                : undefined
+            ),
+          },
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Read a stored schema version. Releases before the migration chain wrote
+ * "1.0.0" (or nothing at all), which is version 1.
+ */
+export function parseSchemaVersion(version: unknown): number {
+  if (typeof version === "number" && Number.isInteger(version)) {
+    return version;
+  }
+  return 1;
+}
+
+/**
+ * Bring a stored user plan up to the current schema version
+ */
+export function migrateUserPlan(
+  userPlan: unknown,
+  fromVersion: number = 1
+): UserPlan {
+  if (!isRecord(userPlan)) {
+    throw new Error("Saved data does not contain a user plan");
+  }
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `Saved data uses schema version ${fromVersion}, which is newer than this app supports (${CURRENT_SCHEMA_VERSION})`
+    );
+  }
+
+  return MIGRATIONS.filter(
+    (migration) => migration.version > fromVersion
+  ).reduce((plan, migration) => {
+    if (process.env.NODE_ENV === "development") {
+      console.log(
+        `🔄 Migrating user plan to v${migration.version}: ${migration.description}`
+      );
+    }
+    return migration.migrate(plan);
+  }, userPlan) as unknown as UserPlan;
+}
@@ -14,23 +14,70 @@ import {
 import {
   UserPlan,
   FinancialSummary,
-  ExpenseCategory,
+  ExpenseCategoryId,
   GoalCategory,
   Frequency,
+  Account,
+  ExchangeRate,
+  SyncCollection,
+  Tombstone,
+  Transfer,
 } from "../types";
+import { getTotalAccountBalance } from "../utils/accounts";
+import { DEFAULT_DEBT_PAYOFF_SETTINGS } from "../utils/debtCalculator";
+import { DEFAULT_INFLATION_SETTINGS } from "../utils/inflation";
+import { DEFAULT_TAX_SETTINGS } from "../utils/tax";
+import { DEFAULT_HOUSEHOLD_SETTINGS } from "../utils/household";
+import { convertPlanToBaseCurrency } from "../utils/exchangeRates";
+import { DEFAULT_BUDGET_SETTINGS } from "../utils/budget";
+import {
+  FALLBACK_CATEGORY_ID,
+  findCategory,
+  getCategories,
+} from "../utils/categories";
+import { getAverageMonthlyOccurrences } from "../utils/recurrence";
+import { DEFAULT_CASH_FLOW_SETTINGS } from "../utils/cashFlow";
 
 // =============================================================================
 // UTILITY FUNCTIONS
 // =============================================================================
 
 /**
- * Calculate financial summary from user plan data
+ * Tombstones after deleting records, so sync removes them on other devices
+ */
+function addTombstone(
+  userPlan: UserPlan,
+  collection: SyncCollection,
+  ...ids: string[]
+): Tombstone[] {
+  const deletedAt = new Date().toISOString();
+  return [
+    ...(userPlan.deletedRecords || []).filter(
+      (tombstone) =>
+        tombstone.collection !== collection || !ids.includes(tombstone.id)
+    ),
+    ...ids.map((id) => ({ id, collection, deletedAt })),
+  ];
+}
+
+/**
+ * Calculate financial summary from user plan data, in the base currency
  */
-function calculateFinancialSummary(userPlan: UserPlan): FinancialSummary {
+function calculateFinancialSummary(plan: UserPlan): FinancialSummary {
+  const userPlan = convertPlanToBaseCurrency(plan);
+
   // Calculate total monthly income
   const totalMonthlyIncome = userPlan.income
     .filter((income) => income.isActive)
     .reduce((total, income) => {
+      if (income.recurrence) {
+        return (
+          total +
+          income.amount *
+            getAverageMonthlyOccurrences(income.recurrence, income.startDate)
+        );
+      }
+
       switch (income.frequency) {
         case Frequency.MONTHLY:
           return total + income.amount;
@@ -54,6 +101,13 @@ function calculateFinancialSummary(userPlan: UserPlan): FinancialSummary {
     .filter((expense) => expense.isActive)
     .reduce((total, expense) => {
       if (!expense.recurring) return total;
+      if (expense.recurrence) {
+        return (
+          total +
+          expense.amount *
+            getAverageMonthlyOccurrences(expense.recurrence, expense.dueDate)
+        );
+      }
 
       switch (expense.frequency) {
         case Frequency.MONTHLY:
@@ -98,6 +152,16 @@ function calculateFinancialSummary(userPlan: UserPlan): FinancialSummary {
     .reduce((categoryTotals, expense) => {
       const monthlyAmount = expense.recurring
         ? (() => {
+            if (expense.recurrence) {
+              return (
+                expense.amount *
+                getAverageMonthlyOccurrences(
+                  expense.recurrence,
+                  expense.dueDate
+                )
+              );
+            }
+
             switch (expense.frequency) {
               case Frequency.MONTHLY:
                 return expense.amount;
@@ -120,12 +184,12 @@ function calculateFinancialSummary(userPlan: UserPlan): FinancialSummary {
       categoryTotals[expense.category] =
         (categoryTotals[expense.category] || 0) + monthlyAmount;
       return categoryTotals;
-    }, {} as Record<ExpenseCategory, number>);
+    }, {} as Record<ExpenseCategoryId, number>);
 
   // Ensure all categories are present
-  Object.values(ExpenseCategory).forEach((category) => {
-    if (!(category in expensesByCategory)) {
-      expensesByCategory[category] = 0;
+  getCategories(userPlan).forEach(({ id }) => {
+    if (!(id in expensesByCategory)) {
+      expensesByCategory[id] = 0;
     }
   });
 
@@ -187,6 +251,142 @@ function updateStateWithUserPlan(
   };
 }
 
+/**
+ * Replace the plan's accounts, keeping the current balance equal to their
+ * total in the base currency
+ */
+function withAccounts(userPlan: UserPlan, accounts: Account[]): UserPlan {
+  const updatedPlan = { ...userPlan, accounts };
+  return {
+    ...updatedPlan,
+    currentBalance:
+      accounts.length > 0
+        ? getTotalAccountBalance(
+            convertPlanToBaseCurrency(updatedPlan).accounts
+          )
+        : userPlan.currentBalance,
+  };
+}
+
+/**
+ * Replace the plan's exchange rates, revaluing its accounts at the new rates
+ */
+function withExchangeRates(
+  userPlan: UserPlan,
+  exchangeRates: ExchangeRate[]
+): UserPlan {
+  return withAccounts({ ...userPlan, exchangeRates }, userPlan.accounts || []);
+}
+
+/**
+ * Delete an account. Items tied to it fall back to the primary account and
+ * transfers to or from it are removed.
+ */
+function removeAccount(userPlan: UserPlan, accountId: string): UserPlan {
+  const clearAccount = <T extends { accountId?: string }>(item: T): T =>
+    item.accountId === accountId ? { ...item, accountId: undefined } : item;
+  const isTransferOfAccount = (transfer: Transfer) =>
+    transfer.fromAccountId === accountId || transfer.toAccountId === accountId;
+  const transfers = userPlan.transfers || [];
+
+  return {
+    ...withAccounts(
+      userPlan,
+      (userPlan.accounts || []).filter((account) => account.id !== accountId)
+    ),
+    income: userPlan.income.map(clearAccount),
+    expenses: userPlan.expenses.map(clearAccount),
+    goals: userPlan.goals.map(clearAccount),
+    transfers: transfers.filter((transfer) => !isTransferOfAccount(transfer)),
+    deletedRecords: addTombstone(
+      {
+        ...userPlan,
+        deletedRecords: addTombstone(userPlan, "accounts", accountId),
+      },
+      "transfers",
+      ...transfers.filter(isTransferOfAccount).map((transfer) => transfer.id)
+    ),
+  };
+}
+
+/**
+ * Delete a household member. Their items become joint and they drop out of
+ * fixed splits.
+ */
+function removeHouseholdMember(userPlan: UserPlan, memberId: string): UserPlan {
+  const clearOwner = <T extends { ownerId?: string }>(item: T): T =>
+    item.ownerId === memberId ? { ...item, ownerId: undefined } : item;
+  const withoutMember = (shares: Record<string, number> = {}) =>
+    Object.fromEntries(
+      Object.entries(shares).filter(([id]) => id !== memberId)
+    );
+
+  return {
+    ...userPlan,
+    householdMembers: (userPlan.householdMembers || []).filter(
+      (member) => member.id !== memberId
+    ),
+    deletedRecords: addTombstone(userPlan, "householdMembers", memberId),
+    householdSettings: userPlan.householdSettings && {
+      ...userPlan.householdSettings,
+      fixedShares: withoutMember(userPlan.householdSettings.fixedShares),
+    },
+    income: userPlan.income.map(clearOwner),
+    expenses: userPlan.expenses.map((expense) =>
+      clearOwner(
+        expense.splitShares
+          ? { ...expense, splitShares: withoutMember(expense.splitShares) }
+          : expense
+      )
+    ),
+    goals: userPlan.goals.map(clearOwner),
+  };
+}
+
+/**
+ * Delete a user-defined category. Its items and sub-categories move to its
+ * parent (or to the fallback category) and its budget and inflation rate are
+ * dropped.
+ */
+function removeCategory(userPlan: UserPlan, categoryId: string): UserPlan {
+  const categories = getCategories(userPlan);
+  const category = findCategory(categories, categoryId);
+  if (!category || category.builtIn) return userPlan;
+
+  const replacementId = category.parentId || FALLBACK_CATEGORY_ID;
+  const recategorize = <T extends { category?: ExpenseCategoryId }>(
+    item: T
+  ): T =>
+    item.category === categoryId ? { ...item, category: replacementId } : item;
+  const withoutCategory = <T>(entries: Partial<Record<string, T>> = {}) =>
+    Object.fromEntries(
+      Object.entries(entries).filter(([id]) => id !== categoryId)
+    );
+
+  return {
+    ...userPlan,
+    categories: categories
+      .filter((entry) => entry.id !== categoryId)
+      .map((entry) =>
+        entry.parentId === categoryId
+          ? { ...entry, parentId: category.parentId }
+          : entry
+      ),
+    expenses: userPlan.expenses.map(recategorize),
+    transactions: userPlan.transactions?.map(recategorize),
+    categorizationRules: userPlan.categorizationRules?.map(recategorize),
+    budgetSettings: userPlan.budgetSettings && {
+      ...userPlan.budgetSettings,
+      categories: withoutCategory(userPlan.budgetSettings.categories),
+    },
+    inflationSettings: userPlan.inflationSettings && {
+      ...userPlan.inflationSettings,
+      categoryRates: withoutCategory(userPlan.inflationSettings.categoryRates),
+    },
+    deletedRecords: addTombstone(userPlan, "categories", categoryId),
+  };
+}
+
 // =============================================================================
 // MAIN REDUCER FUNCTION
 // =============================================================================
@@ -292,6 +492,7 @@ export function financialReducer(
         income: state.userPlan.income.filter(
           (income) => income.id !== action.payload
         ),
+        deletedRecords: addTombstone(state.userPlan, "income", action.payload),
       });
 
     case FinancialActionType.SET_INCOME_LIST:
@@ -321,6 +522,11 @@ export function financialReducer(
         expenses: state.userPlan.expenses.filter(
           (expense) => expense.id !== action.payload
         ),
+        deletedRecords: addTombstone(
+          state.userPlan,
+          "expenses",
+          action.payload
+        ),
       });
 
     case FinancialActionType.SET_EXPENSE_LIST:
@@ -350,6 +556,16 @@ export function financialReducer(
         goals: state.userPlan.goals.filter(
           (goal) => goal.id !== action.payload
         ),
+        // Paychecks stop paying into the deleted goal
+        income: state.userPlan.income.map((income) =>
+          income.paycheck?.retirementGoalId === action.payload
+            ? {
+                ...income,
+                paycheck: { ...income.paycheck, retirementGoalId: undefined },
+              }
+            : income
+        ),
+        deletedRecords: addTombstone(state.userPlan, "goals", action.payload),
       });
 
     case FinancialActionType.SET_GOAL_LIST:
@@ -358,6 +574,395 @@ export function financialReducer(
         goals: action.payload,
       });
 
+    // Scenario actions
+    case FinancialActionType.ADD_SCENARIO:
+      return updateStateWithUserPlan(state, {
+        ...state.userPlan,
+        scenarios: [...(state.userPlan.scenarios || []), action.payload],
+      });
+
+    case FinancialActionType.UPDATE_SCENARIO:
+      return updateStateWithUserPlan(state, {
+        ...state.userPlan,
+        scenarios: (state.userPlan.scenarios || []).map((scenario) =>
+          scenario.id === action.payload.id ? action.payload : scenario
+        ),
+      });
+
+    case FinancialActionType.DELETE_SCENARIO:
+      return updateStateWithUserPlan(state, {
+        ...state.userPlan,
+        scenarios: (state.userPlan.scenarios || []).filter(
+          (scenario) => scenario.id !== action.payload
+        ),
+        deletedRecords: addTombstone(
+          state.userPlan,
+          "scenarios",
+          action.payload
+        ),
+      });
+
+    // Transaction actions
+    case FinancialActionType.ADD_TRANSACTION:
+      return updateStateWithUserPlan(state, {
+        ...state.userPlan,
+        transactions: [...(state.userPlan.transactions || []), action.payload],
+      });
+
+    case FinancialActionType.UPDATE_TRANSACTION:
+      return updateStateWithUserPlan(state, {
+        ...state.userPlan,
+        transactions: (state.userPlan.transactions || []).map((transaction) =>
+          transaction.id === action.payload.id ? action.payload : transaction
+        ),
+      });
+
+    case FinancialActionType.DELETE_TRANSACTION:
+      return updateStateWithUserPlan(state, {
+        ...state.userPlan,
+        transactions: (state.userPlan.transactions || []).filter(
+          (transaction) => transaction.id !== action.payload
+        ),
+        deletedRecords: addTombstone(
+          state.userPlan,
+          "transactions",
+          action.payload
+        ),
+      });
+
+    case FinancialActionType.SET_TRANSACTION_LIST:
+      return updateStateWithUserPlan(state, {
+        ...state.userPlan,
+        transactions: action.payload,
+      });
+
+    case FinancialActionType.IMPORT_TRANSACTIONS:
+      return updateStateWithUserPlan(state, {
+        ...state.userPlan,
+        transactions: [
+          ...(state.userPlan.transactions || []),
+          ...action.payload,
+        ],
+      });
+
+    // BankImportProfile actions
+    case FinancialActionType.ADD_BANK_IMPORT_PROFILE:
+      return updateStateWithUserPlan(state, {
+        ...state.userPlan,
+        bankImportProfiles: [
+          ...(state.userPlan.bankImportProfiles || []),
+          action.payload,
+        ],
+      });
+
+    case FinancialActionType.UPDATE_BANK_IMPORT_PROFILE:
+      return updateStateWithUserPlan(state, {
+        ...state.userPlan,
+        bankImportProfiles: (state.userPlan.bankImportProfiles || []).map(
+          (bankImportProfile) =>
+            bankImportProfile.id === action.payload.id
+              ? action.payload
+              : bankImportProfile
+        ),
+      });
+
+    case FinancialActionType.DELETE_BANK_IMPORT_PROFILE:
+      return updateStateWithUserPlan(state, {
+        ...state.userPlan,
+        bankImportProfiles: (state.userPlan.bankImportProfiles || []).filter(
+          (bankImportProfile) => bankImportProfile.id !== action.payload
+        ),
+        deletedRecords: addTombstone(
+          state.userPlan,
+          "bankImportProfiles",
+          action.payload
+        ),
+      });
+
+    // Categorization rule actions
+    case FinancialActionType.ADD_CATEGORIZATION_RULE:
+      return updateStateWithUserPlan(state, {
+        ...state.userPlan,
+        categorizationRules: [
+          ...(state.userPlan.categorizationRules || []),
+          action.payload,
+        ],
+      });
+
+    case FinancialActionType.UPDATE_CATEGORIZATION_RULE:
+      return updateStateWithUserPlan(state, {
+        ...state.userPlan,
+        categorizationRules: (state.userPlan.categorizationRules || []).map(
+          (categorizationRule) =>
+            categorizationRule.id === action.payload.id
+              ? action.payload
+              : categorizationRule
+        ),
+      });
+
+    case FinancialActionType.DELETE_CATEGORIZATION_RULE:
+      return updateStateWithUserPlan(state, {
+        ...state.userPlan,
+        categorizationRules: (state.userPlan.categorizationRules || []).filter(
+          (categorizationRule) => categorizationRule.id !== action.payload
+        ),
+        deletedRecords: addTombstone(
+          state.userPlan,
+          "categorizationRules",
+          action.payload
+        ),
+      });
+
+    case FinancialActionType.SET_CATEGORIZATION_RULE_LIST:
+      return updateStateWithUserPlan(state, {
+        ...state.userPlan,
+        categorizationRules: action.payload,
+      });
+
+    // Account actions
+    case FinancialActionType.ADD_ACCOUNT:
+      return updateStateWithUserPlan(
+        state,
+        withAccounts(state.userPlan, [
+          ...(state.userPlan.accounts || []),
+          action.payload,
+        ])
+      );
+
+    case FinancialActionType.UPDATE_ACCOUNT:
+      return updateStateWithUserPlan(
+        state,
+        withAccounts(
+          state.userPlan,
+          (state.userPlan.accounts || []).map((account) =>
+            account.id === action.payload.id ? action.payload : account
+          )
+        )
+      );
+
+    case FinancialActionType.DELETE_ACCOUNT:
+      return updateStateWithUserPlan(
+        state,
+        removeAccount(state.userPlan, action.payload)
+      );
+
+    // Transfer actions
+    case FinancialActionType.ADD_TRANSFER:
+      return updateStateWithUserPlan(state, {
+        ...state.userPlan,
+        transfers: [...(state.userPlan.transfers || []), action.payload],
+      });
+
+    case FinancialActionType.UPDATE_TRANSFER:
+      return updateStateWithUserPlan(state, {
+        ...state.userPlan,
+        transfers: (state.userPlan.transfers || []).map((transfer) =>
+          transfer.id === action.payload.id ? action.payload : transfer
+        ),
+      });
+
+    case FinancialActionType.DELETE_TRANSFER:
+      return updateStateWithUserPlan(state, {
+        ...state.userPlan,
+        transfers: (state.userPlan.transfers || []).filter(
+          (transfer) => transfer.id !== action.payload
+        ),
+        deletedRecords: addTombstone(
+          state.userPlan,
+          "transfers",
+          action.payload
+        ),
+      });
+
+    // Debt actions
+    case FinancialActionType.ADD_DEBT:
+      return updateStateWithUserPlan(state, {
+        ...state.userPlan,
+        debts: [...(state.userPlan.debts || []), action.payload],
+      });
+
+    case FinancialActionType.UPDATE_DEBT:
+      return updateStateWithUserPlan(state, {
+        ...state.userPlan,
+        debts: (state.userPlan.debts || []).map((debt) =>
+          debt.id === action.payload.id ? action.payload : debt
+        ),
+      });
+
+    case FinancialActionType.DELETE_DEBT:
+      return updateStateWithUserPlan(state, {
+        ...state.userPlan,
+        debts: (state.userPlan.debts || []).filter(
+          (debt) => debt.id !== action.payload
+        ),
+        deletedRecords: addTombstone(state.userPlan, "debts", action.payload),
+      });
+
+    case FinancialActionType.SET_DEBT_LIST:
+      return updateStateWithUserPlan(state, {
+        ...state.userPlan,
+        debts: action.payload,
+      });
+
+    case FinancialActionType.UPDATE_DEBT_PAYOFF_SETTINGS:
+      return updateStateWithUserPlan(state, {
+        ...state.userPlan,
+        debtPayoffSettings: {
+          ...DEFAULT_DEBT_PAYOFF_SETTINGS,
+          ...state.userPlan.debtPayoffSettings,
+          ...action.payload,
+          updatedAt: new Date().toISOString(),
+        },
+      });
+
+    // Household actions
+    case FinancialActionType.ADD_HOUSEHOLD_MEMBER:
+      return updateStateWithUserPlan(state, {
+        ...state.userPlan,
+        householdMembers: [
+          ...(state.userPlan.householdMembers || []),
+          action.payload,
+        ],
+      });
+
+    case FinancialActionType.UPDATE_HOUSEHOLD_MEMBER:
+      return updateStateWithUserPlan(state, {
+        ...state.userPlan,
+        householdMembers: (state.userPlan.householdMembers || []).map(
+          (member) =>
+            member.id === action.payload.id ? action.payload : member
+        ),
+      });
+
+    case FinancialActionType.DELETE_HOUSEHOLD_MEMBER:
+      return updateStateWithUserPlan(
+        state,
+        removeHouseholdMember(state.userPlan, action.payload)
+      );
+
+    case FinancialActionType.UPDATE_HOUSEHOLD_SETTINGS:
+      return updateStateWithUserPlan(state, {
+        ...state.userPlan,
+        householdSettings: {
+          ...DEFAULT_HOUSEHOLD_SETTINGS,
+          ...state.userPlan.householdSettings,
+          ...action.payload,
+          updatedAt: new Date().toISOString(),
+        },
+      });
+
+    // Exchange rate actions
+    case FinancialActionType.ADD_EXCHANGE_RATE:
+      return updateStateWithUserPlan(
+        state,
+        withExchangeRates(state.userPlan, [
+          ...(state.userPlan.exchangeRates || []),
+          action.payload,
+        ])
+      );
+
+    case FinancialActionType.UPDATE_EXCHANGE_RATE:
+      return updateStateWithUserPlan(
+        state,
+        withExchangeRates(
+          state.userPlan,
+          (state.userPlan.exchangeRates || []).map((rate) =>
+            rate.id === action.payload.id ? action.payload : rate
+          )
+        )
+      );
+
+    case FinancialActionType.DELETE_EXCHANGE_RATE:
+      return updateStateWithUserPlan(
+        state,
+        withExchangeRates(
+          {
+            ...state.userPlan,
+            deletedRecords: addTombstone(
+              state.userPlan,
+              "exchangeRates",
+              action.payload
+            ),
+          },
+          (state.userPlan.exchangeRates || []).filter(
+            (rate) => rate.id !== action.payload
+          )
+        )
+      );
+
+    case FinancialActionType.IMPORT_EXCHANGE_RATES: {
+      const isReplaced = (rate: ExchangeRate) =>
+        action.payload.some(
+          (imported) =>
+            imported.from === rate.from &&
+            imported.to === rate.to &&
+            imported.date === rate.date
+        );
+      const exchangeRates = state.userPlan.exchangeRates || [];
+      return updateStateWithUserPlan(
+        state,
+        withExchangeRates(
+          {
+            ...state.userPlan,
+            deletedRecords: addTombstone(
+              state.userPlan,
+              "exchangeRates",
+              ...exchangeRates.filter(isReplaced).map((rate) => rate.id)
+            ),
+          },
+          [
+            ...exchangeRates.filter((rate) => !isReplaced(rate)),
+            ...action.payload,
+          ]
+        )
+      );
+    }
+
+    // Budget actions
+    case FinancialActionType.UPDATE_BUDGET_SETTINGS:
+      return updateStateWithUserPlan(state, {
+        ...state.userPlan,
+        budgetSettings: {
+          ...DEFAULT_BUDGET_SETTINGS,
+          ...state.userPlan.budgetSettings,
+          ...action.payload,
+          updatedAt: new Date().toISOString(),
+        },
+      });
+
+    // Category actions
+    case FinancialActionType.ADD_CATEGORY:
+      return updateStateWithUserPlan(state, {
+        ...state.userPlan,
+        categories: [...getCategories(state.userPlan), action.payload],
+      });
+
+    case FinancialActionType.UPDATE_CATEGORY:
+      return updateStateWithUserPlan(state, {
+        ...state.userPlan,
+        categories: getCategories(state.userPlan).map((category) =>
+          category.id === action.payload.id ? action.payload : category
+        ),
+      });
+
+    case FinancialActionType.DELETE_CATEGORY:
+      return updateStateWithUserPlan(
+        state,
+        removeCategory(state.userPlan, action.payload)
+      );
+
+    // Cash flow actions
+    case FinancialActionType.UPDATE_CASH_FLOW_SETTINGS:
+      return updateStateWithUserPlan(state, {
+        ...state.userPlan,
+        cashFlowSettings: {
+          ...DEFAULT_CASH_FLOW_SETTINGS,
+          ...state.userPlan.cashFlowSettings,
+          ...action.payload,
+          updatedAt: new Date().toISOString(),
+        },
+      });
+
     // Forecast actions
     case FinancialActionType.SET_FORECAST:
       return updateStateWithUserPlan(state, {
@@ -382,6 +987,28 @@ export function financialReducer(
         },
       });
 
+    case FinancialActionType.UPDATE_INFLATION_SETTINGS:
+      return updateStateWithUserPlan(state, {
+        ...state.userPlan,
+        inflationSettings: {
+          ...DEFAULT_INFLATION_SETTINGS,
+          ...state.userPlan.inflationSettings,
+          ...action.payload,
+          updatedAt: new Date().toISOString(),
+        },
+      });
+
+    case FinancialActionType.UPDATE_TAX_SETTINGS:
+      return updateStateWithUserPlan(state, {
+        ...state.userPlan,
+        taxSettings: {
+          ...DEFAULT_TAX_SETTINGS,
+          ...state.userPlan.taxSettings,
+          ...action.payload,
+          updatedAt: new Date().toISOString(),
+        },
+      });
+
     // UserPlan actions
     case FinancialActionType.SET_USER_PLAN:
       return updateStateWithUserPlan(state, action.payload);
@@ -392,6 +1019,24 @@ export function financialReducer(
         currentBalance: action.payload,
       });
 
+    case FinancialActionType.UPDATE_PLAN_NAME:
+      return updateStateWithUserPlan(state, {
+        ...state.userPlan,
+        name: action.payload,
+      });
+
+    case FinancialActionType.UPDATE_PLAN_PREFERENCES: {
+      // The currency preference is the base currency accounts are totalled in
+      const updatedPlan = {
+        ...state.userPlan,
+        preferences: { ...state.userPlan.preferences, ...action.payload },
+      };
+      return updateStateWithUserPlan(
+        state,
+        withAccounts(updatedPlan, updatedPlan.accounts || [])
+      );
+    }
+
     // Data persistence actions
     case FinancialActionType.SAVE_SUCCESS:
       return {
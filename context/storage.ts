@@ -1,66 +1,207 @@
 /**
  * Data Storage and Persistence
  *
- * This file handles saving and loading user plan data to/from localStorage
- * with proper error handling and data validation.
+ * This file handles saving and loading user plan data through the storage
+ * backend (IndexedDB, or localStorage where it is unavailable), running schema
+ * migrations on load and moving data saved by older releases out of
+ * localStorage. Each save also feeds a rolling history of backups. Plans other
+ * than the open one are stored whole until they are opened. With a
+ * passphrase set, plans and backups are only ever written encrypted.
  */
 
-import { UserPlan } from "../types";
-import { initialForecastConfig } from "./initialState";
+import { PlanSummary, UserPlan } from "../types";
+import {
+  EncryptedPayload,
+  KeyDerivationParams,
+  PassphraseKey,
+  decryptWithKey,
+  deriveKey,
+  encryptWithKey,
+  isEncryptedPayload,
+} from "../utils/encryption";
+import { DEFAULT_PLAN_NAME } from "./initialState";
+import { CURRENT_SCHEMA_VERSION, migrateUserPlan } from "./migrations";
+import {
+  PlanBackup,
+  StorageBackend,
+  StoredPlan,
+  StoredUserPlan,
+  createLocalStorageBackend,
+  getStorageBackend,
+  readAppSettings,
+  writeAppSettings,
+} from "./storageBackends";
 
 // =============================================================================
-// STORAGE KEYS
+// ENCRYPTION
 // =============================================================================
 
-const STORAGE_KEYS = {
-  USER_PLAN: "finance-planner-user-plan",
-  APP_SETTINGS: "finance-planner-settings",
-  BACKUP_DATA: "finance-planner-backup",
-} as const;
+/**
+ * Known text encrypted with the key, to check a passphrase without any plan
+ */
+const ENCRYPTION_CHECK = "finance-planner";
 
-// =============================================================================
-// STORAGE UTILITIES
-// =============================================================================
+interface EncryptionSettings {
+  kdf: KeyDerivationParams;
+  check: EncryptedPayload;
+}
+
+/** Key for this session - only held in memory, never stored */
+let sessionKey: PassphraseKey | null = null;
+
+function getEncryptionSettings(): EncryptionSettings | null {
+  return (
+    (readAppSettings().encryption as EncryptionSettings | null | undefined) ||
+    null
+  );
+}
 
 /**
- * Check if localStorage is available
+ * Whether a passphrase has been set for stored data
  */
-function isLocalStorageAvailable(): boolean {
-  try {
-    if (typeof window === "undefined") return false;
+export function isEncryptionEnabled(): boolean {
+  return getEncryptionSettings() !== null;
+}
 
-    const test = "__storage_test__";
-    window.localStorage.setItem(test, test);
-    window.localStorage.removeItem(test);
-    return true;
-  } catch {
-    return false;
-  }
+/**
+ * Whether stored data is encrypted and the passphrase has not been entered
+ */
+export function isStorageLocked(): boolean {
+  return isEncryptionEnabled() && !sessionKey;
 }
 
 /**
- * Safely parse JSON data with error handling
+ * Enter the passphrase for this session. Throws if it is wrong.
  */
-function safeJsonParse<T>(data: string, fallback: T): T {
-  try {
-    const parsed = JSON.parse(data);
-    return parsed || fallback;
-  } catch {
-    console.warn("Failed to parse JSON data, using fallback");
-    return fallback;
-  }
+export async function unlockStorage(passphrase: string): Promise<void> {
+  const settings = getEncryptionSettings();
+  if (!settings) return;
+
+  const key = await deriveKey(passphrase, settings.kdf);
+  await decryptWithKey(settings.check, key);
+  sessionKey = key;
 }
 
 /**
- * Safely stringify data with error handling
+ * Key entered for this session, for encrypting data that leaves the device
+ * (null when no passphrase is set or storage is locked)
  */
-function safeJsonStringify(data: any): string | null {
-  try {
-    return JSON.stringify(data);
-  } catch (error) {
-    console.error("Failed to stringify data:", error);
-    return null;
+export function getSessionKey(): PassphraseKey | null {
+  return sessionKey;
+}
+
+/**
+ * Forget the passphrase until it is entered again
+ */
+export function lockStorage(): void {
+  sessionKey = null;
+}
+
+async function encryptIfEnabled<T>(userPlan: T): Promise<T | EncryptedPayload> {
+  if (!isEncryptionEnabled()) return userPlan;
+  if (!sessionKey) throw new Error("Storage is locked");
+  return encryptWithKey(JSON.stringify(userPlan), sessionKey);
+}
+
+async function decryptIfNeeded(stored: {
+  userPlan?: unknown;
+  encrypted?: EncryptedPayload;
+}): Promise<unknown> {
+  if (!stored.encrypted) return stored.userPlan;
+  if (!sessionKey) throw new Error("Storage is locked");
+  return JSON.parse(await decryptWithKey(stored.encrypted, sessionKey));
+}
+
+async function toBackup(
+  backup: Omit<PlanBackup, "userPlan" | "encrypted">,
+  userPlan: unknown
+): Promise<PlanBackup> {
+  const data = await encryptIfEnabled(userPlan);
+  return isEncryptedPayload(data)
+    ? { ...backup, encrypted: data }
+    : { ...backup, userPlan: data };
+}
+
+/**
+ * Read the stored plans and backups, change the encryption settings, then
+ * write everything back in the new form
+ */
+async function rewriteStoredData(changeSettings: () => void): Promise<void> {
+  const backend = await getStorageBackend();
+  const stored = await backend.load();
+  const userPlan = stored ? await decryptIfNeeded(stored) : null;
+  const backups = await Promise.all(
+    (
+      await backend.listBackups()
+    ).map(async (backup) => ({
+      backup,
+      userPlan: await decryptIfNeeded(backup),
+    }))
+  );
+  const plans = await Promise.all(
+    (
+      await backend.listPlans()
+    ).map(async (plan) => ({ plan, userPlan: await decryptIfNeeded(plan) }))
+  );
+
+  changeSettings();
+
+  if (stored && userPlan) {
+    // Saved again as read, at the schema version it was stored with
+    await backend.save(
+      await encryptIfEnabled(userPlan as UserPlan),
+      stored.schemaVersion
+    );
+  }
+  for (const { backup, userPlan: backupPlan } of backups) {
+    const { id, planId, timestamp, schemaVersion } = backup;
+    await backend.saveBackup(
+      await toBackup({ id, planId, timestamp, schemaVersion }, backupPlan)
+    );
+  }
+  for (const { plan, userPlan: storedPlan } of plans) {
+    const data = await encryptIfEnabled(storedPlan);
+    const { id, schemaVersion, lastSaved } = plan;
+    await backend.savePlan(
+      isEncryptedPayload(data)
+        ? { id, schemaVersion, lastSaved, encrypted: data }
+        : { id, schemaVersion, lastSaved, userPlan: data }
+    );
   }
+
+  // Plaintext backups left in localStorage by releases before IndexedDB
+  if (backend.name === "indexeddb") {
+    const legacyBackend = createLocalStorageBackend();
+    const legacyBackups = await legacyBackend.listBackups();
+    await legacyBackend.deleteBackups(legacyBackups.map((backup) => backup.id));
+  }
+}
+
+/**
+ * Encrypt the stored plan and backups with a passphrase
+ */
+export async function enableEncryption(passphrase: string): Promise<void> {
+  if (isStorageLocked()) throw new Error("Storage is locked");
+
+  const key = await deriveKey(passphrase);
+  const check = await encryptWithKey(ENCRYPTION_CHECK, key);
+
+  await rewriteStoredData(() => {
+    writeAppSettings({ encryption: { kdf: key.kdf, check } });
+    sessionKey = key;
+  });
+}
+
+/**
+ * Store the plan and backups in plain text again
+ */
+export async function disableEncryption(): Promise<void> {
+  if (isStorageLocked()) throw new Error("Storage is locked");
+
+  await rewriteStoredData(() => {
+    writeAppSettings({ encryption: null });
+    sessionKey = null;
+  });
 }
 
 // =============================================================================
@@ -68,17 +209,12 @@ function safeJsonStringify(data: any): string | null {
 // =============================================================================
 
 /**
- * Save user plan to localStorage
+ * Save user plan to storage
  */
 export async function saveUserPlan(userPlan: UserPlan): Promise<UserPlan> {
-  if (!isLocalStorageAvailable()) {
-    throw new Error("localStorage is not available");
-  }
+  const backend = await getStorageBackend();
 
   try {
-    // Create backup before saving new data
-    await createBackup(userPlan);
-
     // Generate a unique ID if this is the first save (default plan)
     const planToSave =
       userPlan.id === "default-plan"
@@ -94,25 +230,15 @@ export async function saveUserPlan(userPlan: UserPlan): Promise<UserPlan> {
             updatedAt: new Date().toISOString(),
           };
 
-    const serialized = safeJsonStringify(planToSave);
-    if (!serialized) {
-      throw new Error("Failed to serialize user plan");
-    }
-
-    window.localStorage.setItem(STORAGE_KEYS.USER_PLAN, serialized);
-
-    // Update last saved timestamp
-    const metadata = {
-      lastSaved: new Date().toISOString(),
-      version: "1.0.0",
-    };
+    // Create backup before saving new data
+    await createBackup(planToSave);
 
-    window.localStorage.setItem(
-      `${STORAGE_KEYS.USER_PLAN}-metadata`,
-      safeJsonStringify(metadata) || "{}"
+    await backend.save(
+      await encryptIfEnabled(planToSave),
+      CURRENT_SCHEMA_VERSION
     );
 
-    console.log("✅ User plan saved successfully");
+    console.log(`✅ User plan saved successfully (${backend.name})`);
     return planToSave;
   } catch (error) {
     console.error("❌ Failed to save user plan:", error);
@@ -121,31 +247,34 @@ export async function saveUserPlan(userPlan: UserPlan): Promise<UserPlan> {
 }
 
 /**
- * Load user plan from localStorage
+ * Load user plan from storage, migrating it to the current schema
  */
 export async function loadUserPlan(): Promise<UserPlan | null> {
-  if (!isLocalStorageAvailable()) {
-    console.warn("localStorage is not available");
-    return null;
-  }
+  let stored: StoredUserPlan | null = null;
 
   try {
-    const data = window.localStorage.getItem(STORAGE_KEYS.USER_PLAN);
-
-    if (!data) {
-      console.log("No saved user plan found");
-      return null;
+    const backend = await getStorageBackend();
+    stored = await backend.load();
+
+    // First load with IndexedDB - bring over data saved to localStorage
+    const legacyBackend =
+      !stored && backend.name === "indexeddb"
+        ? createLocalStorageBackend()
+        : null;
+    if (legacyBackend) {
+      stored = await legacyBackend.load();
     }
 
-    const userPlan = safeJsonParse<UserPlan | null>(data, null);
-
-    if (!userPlan) {
-      console.warn("Invalid user plan data found in storage");
+    if (!stored) {
+      console.log("No saved user plan found");
       return null;
     }
 
     // Migrate older data if needed
-    const migratedUserPlan = migrateUserPlan(userPlan);
+    const migratedUserPlan = migrateUserPlan(
+      await decryptIfNeeded(stored),
+      stored.schemaVersion
+    );
 
     // Validate the loaded data structure
     if (!isValidUserPlan(migratedUserPlan)) {
@@ -153,25 +282,38 @@ export async function loadUserPlan(): Promise<UserPlan | null> {
       return null;
     }
 
+    if (legacyBackend || stored.schemaVersion < CURRENT_SCHEMA_VERSION) {
+      await backend.save(
+        await encryptIfEnabled(migratedUserPlan),
+        CURRENT_SCHEMA_VERSION
+      );
+    }
+    if (legacyBackend) {
+      // Only removed once the copy in IndexedDB has been written
+      await legacyBackend.remove();
+      console.log("✅ Moved user plan from localStorage to IndexedDB");
+    }
+
     console.log("✅ User plan loaded successfully");
     return migratedUserPlan;
   } catch (error) {
     console.error("❌ Failed to load user plan:", error);
+    // Surface data from a newer release (or still locked) rather than
+    // starting over on top of it
+    if (stored && stored.schemaVersion > CURRENT_SCHEMA_VERSION) throw error;
+    if (stored?.encrypted) throw error;
     return null;
   }
 }
 
 /**
- * Delete user plan from localStorage
+ * Delete user plan from storage
  */
 export async function deleteUserPlan(): Promise<void> {
-  if (!isLocalStorageAvailable()) {
-    throw new Error("localStorage is not available");
-  }
+  const backend = await getStorageBackend();
 
   try {
-    window.localStorage.removeItem(STORAGE_KEYS.USER_PLAN);
-    window.localStorage.removeItem(`${STORAGE_KEYS.USER_PLAN}-metadata`);
+    await backend.remove();
 
     console.log("✅ User plan deleted successfully");
   } catch (error) {
@@ -185,43 +327,273 @@ export async function deleteUserPlan(): Promise<void> {
 // =============================================================================
 
 /**
- * Create a backup of the current user plan
+ * How many snapshots the backup history keeps
  */
-export async function createBackup(userPlan: UserPlan): Promise<void> {
-  if (!isLocalStorageAvailable()) return;
+export interface BackupSettings {
+  /** Most snapshots to keep */
+  maxBackups: number;
+  /** Snapshots older than this are removed (0 keeps them regardless of age) */
+  maxAgeDays: number;
+  /** Saves within this many minutes of the newest snapshot don't add one */
+  minIntervalMinutes: number;
+}
 
-  try {
-    const backup = {
-      userPlan,
-      timestamp: new Date().toISOString(),
-      version: "1.0.0",
-    };
+export const DEFAULT_BACKUP_SETTINGS: BackupSettings = {
+  maxBackups: 20,
+  maxAgeDays: 30,
+  minIntervalMinutes: 10,
+};
+
+/**
+ * Backup settings are kept per browser rather than in the plan, so restoring
+ * a snapshot does not change them
+ */
+export function getBackupSettings(): BackupSettings {
+  return {
+    ...DEFAULT_BACKUP_SETTINGS,
+    ...(readAppSettings().backups as Partial<BackupSettings> | undefined),
+  };
+}
+
+export function updateBackupSettings(
+  settings: Partial<BackupSettings>
+): BackupSettings {
+  const updated = { ...getBackupSettings(), ...settings };
+  writeAppSettings({ backups: updated });
+  return updated;
+}
+
+/**
+ * Each plan has its own history. Snapshots from before there were several
+ * plans belong to every plan.
+ */
+const isBackupOf = (backup: PlanBackup, planId: string) =>
+  !backup.planId || backup.planId === planId;
+
+const newestFirst = (a: PlanBackup, b: PlanBackup) =>
+  Date.parse(b.timestamp) - Date.parse(a.timestamp);
+
+/**
+ * Remove snapshots beyond the configured count or age. The newest snapshot
+ * is always kept.
+ */
+async function pruneBackups(
+  backend: StorageBackend,
+  backups: PlanBackup[],
+  settings: BackupSettings
+): Promise<void> {
+  const oldestKept = Date.now() - settings.maxAgeDays * 24 * 60 * 60 * 1000;
+  const expired = [...backups]
+    .sort(newestFirst)
+    .filter(
+      (backup, index) =>
+        index > 0 &&
+        (index >= settings.maxBackups ||
+          (settings.maxAgeDays > 0 &&
+            Date.parse(backup.timestamp) < oldestKept))
+    );
+
+  if (expired.length > 0) {
+    await backend.deleteBackups(expired.map((backup) => backup.id));
+  }
+}
 
-    const serialized = safeJsonStringify(backup);
-    if (serialized) {
-      window.localStorage.setItem(STORAGE_KEYS.BACKUP_DATA, serialized);
+/**
+ * Add a snapshot of the user plan to the backup history
+ */
+export async function createBackup(userPlan: UserPlan): Promise<void> {
+  try {
+    const backend = await getStorageBackend();
+    const settings = getBackupSettings();
+    const backups = (await backend.listBackups())
+      .filter((backup) => isBackupOf(backup, userPlan.id))
+      .sort(newestFirst);
+
+    const now = new Date();
+    if (
+      backups[0] &&
+      now.getTime() - Date.parse(backups[0].timestamp) <
+        settings.minIntervalMinutes * 60 * 1000
+    ) {
+      return;
     }
+
+    const backup = await toBackup(
+      {
+        id: `backup-${now.getTime()}`,
+        planId: userPlan.id,
+        timestamp: now.toISOString(),
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+      },
+      userPlan
+    );
+    await backend.saveBackup(backup);
+    await pruneBackups(backend, [backup, ...backups], settings);
   } catch (error) {
     console.warn("Failed to create backup:", error);
   }
 }
 
 /**
- * Migrate older user plan data to include forecast configuration
+ * A snapshot as shown in the backup history, decrypted and migrated
  */
-function migrateUserPlan(userPlan: any): UserPlan {
-  // Create a deep copy to avoid mutating the original object
-  const migratedUserPlan = { ...userPlan };
-
-  // If forecastConfig is missing, add it with default values
-  if (!migratedUserPlan.forecastConfig) {
-    migratedUserPlan.forecastConfig = {
-      ...initialForecastConfig,
-      startingBalance: migratedUserPlan.currentBalance || 0,
-    };
+export interface ReadableBackup
+  extends Omit<PlanBackup, "userPlan" | "encrypted"> {
+  userPlan: UserPlan;
+}
+
+/**
+ * Backup history of a plan, newest first, decrypted and migrated to the
+ * current schema. Snapshots that can no longer be read are left out.
+ */
+export async function listBackups(planId: string): Promise<ReadableBackup[]> {
+  const backend = await getStorageBackend();
+  const backups = (await backend.listBackups())
+    .filter((backup) => isBackupOf(backup, planId))
+    .sort(newestFirst);
+
+  const readable = await Promise.all(
+    backups.map(async (backup): Promise<ReadableBackup | null> => {
+      try {
+        const userPlan = migrateUserPlan(
+          await decryptIfNeeded(backup),
+          backup.schemaVersion
+        );
+        return isValidUserPlan(userPlan)
+          ? {
+              id: backup.id,
+              planId: backup.planId,
+              timestamp: backup.timestamp,
+              schemaVersion: CURRENT_SCHEMA_VERSION,
+              userPlan,
+            }
+          : null;
+      } catch {
+        return null;
+      }
+    })
+  );
+  return readable.filter((backup): backup is ReadableBackup => backup !== null);
+}
+
+/**
+ * Remove a snapshot from the backup history
+ */
+export async function deleteBackup(id: string): Promise<void> {
+  const backend = await getStorageBackend();
+  await backend.deleteBackups([id]);
+}
+
+// =============================================================================
+// PLANS
+// =============================================================================
+
+async function readStoredPlan(stored: StoredPlan): Promise<UserPlan> {
+  const userPlan = migrateUserPlan(
+    await decryptIfNeeded(stored),
+    stored.schemaVersion
+  );
+  if (!isValidUserPlan(userPlan)) {
+    throw new Error("Stored plan failed validation");
   }
+  return userPlan;
+}
+
+/**
+ * Keep a plan that is not open, replacing its stored copy
+ */
+export async function storePlan(userPlan: UserPlan): Promise<void> {
+  const backend = await getStorageBackend();
+  const data = await encryptIfEnabled(userPlan);
+  const plan = {
+    id: userPlan.id,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    lastSaved: new Date().toISOString(),
+  };
+  await backend.savePlan(
+    isEncryptedPayload(data)
+      ? { ...plan, encrypted: data }
+      : { ...plan, userPlan: data }
+  );
+}
+
+/**
+ * Read a plan that is not open, migrated to the current schema
+ */
+export async function loadStoredPlan(planId: string): Promise<UserPlan> {
+  const backend = await getStorageBackend();
+  const stored = (await backend.listPlans()).find((plan) => plan.id === planId);
+  if (!stored) throw new Error("Plan not found");
+  return readStoredPlan(stored);
+}
+
+/**
+ * Plans other than the open one, by name. Plans that can no longer be read
+ * are left out.
+ */
+export async function listStoredPlans(): Promise<PlanSummary[]> {
+  const backend = await getStorageBackend();
+  const summaries = await Promise.all(
+    (
+      await backend.listPlans()
+    ).map(async (stored): Promise<PlanSummary | null> => {
+      try {
+        const userPlan = await readStoredPlan(stored);
+        return {
+          id: userPlan.id,
+          name: userPlan.name || DEFAULT_PLAN_NAME,
+          updatedAt: userPlan.updatedAt,
+        };
+      } catch {
+        return null;
+      }
+    })
+  );
+  return summaries
+    .filter((summary): summary is PlanSummary => summary !== null)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Open a stored plan, storing the open plan (if any) in its place. The open
+ * plan is stored first, so an interruption leaves both plans stored rather
+ * than losing one.
+ */
+export async function openStoredPlan(
+  planId: string,
+  openPlan: UserPlan | null
+): Promise<UserPlan> {
+  const backend = await getStorageBackend();
+  const userPlan = await loadStoredPlan(planId);
+
+  if (openPlan) await storePlan(openPlan);
+  await backend.save(await encryptIfEnabled(userPlan), CURRENT_SCHEMA_VERSION);
+  await backend.deletePlans([planId]);
+
+  return userPlan;
+}
+
+export async function renameStoredPlan(
+  planId: string,
+  name: string
+): Promise<void> {
+  const userPlan = await loadStoredPlan(planId);
+  await storePlan({ ...userPlan, name, updatedAt: new Date().toISOString() });
+}
 
-  return migratedUserPlan as UserPlan;
+/**
+ * Delete a plan that is not open, along with its backups
+ */
+export async function deleteStoredPlan(planId: string): Promise<void> {
+  const backend = await getStorageBackend();
+  await backend.deletePlans([planId]);
+
+  const backups = await backend.listBackups();
+  await backend.deleteBackups(
+    backups
+      .filter((backup) => backup.planId === planId)
+      .map((backup) => backup.id)
+  );
 }
 
 /**
@@ -257,35 +629,24 @@ function isValidUserPlan(userPlan: any): userPlan is UserPlan {
 /**
  * Get storage usage information
  */
-export function getStorageInfo(): {
+export async function getStorageInfo(): Promise<{
   used: number;
   available: number;
   total: number;
   percentage: number;
-} {
-  if (!isLocalStorageAvailable()) {
-    return { used: 0, available: 0, total: 0, percentage: 0 };
-  }
-
+}> {
   try {
-    let used = 0;
-
-    for (const key in window.localStorage) {
-      if (window.localStorage.hasOwnProperty(key)) {
-        used += window.localStorage[key].length + key.length;
-      }
+    const backend = await getStorageBackend();
+    const { used, total } = await backend.getUsage();
+    if (total <= 0) {
+      return { used: 0, available: 0, total: 0, percentage: 0 };
     }
 
-    // Most browsers have a 5-10MB limit for localStorage
-    const estimated_total = 5 * 1024 * 1024; // 5MB in bytes
-    const available = estimated_total - used;
-    const percentage = (used / estimated_total) * 100;
-
     return {
       used,
-      available: Math.max(0, available),
-      total: estimated_total,
-      percentage: Math.min(100, percentage),
+      available: Math.max(0, total - used),
+      total,
+      percentage: Math.min(100, (used / total) * 100),
     };
   } catch {
     return { used: 0, available: 0, total: 0, percentage: 0 };
@@ -0,0 +1,637 @@
+/**
+ * Storage Backends
+ *
+ * Where the user plan is persisted. IndexedDB keeps each entity collection in
+ * its own object store so a save only writes the records that changed, and
+ * is not limited to localStorage's ~5MB. localStorage remains as a fallback
+ * for browsers without IndexedDB and as the source of pre-IndexedDB data.
+ */
+
+import { UserPlan } from "../types";
+import { EncryptedPayload, isEncryptedPayload } from "../utils/encryption";
+import { parseSchemaVersion } from "./migrations";
+
+/**
+ * A user plan as read from storage, before migration. Encrypted plans have
+ * the ciphertext instead of the plan.
+ */
+export interface StoredUserPlan {
+  userPlan?: unknown;
+  encrypted?: EncryptedPayload;
+  /** Schema version the plan was saved with */
+  schemaVersion: number;
+  lastSaved?: string;
+}
+
+/**
+ * A timestamped snapshot of the user plan
+ */
+export interface PlanBackup {
+  id: string;
+  /** Plan the snapshot is of - unset on snapshots from a single-plan release */
+  planId?: string;
+  timestamp: string;
+  /** Schema version the snapshot was taken with */
+  schemaVersion: number;
+  userPlan?: unknown;
+  encrypted?: EncryptedPayload;
+}
+
+/**
+ * A plan other than the open one, kept whole until it is opened again
+ */
+export interface StoredPlan {
+  id: string;
+  /** Schema version the plan was saved with */
+  schemaVersion: number;
+  lastSaved: string;
+  userPlan?: unknown;
+  encrypted?: EncryptedPayload;
+}
+
+/**
+ * Bytes used by the backend and the estimated space it has
+ */
+export interface StorageUsage {
+  used: number;
+  total: number;
+}
+
+export interface StorageBackend {
+  name: "indexeddb" | "localStorage";
+  load: () => Promise<StoredUserPlan | null>;
+  save: (
+    data: UserPlan | EncryptedPayload,
+    schemaVersion: number
+  ) => Promise<void>;
+  remove: () => Promise<void>;
+  saveBackup: (backup: PlanBackup) => Promise<void>;
+  /** All stored backups, in no particular order */
+  listBackups: () => Promise<PlanBackup[]>;
+  deleteBackups: (ids: string[]) => Promise<void>;
+  /** Stores a plan that is not open, replacing one with the same id */
+  savePlan: (plan: StoredPlan) => Promise<void>;
+  /** Plans other than the open one, in no particular order */
+  listPlans: () => Promise<StoredPlan[]>;
+  deletePlans: (ids: string[]) => Promise<void>;
+  getUsage: () => Promise<StorageUsage>;
+}
+
+// =============================================================================
+// LOCAL STORAGE
+// =============================================================================
+
+const STORAGE_KEYS = {
+  USER_PLAN: "finance-planner-user-plan",
+  APP_SETTINGS: "finance-planner-settings",
+  BACKUP_DATA: "finance-planner-backup",
+  PLANS: "finance-planner-plans",
+} as const;
+
+/**
+ * Check if localStorage is available
+ */
+export function isLocalStorageAvailable(): boolean {
+  try {
+    if (typeof window === "undefined") return false;
+
+    const test = "__storage_test__";
+    window.localStorage.setItem(test, test);
+    window.localStorage.removeItem(test);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Safely parse JSON data with error handling
+ */
+function safeJsonParse<T>(data: string, fallback: T): T {
+  try {
+    const parsed = JSON.parse(data);
+    return parsed || fallback;
+  } catch {
+    console.warn("Failed to parse JSON data, using fallback");
+    return fallback;
+  }
+}
+
+/**
+ * Safely stringify data with error handling
+ */
+function safeJsonStringify(data: unknown): string | null {
+  try {
+    return JSON.stringify(data);
+  } catch (error) {
+    console.error("Failed to stringify data:", error);
+    return null;
+  }
+}
+
+/**
+ * The single backup kept by releases before the backup history
+ */
+interface LegacyBackup {
+  timestamp?: string;
+  version?: unknown;
+  userPlan?: unknown;
+}
+
+/**
+ * Backups kept in localStorage. Releases before the backup history stored a
+ * single backup object rather than a list.
+ */
+function readBackups(): PlanBackup[] {
+  const data = safeJsonParse<PlanBackup[] | LegacyBackup>(
+    window.localStorage.getItem(STORAGE_KEYS.BACKUP_DATA) || "[]",
+    []
+  );
+  if (Array.isArray(data)) return data;
+  if (!data.userPlan || !data.timestamp) return [];
+  return [
+    {
+      id: `backup-${data.timestamp}`,
+      timestamp: data.timestamp,
+      schemaVersion: parseSchemaVersion(data.version),
+      userPlan: data.userPlan,
+    },
+  ];
+}
+
+function writeBackups(backups: PlanBackup[]) {
+  const serialized = safeJsonStringify(backups);
+  if (serialized) {
+    window.localStorage.setItem(STORAGE_KEYS.BACKUP_DATA, serialized);
+  }
+}
+
+function readPlans(): StoredPlan[] {
+  return safeJsonParse<StoredPlan[]>(
+    window.localStorage.getItem(STORAGE_KEYS.PLANS) || "[]",
+    []
+  );
+}
+
+function writePlans(plans: StoredPlan[]) {
+  const serialized = safeJsonStringify(plans);
+  if (!serialized) {
+    throw new Error("Failed to serialize plans");
+  }
+  window.localStorage.setItem(STORAGE_KEYS.PLANS, serialized);
+}
+
+/**
+ * Read app-wide settings that are not part of the user plan
+ */
+export function readAppSettings(): Record<string, unknown> {
+  if (!isLocalStorageAvailable()) return {};
+  return safeJsonParse<Record<string, unknown>>(
+    window.localStorage.getItem(STORAGE_KEYS.APP_SETTINGS) || "{}",
+    {}
+  );
+}
+
+/**
+ * Merge values into the app-wide settings
+ */
+export function writeAppSettings(settings: Record<string, unknown>): void {
+  if (!isLocalStorageAvailable()) return;
+  const serialized = safeJsonStringify({ ...readAppSettings(), ...settings });
+  if (serialized) {
+    window.localStorage.setItem(STORAGE_KEYS.APP_SETTINGS, serialized);
+  }
+}
+
+/**
+ * The whole plan (or its ciphertext) as one JSON string, with its version in
+ * a metadata key
+ */
+export function createLocalStorageBackend(): StorageBackend {
+  const requireStorage = () => {
+    if (!isLocalStorageAvailable()) {
+      throw new Error("localStorage is not available");
+    }
+  };
+
+  return {
+    name: "localStorage",
+
+    load: async () => {
+      if (!isLocalStorageAvailable()) return null;
+
+      const data = window.localStorage.getItem(STORAGE_KEYS.USER_PLAN);
+      if (!data) return null;
+
+      const parsed = safeJsonParse<unknown>(data, null);
+      if (!parsed) return null;
+
+      const metadata = safeJsonParse<{ lastSaved?: string; version?: unknown }>(
+        window.localStorage.getItem(`${STORAGE_KEYS.USER_PLAN}-metadata`) ||
+          "{}",
+        {}
+      );
+
+      return {
+        ...(isEncryptedPayload(parsed)
+          ? { encrypted: parsed }
+          : { userPlan: parsed }),
+        schemaVersion: parseSchemaVersion(metadata.version),
+        lastSaved: metadata.lastSaved,
+      };
+    },
+
+    save: async (data, schemaVersion) => {
+      requireStorage();
+
+      const serialized = safeJsonStringify(data);
+      if (!serialized) {
+        throw new Error("Failed to serialize user plan");
+      }
+
+      window.localStorage.setItem(STORAGE_KEYS.USER_PLAN, serialized);
+      window.localStorage.setItem(
+        `${STORAGE_KEYS.USER_PLAN}-metadata`,
+        safeJsonStringify({
+          lastSaved: new Date().toISOString(),
+          version: schemaVersion,
+        }) || "{}"
+      );
+    },
+
+    remove: async () => {
+      requireStorage();
+      window.localStorage.removeItem(STORAGE_KEYS.USER_PLAN);
+      window.localStorage.removeItem(`${STORAGE_KEYS.USER_PLAN}-metadata`);
+    },
+
+    saveBackup: async (backup) => {
+      if (!isLocalStorageAvailable()) return;
+      // Replaces a backup with the same id, like put() in IndexedDB
+      writeBackups([
+        ...readBackups().filter((existing) => existing.id !== backup.id),
+        backup,
+      ]);
+    },
+
+    listBackups: async () => (isLocalStorageAvailable() ? readBackups() : []),
+
+    deleteBackups: async (ids) => {
+      if (!isLocalStorageAvailable()) return;
+      writeBackups(readBackups().filter((backup) => !ids.includes(backup.id)));
+    },
+
+    savePlan: async (plan) => {
+      requireStorage();
+      writePlans([
+        ...readPlans().filter((existing) => existing.id !== plan.id),
+        plan,
+      ]);
+    },
+
+    listPlans: async () => (isLocalStorageAvailable() ? readPlans() : []),
+
+    deletePlans: async (ids) => {
+      requireStorage();
+      writePlans(readPlans().filter((plan) => !ids.includes(plan.id)));
+    },
+
+    getUsage: async () => {
+      if (!isLocalStorageAvailable()) return { used: 0, total: 0 };
+
+      let used = 0;
+      for (const key in window.localStorage) {
+        if (window.localStorage.hasOwnProperty(key)) {
+          used += window.localStorage[key].length + key.length;
+        }
+      }
+
+      // Most browsers have a 5-10MB limit for localStorage
+      return { used, total: 5 * 1024 * 1024 };
+    },
+  };
+}
+
+// =============================================================================
+// INDEXEDDB
+// =============================================================================
+
+const DB_NAME = "finance-planner";
+
+/**
+ * Version of the object store layout - separate from the plan's schema
+ * version, and only bumped when stores are added or changed
+ */
+const DB_VERSION = 2;
+
+const PLAN_STORE = "plan";
+const BACKUP_STORE = "backups";
+const PLANS_STORE = "plans";
+const PLAN_KEY = "current";
+
+/**
+ * UserPlan collections kept one record per entity, keyed by id
+ */
+const ENTITY_STORES = [
+  "income",
+  "expenses",
+  "goals",
+  "accounts",
+  "transfers",
+  "debts",
+  "scenarios",
+  "transactions",
+  "bankImportProfiles",
+  "categorizationRules",
+] as const;
+
+type EntityStore = (typeof ENTITY_STORES)[number];
+
+type Entity = { id: string };
+
+/**
+ * Everything except the entity collections, plus the order of each
+ * collection (object stores return records by key, not list order). An
+ * encrypted plan is kept whole in `encrypted` and the entity stores are empty.
+ */
+interface PlanRecord {
+  userPlan?: Record<string, unknown>;
+  entityOrder?: Partial<Record<EntityStore, string[]>>;
+  encrypted?: EncryptedPayload;
+  schemaVersion: number;
+  lastSaved: string;
+}
+
+/**
+ * Check if IndexedDB is available
+ */
+export function isIndexedDBAvailable(): boolean {
+  return typeof window !== "undefined" && "indexedDB" in window;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () =>
+      reject(transaction.error || new Error("IndexedDB transaction aborted"));
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      for (const store of [PLAN_STORE, BACKUP_STORE, PLANS_STORE]) {
+        if (!db.objectStoreNames.contains(store)) db.createObjectStore(store);
+      }
+      for (const store of ENTITY_STORES) {
+        if (!db.objectStoreNames.contains(store)) {
+          db.createObjectStore(store, { keyPath: "id" });
+        }
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () =>
+      reject(new Error("IndexedDB is blocked by another open tab"));
+  });
+}
+
+/**
+ * One object store per entity collection. The backend remembers the records
+ * it last read or wrote; because state updates are immutable, a record that
+ * is still the same object has not changed and is not written again.
+ */
+export async function createIndexedDBBackend(): Promise<StorageBackend> {
+  const db = await openDatabase();
+  let savedEntities: Map<EntityStore, Map<string, Entity>> | null = null;
+
+  const rememberEntities = (userPlan: Partial<Record<EntityStore, unknown>>) =>
+    new Map(
+      ENTITY_STORES.map((store) => [
+        store,
+        new Map(
+          ((userPlan[store] || []) as Entity[]).map((entity) => [
+            entity.id,
+            entity,
+          ])
+        ),
+      ])
+    );
+
+  return {
+    name: "indexeddb",
+
+    load: async () => {
+      const transaction = db.transaction(
+        [PLAN_STORE, ...ENTITY_STORES],
+        "readonly"
+      );
+      // Issue every read up front so the transaction stays active
+      const [record, ...collections] = await Promise.all([
+        requestToPromise(transaction.objectStore(PLAN_STORE).get(PLAN_KEY)),
+        ...ENTITY_STORES.map((store) =>
+          requestToPromise(transaction.objectStore(store).getAll())
+        ),
+      ]);
+      if (!record) return null;
+      const {
+        entityOrder = {},
+        encrypted,
+        schemaVersion,
+        lastSaved,
+      } = record as PlanRecord;
+      if (encrypted) {
+        savedEntities = null;
+        return { encrypted, schemaVersion, lastSaved };
+      }
+
+      const userPlan: Record<string, unknown> = {
+        ...(record as PlanRecord).userPlan,
+      };
+      ENTITY_STORES.forEach((store, storeIndex) => {
+        const entities = collections[storeIndex] as Entity[];
+        const order = entityOrder[store];
+        if (!order && entities.length === 0) return;
+
+        // Restore list order; records missing from the order go last
+        const position = new Map((order || []).map((id, index) => [id, index]));
+        userPlan[store] = entities.sort(
+          (a, b) =>
+            (position.get(a.id) ?? position.size) -
+            (position.get(b.id) ?? position.size)
+        );
+      });
+
+      savedEntities = rememberEntities(userPlan);
+      return {
+        userPlan,
+        schemaVersion,
+        lastSaved,
+      };
+    },
+
+    save: async (data, schemaVersion) => {
+      const transaction = db.transaction(
+        [PLAN_STORE, ...ENTITY_STORES],
+        "readwrite"
+      );
+
+      if (isEncryptedPayload(data)) {
+        ENTITY_STORES.forEach((store) =>
+          transaction.objectStore(store).clear()
+        );
+        const record: PlanRecord = {
+          encrypted: data,
+          schemaVersion,
+          lastSaved: new Date().toISOString(),
+        };
+        transaction.objectStore(PLAN_STORE).put(record, PLAN_KEY);
+        await transactionDone(transaction);
+        savedEntities = null;
+        return;
+      }
+
+      const userPlan = data;
+      const planFields: Record<string, unknown> = { ...userPlan };
+      const entityOrder: PlanRecord["entityOrder"] = {};
+
+      for (const store of ENTITY_STORES) {
+        const entities = (userPlan[store] || []) as Entity[];
+        const objectStore = transaction.objectStore(store);
+        const previous = savedEntities?.get(store);
+        delete planFields[store];
+        if (userPlan[store]) {
+          entityOrder[store] = entities.map((entity) => entity.id);
+        }
+
+        // Nothing read or written yet - start the store from scratch
+        if (!previous) {
+          objectStore.clear();
+          entities.forEach((entity) => objectStore.put(entity));
+          continue;
+        }
+
+        const currentIds = new Set(entities.map((entity) => entity.id));
+        previous.forEach((_, id) => {
+          if (!currentIds.has(id)) objectStore.delete(id);
+        });
+        entities.forEach((entity) => {
+          if (previous.get(entity.id) !== entity) objectStore.put(entity);
+        });
+      }
+
+      const record: PlanRecord = {
+        userPlan: planFields,
+        entityOrder,
+        schemaVersion,
+        lastSaved: new Date().toISOString(),
+      };
+      transaction.objectStore(PLAN_STORE).put(record, PLAN_KEY);
+
+      await transactionDone(transaction);
+      savedEntities = rememberEntities(userPlan);
+    },
+
+    remove: async () => {
+      const transaction = db.transaction(
+        [PLAN_STORE, ...ENTITY_STORES],
+        "readwrite"
+      );
+      transaction.objectStore(PLAN_STORE).clear();
+      ENTITY_STORES.forEach((store) => transaction.objectStore(store).clear());
+      await transactionDone(transaction);
+      savedEntities = null;
+    },
+
+    saveBackup: async (backup) => {
+      const transaction = db.transaction(BACKUP_STORE, "readwrite");
+      transaction.objectStore(BACKUP_STORE).put(backup, backup.id);
+      await transactionDone(transaction);
+    },
+
+    listBackups: async () => {
+      const store = db
+        .transaction(BACKUP_STORE, "readonly")
+        .objectStore(BACKUP_STORE);
+      const [keys, records] = await Promise.all([
+        requestToPromise(store.getAllKeys()),
+        requestToPromise(store.getAll()),
+      ]);
+
+      // The single backup written before the history existed has no id
+      return records.map((record, index) => ({
+        ...record,
+        id: record.id ?? String(keys[index]),
+        schemaVersion:
+          record.schemaVersion ?? parseSchemaVersion(record.version),
+      }));
+    },
+
+    deleteBackups: async (ids) => {
+      const transaction = db.transaction(BACKUP_STORE, "readwrite");
+      ids.forEach((id) => transaction.objectStore(BACKUP_STORE).delete(id));
+      await transactionDone(transaction);
+    },
+
+    savePlan: async (plan) => {
+      const transaction = db.transaction(PLANS_STORE, "readwrite");
+      transaction.objectStore(PLANS_STORE).put(plan, plan.id);
+      await transactionDone(transaction);
+    },
+
+    listPlans: async () =>
+      requestToPromise(
+        db
+          .transaction(PLANS_STORE, "readonly")
+          .objectStore(PLANS_STORE)
+          .getAll()
+      ),
+
+    deletePlans: async (ids) => {
+      const transaction = db.transaction(PLANS_STORE, "readwrite");
+      ids.forEach((id) => transaction.objectStore(PLANS_STORE).delete(id));
+      await transactionDone(transaction);
+    },
+
+    getUsage: async () => {
+      if (typeof navigator === "undefined" || !navigator.storage?.estimate) {
+        return { used: 0, total: 0 };
+      }
+      const estimate = await navigator.storage.estimate();
+      return { used: estimate.usage || 0, total: estimate.quota || 0 };
+    },
+  };
+}
+
+let backendPromise: Promise<StorageBackend> | null = null;
+
+/**
+ * The backend to use in this browser - IndexedDB when it opens, otherwise
+ * localStorage
+ */
+export function getStorageBackend(): Promise<StorageBackend> {
+  if (!backendPromise) {
+    backendPromise = (async () => {
+      if (isIndexedDBAvailable()) {
+        try {
+          return await createIndexedDBBackend();
+        } catch (error) {
+          console.warn("IndexedDB unavailable, using localStorage:", error);
+        }
+      }
+      return createLocalStorageBackend();
+    })();
+  }
+  return backendPromise;
+}
@@ -0,0 +1,218 @@
+/**
+ * Sync
+ *
+ * Keeps the plan in step across devices through a sync adapter. Each sync
+ * pulls the shared copy, merges it with this device's plan record by record
+ * and pushes the result back. When records conflict nothing is pushed until
+ * the user has chosen which versions to keep.
+ *
+ * A target holds one plan. Syncing a different plan with it stops to ask
+ * before the two are merged; once they are, the local plan stays linked to
+ * the shared copy's id.
+ *
+ * With a passphrase set the shared copy is encrypted like the stored plan,
+ * and nothing is synced while storage is locked. A copy encrypted on
+ * another device (with its own salt) needs the passphrase once per session.
+ */
+
+import { UserPlan } from "../types";
+import {
+  KeyDerivationParams,
+  PassphraseKey,
+  decryptWithKey,
+  deriveKey,
+  encryptWithKey,
+} from "../utils/encryption";
+import { MergeResult, mergeUserPlans } from "../utils/syncMerge";
+import { DEFAULT_PLAN_NAME } from "./initialState";
+import { CURRENT_SCHEMA_VERSION, migrateUserPlan } from "./migrations";
+import { getSessionKey, isEncryptionEnabled, isStorageLocked } from "./storage";
+import { readAppSettings, writeAppSettings } from "./storageBackends";
+import {
+  HttpSyncConfig,
+  SYNC_FORMAT,
+  SyncAdapter,
+  SyncDocument,
+} from "./syncAdapters";
+
+/** Keys the shared copy was encrypted with, by adapter - only held in memory */
+const documentKeys = new Map<string, PassphraseKey>();
+
+interface SyncSettings {
+  /** When each plan last synced with each target, by getSyncKey */
+  lastSyncedAt: Record<string, string>;
+  /** Id of the shared copy each plan was merged with, by getSyncKey */
+  linkedPlanIds?: Record<string, string>;
+  /** Last WebDAV/REST target used - the password is never stored */
+  http?: Omit<HttpSyncConfig, "password">;
+}
+
+export function getSyncSettings(): SyncSettings {
+  return {
+    lastSyncedAt: {},
+    ...(readAppSettings().sync as Partial<SyncSettings> | undefined),
+  };
+}
+
+function updateSyncSettings(settings: Partial<SyncSettings>): void {
+  writeAppSettings({ sync: { ...getSyncSettings(), ...settings } });
+}
+
+/**
+ * Remember a WebDAV/REST target so it can be offered next time
+ */
+export function saveHttpSyncConfig({ url, username }: HttpSyncConfig): void {
+  updateSyncSettings({ http: { url, username } });
+}
+
+/**
+ * Key of a plan's sync state with a target
+ */
+function getSyncKey(adapter: SyncAdapter, planId: string): string {
+  return `${planId}|${adapter.name}`;
+}
+
+/**
+ * When a plan last synced with a target, or null if it never has
+ */
+export function getLastSyncedAt(
+  adapter: SyncAdapter,
+  planId: string
+): string | null {
+  return getSyncSettings().lastSyncedAt[getSyncKey(adapter, planId)] || null;
+}
+
+/**
+ * Id the shared copy of a plan goes by at a target
+ */
+function getSharedPlanId(adapter: SyncAdapter, planId: string): string {
+  return (
+    getSyncSettings().linkedPlanIds?.[getSyncKey(adapter, planId)] || planId
+  );
+}
+
+const isSameKdf = (a: KeyDerivationParams, b: KeyDerivationParams) =>
+  a.salt === b.salt && a.iterations === b.iterations && a.hash === b.hash;
+
+/**
+ * Decrypt and migrate the plan in a shared document
+ */
+async function readSyncDocument(
+  adapter: SyncAdapter,
+  document: SyncDocument,
+  passphrase?: string
+): Promise<UserPlan> {
+  if (!document.encrypted) {
+    return migrateUserPlan(document.userPlan, document.schemaVersion);
+  }
+
+  const { kdf } = document.encrypted;
+  const sessionKey = getSessionKey();
+  const knownKey = [documentKeys.get(adapter.name), sessionKey].find(
+    (key) => key && isSameKdf(key.kdf, kdf)
+  );
+  const key =
+    knownKey || (passphrase ? await deriveKey(passphrase, kdf) : null);
+  if (!key) {
+    throw new Error(
+      "The synced copy is encrypted - enter its passphrase to sync"
+    );
+  }
+
+  const userPlan = JSON.parse(await decryptWithKey(document.encrypted, key));
+  documentKeys.set(adapter.name, key);
+  return migrateUserPlan(userPlan, document.schemaVersion);
+}
+
+/**
+ * Push a merged plan and record the sync. The plan is encrypted with the
+ * key the shared copy was read with, or this session's key.
+ */
+export async function pushSyncedPlan(
+  adapter: SyncAdapter,
+  userPlan: UserPlan
+): Promise<void> {
+  if (isStorageLocked()) throw new Error("Storage is locked");
+
+  const key =
+    documentKeys.get(adapter.name) ||
+    (isEncryptionEnabled() ? getSessionKey() : null);
+  const syncedAt = new Date().toISOString();
+  await adapter.push({
+    format: SYNC_FORMAT,
+    planId: getSharedPlanId(adapter, userPlan.id),
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    syncedAt,
+    ...(key
+      ? { encrypted: await encryptWithKey(JSON.stringify(userPlan), key) }
+      : { userPlan }),
+  });
+  updateSyncSettings({
+    lastSyncedAt: {
+      ...getSyncSettings().lastSyncedAt,
+      [getSyncKey(adapter, userPlan.id)]: syncedAt,
+    },
+  });
+}
+
+export interface SyncResult extends MergeResult {
+  /**
+   * Name of a different plan found at the target. Nothing was merged or
+   * pushed - sync again with mergeOtherPlan to merge it into this plan.
+   */
+  otherPlanName?: string;
+}
+
+/**
+ * Sync the plan with a target. Returns the merged plan; if there are
+ * conflicts it has not been pushed yet - resolve them and call
+ * pushSyncedPlan. A copy encrypted on another device needs the passphrase
+ * it was encrypted with.
+ */
+export async function syncUserPlan(
+  adapter: SyncAdapter,
+  userPlan: UserPlan,
+  passphrase?: string,
+  mergeOtherPlan: boolean = false
+): Promise<SyncResult> {
+  if (isStorageLocked()) throw new Error("Storage is locked");
+
+  const remote = await adapter.pull();
+  const remotePlan =
+    remote && (await readSyncDocument(adapter, remote, passphrase));
+
+  const syncKey = getSyncKey(adapter, userPlan.id);
+  if (
+    remote?.planId &&
+    remotePlan &&
+    remote.planId !== getSharedPlanId(adapter, userPlan.id)
+  ) {
+    if (!mergeOtherPlan) {
+      return {
+        userPlan,
+        conflicts: [],
+        otherPlanName: remotePlan.name || DEFAULT_PLAN_NAME,
+      };
+    }
+    updateSyncSettings({
+      linkedPlanIds: {
+        ...getSyncSettings().linkedPlanIds,
+        [syncKey]: remote.planId,
+      },
+    });
+  }
+
+  const result = remotePlan
+    ? mergeUserPlans(
+        userPlan,
+        remotePlan,
+        getLastSyncedAt(adapter, userPlan.id)
+      )
+    : { userPlan, conflicts: [] };
+
+  if (result.conflicts.length === 0) {
+    await pushSyncedPlan(adapter, result.userPlan);
+  }
+
+  return result;
+}
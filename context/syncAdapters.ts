@@ -0,0 +1,168 @@
+/**
+ * Sync Adapters
+ *
+ * Places a plan can be synced through. An adapter reads and writes a single
+ * JSON document that every device syncing the plan shares: a file in a
+ * folder picked with the File System Access API (e.g. one kept in step by a
+ * cloud drive), or a URL on a WebDAV or REST server that accepts GET and PUT.
+ */
+
+import { UserPlan } from "../types";
+import { EncryptedPayload, isEncryptedPayload } from "../utils/encryption";
+
+export const SYNC_FORMAT = "finance-planner-sync";
+
+/**
+ * Name of the shared file in a sync folder
+ */
+export const SYNC_FILE_NAME = "finance-planner-sync.json";
+
+/**
+ * The document shared between devices. With a passphrase set the plan is
+ * kept in `encrypted` instead of `userPlan`.
+ */
+export interface SyncDocument {
+  format: typeof SYNC_FORMAT;
+  /**
+   * Plan the document holds - the id the plan has on the device that first
+   * pushed it (unset on documents from before there were several plans)
+   */
+  planId?: string;
+  /** Schema version of the plan, before migration */
+  schemaVersion: number;
+  /** When the document was last pushed */
+  syncedAt: string;
+  userPlan?: UserPlan;
+  encrypted?: EncryptedPayload;
+}
+
+export interface SyncAdapter {
+  /** Identifies the sync target, e.g. a folder name or URL */
+  name: string;
+  /** The shared document, or null if nothing has been synced there yet */
+  pull: () => Promise<SyncDocument | null>;
+  push: (document: SyncDocument) => Promise<void>;
+}
+
+/**
+ * Connection details for a WebDAV or REST sync target
+ */
+export interface HttpSyncConfig {
+  /** URL of the shared document */
+  url: string;
+  /** Sent with the password as HTTP Basic authentication when set */
+  username?: string;
+  password?: string;
+}
+
+/**
+ * Parse a shared document. The plan is decrypted and migrated by the caller.
+ */
+function parseSyncDocument(content: string): SyncDocument | null {
+  if (!content.trim()) return null;
+
+  const data = JSON.parse(content);
+  if (
+    data?.format !== SYNC_FORMAT ||
+    !(data.userPlan || isEncryptedPayload(data.encrypted))
+  ) {
+    throw new Error("The sync target does not contain a Finance Planner plan");
+  }
+
+  return data;
+}
+
+// =============================================================================
+// FILE SYSTEM ACCESS
+// =============================================================================
+
+/**
+ * Whether the browser can sync through a local folder
+ */
+export function isFileSystemSyncSupported(): boolean {
+  return typeof window !== "undefined" && "showDirectoryPicker" in window;
+}
+
+/**
+ * Ask the user for a folder to sync through
+ */
+export async function pickSyncFolder(): Promise<FileSystemDirectoryHandle> {
+  const picker = window as unknown as {
+    showDirectoryPicker: (options: {
+      mode: "read" | "readwrite";
+    }) => Promise<FileSystemDirectoryHandle>;
+  };
+  return picker.showDirectoryPicker({ mode: "readwrite" });
+}
+
+export function createFileSystemSyncAdapter(
+  directory: FileSystemDirectoryHandle
+): SyncAdapter {
+  return {
+    name: directory.name,
+
+    pull: async () => {
+      try {
+        const handle = await directory.getFileHandle(SYNC_FILE_NAME);
+        const file = await handle.getFile();
+        return parseSyncDocument(await file.text());
+      } catch (error) {
+        if (error instanceof DOMException && error.name === "NotFoundError") {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    push: async (document) => {
+      const handle = await directory.getFileHandle(SYNC_FILE_NAME, {
+        create: true,
+      });
+      const writable = await handle.createWritable();
+      await writable.write(JSON.stringify(document, null, 2));
+      await writable.close();
+    },
+  };
+}
+
+// =============================================================================
+// WEBDAV / REST
+// =============================================================================
+
+export function createHttpSyncAdapter({
+  url,
+  username,
+  password,
+}: HttpSyncConfig): SyncAdapter {
+  const headers: Record<string, string> = username
+    ? { Authorization: `Basic ${btoa(`${username}:${password || ""}`)}` }
+    : {};
+
+  const checkResponse = (response: Response) => {
+    if (!response.ok) {
+      throw new Error(
+        `Sync server responded with ${response.status} ${response.statusText}`
+      );
+    }
+  };
+
+  return {
+    name: url,
+
+    pull: async () => {
+      const response = await fetch(url, { headers, cache: "no-store" });
+      if (response.status === 404) return null;
+      checkResponse(response);
+      return parseSyncDocument(await response.text());
+    },
+
+    push: async (document) => {
+      const response = await fetch(url, {
+        method: "PUT",
+        headers: { ...headers, "Content-Type": "application/json" },
+        body: JSON.stringify(document),
+      });
+      checkResponse(response);
+    },
+  };
+}
@@ -19,6 +19,44 @@ import {
   UpdateGoalInput,
   FinancialSummary,
   ForecastConfig,
+  Scenario,
+  CreateScenarioInput,
+  UpdateScenarioInput,
+  Transaction,
+  CreateTransactionInput,
+  UpdateTransactionInput,
+  BankImportProfile,
+  CreateBankImportProfileInput,
+  UpdateBankImportProfileInput,
+  CategorizationRule,
+  CreateCategorizationRuleInput,
+  UpdateCategorizationRuleInput,
+  Account,
+  CreateAccountInput,
+  UpdateAccountInput,
+  Transfer,
+  CreateTransferInput,
+  UpdateTransferInput,
+  Debt,
+  DebtPayoffSettings,
+  InflationSettings,
+  TaxSettings,
+  BudgetSettings,
+  Category,
+  CreateCategoryInput,
+  UpdateCategoryInput,
+  CashFlowSettings,
+  CreateDebtInput,
+  UpdateDebtInput,
+  HouseholdMember,
+  HouseholdSettings,
+  CreateHouseholdMemberInput,
+  UpdateHouseholdMemberInput,
+  ExchangeRate,
+  CreateExchangeRateInput,
+  UpdateExchangeRateInput,
+  PlanPreferences,
+  PlanSummary,
 } from "../types";
 
 // =============================================================================
@@ -46,6 +84,9 @@ export interface ErrorState {
   expenseError: string | null;
   goalError: string | null;
   forecastError: string | null;
+  transactionError: string | null;
+  accountError: string | null;
+  debtError: string | null;
 }
 
 // =============================================================================
@@ -113,14 +154,81 @@ export enum FinancialActionType {
   DELETE_GOAL = "DELETE_GOAL",
   SET_GOAL_LIST = "SET_GOAL_LIST",
 
+  // Scenario actions
+  ADD_SCENARIO = "ADD_SCENARIO",
+  UPDATE_SCENARIO = "UPDATE_SCENARIO",
+  DELETE_SCENARIO = "DELETE_SCENARIO",
+
+  // Transaction actions
+  ADD_TRANSACTION = "ADD_TRANSACTION",
+  UPDATE_TRANSACTION = "UPDATE_TRANSACTION",
+  DELETE_TRANSACTION = "DELETE_TRANSACTION",
+  SET_TRANSACTION_LIST = "SET_TRANSACTION_LIST",
+  IMPORT_TRANSACTIONS = "IMPORT_TRANSACTIONS",
+
+  // BankImportProfile actions
+  ADD_BANK_IMPORT_PROFILE = "ADD_BANK_IMPORT_PROFILE",
+  UPDATE_BANK_IMPORT_PROFILE = "UPDATE_BANK_IMPORT_PROFILE",
+  DELETE_BANK_IMPORT_PROFILE = "DELETE_BANK_IMPORT_PROFILE",
+
+  // Categorization rule actions
+  ADD_CATEGORIZATION_RULE = "ADD_CATEGORIZATION_RULE",
+  UPDATE_CATEGORIZATION_RULE = "UPDATE_CATEGORIZATION_RULE",
+  DELETE_CATEGORIZATION_RULE = "DELETE_CATEGORIZATION_RULE",
+  SET_CATEGORIZATION_RULE_LIST = "SET_CATEGORIZATION_RULE_LIST",
+
+  // Account actions
+  ADD_ACCOUNT = "ADD_ACCOUNT",
+  UPDATE_ACCOUNT = "UPDATE_ACCOUNT",
+  DELETE_ACCOUNT = "DELETE_ACCOUNT",
+
+  // Transfer actions
+  ADD_TRANSFER = "ADD_TRANSFER",
+  UPDATE_TRANSFER = "UPDATE_TRANSFER",
+  DELETE_TRANSFER = "DELETE_TRANSFER",
+
+  // Debt actions
+  ADD_DEBT = "ADD_DEBT",
+  UPDATE_DEBT = "UPDATE_DEBT",
+  DELETE_DEBT = "DELETE_DEBT",
+  SET_DEBT_LIST = "SET_DEBT_LIST",
+  UPDATE_DEBT_PAYOFF_SETTINGS = "UPDATE_DEBT_PAYOFF_SETTINGS",
+
+  // Household actions
+  ADD_HOUSEHOLD_MEMBER = "ADD_HOUSEHOLD_MEMBER",
+  UPDATE_HOUSEHOLD_MEMBER = "UPDATE_HOUSEHOLD_MEMBER",
+  DELETE_HOUSEHOLD_MEMBER = "DELETE_HOUSEHOLD_MEMBER",
+  UPDATE_HOUSEHOLD_SETTINGS = "UPDATE_HOUSEHOLD_SETTINGS",
+
+  // Exchange rate actions
+  ADD_EXCHANGE_RATE = "ADD_EXCHANGE_RATE",
+  UPDATE_EXCHANGE_RATE = "UPDATE_EXCHANGE_RATE",
+  DELETE_EXCHANGE_RATE = "DELETE_EXCHANGE_RATE",
+  IMPORT_EXCHANGE_RATES = "IMPORT_EXCHANGE_RATES",
+
+  // Budget actions
+  UPDATE_BUDGET_SETTINGS = "UPDATE_BUDGET_SETTINGS",
+
+  // Category actions
+  ADD_CATEGORY = "ADD_CATEGORY",
+  UPDATE_CATEGORY = "UPDATE_CATEGORY",
+  DELETE_CATEGORY = "DELETE_CATEGORY",
+
+  // Cash flow actions
+  UPDATE_CASH_FLOW_SETTINGS = "UPDATE_CASH_FLOW_SETTINGS",
+
   // Forecast actions
   SET_FORECAST = "SET_FORECAST",
   REGENERATE_FORECAST = "REGENERATE_FORECAST",
   UPDATE_FORECAST_CONFIG = "UPDATE_FORECAST_CONFIG",
+  UPDATE_INFLATION_SETTINGS = "UPDATE_INFLATION_SETTINGS",
+  UPDATE_TAX_SETTINGS = "UPDATE_TAX_SETTINGS",
 
   // UserPlan actions
   SET_USER_PLAN = "SET_USER_PLAN",
   UPDATE_CURRENT_BALANCE = "UPDATE_CURRENT_BALANCE",
+  UPDATE_PLAN_NAME = "UPDATE_PLAN_NAME",
+  UPDATE_PLAN_PREFERENCES = "UPDATE_PLAN_PREFERENCES",
 
   // Data persistence
   SAVE_SUCCESS = "SAVE_SUCCESS",
@@ -131,6 +239,10 @@ export enum FinancialActionType {
   // UI state
   MARK_UNSAVED_CHANGES = "MARK_UNSAVED_CHANGES",
   MARK_SAVED = "MARK_SAVED",
+
+  // History
+  UNDO = "UNDO",
+  REDO = "REDO",
 }
 
 // =============================================================================
@@ -260,6 +372,237 @@ export interface SetGoalListAction extends BaseAction {
   payload: Goal[];
 }
 
+/**
+ * Scenario actions
+ */
+export interface AddScenarioAction extends BaseAction {
+  type: FinancialActionType.ADD_SCENARIO;
+  payload: Scenario;
+}
+
+export interface UpdateScenarioAction extends BaseAction {
+  type: FinancialActionType.UPDATE_SCENARIO;
+  payload: Scenario;
+}
+
+export interface DeleteScenarioAction extends BaseAction {
+  type: FinancialActionType.DELETE_SCENARIO;
+  payload: string; // scenario id
+}
+
+/**
+ * Transaction actions
+ */
+export interface AddTransactionAction extends BaseAction {
+  type: FinancialActionType.ADD_TRANSACTION;
+  payload: Transaction;
+}
+
+export interface UpdateTransactionAction extends BaseAction {
+  type: FinancialActionType.UPDATE_TRANSACTION;
+  payload: Transaction;
+}
+
+export interface DeleteTransactionAction extends BaseAction {
+  type: FinancialActionType.DELETE_TRANSACTION;
+  payload: string; // transaction id
+}
+
+export interface SetTransactionListAction extends BaseAction {
+  type: FinancialActionType.SET_TRANSACTION_LIST;
+  payload: Transaction[];
+}
+
+export interface ImportTransactionsAction extends BaseAction {
+  type: FinancialActionType.IMPORT_TRANSACTIONS;
+  payload: Transaction[];
+}
+
+/**
+ * BankImportProfile actions
+ */
+export interface AddBankImportProfileAction extends BaseAction {
+  type: FinancialActionType.ADD_BANK_IMPORT_PROFILE;
+  payload: BankImportProfile;
+}
+
+export interface UpdateBankImportProfileAction extends BaseAction {
+  type: FinancialActionType.UPDATE_BANK_IMPORT_PROFILE;
+  payload: BankImportProfile;
+}
+
+export interface DeleteBankImportProfileAction extends BaseAction {
+  type: FinancialActionType.DELETE_BANK_IMPORT_PROFILE;
+  payload: string; // bank import profile id
+}
+
+/**
+ * Categorization rule actions
+ */
+export interface AddCategorizationRuleAction extends BaseAction {
+  type: FinancialActionType.ADD_CATEGORIZATION_RULE;
+  payload: CategorizationRule;
+}
+
+export interface UpdateCategorizationRuleAction extends BaseAction {
+  type: FinancialActionType.UPDATE_CATEGORIZATION_RULE;
+  payload: CategorizationRule;
+}
+
+export interface DeleteCategorizationRuleAction extends BaseAction {
+  type: FinancialActionType.DELETE_CATEGORIZATION_RULE;
+  payload: string; // categorization rule id
+}
+
+export interface SetCategorizationRuleListAction extends BaseAction {
+  type: FinancialActionType.SET_CATEGORIZATION_RULE_LIST;
+  payload: CategorizationRule[];
+}
+
+/**
+ * Account actions
+ */
+export interface AddAccountAction extends BaseAction {
+  type: FinancialActionType.ADD_ACCOUNT;
+  payload: Account;
+}
+
+export interface UpdateAccountAction extends BaseAction {
+  type: FinancialActionType.UPDATE_ACCOUNT;
+  payload: Account;
+}
+
+export interface DeleteAccountAction extends BaseAction {
+  type: FinancialActionType.DELETE_ACCOUNT;
+  payload: string; // account id
+}
+
+/**
+ * Transfer actions
+ */
+export interface AddTransferAction extends BaseAction {
+  type: FinancialActionType.ADD_TRANSFER;
+  payload: Transfer;
+}
+
+export interface UpdateTransferAction extends BaseAction {
+  type: FinancialActionType.UPDATE_TRANSFER;
+  payload: Transfer;
+}
+
+export interface DeleteTransferAction extends BaseAction {
+  type: FinancialActionType.DELETE_TRANSFER;
+  payload: string; // transfer id
+}
+
+/**
+ * Debt actions
+ */
+export interface AddDebtAction extends BaseAction {
+  type: FinancialActionType.ADD_DEBT;
+  payload: Debt;
+}
+
+export interface UpdateDebtAction extends BaseAction {
+  type: FinancialActionType.UPDATE_DEBT;
+  payload: Debt;
+}
+
+export interface DeleteDebtAction extends BaseAction {
+  type: FinancialActionType.DELETE_DEBT;
+  payload: string; // debt id
+}
+
+export interface SetDebtListAction extends BaseAction {
+  type: FinancialActionType.SET_DEBT_LIST;
+  payload: Debt[];
+}
+
+export interface UpdateDebtPayoffSettingsAction extends BaseAction {
+  type: FinancialActionType.UPDATE_DEBT_PAYOFF_SETTINGS;
+  payload: Partial<DebtPayoffSettings>;
+}
+
+/**
+ * Household actions
+ */
+export interface AddHouseholdMemberAction extends BaseAction {
+  type: FinancialActionType.ADD_HOUSEHOLD_MEMBER;
+  payload: HouseholdMember;
+}
+
+export interface UpdateHouseholdMemberAction extends BaseAction {
+  type: FinancialActionType.UPDATE_HOUSEHOLD_MEMBER;
+  payload: HouseholdMember;
+}
+
+export interface DeleteHouseholdMemberAction extends BaseAction {
+  type: FinancialActionType.DELETE_HOUSEHOLD_MEMBER;
+  payload: string; // member id
+}
+
+export interface UpdateHouseholdSettingsAction extends BaseAction {
+  type: FinancialActionType.UPDATE_HOUSEHOLD_SETTINGS;
+  payload: Partial<HouseholdSettings>;
+}
+
+/**
+ * Exchange rate actions
+ */
+export interface AddExchangeRateAction extends BaseAction {
+  type: FinancialActionType.ADD_EXCHANGE_RATE;
+  payload: ExchangeRate;
+}
+
+export interface UpdateExchangeRateAction extends BaseAction {
+  type: FinancialActionType.UPDATE_EXCHANGE_RATE;
+  payload: ExchangeRate;
+}
+
+export interface DeleteExchangeRateAction extends BaseAction {
+  type: FinancialActionType.DELETE_EXCHANGE_RATE;
+  payload: string; // rate id
+}
+
+export interface ImportExchangeRatesAction extends BaseAction {
+  type: FinancialActionType.IMPORT_EXCHANGE_RATES;
+  payload: ExchangeRate[];
+}
+
+/**
+ * Budget actions
+ */
+export interface UpdateBudgetSettingsAction extends BaseAction {
+  type: FinancialActionType.UPDATE_BUDGET_SETTINGS;
+  payload: Partial<BudgetSettings>;
+}
+
+/**
+ * Category actions
+ */
+export interface AddCategoryAction extends BaseAction {
+  type: FinancialActionType.ADD_CATEGORY;
+  payload: Category;
+}
+
+export interface UpdateCategoryAction extends BaseAction {
+  type: FinancialActionType.UPDATE_CATEGORY;
+  payload: Category;
+}
+
+export interface DeleteCategoryAction extends BaseAction {
+  type: FinancialActionType.DELETE_CATEGORY;
+  payload: string; // category id
+}
+
+/**
+ * Cash flow actions
+ */
+export interface UpdateCashFlowSettingsAction extends BaseAction {
+  type: FinancialActionType.UPDATE_CASH_FLOW_SETTINGS;
+  payload: Partial<CashFlowSettings>;
+}
+
 /**
  * Forecast actions
  */
@@ -277,6 +620,16 @@ export interface UpdateForecastConfigAction extends BaseAction {
   payload: Partial<ForecastConfig>;
 }
 
+export interface UpdateInflationSettingsAction extends BaseAction {
+  type: FinancialActionType.UPDATE_INFLATION_SETTINGS;
+  payload: Partial<InflationSettings>;
+}
+
+export interface UpdateTaxSettingsAction extends BaseAction {
+  type: FinancialActionType.UPDATE_TAX_SETTINGS;
+  payload: Partial<TaxSettings>;
+}
+
 /**
  * UserPlan actions
  */
@@ -290,6 +643,16 @@ export interface UpdateCurrentBalanceAction extends BaseAction {
   payload: number;
 }
 
+export interface UpdatePlanNameAction extends BaseAction {
+  type: FinancialActionType.UPDATE_PLAN_NAME;
+  payload: string;
+}
+
+export interface UpdatePlanPreferencesAction extends BaseAction {
+  type: FinancialActionType.UPDATE_PLAN_PREFERENCES;
+  payload: Partial<PlanPreferences>;
+}
+
 /**
  * Data persistence actions
  */
@@ -323,6 +686,17 @@ export interface MarkSavedAction extends BaseAction {
   type: FinancialActionType.MARK_SAVED;
 }
 
+/**
+ * History actions - handled by the undo history around the reducer
+ */
+export interface UndoAction extends BaseAction {
+  type: FinancialActionType.UNDO;
+}
+
+export interface RedoAction extends BaseAction {
+  type: FinancialActionType.REDO;
+}
+
 // =============================================================================
 // UNION TYPES
 // =============================================================================
@@ -349,17 +723,62 @@ export type FinancialAction =
   | UpdateGoalAction
   | DeleteGoalAction
   | SetGoalListAction
+  | AddScenarioAction
+  | UpdateScenarioAction
+  | DeleteScenarioAction
+  | AddTransactionAction
+  | UpdateTransactionAction
+  | DeleteTransactionAction
+  | SetTransactionListAction
+  | ImportTransactionsAction
+  | AddBankImportProfileAction
+  | UpdateBankImportProfileAction
+  | DeleteBankImportProfileAction
+  | AddCategorizationRuleAction
+  | UpdateCategorizationRuleAction
+  | DeleteCategorizationRuleAction
+  | SetCategorizationRuleListAction
+  | AddAccountAction
+  | UpdateAccountAction
+  | DeleteAccountAction
+  | AddTransferAction
+  | UpdateTransferAction
+  | DeleteTransferAction
+  | AddDebtAction
+  | UpdateDebtAction
+  | DeleteDebtAction
+  | SetDebtListAction
+  | UpdateDebtPayoffSettingsAction
+  | AddHouseholdMemberAction
+  | UpdateHouseholdMemberAction
+  | DeleteHouseholdMemberAction
+  | UpdateHouseholdSettingsAction
+  | AddExchangeRateAction
+  | UpdateExchangeRateAction
+  | DeleteExchangeRateAction
+  | ImportExchangeRatesAction
+  | UpdateBudgetSettingsAction
+  | AddCategoryAction
+  | UpdateCategoryAction
+  | DeleteCategoryAction
+  | UpdateCashFlowSettingsAction
   | SetForecastAction
   | RegenerateForecastAction
   | UpdateForecastConfigAction
+  | UpdateInflationSettingsAction
+  | UpdateTaxSettingsAction
   | SetUserPlanAction
   | UpdateCurrentBalanceAction
+  | UpdatePlanNameAction
+  | UpdatePlanPreferencesAction
   | SaveSuccessAction
   | SaveErrorAction
   | LoadSuccessAction
   | LoadErrorAction
   | MarkUnsavedChangesAction
-  | MarkSavedAction;
+  | MarkSavedAction
+  | UndoAction
+  | RedoAction;
 
 // =============================================================================
 // CONTEXT INTERFACES
@@ -390,14 +809,123 @@ export interface FinancialContextValue {
   updateGoal: (goal: UpdateGoalInput) => Promise<void>;
   deleteGoal: (goalId: string) => Promise<void>;
 
+  // Convenience functions for scenarios
+  addScenario: (scenario: CreateScenarioInput) => Promise<void>;
+  updateScenario: (scenario: UpdateScenarioInput) => Promise<void>;
+  deleteScenario: (scenarioId: string) => Promise<void>;
+
+  // Convenience functions for transactions
+  addTransaction: (transaction: CreateTransactionInput) => Promise<void>;
+  updateTransaction: (transaction: UpdateTransactionInput) => Promise<void>;
+  deleteTransaction: (transactionId: string) => Promise<void>;
+  importTransactions: (transactions: CreateTransactionInput[]) => Promise<void>;
+
+  // Convenience functions for bank import profiles
+  addBankImportProfile: (
+    bankImportProfile: CreateBankImportProfileInput
+  ) => Promise<void>;
+  updateBankImportProfile: (
+    bankImportProfile: UpdateBankImportProfileInput
+  ) => Promise<void>;
+  deleteBankImportProfile: (bankImportProfileId: string) => Promise<void>;
+
+  // Convenience functions for categorization rules
+  addCategorizationRule: (
+    categorizationRule: CreateCategorizationRuleInput
+  ) => Promise<void>;
+  updateCategorizationRule: (
+    categorizationRule: UpdateCategorizationRuleInput
+  ) => Promise<void>;
+  deleteCategorizationRule: (categorizationRuleId: string) => Promise<void>;
+  moveCategorizationRule: (
+    categorizationRuleId: string,
+    direction: "up" | "down"
+  ) => Promise<void>;
+
+  // Convenience functions for accounts
+  addAccount: (account: CreateAccountInput) => Promise<void>;
+  updateAccount: (account: UpdateAccountInput) => Promise<void>;
+  deleteAccount: (accountId: string) => Promise<void>;
+
+  // Convenience functions for transfers
+  addTransfer: (transfer: CreateTransferInput) => Promise<void>;
+  updateTransfer: (transfer: UpdateTransferInput) => Promise<void>;
+  deleteTransfer: (transferId: string) => Promise<void>;
+
+  // Convenience functions for debts
+  addDebt: (debt: CreateDebtInput) => Promise<void>;
+  updateDebt: (debt: UpdateDebtInput) => Promise<void>;
+  deleteDebt: (debtId: string) => Promise<void>;
+  moveDebt: (debtId: string, direction: "up" | "down") => Promise<void>;
+  updateDebtPayoffSettings: (
+    settings: Partial<DebtPayoffSettings>
+  ) => Promise<void>;
+
+  // Convenience functions for household members
+  addHouseholdMember: (member: CreateHouseholdMemberInput) => Promise<void>;
+  updateHouseholdMember: (member: UpdateHouseholdMemberInput) => Promise<void>;
+  deleteHouseholdMember: (memberId: string) => Promise<void>;
+  updateHouseholdSettings: (
+    settings: Partial<HouseholdSettings>
+  ) => Promise<void>;
+
+  // Convenience functions for exchange rates
+  addExchangeRate: (rate: CreateExchangeRateInput) => Promise<void>;
+  updateExchangeRate: (rate: UpdateExchangeRateInput) => Promise<void>;
+  deleteExchangeRate: (rateId: string) => Promise<void>;
+  importExchangeRates: (rates: CreateExchangeRateInput[]) => Promise<void>;
+
+  // Convenience functions for budgets
+  updateBudgetSettings: (settings: Partial<BudgetSettings>) => Promise<void>;
+
+  // Convenience functions for categories
+  addCategory: (category: CreateCategoryInput) => Promise<void>;
+  updateCategory: (category: UpdateCategoryInput) => Promise<void>;
+  deleteCategory: (categoryId: string) => Promise<void>;
+
+  // Convenience functions for the cash-flow calendar
+  updateCashFlowSettings: (
+    settings: Partial<CashFlowSettings>
+  ) => Promise<void>;
+
   // Utility functions
   regenerateForecast: () => Promise<void>;
   updateCurrentBalance: (balance: number) => Promise<void>;
   updateForecastConfig: (config: Partial<ForecastConfig>) => Promise<void>;
+  updateInflationSettings: (
+    settings: Partial<InflationSettings>
+  ) => Promise<void>;
+  updateTaxSettings: (settings: Partial<TaxSettings>) => Promise<void>;
   saveUserPlan: () => Promise<void>;
   loadUserPlan: () => Promise<void>;
   resetAll: () => void;
 
+  // Plans - the open plan is state.userPlan
+  plans: PlanSummary[];
+  createPlan: (name: string) => Promise<void>;
+  switchPlan: (planId: string) => Promise<void>;
+  duplicatePlan: (planId: string) => Promise<void>;
+  renamePlan: (planId: string, name: string) => Promise<void>;
+  deletePlan: (planId: string) => Promise<void>;
+  importPlan: (userPlan: UserPlan, name: string) => Promise<void>;
+  updatePlanPreferences: (
+    preferences: Partial<PlanPreferences>
+  ) => Promise<void>;
+
+  // History
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+
+  // Encryption
+  isLocked: boolean;
+  isEncrypted: boolean;
+  unlock: (passphrase: string) => Promise<void>;
+  lock: () => Promise<void>;
+  enableEncryption: (passphrase: string) => Promise<void>;
+  disableEncryption: () => Promise<void>;
+
   // Error handling
   clearError: (errorType?: keyof ErrorState) => void;
 }
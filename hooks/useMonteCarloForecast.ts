@@ -0,0 +1,104 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { UserPlan } from "@/types";
+import { ForecastConfig } from "@/utils/forecastCalculator";
+import {
+  DEFAULT_MONTE_CARLO_SETTINGS,
+  MonteCarloResult,
+  MonteCarloSettings,
+} from "@/utils/monteCarlo";
+import type {
+  MonteCarloRequest,
+  MonteCarloResponse,
+} from "@/utils/monteCarlo.worker";
+
+interface MonteCarloState {
+  result: MonteCarloResult | null;
+  isRunning: boolean;
+  /** Share of runs completed for the current request (0-1) */
+  progress: number;
+  error: string | null;
+}
+
+/**
+ * Run the Monte Carlo forecast in a Web Worker whenever the plan, config or
+ * settings change. A new request replaces any run still in progress.
+ */
+export function useMonteCarloForecast(
+  userPlan: UserPlan,
+  config: Partial<ForecastConfig>,
+  settings: MonteCarloSettings = DEFAULT_MONTE_CARLO_SETTINGS,
+  enabled: boolean = true
+): MonteCarloState {
+  const [state, setState] = useState<MonteCarloState>({
+    result: null,
+    isRunning: false,
+    progress: 0,
+    error: null,
+  });
+  const requestId = useRef(0);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const id = ++requestId.current;
+    const worker = new Worker(
+      new URL("../utils/monteCarlo.worker.ts", import.meta.url)
+    );
+
+    setState((prev) => ({
+      ...prev,
+      isRunning: true,
+      progress: 0,
+      error: null,
+    }));
+
+    worker.onmessage = (event: MessageEvent<MonteCarloResponse>) => {
+      const response = event.data;
+      if (response.id !== requestId.current) return;
+
+      switch (response.type) {
+        case "progress":
+          setState((prev) => ({
+            ...prev,
+            progress: response.completedRuns / settings.runs,
+          }));
+          break;
+        case "result":
+          setState({
+            result: response.result,
+            isRunning: false,
+            progress: 1,
+            error: null,
+          });
+          worker.terminate();
+          break;
+        case "error":
+          setState((prev) => ({
+            ...prev,
+            isRunning: false,
+            error: response.message,
+          }));
+          worker.terminate();
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      setState((prev) => ({
+        ...prev,
+        isRunning: false,
+        error: event.message || "Monte Carlo worker failed",
+      }));
+    };
+
+    const request: MonteCarloRequest = { id, userPlan, config, settings };
+    worker.postMessage(request);
+
+    // Stop an outdated run when inputs change or the component unmounts
+    return () => worker.terminate();
+  }, [userPlan, config, settings, enabled]);
+
+  return state;
+}
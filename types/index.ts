@@ -23,7 +23,23 @@ export enum Frequency {
 }
 
 /**
- * Common expense categories
+ * Period a recurrence rule repeats over (FREQ in RFC 5545)
+ */
+export enum RecurrenceFrequency {
+  DAILY = "DAILY",
+  WEEKLY = "WEEKLY",
+  MONTHLY = "MONTHLY",
+  YEARLY = "YEARLY",
+}
+
+/**
+ * Day of the week as written in RFC 5545 rules
+ */
+export type RecurrenceWeekday = "MO" | "TU" | "WE" | "TH" | "FR" | "SA" | "SU";
+
+/**
+ * Built-in expense categories. Plans can add their own categories next to
+ * these (see Category).
  */
 export enum ExpenseCategory {
   HOUSING = "housing",
@@ -43,6 +59,12 @@ export enum ExpenseCategory {
   MISCELLANEOUS = "miscellaneous",
 }
 
+/**
+ * Id of an expense category - a built-in ExpenseCategory value or the id of
+ * a category added to the plan
+ */
+export type ExpenseCategoryId = ExpenseCategory | string;
+
 /**
  * Priority levels for goals and expenses
  */
@@ -76,10 +98,225 @@ export enum GoalType {
   OPEN_ENDED = "open_ended",
 }
 
+/**
+ * How a scenario override changes a baseline record
+ */
+export enum ScenarioOverrideAction {
+  ADD = "add",
+  REMOVE = "remove",
+  MODIFY = "modify",
+}
+
+/**
+ * Kind of planned item a transaction can be matched to
+ */
+export enum TransactionLinkType {
+  INCOME = "income",
+  EXPENSE = "expense",
+  GOAL = "goal",
+}
+
+/**
+ * How a bank statement represents money in and money out
+ */
+export enum AmountSignConvention {
+  /** Positive amounts are deposits, negative amounts are withdrawals */
+  POSITIVE_IS_INFLOW = "positive_is_inflow",
+  /** Positive amounts are charges (common on credit card statements) */
+  POSITIVE_IS_OUTFLOW = "positive_is_outflow",
+  /** Separate debit and credit columns, both unsigned */
+  SEPARATE_COLUMNS = "separate_columns",
+}
+
+/**
+ * How a categorisation rule matches the payee/description
+ */
+export enum RuleMatchType {
+  CONTAINS = "contains",
+  REGEX = "regex",
+}
+
+/**
+ * Kinds of account money is held in or owed on
+ */
+export enum AccountType {
+  CASH = "cash",
+  CHECKING = "checking",
+  SAVINGS = "savings",
+  CREDIT_CARD = "credit_card",
+  BROKERAGE = "brokerage",
+  LOAN = "loan",
+}
+
+/**
+ * How often interest is compounded on a debt
+ */
+export enum CompoundingFrequency {
+  DAILY = "daily",
+  MONTHLY = "monthly",
+  YEARLY = "yearly",
+}
+
+/**
+ * Order in which extra payments are directed at debts
+ */
+export enum DebtPayoffStrategy {
+  /** Smallest balance first */
+  SNOWBALL = "snowball",
+  /** Highest interest rate first */
+  AVALANCHE = "avalanche",
+  /** The order of the plan's debt list */
+  CUSTOM = "custom",
+}
+
+/**
+ * Date formats found in bank statement exports
+ */
+export enum BankDateFormat {
+  YYYY_MM_DD = "YYYY-MM-DD",
+  DD_MM_YYYY = "DD/MM/YYYY",
+  MM_DD_YYYY = "MM/DD/YYYY",
+  DD_MM_YYYY_DOT = "DD.MM.YYYY",
+  YYYY_MM_DD_SLASH = "YYYY/MM/DD",
+}
+
+/**
+ * How a shared expense is divided between household members
+ */
+export enum SplitRule {
+  /** Equal shares (50/50 for two people) */
+  EQUAL = "equal",
+  /** In proportion to each member's income */
+  PROPORTIONAL = "proportional",
+  /** Fixed percentages per member */
+  FIXED = "fixed",
+}
+
+/**
+ * How category budgets relate to income
+ */
+export enum BudgetMethod {
+  /** Each category is an envelope filled every month */
+  ENVELOPE = "envelope",
+  /** Every unit of income is given a job until nothing is left to budget */
+  ZERO_BASED = "zero_based",
+}
+
+/**
+ * What happens to a category's leftover budget at the end of a month
+ */
+export enum BudgetRollover {
+  /** Every month starts from the budgeted amount */
+  NONE = "none",
+  /** Unspent money carries over; overspending does not */
+  UNSPENT = "unspent",
+  /** Unspent money carries over and overspending is taken from next month */
+  ALL = "all",
+}
+
+/**
+ * Kinds of pre-tax paycheck deductions
+ */
+export enum PaycheckDeductionType {
+  /** Retirement plan contribution, e.g. a 401(k) */
+  RETIREMENT = "retirement",
+  /** Provident fund contribution */
+  PROVIDENT_FUND = "provident_fund",
+  HEALTH_INSURANCE = "health_insurance",
+  OTHER = "other",
+}
+
 // =============================================================================
 // CORE DATA INTERFACES
 // =============================================================================
 
+/**
+ * A day in a recurrence rule (BYDAY), e.g. "every Friday" or "the 2nd
+ * Friday"
+ */
+export interface RecurrenceDay {
+  day: RecurrenceWeekday;
+
+  /** Which one in the month - 2 for the 2nd, -1 for the last (every one when unset) */
+  ordinal?: number;
+}
+
+/**
+ * RFC 5545-style recurrence rule for schedules the Frequency options cannot
+ * express, e.g. "last business day of the month" or "every 18 months". The
+ * item's start or due date is the first possible occurrence.
+ */
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+
+  /** Repeat every n periods (defaults to 1) */
+  interval?: number;
+
+  /** Days of the week (ordinals count within the month) */
+  byDay?: RecurrenceDay[];
+
+  /** Days of the month, 1-31, or negative to count from the end (-1 = last day) */
+  byMonthDay?: number[];
+
+  /** Months of the year, 1-12 */
+  byMonth?: number[];
+
+  /** Which of each period's matching days to keep - 1 for the first, -1 for the last */
+  bySetPos?: number[];
+
+  /** Stop after this many occurrences */
+  count?: number;
+
+  /** Last possible occurrence date (ISO 8601 format) */
+  until?: string;
+}
+
+/**
+ * Low and high amounts per payment of an income that varies. The income's
+ * amount is the expected value in between.
+ */
+export interface IncomeRange {
+  min: number;
+  max: number;
+}
+
+/**
+ * A deduction taken from gross pay before tax
+ */
+export interface PaycheckDeduction {
+  id: string;
+  name: string;
+  type: PaycheckDeductionType;
+
+  /** Amount per paycheck, or a percent of gross pay when isPercent is set */
+  amount: number;
+  isPercent?: boolean;
+}
+
+/**
+ * What one paycheck of a salary is made of. The income's amount is the net
+ * deposit built from it.
+ */
+export interface Paycheck {
+  /** Gross pay per paycheck */
+  grossPay: number;
+
+  /** Pre-tax deductions */
+  deductions: PaycheckDeduction[];
+
+  /** Tax withheld per paycheck */
+  taxWithheld?: number;
+
+  /** Percent of the retirement and provident fund contributions the employer adds */
+  employerMatchPercent?: number;
+
+  /** Most the employer adds, as a percent of gross pay (no limit when unset) */
+  employerMatchCapPercent?: number;
+
+  /** Retirement goal the contributions and employer match are paid into */
+  retirementGoalId?: string;
+}
+
 /**
  * Represents an income source
  */
@@ -93,9 +330,24 @@ export interface Income {
   /** Amount of income per frequency period */
   amount: number;
 
+  /** Currency the amount is in (the plan's base currency when unset) */
+  currency?: string;
+
   /** How often this income is received */
   frequency: Frequency;
 
+  /** Exact schedule, taking precedence over frequency in the forecast */
+  recurrence?: RecurrenceRule;
+
+  /** Range the amount varies in - conservative forecasts use the low end */
+  amountRange?: IncomeRange;
+
+  /** Percent of the usual amount paid in each calendar month, January first (12 values) */
+  seasonality?: number[];
+
+  /** Known totals for specific months ("YYYY-MM"), replacing the usual amount in those months */
+  monthlySchedule?: Record<string, number>;
+
   /** Optional detailed description */
   description?: string;
 
@@ -108,6 +360,24 @@ export interface Income {
   /** Whether this income is active */
   isActive: boolean;
 
+  /** Account this income is paid into (defaults to the primary account) */
+  accountId?: string;
+
+  /** Household member who earns this income (joint when unset) */
+  ownerId?: string;
+
+  /** Annual raise in percent, applied each year in the raise month */
+  annualRaisePercent?: number;
+
+  /** Month of the year the raise takes effect (1-12, defaults to the start month) */
+  raiseMonth?: number;
+
+  /** Whether the amount is before tax (the forecast deducts estimated tax) */
+  isGross?: boolean;
+
+  /** Paycheck breakdown of a salary - the amount is its net deposit */
+  paycheck?: Paycheck;
+
   /** When this record was created */
   createdAt: string;
 
@@ -129,7 +399,7 @@ export interface Expense {
   amount: number;
 
   /** Category of expense */
-  category: ExpenseCategory;
+  category: ExpenseCategoryId;
 
   /** Due date for this expense (ISO 8601 format) */
   dueDate: string;
@@ -140,6 +410,9 @@ export interface Expense {
   /** If recurring, the frequency of recurrence */
   frequency?: Frequency;
 
+  /** Exact schedule, taking precedence over frequency in the forecast */
+  recurrence?: RecurrenceRule;
+
   /** Optional detailed description */
   description?: string;
 
@@ -149,6 +422,21 @@ export interface Expense {
   /** Whether this expense is active */
   isActive: boolean;
 
+  /** Account this expense is paid from (defaults to the primary account) */
+  accountId?: string;
+
+  /** Currency the amount is in (the plan's base currency when unset) */
+  currency?: string;
+
+  /** Household member who pays this expense (shared when unset) */
+  ownerId?: string;
+
+  /** How a shared expense is split (defaults to the household rule) */
+  splitRule?: SplitRule;
+
+  /** Percent per member id when splitRule is FIXED */
+  splitShares?: Record<string, number>;
+
   /** Whether this expense is paid in installments */
   isInstallment?: boolean;
 
@@ -158,6 +446,9 @@ export interface Expense {
   /** Starting month for installment payments (YYYY-MM format) */
   installmentStartMonth?: string;
 
+  /** Save for a yearly or quarterly bill month by month instead of paying it at once */
+  sinkingFund?: SinkingFund;
+
   /** When this record was created */
   createdAt: string;
 
@@ -165,6 +456,15 @@ export interface Expense {
   updatedAt: string;
 }
 
+/**
+ * Savings bucket linked to a yearly or quarterly expense. It is topped up by
+ * the monthly equivalent of the bill and pays the bill when it is due.
+ */
+export interface SinkingFund {
+  /** Amount already set aside for the bill */
+  balance: number;
+}
+
 /**
  * Configuration for forecast generation and display
  */
@@ -184,6 +484,9 @@ export interface ForecastConfig {
   /** Conservative mode reduces income by 10% and increases expenses by 10% */
   conservativeMode: boolean;
 
+  /** Show amounts in today's money, deflated by the general inflation rate */
+  showTodaysMoney?: boolean;
+
   /** When this configuration was last updated */
   updatedAt: string;
 }
@@ -219,6 +522,21 @@ export interface Goal {
   /** Whether this goal is active */
   isActive: boolean;
 
+  /** Account contributions to this goal are taken from (defaults to the primary account) */
+  accountId?: string;
+
+  /** Currency the goal is saved in (the plan's base currency when unset) */
+  currency?: string;
+
+  /** Household member saving toward this goal (joint when unset) */
+  ownerId?: string;
+
+  /** Expected annual return on the saved balance in percent, compounded monthly (default: 0) */
+  expectedAnnualReturn?: number;
+
+  /** Expected annual volatility of that return in percent (standard deviation) */
+  annualVolatility?: number;
+
   /** Type of goal - fixed amount or open-ended */
   goalType: GoalType;
 
@@ -264,6 +582,493 @@ export interface Forecast {
   generatedAt: string;
 }
 
+/**
+ * A single change a scenario applies to a baseline income, expense or goal
+ */
+export interface ScenarioOverride<T extends { id: string }> {
+  /** Unique identifier for the override */
+  id: string;
+
+  /** What the override does to the baseline list */
+  action: ScenarioOverrideAction;
+
+  /** ID of the baseline record to remove or modify */
+  targetId?: string;
+
+  /** Complete record to add (ADD only) */
+  item?: T;
+
+  /** Fields to change on the baseline record (MODIFY only) */
+  changes?: Partial<Omit<T, "id" | "createdAt">>;
+}
+
+/**
+ * Named what-if scenario layered on top of the baseline plan
+ */
+export interface Scenario {
+  /** Unique identifier for the scenario */
+  id: string;
+
+  /** Name of the scenario, e.g. "Quit side gig" */
+  name: string;
+
+  /** Optional detailed description */
+  description?: string;
+
+  /** Colour used when comparing scenarios side by side */
+  color: string;
+
+  /** Changes applied to the baseline income sources */
+  incomeOverrides: ScenarioOverride<Income>[];
+
+  /** Changes applied to the baseline expenses */
+  expenseOverrides: ScenarioOverride<Expense>[];
+
+  /** Changes applied to the baseline goals */
+  goalOverrides: ScenarioOverride<Goal>[];
+
+  /** Forecast settings that replace the baseline configuration */
+  forecastConfigOverrides?: Partial<Omit<ForecastConfig, "updatedAt">>;
+
+  /** When this record was created */
+  createdAt: string;
+
+  /** When this record was last updated */
+  updatedAt: string;
+}
+
+/**
+ * Represents an actual transaction recorded against the plan
+ */
+export interface Transaction {
+  /** Unique identifier for the transaction */
+  id: string;
+
+  /** Date the transaction was posted (YYYY-MM-DD) */
+  date: string;
+
+  /** Signed amount - positive for money in, negative for money out */
+  amount: number;
+
+  /** Payee or description as shown on the statement */
+  description: string;
+
+  /** Account the transaction was posted to */
+  account: string;
+
+  /** Category of the transaction */
+  category?: ExpenseCategoryId;
+
+  /** Priority of the spending, usually assigned by a categorisation rule */
+  priority?: Priority;
+
+  /** Kind of planned item this transaction fulfils */
+  linkedType?: TransactionLinkType;
+
+  /** ID of the Income, Expense or Goal this transaction fulfils */
+  linkedId?: string;
+
+  /** Optional notes */
+  notes?: string;
+
+  /** Bank-provided ID (OFX FITID) or content hash used to de-duplicate imports */
+  externalId?: string;
+
+  /** When this record was created */
+  createdAt: string;
+
+  /** When this record was last updated */
+  updatedAt: string;
+}
+
+/**
+ * Saved column mapping for importing a particular bank's CSV statements
+ */
+export interface BankImportProfile {
+  /** Unique identifier for the profile */
+  id: string;
+
+  /** Name of the profile, usually the bank name */
+  name: string;
+
+  /** Account imported transactions are posted to */
+  account: string;
+
+  /** Field delimiter used by the file */
+  delimiter: string;
+
+  /** Number of preamble lines before the header row */
+  skipRows: number;
+
+  /** Header of the column holding the transaction date */
+  dateColumn: string;
+
+  /** Format of the values in the date column */
+  dateFormat: BankDateFormat;
+
+  /** Header of the column holding the payee or description */
+  descriptionColumn: string;
+
+  /** How amounts are signed in the file */
+  amountSign: AmountSignConvention;
+
+  /** Header of the signed amount column (single-column conventions) */
+  amountColumn?: string;
+
+  /** Header of the money-out column (separate columns convention) */
+  debitColumn?: string;
+
+  /** Header of the money-in column (separate columns convention) */
+  creditColumn?: string;
+
+  /** When this record was created */
+  createdAt: string;
+
+  /** When this record was last updated */
+  updatedAt: string;
+}
+
+/**
+ * Rule that categorises transactions automatically. Rules are evaluated in
+ * list order and the first matching rule wins; every condition that is set
+ * must match.
+ */
+export interface CategorizationRule {
+  /** Unique identifier for the rule */
+  id: string;
+
+  /** Name of the rule */
+  name: string;
+
+  /** Whether this rule is applied */
+  isActive: boolean;
+
+  /** How payeePattern is matched against the description */
+  payeeMatchType: RuleMatchType;
+
+  /** Text or regular expression matched against the payee/description */
+  payeePattern?: string;
+
+  /** Minimum absolute amount (inclusive) */
+  minAmount?: number;
+
+  /** Maximum absolute amount (inclusive) */
+  maxAmount?: number;
+
+  /** Only match transactions posted to this account */
+  account?: string;
+
+  /** Category assigned to matching transactions */
+  category?: ExpenseCategoryId;
+
+  /** Priority assigned to matching transactions */
+  priority?: Priority;
+
+  /** Expense that matching transactions are linked to */
+  linkedExpenseId?: string;
+
+  /** When this record was created */
+  createdAt: string;
+
+  /** When this record was last updated */
+  updatedAt: string;
+}
+
+/**
+ * Account that holds money (cash, bank, brokerage) or owes it (credit card,
+ * loan)
+ */
+export interface Account {
+  /** Unique identifier for the account */
+  id: string;
+
+  /** Name of the account, e.g. "Joint Checking" */
+  name: string;
+
+  /** Kind of account */
+  type: AccountType;
+
+  /** Current balance - negative for money owed on credit cards and loans */
+  balance: number;
+
+  /** Currency the account is held in (the plan's base currency when unset) */
+  currency?: string;
+
+  /** Optional detailed description */
+  description?: string;
+
+  /** Whether this account is open */
+  isActive: boolean;
+
+  /** When this record was created */
+  createdAt: string;
+
+  /** When this record was last updated */
+  updatedAt: string;
+}
+
+/**
+ * Recurring or one-time movement of money between two accounts
+ */
+export interface Transfer {
+  /** Unique identifier for the transfer */
+  id: string;
+
+  /** Name of the transfer, e.g. "Credit card payment" */
+  name: string;
+
+  /** Account the money leaves */
+  fromAccountId: string;
+
+  /** Account the money arrives in */
+  toAccountId: string;
+
+  /** Amount moved per frequency period */
+  amount: number;
+
+  /** How often the transfer happens */
+  frequency: Frequency;
+
+  /** Start date for this transfer (ISO 8601 format) */
+  startDate: string;
+
+  /** End date for this transfer (ISO 8601 format) - null for ongoing */
+  endDate?: string;
+
+  /** Optional detailed description */
+  description?: string;
+
+  /** Whether this transfer is active */
+  isActive: boolean;
+
+  /** When this record was created */
+  createdAt: string;
+
+  /** When this record was last updated */
+  updatedAt: string;
+}
+
+/**
+ * Loan, credit card or other balance being paid down
+ */
+export interface Debt {
+  /** Unique identifier for the debt */
+  id: string;
+
+  /** Name of the debt, e.g. "Car loan" */
+  name: string;
+
+  /** Outstanding balance at the start of the forecast */
+  balance: number;
+
+  /** Annual percentage rate, e.g. 19.99 */
+  apr: number;
+
+  /** How often interest is compounded */
+  compounding: CompoundingFrequency;
+
+  /** Minimum payment due each month */
+  minimumPayment: number;
+
+  /** Account payments are made from (defaults to the primary account) */
+  accountId?: string;
+
+  /** Optional detailed description */
+  description?: string;
+
+  /** Whether this debt is included in the forecast */
+  isActive: boolean;
+
+  /** When this record was created */
+  createdAt: string;
+
+  /** When this record was last updated */
+  updatedAt: string;
+}
+
+/**
+ * How the forecast pays down debts beyond the minimum payments
+ */
+export interface DebtPayoffSettings {
+  /** Which debt receives extra payments first */
+  strategy: DebtPayoffStrategy;
+
+  /** Share of the monthly surplus put toward debts before goals (0-100) */
+  extraPaymentPercent: number;
+
+  /** When the settings were last changed, for sync */
+  updatedAt?: string;
+}
+
+/**
+ * How prices rise over the forecast
+ */
+export interface InflationSettings {
+  /** General annual inflation rate in percent */
+  rate: number;
+
+  /** Annual rates in percent for categories that inflate differently */
+  categoryRates: Partial<Record<ExpenseCategoryId, number>>;
+
+  /** When the settings were last changed, for sync */
+  updatedAt?: string;
+}
+
+/**
+ * Which tax rules apply to gross income
+ */
+export interface TaxSettings {
+  /** Id of the tax rule set used for gross income (none when empty) */
+  ruleSetId: string;
+
+  /** When the settings were last changed, for sync */
+  updatedAt?: string;
+}
+
+/**
+ * A person in the household sharing the plan
+ */
+export interface HouseholdMember {
+  id: string;
+  name: string;
+  /** Hex colour used to tell members apart in lists and charts */
+  color: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * How joint costs and goals are shared between household members
+ */
+export interface HouseholdSettings {
+  /** Default rule for shared expenses and joint goals */
+  splitRule: SplitRule;
+  /** Percent per member id for the FIXED rule */
+  fixedShares: Record<string, number>;
+
+  /** When the settings were last changed, for sync */
+  updatedAt?: string;
+}
+
+/**
+ * Monthly budget for one expense category
+ */
+export interface CategoryBudget {
+  /** Amount budgeted each month */
+  amount: number;
+  /** What happens to the leftover at the end of each month */
+  rollover: BudgetRollover;
+}
+
+/**
+ * Per-category budgets of a plan
+ */
+export interface BudgetSettings {
+  method: BudgetMethod;
+  /** Budgets by expense category - categories without one are unbudgeted */
+  categories: Partial<Record<ExpenseCategoryId, CategoryBudget>>;
+
+  /** When the settings were last changed, for sync */
+  updatedAt?: string;
+}
+
+/**
+ * Day-by-day cash-flow projection settings of a plan
+ */
+export interface CashFlowSettings {
+  /** Balance to keep in hand - days projected below it are flagged */
+  buffer: number;
+  /** How many days ahead the calendar projects */
+  horizonDays: number;
+
+  /** When the settings were last changed, for sync */
+  updatedAt?: string;
+}
+
+/**
+ * Expense category of a plan. The built-in categories are listed too, so
+ * they can be renamed, recoloured and given sub-categories; only categories
+ * the user added can be deleted.
+ */
+export interface Category {
+  /** ExpenseCategory value for built-ins, generated for user categories */
+  id: ExpenseCategoryId;
+  name: string;
+  /** Parent category - sub-categories roll up into it */
+  parentId?: ExpenseCategoryId;
+  /** Emoji shown next to the name */
+  icon?: string;
+  /** Hex colour used in charts */
+  color?: string;
+  builtIn?: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Exchange rate from a date on: one unit of `from` is worth `rate` units of
+ * `to`
+ */
+export interface ExchangeRate {
+  id: string;
+  /** Currency code converted from */
+  from: string;
+  /** Currency code converted to */
+  to: string;
+  rate: number;
+  /** Day the rate applies from (YYYY-MM-DD) */
+  date: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Display preferences kept with each plan
+ */
+export interface PlanPreferences {
+  /** Base currency - amounts are shown in it and others converted into it */
+  currency?: string;
+  /** Language code for the interface */
+  language?: string;
+}
+
+/**
+ * A plan as listed in the plan switcher
+ */
+export interface PlanSummary {
+  id: string;
+  name: string;
+  updatedAt: string;
+}
+
+/**
+ * Collections merged record by record when syncing between devices
+ */
+export type SyncCollection =
+  | "income"
+  | "expenses"
+  | "goals"
+  | "transactions"
+  | "accounts"
+  | "transfers"
+  | "debts"
+  | "categories"
+  | "categorizationRules"
+  | "exchangeRates"
+  | "scenarios"
+  | "householdMembers"
+  | "bankImportProfiles";
+
+/**
+ * Marker left behind when a synced record is deleted, so the deletion
+ * reaches other devices instead of the record coming back
+ */
+export interface Tombstone {
+  id: string;
+  collection: SyncCollection;
+  deletedAt: string;
+}
+
 // =============================================================================
 // AGGREGATE INTERFACES
 // =============================================================================
@@ -275,6 +1080,12 @@ export interface UserPlan {
   /** Unique identifier for the user plan */
   id: string;
 
+  /** Name shown in the plan switcher */
+  name?: string;
+
+  /** Currency and language this plan is shown in */
+  preferences?: PlanPreferences;
+
   /** User's income sources */
   income: Income[];
 
@@ -287,12 +1098,63 @@ export interface UserPlan {
   /** User's financial forecast */
   forecast: Forecast[];
 
-  /** Current total balance */
+  /** Current total balance - kept equal to the sum of the accounts when any exist */
   currentBalance: number;
 
+  /** Accounts money is held in or owed on */
+  accounts?: Account[];
+
+  /** Planned transfers between accounts */
+  transfers?: Transfer[];
+
+  /** Debts being paid down; list order is the custom payoff order */
+  debts?: Debt[];
+
+  /** How surplus cash is put toward debts */
+  debtPayoffSettings?: DebtPayoffSettings;
+
+  /** Inflation applied to expenses in the forecast */
+  inflationSettings?: InflationSettings;
+
+  /** Tax rules used to turn gross income into take-home pay */
+  taxSettings?: TaxSettings;
+
+  /** Monthly budgets per expense category */
+  budgetSettings?: BudgetSettings;
+
+  /** Expense categories, built-in and user-defined */
+  categories?: Category[];
+
+  /** Low-balance buffer and horizon of the daily cash-flow calendar */
+  cashFlowSettings?: CashFlowSettings;
+
   /** Forecast configuration settings */
   forecastConfig: ForecastConfig;
 
+  /** Named what-if scenarios layered on top of this plan */
+  scenarios?: Scenario[];
+
+  /** Actual transactions recorded against the plan */
+  transactions?: Transaction[];
+
+  /** Saved column mappings for bank CSV imports */
+  bankImportProfiles?: BankImportProfile[];
+
+  /** Ordered rules for auto-categorising transactions */
+  categorizationRules?: CategorizationRule[];
+
+  /** Dated exchange rates for amounts not in the base currency */
+  exchangeRates?: ExchangeRate[];
+
+  /** People sharing this plan */
+  householdMembers?: HouseholdMember[];
+
+  /** How shared expenses and joint goals are split between members */
+  householdSettings?: HouseholdSettings;
+
+  /** Deleted records of the synced collections, kept for sync */
+  deletedRecords?: Tombstone[];
+
   /** When this plan was created */
   createdAt: string;
 
@@ -313,6 +1175,43 @@ export type CreateExpenseInput = Omit<
   "id" | "createdAt" | "updatedAt"
 >;
 export type CreateGoalInput = Omit<Goal, "id" | "createdAt" | "updatedAt">;
+export type CreateScenarioInput = Omit<
+  Scenario,
+  "id" | "createdAt" | "updatedAt"
+>;
+export type CreateTransactionInput = Omit<
+  Transaction,
+  "id" | "createdAt" | "updatedAt"
+>;
+export type CreateBankImportProfileInput = Omit<
+  BankImportProfile,
+  "id" | "createdAt" | "updatedAt"
+>;
+export type CreateCategorizationRuleInput = Omit<
+  CategorizationRule,
+  "id" | "createdAt" | "updatedAt"
+>;
+export type CreateAccountInput = Omit<
+  Account,
+  "id" | "createdAt" | "updatedAt"
+>;
+export type CreateTransferInput = Omit<
+  Transfer,
+  "id" | "createdAt" | "updatedAt"
+>;
+export type CreateDebtInput = Omit<Debt, "id" | "createdAt" | "updatedAt">;
+export type CreateExchangeRateInput = Omit<
+  ExchangeRate,
+  "id" | "createdAt" | "updatedAt"
+>;
+export type CreateHouseholdMemberInput = Omit<
+  HouseholdMember,
+  "id" | "createdAt" | "updatedAt"
+>;
+export type CreateCategoryInput = Omit<
+  Category,
+  "id" | "builtIn" | "createdAt" | "updatedAt"
+>;
 
 /**
  * Type for updating existing records (all fields optional except id)
@@ -326,6 +1225,52 @@ export type UpdateExpenseInput = Partial<Omit<Expense, "id" | "createdAt">> & {
 export type UpdateGoalInput = Partial<Omit<Goal, "id" | "createdAt">> & {
   id: string;
 };
+export type UpdateScenarioInput = Partial<
+  Omit<Scenario, "id" | "createdAt">
+> & {
+  id: string;
+};
+export type UpdateTransactionInput = Partial<
+  Omit<Transaction, "id" | "createdAt">
+> & {
+  id: string;
+};
+export type UpdateBankImportProfileInput = Partial<
+  Omit<BankImportProfile, "id" | "createdAt">
+> & {
+  id: string;
+};
+export type UpdateCategorizationRuleInput = Partial<
+  Omit<CategorizationRule, "id" | "createdAt">
+> & {
+  id: string;
+};
+export type UpdateAccountInput = Partial<Omit<Account, "id" | "createdAt">> & {
+  id: string;
+};
+export type UpdateTransferInput = Partial<
+  Omit<Transfer, "id" | "createdAt">
+> & {
+  id: string;
+};
+export type UpdateDebtInput = Partial<Omit<Debt, "id" | "createdAt">> & {
+  id: string;
+};
+export type UpdateExchangeRateInput = Partial<
+  Omit<ExchangeRate, "id" | "createdAt">
+> & {
+  id: string;
+};
+export type UpdateHouseholdMemberInput = Partial<
+  Omit<HouseholdMember, "id" | "createdAt">
+> & {
+  id: string;
+};
+export type UpdateCategoryInput = Partial<
+  Omit<Category, "id" | "builtIn" | "createdAt">
+> & {
+  id: string;
+};
 
 /**
  * Financial summary type for dashboard display
@@ -338,7 +1283,7 @@ export interface FinancialSummary {
   currentBalance: number;
   projectedBalance: number;
   savingsRate: number;
-  expensesByCategory: Record<ExpenseCategory, number>;
+  expensesByCategory: Record<ExpenseCategoryId, number>;
   goalsByCategory: Record<GoalCategory, number>;
 }
 
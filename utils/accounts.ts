@@ -0,0 +1,76 @@
+/**
+ * Account Helpers
+ *
+ * Shared logic for the plan's accounts: which account unassigned incomes,
+ * expenses and goals fall back to, and how account balances add up to the
+ * plan's current balance.
+ */
+
+import { Account, AccountType } from "@/types";
+
+/**
+ * Display labels for account types
+ */
+export const ACCOUNT_TYPE_LABELS: Record<AccountType, string> = {
+  [AccountType.CASH]: "Cash",
+  [AccountType.CHECKING]: "Checking",
+  [AccountType.SAVINGS]: "Savings",
+  [AccountType.CREDIT_CARD]: "Credit Card",
+  [AccountType.BROKERAGE]: "Brokerage",
+  [AccountType.LOAN]: "Loan",
+};
+
+/**
+ * Whether an account type holds money owed rather than money owned. A
+ * negative balance is normal for these accounts and is not flagged.
+ */
+export function isLiabilityAccount(type: AccountType): boolean {
+  return type === AccountType.CREDIT_CARD || type === AccountType.LOAN;
+}
+
+/**
+ * Get the open accounts of a plan
+ */
+export function getActiveAccounts(accounts: Account[] = []): Account[] {
+  return accounts.filter((account) => account.isActive);
+}
+
+/**
+ * Sum the balances of all open accounts
+ */
+export function getTotalAccountBalance(accounts: Account[] = []): number {
+  return getActiveAccounts(accounts).reduce(
+    (total, account) => total + account.balance,
+    0
+  );
+}
+
+/**
+ * Get the account used for items that are not tied to one: the first open
+ * checking account, otherwise the first open account
+ */
+export function getPrimaryAccountId(
+  accounts: Account[] = []
+): string | undefined {
+  const active = getActiveAccounts(accounts);
+  return (
+    active.find((account) => account.type === AccountType.CHECKING) || active[0]
+  )?.id;
+}
+
+/**
+ * Resolve the account an item belongs to, falling back to the primary account
+ * when it has none or its account was closed or deleted
+ */
+export function resolveAccountId(
+  accountId: string | undefined,
+  accounts: Account[] = []
+): string | undefined {
+  if (
+    accountId &&
+    accounts.some((account) => account.id === accountId && account.isActive)
+  ) {
+    return accountId;
+  }
+  return getPrimaryAccountId(accounts);
+}
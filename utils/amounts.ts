@@ -0,0 +1,285 @@
+/**
+ * Monthly Amounts
+ *
+ * When income and expenses fall due and what they come to per month. These
+ * helpers only depend on the plan's types and recurrence rules, so the
+ * forecast, tax, cash flow and household modules can all share them.
+ */
+
+import { Expense, Frequency, Income, SinkingFund } from "@/types";
+import {
+  countOccurrencesInMonth,
+  getAverageMonthlyOccurrences,
+} from "./recurrence";
+
+/**
+ * Convert frequency to monthly multiplier
+ */
+export function getMonthlyMultiplier(frequency: Frequency): number {
+  switch (frequency) {
+    case Frequency.DAILY:
+      return 30.44; // Average days per month
+    case Frequency.WEEKLY:
+      return 4.33; // Average weeks per month
+    case Frequency.BIWEEKLY:
+      return 2.17; // Average bi-weeks per month
+    case Frequency.MONTHLY:
+      return 1;
+    case Frequency.QUARTERLY:
+      return 1 / 3;
+    case Frequency.YEARLY:
+      return 1 / 12;
+    case Frequency.ONE_TIME:
+      return 0; // Handled separately
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Calculate monthly amount from frequency
+ */
+export function calculateMonthlyAmount(
+  amount: number,
+  frequency: Frequency
+): number {
+  // Handle one-time income/expense separately since they use the full amount
+  if (frequency === Frequency.ONE_TIME) {
+    return amount;
+  }
+  return amount * getMonthlyMultiplier(frequency);
+}
+
+/**
+ * Check if an income (or a transfer, which is scheduled the same way) is
+ * active for a given month
+ */
+export function isIncomeActiveInMonth(
+  income: Pick<
+    Income,
+    "isActive" | "frequency" | "startDate" | "endDate" | "recurrence"
+  >,
+  monthDate: Date
+): boolean {
+  // Check if the income is active
+  if (!income.isActive) return false;
+
+  // A recurrence rule decides the exact days it is paid on
+  if (income.recurrence) {
+    return getIncomeOccurrences(income, monthDate) > 0;
+  }
+
+  const startDate = new Date(income.startDate);
+  const endDate = income.endDate ? new Date(income.endDate) : null;
+
+  // For one-time income, only active in the specific month of the start date
+  if (income.frequency === Frequency.ONE_TIME) {
+    const incomeMonth = new Date(
+      startDate.getFullYear(),
+      startDate.getMonth(),
+      1
+    );
+    const forecastMonth = new Date(
+      monthDate.getFullYear(),
+      monthDate.getMonth(),
+      1
+    );
+    return incomeMonth.getTime() === forecastMonth.getTime();
+  }
+
+  // For recurring income, check if it's within the active period
+  // Check if the month is after the start date
+  if (monthDate < startDate) return false;
+
+  // Check if the month is before the end date (if exists)
+  if (endDate && monthDate > endDate) return false;
+
+  return true;
+}
+
+/**
+ * Number of payments an income with a recurrence rule receives in a month
+ */
+export function getIncomeOccurrences(
+  income: Pick<Income, "startDate" | "endDate" | "recurrence">,
+  monthDate: Date
+): number {
+  return income.recurrence
+    ? countOccurrencesInMonth(
+        income.recurrence,
+        income.startDate,
+        monthDate,
+        income.endDate
+      )
+    : 0;
+}
+
+/**
+ * Number of payments an expense with a recurrence rule is due in a month
+ */
+export function getExpenseOccurrences(
+  expense: Pick<Expense, "dueDate" | "recurrence">,
+  monthDate: Date
+): number {
+  return expense.recurrence
+    ? countOccurrencesInMonth(expense.recurrence, expense.dueDate, monthDate)
+    : 0;
+}
+
+/**
+ * Seasonal multiplier of an income in a month (1 without a profile)
+ */
+export function getSeasonalFactor(
+  income: Pick<Income, "seasonality">,
+  monthDate: Date
+): number {
+  const percent = income.seasonality?.[monthDate.getMonth()];
+  return percent === undefined ? 1 : percent / 100;
+}
+
+/**
+ * Average monthly amount of a recurring income over a year, with its seasonal
+ * profile averaged out and scheduled months ignored
+ */
+export function getIncomeMonthlyEquivalent(income: Income): number {
+  const monthlyAmount = income.recurrence
+    ? income.amount *
+      getAverageMonthlyOccurrences(income.recurrence, income.startDate)
+    : calculateMonthlyAmount(income.amount, income.frequency);
+  if (!income.seasonality?.length) return monthlyAmount;
+
+  const averagePercent =
+    Array.from(
+      { length: 12 },
+      (_, month) => income.seasonality![month] ?? 100
+    ).reduce((sum, percent) => sum + percent, 0) / 12;
+  return (monthlyAmount * averagePercent) / 100;
+}
+
+/**
+ * Average monthly amount of a recurring expense over a year, or of an
+ * installment plan while it runs
+ */
+export function getExpenseMonthlyEquivalent(expense: Expense): number {
+  if (expense.isInstallment && expense.installmentMonths) {
+    return expense.amount / expense.installmentMonths;
+  }
+  return expense.recurrence
+    ? expense.amount *
+        getAverageMonthlyOccurrences(expense.recurrence, expense.dueDate)
+    : calculateMonthlyAmount(
+        expense.amount,
+        expense.frequency || Frequency.MONTHLY
+      );
+}
+
+/**
+ * Check if an expense is active for a given month
+ */
+export function isExpenseActiveInMonth(
+  expense: Expense,
+  monthDate: Date
+): boolean {
+  // Check if the expense is active
+  if (!expense.isActive) return false;
+
+  // Handle installment expenses
+  if (
+    expense.isInstallment &&
+    expense.installmentStartMonth &&
+    expense.installmentMonths
+  ) {
+    // Create dates in UTC to avoid timezone issues
+    const startDate = new Date(
+      expense.installmentStartMonth + "-01T00:00:00.000Z"
+    );
+    const endDate = new Date(startDate);
+    endDate.setUTCMonth(endDate.getUTCMonth() + expense.installmentMonths - 1); // Fix: should be -1 because we include the start month
+
+    const currentMonthStart = new Date(
+      monthDate.getFullYear(),
+      monthDate.getMonth(),
+      1
+    );
+    // Convert to UTC for consistent comparison
+    const currentMonthUTC = new Date(
+      Date.UTC(currentMonthStart.getFullYear(), currentMonthStart.getMonth(), 1)
+    );
+
+    const isActive = currentMonthUTC >= startDate && currentMonthUTC <= endDate;
+
+    // Fix: should be <= endDate to include the last month
+    return isActive;
+  }
+
+  // A recurrence rule decides the exact days it is due on
+  if (expense.recurring && expense.recurrence) {
+    return getExpenseOccurrences(expense, monthDate) > 0;
+  }
+
+  // For recurring expenses, check frequency to determine if active in this month
+  if (expense.recurring && expense.frequency) {
+    const dueDate = new Date(expense.dueDate);
+    const forecastMonth = new Date(
+      monthDate.getFullYear(),
+      monthDate.getMonth(),
+      1
+    );
+    const dueDateMonth = new Date(dueDate.getFullYear(), dueDate.getMonth(), 1);
+
+    switch (expense.frequency) {
+      case Frequency.YEARLY:
+        // Yearly expenses only happen in the month of the due date each year
+        return forecastMonth.getMonth() === dueDateMonth.getMonth();
+
+      case Frequency.QUARTERLY:
+        // Quarterly expenses happen every 3 months from the due date month
+        const monthsDiff =
+          (forecastMonth.getFullYear() - dueDateMonth.getFullYear()) * 12 +
+          (forecastMonth.getMonth() - dueDateMonth.getMonth());
+        return monthsDiff >= 0 && monthsDiff % 3 === 0;
+
+      case Frequency.MONTHLY:
+        // Monthly expenses happen every month
+        return true;
+
+      case Frequency.WEEKLY:
+      case Frequency.BIWEEKLY:
+      case Frequency.DAILY:
+        // These happen frequently enough to be considered monthly
+        return true;
+
+      default:
+        return true;
+    }
+  }
+
+  // For one-time expenses, check if the due date is in the current month
+  const dueDate = new Date(expense.dueDate);
+  const monthStart = new Date(monthDate.getFullYear(), monthDate.getMonth(), 1);
+  const monthEnd = new Date(
+    monthDate.getFullYear(),
+    monthDate.getMonth() + 1,
+    0
+  );
+
+  // One-time expenses are only active in the month they're due
+  return dueDate >= monthStart && dueDate <= monthEnd;
+}
+
+/**
+ * Whether an expense is saved for month by month through a sinking fund.
+ * Only yearly and quarterly bills on a plain frequency can have one.
+ */
+export function isSinkingFundExpense(
+  expense: Expense
+): expense is Expense & { frequency: Frequency; sinkingFund: SinkingFund } {
+  return (
+    !!expense.sinkingFund &&
+    expense.recurring &&
+    !expense.recurrence &&
+    !expense.isInstallment &&
+    (expense.frequency === Frequency.YEARLY ||
+      expense.frequency === Frequency.QUARTERLY)
+  );
+}
@@ -0,0 +1,397 @@
+/**
+ * Bank Statement Import
+ *
+ * Parses OFX/QFX statements and arbitrary bank CSV exports into rows that can
+ * be previewed and then committed to the plan as transactions. CSV files are
+ * read through a saved BankImportProfile describing the bank's column layout.
+ */
+
+import {
+  Transaction,
+  BankImportProfile,
+  AmountSignConvention,
+  BankDateFormat,
+  ExpenseCategoryId,
+  Priority,
+  TransactionLinkType,
+} from "@/types";
+import { parseCSVLine } from "./dataImport";
+
+/**
+ * A single statement line, normalised to the app's sign convention
+ */
+export interface BankStatementRow {
+  /** Posting date (YYYY-MM-DD) */
+  date: string;
+  /** Signed amount - positive for money in, negative for money out */
+  amount: number;
+  /** Payee or description */
+  description: string;
+  /** FITID for OFX files, content hash for CSV files */
+  externalId: string;
+}
+
+/**
+ * Statement row as shown in the import preview
+ */
+export interface BankImportPreviewRow extends BankStatementRow {
+  /** Already imported, or repeated within the same file */
+  isDuplicate: boolean;
+  /** Category to assign when the row is imported */
+  category?: ExpenseCategoryId;
+  /** Priority, plan link and rule name set by a categorization rule */
+  priority?: Priority;
+  linkedType?: TransactionLinkType;
+  linkedId?: string;
+  ruleName?: string;
+}
+
+/**
+ * Result of parsing a bank statement file
+ */
+export interface BankParseResult {
+  success: boolean;
+  rows: BankStatementRow[];
+  /** Account identifier found in the file (OFX only) */
+  accountId?: string;
+  errors: string[];
+  warnings: string[];
+}
+
+/**
+ * Detect whether a file is an OFX/QFX statement or a CSV export
+ */
+export function detectBankFileFormat(
+  content: string,
+  filename?: string
+): "ofx" | "csv" | "unknown" {
+  const extension = filename?.split(".").pop()?.toLowerCase();
+  if (extension === "ofx" || extension === "qfx") return "ofx";
+
+  const head = content.slice(0, 1000).toUpperCase();
+  if (head.includes("OFXHEADER") || head.includes("<OFX>")) return "ofx";
+
+  if (extension === "csv" || content.includes(",") || content.includes(";")) {
+    return "csv";
+  }
+
+  return "unknown";
+}
+
+/**
+ * Hash a statement line so CSV rows without a bank ID can be de-duplicated
+ * (FNV-1a, 32-bit)
+ */
+export function hashStatementRow(
+  row: Omit<BankStatementRow, "externalId">,
+  account: string
+): string {
+  const key = [
+    row.date,
+    row.amount.toFixed(2),
+    row.description.trim().toLowerCase(),
+    account.trim().toLowerCase(),
+  ].join("|");
+
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return `hash-${(hash >>> 0).toString(16).padStart(8, "0")}`;
+}
+
+/**
+ * Parse a monetary string such as "1,234.56", "-12.00", "(12.00)" or "฿500"
+ */
+export function parseBankAmount(value: string): number {
+  if (!value) return 0;
+
+  let cleaned = value.trim();
+  const isParenthesised = /^\(.*\)$/.test(cleaned);
+  cleaned = cleaned.replace(/[()\s]/g, "").replace(/[^0-9.,-]/g, "");
+
+  // Treat a trailing ",dd" as a decimal comma (e.g. "1.234,56")
+  if (/,\d{1,2}$/.test(cleaned)) {
+    cleaned = cleaned.replace(/\./g, "").replace(",", ".");
+  } else {
+    cleaned = cleaned.replace(/,/g, "");
+  }
+
+  const amount = parseFloat(cleaned);
+  if (isNaN(amount)) return 0;
+
+  return isParenthesised ? -Math.abs(amount) : amount;
+}
+
+/**
+ * Parse a statement date into ISO format (YYYY-MM-DD)
+ */
+export function parseBankDate(
+  value: string,
+  format: BankDateFormat
+): string | null {
+  const parts = value
+    .trim()
+    .split(/[-/.\s]/)
+    .filter(Boolean);
+  if (parts.length < 3) return null;
+
+  let year: number;
+  let month: number;
+  let day: number;
+
+  switch (format) {
+    case BankDateFormat.YYYY_MM_DD:
+    case BankDateFormat.YYYY_MM_DD_SLASH:
+      [year, month, day] = parts.map(Number);
+      break;
+    case BankDateFormat.DD_MM_YYYY:
+    case BankDateFormat.DD_MM_YYYY_DOT:
+      [day, month, year] = parts.map(Number);
+      break;
+    case BankDateFormat.MM_DD_YYYY:
+      [month, day, year] = parts.map(Number);
+      break;
+    default:
+      return null;
+  }
+
+  if (year < 100) year += 2000;
+
+  // Impossible dates like 31/02 roll over into the next month
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    isNaN(date.getTime()) ||
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(
+    2,
+    "0"
+  )}`;
+}
+
+/**
+ * Read a single OFX element value (works for both SGML and XML flavours)
+ */
+function getOFXValue(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  return match ? match[1].trim() : undefined;
+}
+
+/**
+ * Parse an OFX/QFX statement
+ */
+export function parseOFX(content: string): BankParseResult {
+  const result: BankParseResult = {
+    success: false,
+    rows: [],
+    errors: [],
+    warnings: [],
+  };
+
+  const blocks = content.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi);
+  if (!blocks || blocks.length === 0) {
+    result.errors.push("No transactions found in OFX file");
+    return result;
+  }
+
+  result.accountId = getOFXValue(content, "ACCTID");
+
+  blocks.forEach((block, index) => {
+    const posted = getOFXValue(block, "DTPOSTED");
+    const amount = getOFXValue(block, "TRNAMT");
+    const name = getOFXValue(block, "NAME");
+    const memo = getOFXValue(block, "MEMO");
+    const fitId = getOFXValue(block, "FITID");
+
+    if (!posted || !amount) {
+      result.warnings.push(
+        `Transaction ${index + 1}: missing date or amount, skipped`
+      );
+      return;
+    }
+
+    // DTPOSTED is YYYYMMDD optionally followed by time and timezone
+    const date = `${posted.slice(0, 4)}-${posted.slice(4, 6)}-${posted.slice(
+      6,
+      8
+    )}`;
+    const row = {
+      date,
+      amount: parseBankAmount(amount),
+      description: name || memo || "Unknown",
+    };
+
+    if (!fitId) {
+      result.warnings.push(
+        `Transaction ${index + 1}: no FITID, using content hash`
+      );
+    }
+
+    result.rows.push({
+      ...row,
+      externalId: fitId
+        ? `fitid-${fitId}`
+        : hashStatementRow(row, result.accountId || ""),
+    });
+  });
+
+  result.success = result.rows.length > 0;
+  return result;
+}
+
+/**
+ * Split a CSV statement into the header row and data rows for a profile
+ */
+function splitCSVStatement(
+  content: string,
+  profile: Pick<BankImportProfile, "delimiter" | "skipRows">
+): { headers: string[]; rows: string[][] } {
+  const lines = content
+    .split(/\r?\n/)
+    .slice(profile.skipRows || 0)
+    .filter((line) => line.trim() !== "");
+
+  if (lines.length === 0) return { headers: [], rows: [] };
+
+  return {
+    headers: parseCSVLine(lines[0], profile.delimiter),
+    rows: lines.slice(1).map((line) => parseCSVLine(line, profile.delimiter)),
+  };
+}
+
+/**
+ * Get the column headers of a CSV statement, for building a mapping
+ */
+export function getBankCSVHeaders(
+  content: string,
+  profile: Pick<BankImportProfile, "delimiter" | "skipRows">
+): string[] {
+  return splitCSVStatement(content, profile).headers;
+}
+
+/**
+ * Parse a bank CSV statement using a column-mapping profile
+ */
+export function parseBankCSV(
+  content: string,
+  profile: Omit<BankImportProfile, "id" | "createdAt" | "updatedAt">
+): BankParseResult {
+  const result: BankParseResult = {
+    success: false,
+    rows: [],
+    errors: [],
+    warnings: [],
+  };
+
+  const { headers, rows } = splitCSVStatement(content, profile);
+  const columnIndex = (column?: string) =>
+    column ? headers.findIndex((header) => header === column) : -1;
+
+  const dateIndex = columnIndex(profile.dateColumn);
+  const descriptionIndex = columnIndex(profile.descriptionColumn);
+  const amountIndex = columnIndex(profile.amountColumn);
+  const debitIndex = columnIndex(profile.debitColumn);
+  const creditIndex = columnIndex(profile.creditColumn);
+
+  if (dateIndex === -1) {
+    result.errors.push(`Date column "${profile.dateColumn}" not found`);
+  }
+  if (descriptionIndex === -1) {
+    result.errors.push(
+      `Description column "${profile.descriptionColumn}" not found`
+    );
+  }
+  if (profile.amountSign === AmountSignConvention.SEPARATE_COLUMNS) {
+    if (debitIndex === -1 && creditIndex === -1) {
+      result.errors.push("Debit or credit column not found");
+    }
+  } else if (amountIndex === -1) {
+    result.errors.push(`Amount column "${profile.amountColumn}" not found`);
+  }
+  if (result.errors.length > 0) return result;
+
+  // Identical rows within one file (e.g. two coffees on the same day) get an
+  // occurrence suffix so they are not treated as duplicates of each other
+  const occurrences = new Map<string, number>();
+
+  rows.forEach((values, index) => {
+    const lineNumber = index + (profile.skipRows || 0) + 2;
+    const date = parseBankDate(values[dateIndex] || "", profile.dateFormat);
+
+    if (!date) {
+      result.warnings.push(
+        `Row ${lineNumber}: invalid date "${values[dateIndex] || ""}", skipped`
+      );
+      return;
+    }
+
+    let amount: number;
+    switch (profile.amountSign) {
+      case AmountSignConvention.POSITIVE_IS_INFLOW:
+        amount = parseBankAmount(values[amountIndex]);
+        break;
+      case AmountSignConvention.POSITIVE_IS_OUTFLOW:
+        amount = -parseBankAmount(values[amountIndex]);
+        break;
+      case AmountSignConvention.SEPARATE_COLUMNS:
+        amount =
+          Math.abs(parseBankAmount(values[creditIndex])) -
+          Math.abs(parseBankAmount(values[debitIndex]));
+        break;
+    }
+
+    if (amount === 0) {
+      result.warnings.push(`Row ${lineNumber}: zero amount, skipped`);
+      return;
+    }
+
+    const row = {
+      date,
+      amount,
+      description: values[descriptionIndex] || "Unknown",
+    };
+    const hash = hashStatementRow(row, profile.account);
+    const occurrence = (occurrences.get(hash) || 0) + 1;
+    occurrences.set(hash, occurrence);
+
+    result.rows.push({
+      ...row,
+      externalId: occurrence > 1 ? `${hash}-${occurrence}` : hash,
+    });
+  });
+
+  result.success = result.rows.length > 0;
+  if (!result.success) {
+    result.errors.push("No valid transactions found in file");
+  }
+
+  return result;
+}
+
+/**
+ * Flag rows that were already imported, or appear twice in the same file
+ */
+export function markDuplicates(
+  rows: BankStatementRow[],
+  existingTransactions: Transaction[]
+): BankImportPreviewRow[] {
+  const seen = new Set(
+    existingTransactions
+      .map((transaction) => transaction.externalId)
+      .filter(Boolean)
+  );
+
+  return rows.map((row) => {
+    const isDuplicate = seen.has(row.externalId);
+    seen.add(row.externalId);
+    return { ...row, isDuplicate };
+  });
+}
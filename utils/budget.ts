@@ -0,0 +1,293 @@
+/**
+ * Category Budgets
+ *
+ * Monthly budgets per expense category, compared with what the plan expects
+ * to spend and what the recorded transactions show was spent. Envelope
+ * budgets fill each category every month; zero-based budgets also track how
+ * much income is still to be budgeted. A category's leftover can roll into
+ * the next month - only the unspent part, or overspending too.
+ */
+
+import {
+  BudgetMethod,
+  BudgetRollover,
+  BudgetSettings,
+  ExpenseCategoryId,
+  TransactionLinkType,
+  UserPlan,
+} from "@/types";
+import { generateForecast } from "./forecastCalculator";
+import {
+  getTransactionMonth,
+  getTransactionMonthRange,
+} from "./reconciliation";
+import { ensurePlanCategories } from "./categories";
+
+/**
+ * Default budget settings - envelopes, nothing budgeted yet
+ */
+export const DEFAULT_BUDGET_SETTINGS: BudgetSettings = {
+  method: BudgetMethod.ENVELOPE,
+  categories: {},
+};
+
+export const BUDGET_METHOD_LABELS: Record<BudgetMethod, string> = {
+  [BudgetMethod.ENVELOPE]: "Envelope",
+  [BudgetMethod.ZERO_BASED]: "Zero-based",
+};
+
+export const BUDGET_ROLLOVER_LABELS: Record<BudgetRollover, string> = {
+  [BudgetRollover.NONE]: "No rollover",
+  [BudgetRollover.UNSPENT]: "Roll over unspent",
+  [BudgetRollover.ALL]: "Roll over unspent and overspent",
+};
+
+/**
+ * One category's budget for one month
+ */
+export interface CategoryBudgetMonth {
+  category: ExpenseCategoryId;
+  /** Spending the plan's expenses expect */
+  planned: number;
+  /** Amount budgeted for the month (0 when the category has no budget) */
+  budgeted: number;
+  /** Leftover carried in from the month before - negative when overspent */
+  rolloverIn: number;
+  /** budgeted + rolloverIn */
+  available: number;
+  /** Spending recorded in transactions, net of refunds */
+  actual: number;
+  /** available - actual */
+  remaining: number;
+  hasBudget: boolean;
+}
+
+/**
+ * Every category's budget for one month
+ */
+export interface BudgetMonth {
+  /** Month identifier (YYYY-MM) */
+  month: string;
+  categories: CategoryBudgetMonth[];
+  totals: {
+    /** Income the plan expects this month */
+    plannedIncome: number;
+    planned: number;
+    budgeted: number;
+    actual: number;
+    /** Income not yet given to a category (zero-based budgets aim for 0) */
+    leftToBudget: number;
+  };
+}
+
+/**
+ * A category that went over budget month after month
+ */
+export interface OverBudgetCategory {
+  category: ExpenseCategoryId;
+  /** Months checked in which spending passed the budget */
+  monthsOver: number;
+  monthsChecked: number;
+  /** Average amount spent beyond the budget in those months */
+  averageOverspend: number;
+}
+
+export function getBudgetSettings(userPlan: UserPlan): BudgetSettings {
+  return { ...DEFAULT_BUDGET_SETTINGS, ...userPlan.budgetSettings };
+}
+
+/**
+ * Month key (YYYY-MM) of a date
+ */
+export function getMonthKey(date: Date = new Date()): string {
+  return `${date.getFullYear()}-${(date.getMonth() + 1)
+    .toString()
+    .padStart(2, "0")}`;
+}
+
+/**
+ * Leftover a category carries into the next month
+ */
+export function getRolloverAmount(
+  remaining: number,
+  rollover: BudgetRollover
+): number {
+  switch (rollover) {
+    case BudgetRollover.UNSPENT:
+      return Math.max(0, remaining);
+    case BudgetRollover.ALL:
+      return remaining;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Spending per category recorded in a month. Transactions take their own
+ * category, or the category of the expense they are linked to; income and
+ * goal transactions are not spending. Refunds reduce the total.
+ */
+export function getActualSpendingByCategory(
+  userPlan: UserPlan,
+  month: string
+): Partial<Record<ExpenseCategoryId, number>> {
+  const totals: Partial<Record<ExpenseCategoryId, number>> = {};
+
+  for (const transaction of userPlan.transactions || []) {
+    if (getTransactionMonth(transaction) !== month) continue;
+    if (
+      transaction.linkedType === TransactionLinkType.INCOME ||
+      transaction.linkedType === TransactionLinkType.GOAL
+    ) {
+      continue;
+    }
+
+    const category =
+      transaction.category ||
+      (transaction.linkedType === TransactionLinkType.EXPENSE
+        ? userPlan.expenses.find(
+            (expense) => expense.id === transaction.linkedId
+          )?.category
+        : undefined);
+    if (!category) continue;
+
+    totals[category] = (totals[category] || 0) - transaction.amount;
+  }
+
+  return totals;
+}
+
+/**
+ * Budget every month from `startMonth` to `endMonth`, carrying each
+ * category's leftover forward
+ */
+export function calculateBudgetMonths(
+  userPlan: UserPlan,
+  startMonth: string,
+  endMonth: string
+): BudgetMonth[] {
+  const settings = getBudgetSettings(userPlan);
+  const [startYear, startIndex] = startMonth.split("-").map(Number);
+  const [endYear, endIndex] = endMonth.split("-").map(Number);
+  const months = (endYear - startYear) * 12 + (endIndex - startIndex) + 1;
+  if (months < 1) return [];
+
+  const forecast = generateForecast(userPlan, {
+    months,
+    startDate: new Date(startYear, startIndex - 1, 1),
+    includeGoalContributions: false,
+  });
+  const expenseCategories = new Map(
+    userPlan.expenses.map((expense) => [expense.id, expense.category])
+  );
+
+  const planCategories = ensurePlanCategories(userPlan);
+  const carried: Partial<Record<ExpenseCategoryId, number>> = {};
+
+  return forecast.monthlyForecasts.map((monthForecast) => {
+    const planned: Partial<Record<ExpenseCategoryId, number>> = {};
+    for (const item of monthForecast.expenseBreakdown) {
+      const category = expenseCategories.get(item.id);
+      if (category) planned[category] = (planned[category] || 0) + item.amount;
+    }
+    const actuals = getActualSpendingByCategory(userPlan, monthForecast.month);
+
+    const categories = planCategories
+      .map(({ id: category }): CategoryBudgetMonth => {
+        const budget = settings.categories[category];
+        const budgeted = budget?.amount || 0;
+        const rolloverIn = carried[category] || 0;
+        const actual = actuals[category] || 0;
+        const remaining = budgeted + rolloverIn - actual;
+
+        carried[category] = budget
+          ? getRolloverAmount(remaining, budget.rollover)
+          : 0;
+
+        return {
+          category,
+          planned: planned[category] || 0,
+          budgeted,
+          rolloverIn,
+          available: budgeted + rolloverIn,
+          actual,
+          remaining,
+          hasBudget: !!budget,
+        };
+      })
+      .filter(
+        (line) => line.hasBudget || line.planned !== 0 || line.actual !== 0
+      );
+
+    const sum = (field: "planned" | "budgeted" | "actual") =>
+      categories.reduce((total, line) => total + line[field], 0);
+
+    return {
+      month: monthForecast.month,
+      categories,
+      totals: {
+        plannedIncome: monthForecast.income,
+        planned: sum("planned"),
+        budgeted: sum("budgeted"),
+        actual: sum("actual"),
+        leftToBudget: monthForecast.income - sum("budgeted"),
+      },
+    };
+  });
+}
+
+/**
+ * Budget for one month, with leftovers rolled forward from the first month
+ * that has transactions
+ */
+export function getBudgetMonth(userPlan: UserPlan, month: string): BudgetMonth {
+  const range = getTransactionMonthRange(userPlan.transactions || []);
+  const startMonth = range && range.start < month ? range.start : month;
+  const budgetMonths = calculateBudgetMonths(userPlan, startMonth, month);
+  return budgetMonths[budgetMonths.length - 1];
+}
+
+/**
+ * Categories that went over budget in most of the last few finished months
+ * with transactions
+ */
+export function getOverBudgetCategories(
+  userPlan: UserPlan,
+  options: { months?: number; minMonthsOver?: number; today?: Date } = {}
+): OverBudgetCategory[] {
+  const { months = 3, minMonthsOver = 2, today = new Date() } = options;
+  const settings = getBudgetSettings(userPlan);
+  const transactionMonths = new Set(
+    (userPlan.transactions || []).map(getTransactionMonth)
+  );
+  const currentMonth = getMonthKey(today);
+  const checkedMonths = Array.from(transactionMonths)
+    .filter((month) => month < currentMonth)
+    .sort()
+    .slice(-months);
+  if (checkedMonths.length < minMonthsOver) return [];
+
+  const spending = checkedMonths.map((month) =>
+    getActualSpendingByCategory(userPlan, month)
+  );
+
+  return Object.entries(settings.categories).flatMap(([key, budget]) => {
+    if (!budget || budget.amount <= 0) return [];
+    const category = key as ExpenseCategoryId;
+    const overspends = spending
+      .map((totals) => (totals[category] || 0) - budget.amount)
+      .filter((overspend) => overspend > 0);
+    if (overspends.length < minMonthsOver) return [];
+
+    return [
+      {
+        category,
+        monthsOver: overspends.length,
+        monthsChecked: checkedMonths.length,
+        averageOverspend:
+          overspends.reduce((total, overspend) => total + overspend, 0) /
+          overspends.length,
+      },
+    ];
+  });
+}
@@ -0,0 +1,453 @@
+/**
+ * Daily Cash Flow
+ *
+ * Day-by-day balance projection using the actual dates money moves: income
+ * on its start date's cadence (or its recurrence rule), expenses on their
+ * due dates and debt minimums on the 1st. The monthly forecast only shows
+ * month-end balances; this finds the days in between when bills land before
+ * pay does and the balance dips below the buffer the user wants to keep.
+ */
+
+import {
+  CashFlowSettings,
+  Expense,
+  Frequency,
+  Income,
+  RecurrenceFrequency,
+  RecurrenceRule,
+  UserPlan,
+} from "@/types";
+import {
+  getIncomeMonthlyEquivalent,
+  getSeasonalFactor,
+  isIncomeActiveInMonth,
+  isSinkingFundExpense,
+} from "./amounts";
+import { convertPlanToBaseCurrency } from "./exchangeRates";
+import {
+  getCategoryInflationRate,
+  getInflationFactor,
+  getRaiseFactor,
+} from "./inflation";
+import { getTakeHomeRatio, getTaxCurrencyRate, getTaxRuleSet } from "./tax";
+import { payDebtMinimums } from "./debtCalculator";
+import { getCategories } from "./categories";
+import { getOccurrences, parseDateOnly } from "./recurrence";
+
+/**
+ * Default cash-flow settings - flag days below zero, three months ahead
+ */
+export const DEFAULT_CASH_FLOW_SETTINGS: CashFlowSettings = {
+  buffer: 0,
+  horizonDays: 90,
+};
+
+/**
+ * Money in or out on one day
+ */
+export interface CashFlowEvent {
+  id: string;
+  name: string;
+  type: "income" | "expense" | "debt";
+  /** Positive for income, negative for expenses and debt payments */
+  amount: number;
+}
+
+/**
+ * One projected day
+ */
+export interface CashFlowDay {
+  /** YYYY-MM-DD */
+  date: string;
+  startingBalance: number;
+  inflow: number;
+  outflow: number;
+  /** Balance if the day's payments clear before its income arrives */
+  lowBalance: number;
+  endingBalance: number;
+  events: CashFlowEvent[];
+  isBelowBuffer: boolean;
+}
+
+/**
+ * Lowest intra-day balance of one calendar month
+ */
+export interface MonthlyCashFlowLow {
+  /** YYYY-MM */
+  month: string;
+  date: string;
+  balance: number;
+  /** Balance on the last projected day of the month */
+  endingBalance: number;
+}
+
+export interface DailyCashFlow {
+  days: CashFlowDay[];
+  /** Day with the lowest intra-day balance */
+  lowestDay?: CashFlowDay;
+  monthlyLows: MonthlyCashFlowLow[];
+  daysBelowBuffer: CashFlowDay[];
+  buffer: number;
+  endingBalance: number;
+}
+
+export interface DailyCashFlowOptions {
+  /** First projected day (defaults to today) */
+  startDate?: Date;
+  /** Number of days to project (defaults to the plan's horizon) */
+  days?: number;
+  /** Balance to keep in hand (defaults to the plan's buffer) */
+  buffer?: number;
+}
+
+/**
+ * The plan's cash-flow settings with defaults filled in
+ */
+export function getCashFlowSettings(userPlan: UserPlan): CashFlowSettings {
+  return { ...DEFAULT_CASH_FLOW_SETTINGS, ...userPlan.cashFlowSettings };
+}
+
+/**
+ * Local date as YYYY-MM-DD
+ */
+export function toDateKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(
+    2,
+    "0"
+  )}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+/**
+ * BYMONTHDAY for a day of the month. Days past the 28th fall on the last day
+ * of shorter months instead of skipping them.
+ */
+function getMonthDayRule(
+  day: number
+): Pick<RecurrenceRule, "byMonthDay" | "bySetPos"> {
+  return day > 28
+    ? {
+        byMonthDay: Array.from({ length: day - 27 }, (_, i) => 28 + i),
+        bySetPos: [-1],
+      }
+    : { byMonthDay: [day] };
+}
+
+/**
+ * Rule for a frequency, repeating on the anchor date's day
+ */
+function getFrequencyRule(
+  frequency: Frequency | undefined,
+  anchor: Date
+): RecurrenceRule {
+  const monthDay = getMonthDayRule(anchor.getDate());
+
+  switch (frequency) {
+    case Frequency.DAILY:
+      return { freq: RecurrenceFrequency.DAILY };
+    case Frequency.WEEKLY:
+      return { freq: RecurrenceFrequency.WEEKLY };
+    case Frequency.BIWEEKLY:
+      return { freq: RecurrenceFrequency.WEEKLY, interval: 2 };
+    case Frequency.QUARTERLY:
+      return { freq: RecurrenceFrequency.MONTHLY, interval: 3, ...monthDay };
+    case Frequency.YEARLY:
+      return {
+        freq: RecurrenceFrequency.YEARLY,
+        byMonth: [anchor.getMonth() + 1],
+        ...monthDay,
+      };
+    case Frequency.ONE_TIME:
+      return { freq: RecurrenceFrequency.DAILY, count: 1 };
+    default:
+      return { freq: RecurrenceFrequency.MONTHLY, ...monthDay };
+  }
+}
+
+/**
+ * Dates an income is paid on between `from` and `to`
+ */
+function getIncomeDates(income: Income, from: Date, to: Date): Date[] {
+  const end = income.endDate ? parseDateOnly(income.endDate) : null;
+  const last = end && end < to ? end : to;
+  if (last < from) return [];
+
+  const start = parseDateOnly(income.startDate);
+  const rule = income.recurrence || getFrequencyRule(income.frequency, start);
+  return getOccurrences(rule, start, from, last);
+}
+
+/**
+ * Dates an expense is due between `from` and `to`, with the amount due on
+ * each. Like the monthly forecast, a recurring expense on a frequency repeats
+ * before its due date too (except quarterly ones, which start there).
+ */
+function getExpenseDates(
+  expense: Expense,
+  from: Date,
+  to: Date
+): Array<{ date: Date; amount: number }> {
+  const dueDate = parseDateOnly(expense.dueDate);
+
+  if (
+    expense.isInstallment &&
+    expense.installmentStartMonth &&
+    expense.installmentMonths
+  ) {
+    const [year, month] = expense.installmentStartMonth.split("-").map(Number);
+    const rule: RecurrenceRule = {
+      freq: RecurrenceFrequency.MONTHLY,
+      count: expense.installmentMonths,
+      ...getMonthDayRule(dueDate.getDate()),
+    };
+    const start = new Date(year, month - 1, 1);
+    return getOccurrences(rule, start, from, to).map((date) => ({
+      date,
+      amount: expense.amount / expense.installmentMonths!,
+    }));
+  }
+
+  let dates: Date[];
+  if (expense.recurring && expense.recurrence) {
+    dates = getOccurrences(expense.recurrence, dueDate, from, to);
+  } else if (expense.recurring && expense.frequency) {
+    // Move the anchor back whole years (52 weeks for weekly cadences) so the
+    // series is already running when the window opens
+    let anchor = dueDate;
+    if (expense.frequency !== Frequency.QUARTERLY) {
+      const isWeekly =
+        expense.frequency === Frequency.DAILY ||
+        expense.frequency === Frequency.WEEKLY ||
+        expense.frequency === Frequency.BIWEEKLY;
+      while (anchor > from) {
+        anchor = isWeekly
+          ? new Date(
+              anchor.getFullYear(),
+              anchor.getMonth(),
+              anchor.getDate() - 364
+            )
+          : new Date(
+              anchor.getFullYear() - 1,
+              anchor.getMonth(),
+              anchor.getDate()
+            );
+      }
+    }
+    dates = getOccurrences(
+      getFrequencyRule(expense.frequency, dueDate),
+      anchor,
+      from,
+      to
+    );
+  } else {
+    dates = dueDate >= from && dueDate <= to ? [dueDate] : [];
+  }
+
+  return dates.map((date) => ({ date, amount: expense.amount }));
+}
+
+/**
+ * Project the balance day by day from today's balance. Income is taxed and
+ * raised like in the monthly forecast and expenses inflate with it. Goal
+ * contributions, sinking fund set-asides and transfers are left out: they
+ * are paid from whatever is left at the end of the month, so they never
+ * cause an intra-month dip. A bill with a sinking fund only takes what its
+ * fund doesn't already hold.
+ */
+export function generateDailyCashFlow(
+  userPlan: UserPlan,
+  options: DailyCashFlowOptions = {}
+): DailyCashFlow {
+  const settings = getCashFlowSettings(userPlan);
+  const buffer = options.buffer ?? settings.buffer;
+  const dayCount = Math.max(1, options.days ?? settings.horizonDays);
+  const from = parseDateOnly(options.startDate || new Date());
+  const to = new Date(
+    from.getFullYear(),
+    from.getMonth(),
+    from.getDate() + dayCount - 1
+  );
+
+  // Project in the base currency, at today's rates
+  const plan = convertPlanToBaseCurrency(userPlan, from);
+  const categories = getCategories(plan);
+  const taxRuleSet = getTaxRuleSet(plan.taxSettings?.ruleSetId);
+  const forecastStart = new Date(from.getFullYear(), from.getMonth(), 1);
+  const taxCurrencyRate =
+    (taxRuleSet && getTaxCurrencyRate(plan, taxRuleSet, forecastStart)) ?? 1;
+  const monthsElapsed = (date: Date) =>
+    (date.getFullYear() - forecastStart.getFullYear()) * 12 +
+    (date.getMonth() - forecastStart.getMonth());
+
+  const eventsByDay = new Map<string, CashFlowEvent[]>();
+  const addEvent = (date: Date, event: CashFlowEvent) => {
+    const key = toDateKey(date);
+    eventsByDay.set(key, [...(eventsByDay.get(key) || []), event]);
+  };
+
+  // Gross pay is taxed at the rate for the month's pay over a full year
+  const takeHomeRatios = new Map<string, number>();
+  const getMonthTakeHomeRatio = (date: Date) => {
+    const monthDate = new Date(date.getFullYear(), date.getMonth(), 1);
+    const key = toDateKey(monthDate);
+    if (!takeHomeRatios.has(key)) {
+      const annualGross = plan.income
+        .filter(
+          (income) => income.isGross && isIncomeActiveInMonth(income, monthDate)
+        )
+        .reduce(
+          (total, income) =>
+            total +
+            (income.frequency === Frequency.ONE_TIME && !income.recurrence
+              ? income.amount
+              : getIncomeMonthlyEquivalent(income) * 12) *
+              getRaiseFactor(income, forecastStart, monthDate),
+          0
+        );
+      takeHomeRatios.set(
+        key,
+        getTakeHomeRatio(annualGross, taxRuleSet, taxCurrencyRate)
+      );
+    }
+    return takeHomeRatios.get(key)!;
+  };
+
+  plan.income
+    .filter((income) => income.isActive)
+    .forEach((income) => {
+      getIncomeDates(income, from, to).forEach((date) => {
+        // A scheduled month's total is split evenly over its payments
+        const scheduled = income.monthlySchedule?.[toDateKey(date).slice(0, 7)];
+        const payment =
+          scheduled !== undefined
+            ? scheduled /
+              getIncomeDates(
+                income,
+                new Date(date.getFullYear(), date.getMonth(), 1),
+                new Date(date.getFullYear(), date.getMonth() + 1, 0)
+              ).length
+            : income.amount *
+              getSeasonalFactor(income, date) *
+              getRaiseFactor(income, forecastStart, date);
+        const amount =
+          payment * (income.isGross ? getMonthTakeHomeRatio(date) : 1);
+        addEvent(date, {
+          id: income.id,
+          name: income.name,
+          type: "income",
+          amount,
+        });
+      });
+    });
+
+  plan.expenses
+    .filter((expense) => expense.isActive)
+    .forEach((expense) => {
+      const rate = getCategoryInflationRate(
+        plan.inflationSettings,
+        expense.category,
+        categories
+      );
+      // Bills with a sinking fund are paid from what is already saved first
+      let saved = isSinkingFundExpense(expense)
+        ? expense.sinkingFund.balance
+        : 0;
+      getExpenseDates(expense, from, to).forEach(({ date, amount }) => {
+        const bill = expense.isInstallment
+          ? amount
+          : amount * getInflationFactor(rate, monthsElapsed(date));
+        const fromFund = Math.min(saved, bill);
+        saved -= fromFund;
+        if (bill - fromFund <= 0) return;
+
+        addEvent(date, {
+          id: expense.id,
+          name: expense.name,
+          type: "expense",
+          amount: -(bill - fromFund),
+        });
+      });
+    });
+
+  // Debt minimums go out on the 1st of each month
+  const debts = (plan.debts || []).filter((debt) => debt.isActive);
+  const debtBalances = new Map<string, number>(
+    debts.map((debt) => [debt.id, debt.balance])
+  );
+
+  const days: CashFlowDay[] = [];
+  let balance = plan.currentBalance || 0;
+
+  for (let offset = 0; offset < dayCount; offset++) {
+    const date = new Date(
+      from.getFullYear(),
+      from.getMonth(),
+      from.getDate() + offset
+    );
+    const events = [...(eventsByDay.get(toDateKey(date)) || [])];
+
+    if (date.getDate() === 1 && debts.length > 0) {
+      payDebtMinimums(debts, debtBalances).forEach((payment) => {
+        events.push({
+          id: payment.id,
+          name: payment.name,
+          type: "debt",
+          amount: -payment.payment,
+        });
+      });
+    }
+
+    const inflow = events
+      .filter((event) => event.amount > 0)
+      .reduce((sum, event) => sum + event.amount, 0);
+    const outflow = events
+      .filter((event) => event.amount < 0)
+      .reduce((sum, event) => sum - event.amount, 0);
+    const startingBalance = balance;
+    const lowBalance = startingBalance - outflow;
+    balance = startingBalance + inflow - outflow;
+
+    days.push({
+      date: toDateKey(date),
+      startingBalance,
+      inflow,
+      outflow,
+      lowBalance,
+      endingBalance: balance,
+      events,
+      isBelowBuffer: lowBalance < buffer,
+    });
+  }
+
+  const monthlyLows: MonthlyCashFlowLow[] = [];
+  days.forEach((day) => {
+    const month = day.date.slice(0, 7);
+    const low = monthlyLows.find((entry) => entry.month === month);
+    if (!low) {
+      monthlyLows.push({
+        month,
+        date: day.date,
+        balance: day.lowBalance,
+        endingBalance: day.endingBalance,
+      });
+    } else {
+      if (day.lowBalance < low.balance) {
+        low.date = day.date;
+        low.balance = day.lowBalance;
+      }
+      low.endingBalance = day.endingBalance;
+    }
+  });
+
+  return {
+    days,
+    lowestDay: days.reduce<CashFlowDay | undefined>(
+      (lowest, day) =>
+        !lowest || day.lowBalance < lowest.lowBalance ? day : lowest,
+      undefined
+    ),
+    monthlyLows,
+    daysBelowBuffer: days.filter((day) => day.isBelowBuffer),
+    buffer,
+    endingBalance: balance,
+  };
+}
@@ -0,0 +1,277 @@
+/**
+ * Expense Categories
+ *
+ * A plan keeps its expense categories in `userPlan.categories`: the built-in
+ * ExpenseCategory values plus any the user adds. Any category can have a
+ * parent, and sub-category amounts roll up into it in charts and summaries.
+ * Plans saved before categories could be edited have no list and use the
+ * built-ins.
+ */
+
+import {
+  Category,
+  ExpenseCategory,
+  ExpenseCategoryId,
+  UserPlan,
+} from "@/types";
+
+/**
+ * Icon and colour of each built-in category
+ */
+export const BUILT_IN_CATEGORY_STYLES: Record<
+  ExpenseCategory,
+  { icon: string; color: string }
+> = {
+  [ExpenseCategory.HOUSING]: { icon: "🏠", color: "#EF4444" },
+  [ExpenseCategory.TRANSPORTATION]: { icon: "🚗", color: "#F97316" },
+  [ExpenseCategory.FOOD]: { icon: "🍽️", color: "#EAB308" },
+  [ExpenseCategory.UTILITIES]: { icon: "💡", color: "#22C55E" },
+  [ExpenseCategory.INSURANCE]: { icon: "🛡️", color: "#06B6D4" },
+  [ExpenseCategory.HEALTHCARE]: { icon: "🏥", color: "#3B82F6" },
+  [ExpenseCategory.ENTERTAINMENT]: { icon: "🎬", color: "#8B5CF6" },
+  [ExpenseCategory.PERSONAL_CARE]: { icon: "💅", color: "#EC4899" },
+  [ExpenseCategory.EDUCATION]: { icon: "📚", color: "#14B8A6" },
+  [ExpenseCategory.DEBT_PAYMENTS]: { icon: "💳", color: "#F59E0B" },
+  [ExpenseCategory.SAVINGS]: { icon: "💰", color: "#10B981" },
+  [ExpenseCategory.TRAVEL]: { icon: "✈️", color: "#84CC16" },
+  [ExpenseCategory.SHOPPING]: { icon: "🛍️", color: "#F472B6" },
+  [ExpenseCategory.KIDS]: { icon: "👶", color: "#A78BFA" },
+  [ExpenseCategory.MISCELLANEOUS]: { icon: "📦", color: "#6B7280" },
+};
+
+const DEFAULT_CATEGORY_ICON = "📦";
+const DEFAULT_CATEGORY_COLOR = "#6B7280";
+
+/**
+ * Category that items of a deleted category move to when it has no parent
+ */
+export const FALLBACK_CATEGORY_ID: ExpenseCategoryId =
+  ExpenseCategory.MISCELLANEOUS;
+
+/**
+ * Title-cased name for a category id without a name, e.g. "personal_care"
+ */
+export function formatCategoryId(id: ExpenseCategoryId): string {
+  return id
+    .split("_")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+}
+
+/**
+ * The built-in categories as plan categories
+ */
+export function createBuiltInCategories(
+  timestamp: string = new Date().toISOString()
+): Category[] {
+  return Object.values(ExpenseCategory).map((category) => ({
+    id: category,
+    name: formatCategoryId(category),
+    ...BUILT_IN_CATEGORY_STYLES[category],
+    builtIn: true,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  }));
+}
+
+/**
+ * Categories of a plan, falling back to the built-ins
+ */
+export function getCategories(userPlan: UserPlan): Category[] {
+  return userPlan.categories?.length
+    ? userPlan.categories
+    : createBuiltInCategories(userPlan.createdAt);
+}
+
+export function findCategory(
+  categories: Category[],
+  id: ExpenseCategoryId
+): Category | undefined {
+  return categories.find((category) => category.id === id);
+}
+
+/**
+ * The category and its ancestors, nearest first. Stops at a missing parent
+ * or a loop.
+ */
+export function getCategoryAncestry(
+  categories: Category[],
+  id: ExpenseCategoryId
+): Category[] {
+  const ancestry: Category[] = [];
+  let category = findCategory(categories, id);
+  while (category && !ancestry.includes(category)) {
+    ancestry.push(category);
+    category = category.parentId
+      ? findCategory(categories, category.parentId)
+      : undefined;
+  }
+  return ancestry;
+}
+
+export function getCategoryName(
+  categories: Category[],
+  id: ExpenseCategoryId
+): string {
+  return findCategory(categories, id)?.name || formatCategoryId(id);
+}
+
+/**
+ * Name with its parents, e.g. "Food › Groceries"
+ */
+export function getCategoryPath(
+  categories: Category[],
+  id: ExpenseCategoryId
+): string {
+  const ancestry = getCategoryAncestry(categories, id);
+  return ancestry.length > 0
+    ? ancestry
+        .reverse()
+        .map((category) => category.name)
+        .join(" › ")
+    : formatCategoryId(id);
+}
+
+/**
+ * Icon of the category, or of the nearest parent that has one
+ */
+export function getCategoryIcon(
+  categories: Category[],
+  id: ExpenseCategoryId
+): string {
+  return (
+    getCategoryAncestry(categories, id).find((category) => category.icon)
+      ?.icon || DEFAULT_CATEGORY_ICON
+  );
+}
+
+/**
+ * Colour of the category, or of the nearest parent that has one
+ */
+export function getCategoryColor(
+  categories: Category[],
+  id: ExpenseCategoryId
+): string {
+  return (
+    getCategoryAncestry(categories, id).find((category) => category.color)
+      ?.color || DEFAULT_CATEGORY_COLOR
+  );
+}
+
+/**
+ * Top-level category a category rolls up into
+ */
+export function getRootCategoryId(
+  categories: Category[],
+  id: ExpenseCategoryId
+): ExpenseCategoryId {
+  const ancestry = getCategoryAncestry(categories, id);
+  return ancestry.length > 0 ? ancestry[ancestry.length - 1].id : id;
+}
+
+/**
+ * Ids of every sub-category below a category, at any depth
+ */
+export function getDescendantIds(
+  categories: Category[],
+  id: ExpenseCategoryId
+): ExpenseCategoryId[] {
+  return categories
+    .filter(
+      (category) =>
+        category.id !== id &&
+        getCategoryAncestry(categories, category.id).some(
+          (ancestor) => ancestor.id === id
+        )
+    )
+    .map((category) => category.id);
+}
+
+/**
+ * Categories in tree order - each parent followed by its sub-categories,
+ * siblings by name - with their depth, for pickers and lists
+ */
+export function getCategoryTree(
+  categories: Category[]
+): Array<{ category: Category; depth: number }> {
+  const tree: Array<{ category: Category; depth: number }> = [];
+  const byName = (a: Category, b: Category) => a.name.localeCompare(b.name);
+  const isRoot = (category: Category) =>
+    !category.parentId || !findCategory(categories, category.parentId);
+
+  const visit = (category: Category, depth: number) => {
+    if (tree.some((entry) => entry.category === category)) return;
+    tree.push({ category, depth });
+    categories
+      .filter((child) => child.parentId === category.id)
+      .sort(byName)
+      .forEach((child) => visit(child, depth + 1));
+  };
+
+  categories
+    .filter(isRoot)
+    .sort(byName)
+    .forEach((root) => visit(root, 0));
+  // Categories caught in a parent loop have no root; list them at the top
+  categories.forEach((category) => visit(category, 0));
+  return tree;
+}
+
+/**
+ * Add up amounts per category into their top-level categories
+ */
+export function rollUpCategoryTotals(
+  categories: Category[],
+  totals: Partial<Record<ExpenseCategoryId, number>>
+): Record<ExpenseCategoryId, number> {
+  const rolledUp: Record<ExpenseCategoryId, number> = {};
+  for (const [id, amount] of Object.entries(totals)) {
+    const rootId = getRootCategoryId(categories, id);
+    rolledUp[rootId] = (rolledUp[rootId] || 0) + (amount || 0);
+  }
+  return rolledUp;
+}
+
+/**
+ * Category matching an imported value, by id or by name (ignoring case)
+ */
+export function findCategoryIdByName(
+  categories: Category[],
+  value: string
+): ExpenseCategoryId | undefined {
+  const normalized = value.trim().toLowerCase();
+  if (!normalized) return undefined;
+  return categories.find(
+    (category) =>
+      category.id.toLowerCase() === normalized ||
+      category.name.toLowerCase() === normalized
+  )?.id;
+}
+
+/**
+ * The plan's categories plus one for every category id its expenses,
+ * transactions and rules use but the list lacks - e.g. after importing data
+ * from another plan
+ */
+export function ensurePlanCategories(userPlan: UserPlan): Category[] {
+  const categories = [...getCategories(userPlan)];
+  const now = new Date().toISOString();
+  const usedIds = [
+    ...userPlan.expenses.map((expense) => expense.category),
+    ...(userPlan.transactions || []).map((transaction) => transaction.category),
+    ...(userPlan.categorizationRules || []).map((rule) => rule.category),
+  ];
+
+  for (const id of usedIds) {
+    if (id && !findCategory(categories, id)) {
+      categories.push({
+        id,
+        name: formatCategoryId(id),
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+  }
+
+  return categories;
+}
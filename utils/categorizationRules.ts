@@ -0,0 +1,141 @@
+/**
+ * Transaction Categorization Rules
+ *
+ * Evaluates the plan's ordered CategorizationRule list against transaction
+ * rows. The first active rule whose conditions all match decides the
+ * category, priority and optional expense link of the row.
+ */
+
+import {
+  CategorizationRule,
+  ExpenseCategoryId,
+  Priority,
+  RuleMatchType,
+  TransactionLinkType,
+} from "@/types";
+
+/**
+ * The parts of a transaction that rules can match on
+ */
+export interface RuleSubject {
+  description: string;
+  amount: number;
+  account: string;
+}
+
+/**
+ * Fields assigned by a matching rule
+ */
+export interface RuleAssignment {
+  ruleId: string;
+  ruleName: string;
+  category?: ExpenseCategoryId;
+  priority?: Priority;
+  linkedType?: TransactionLinkType;
+  linkedId?: string;
+}
+
+/**
+ * Check that a rule's regular expression compiles
+ */
+export function isValidRulePattern(rule: Partial<CategorizationRule>): boolean {
+  if (rule.payeeMatchType !== RuleMatchType.REGEX || !rule.payeePattern) {
+    return true;
+  }
+
+  try {
+    new RegExp(rule.payeePattern, "i");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check whether a single rule matches a transaction
+ */
+export function matchesRule(
+  rule: CategorizationRule,
+  subject: RuleSubject
+): boolean {
+  if (!rule.isActive) return false;
+
+  if (rule.payeePattern) {
+    const description = subject.description || "";
+
+    if (rule.payeeMatchType === RuleMatchType.REGEX) {
+      if (!isValidRulePattern(rule)) return false;
+      if (!new RegExp(rule.payeePattern, "i").test(description)) return false;
+    } else if (
+      !description.toLowerCase().includes(rule.payeePattern.toLowerCase())
+    ) {
+      return false;
+    }
+  }
+
+  const absoluteAmount = Math.abs(subject.amount);
+  if (rule.minAmount !== undefined && absoluteAmount < rule.minAmount) {
+    return false;
+  }
+  if (rule.maxAmount !== undefined && absoluteAmount > rule.maxAmount) {
+    return false;
+  }
+
+  if (
+    rule.account &&
+    rule.account.trim().toLowerCase() !== subject.account.trim().toLowerCase()
+  ) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Find the first rule (in list order) that matches a transaction
+ */
+export function findMatchingRule(
+  rules: CategorizationRule[],
+  subject: RuleSubject
+): CategorizationRule | undefined {
+  return rules.find((rule) => matchesRule(rule, subject));
+}
+
+/**
+ * Work out what the rules assign to a transaction, if anything
+ */
+export function applyCategorizationRules(
+  rules: CategorizationRule[],
+  subject: RuleSubject
+): RuleAssignment | null {
+  const rule = findMatchingRule(rules, subject);
+  if (!rule) return null;
+
+  return {
+    ruleId: rule.id,
+    ruleName: rule.name,
+    category: rule.category,
+    priority: rule.priority,
+    linkedType: rule.linkedExpenseId ? TransactionLinkType.EXPENSE : undefined,
+    linkedId: rule.linkedExpenseId,
+  };
+}
+
+/**
+ * Parse sample rows for testing rules, one per line as
+ * "description, amount[, account]"
+ */
+export function parseRuleSamples(text: string): RuleSubject[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const parts = line.split(",").map((part) => part.trim());
+      return {
+        description: parts[0] || "",
+        amount: parseFloat(parts[1]) || 0,
+        account: parts[2] || "",
+      };
+    });
+}
@@ -5,8 +5,13 @@ import {
   Goal,
   Frequency,
   ForecastConfig,
+  Category,
 } from "@/types";
 import { ForecastResult, generateForecast } from "./forecastCalculator";
+import { isValidRulePattern } from "./categorizationRules";
+import { formatRRule, validateRecurrenceRule } from "./recurrence";
+import { CURRENT_SCHEMA_VERSION } from "../context/migrations";
+import { encryptWithPassphrase } from "./encryption";
 
 /**
  * Export format options
@@ -19,6 +24,8 @@ export type ExportFormat = "json" | "csv";
 export interface ExportMetadata {
   exportedAt: string;
   version: string;
+  /** Schema version of the exported user plan */
+  schemaVersion?: number;
   appName: string;
   dataTypes: string[];
 }
@@ -57,8 +64,22 @@ export function serializeToJSON(userPlan: UserPlan): string {
     metadata: {
       exportedAt: new Date().toISOString(),
       version: "1.0.0",
+      schemaVersion: CURRENT_SCHEMA_VERSION,
       appName: "Finance Planner",
-      dataTypes: ["income", "expenses", "goals", "forecast"],
+      dataTypes: [
+        "income",
+        "expenses",
+        "goals",
+        "forecast",
+        ...(userPlan.transactions?.length ? ["transactions"] : []),
+        ...(userPlan.categorizationRules?.length
+          ? ["categorizationRules"]
+          : []),
+        ...(userPlan.accounts?.length ? ["accounts"] : []),
+        ...(userPlan.transfers?.length ? ["transfers"] : []),
+        ...(userPlan.debts?.length ? ["debts"] : []),
+        ...(userPlan.categories?.length ? ["categories"] : []),
+      ],
     },
     userPlan: {
       ...userPlan,
@@ -71,6 +92,18 @@ export function serializeToJSON(userPlan: UserPlan): string {
   return JSON.stringify(exportData, null, 2);
 }
 
+/**
+ * Encrypt serialized export data (JSON or CSV) with a passphrase. The result
+ * is a JSON file that importFinancialData recognises.
+ */
+export async function encryptExport(
+  content: string,
+  passphrase: string
+): Promise<string> {
+  const payload = await encryptWithPassphrase(content, passphrase);
+  return JSON.stringify(payload, null, 2);
+}
+
 /**
  * Serialize user plan data to CSV format
  */
@@ -93,6 +126,13 @@ export function serializeToCSV(
     csvSections.push("");
   }
 
+  // Export Categories before the expenses that use them
+  if (userPlan.categories && userPlan.categories.length > 0) {
+    csvSections.push("## CATEGORIES");
+    csvSections.push(serializeCategoriesToCSV(userPlan.categories, options));
+    csvSections.push("");
+  }
+
   // Export Expenses data
   if (userPlan.expenses && userPlan.expenses.length > 0) {
     csvSections.push("## EXPENSES");
@@ -132,6 +172,10 @@ function serializeIncomeToCSV(
     "Is Active",
     "Created At",
     "Updated At",
+    "Recurrence",
+    "Amount Range",
+    "Seasonality",
+    "Monthly Schedule",
   ];
 
   const rows = income.map((item) => [
@@ -145,6 +189,35 @@ function serializeIncomeToCSV(
     item.isActive ? "Yes" : "No",
     formatDate(item.createdAt, options.dateFormat),
     formatDate(item.updatedAt, options.dateFormat),
+    item.recurrence ? escapeCSVValue(formatRRule(item.recurrence)) : "",
+    item.amountRange ? `${item.amountRange.min}..${item.amountRange.max}` : "",
+    item.seasonality ? item.seasonality.join(";") : "",
+    item.monthlySchedule
+      ? Object.entries(item.monthlySchedule)
+          .map(([month, amount]) => `${month}=${amount}`)
+          .join(";")
+      : "",
+  ]);
+
+  return formatCSVSection(headers, rows, options);
+}
+
+/**
+ * Serialize expense categories to CSV
+ */
+function serializeCategoriesToCSV(
+  categories: Category[],
+  options: CSVExportOptions
+): string {
+  const headers = ["ID", "Name", "Parent ID", "Icon", "Color", "Built In"];
+
+  const rows = categories.map((category) => [
+    escapeCSVValue(category.id),
+    escapeCSVValue(category.name),
+    escapeCSVValue(category.parentId || ""),
+    escapeCSVValue(category.icon || ""),
+    category.color || "",
+    category.builtIn ? "Yes" : "No",
   ]);
 
   return formatCSVSection(headers, rows, options);
@@ -170,6 +243,8 @@ function serializeExpensesToCSV(
     "Is Active",
     "Created At",
     "Updated At",
+    "Recurrence",
+    "Sinking Fund Balance",
   ];
 
   const rows = expenses.map((item) => [
@@ -185,6 +260,8 @@ function serializeExpensesToCSV(
     item.isActive ? "Yes" : "No",
     formatDate(item.createdAt, options.dateFormat),
     formatDate(item.updatedAt, options.dateFormat),
+    item.recurrence ? escapeCSVValue(formatRRule(item.recurrence)) : "",
+    item.sinkingFund ? item.sinkingFund.balance.toString() : "",
   ]);
 
   return formatCSVSection(headers, rows, options);
@@ -404,6 +481,61 @@ export function validateExportData(userPlan: UserPlan): {
       if (!income.name) errors.push(`Income item ${index + 1} is missing name`);
       if (income.amount < 0)
         errors.push(`Income item ${index + 1} has negative amount`);
+      if (
+        income.raiseMonth !== undefined &&
+        (income.raiseMonth < 1 || income.raiseMonth > 12)
+      )
+        errors.push(`Income item ${index + 1} has an invalid raise month`);
+      if (
+        income.recurrence &&
+        validateRecurrenceRule(income.recurrence).length > 0
+      )
+        errors.push(`Income item ${index + 1} has an invalid recurrence rule`);
+      if (
+        income.amountRange &&
+        (income.amountRange.min < 0 ||
+          income.amountRange.min > income.amountRange.max)
+      )
+        errors.push(`Income item ${index + 1} has an invalid amount range`);
+      if (
+        income.seasonality &&
+        (income.seasonality.length !== 12 ||
+          income.seasonality.some((percent) => percent < 0))
+      )
+        errors.push(`Income item ${index + 1} has an invalid seasonal profile`);
+      if (
+        income.monthlySchedule &&
+        Object.entries(income.monthlySchedule).some(
+          ([month, amount]) => !/^\d{4}-\d{2}$/.test(month) || amount < 0
+        )
+      )
+        errors.push(`Income item ${index + 1} has an invalid monthly schedule`);
+      if (income.paycheck) {
+        const { paycheck } = income;
+        if (
+          paycheck.grossPay < 0 ||
+          (paycheck.taxWithheld || 0) < 0 ||
+          (paycheck.employerMatchPercent || 0) < 0
+        )
+          errors.push(
+            `Income item ${index + 1} has a negative paycheck amount`
+          );
+        if (
+          paycheck.deductions.some(
+            (deduction) =>
+              deduction.amount < 0 ||
+              (deduction.isPercent && deduction.amount > 100)
+          )
+        )
+          errors.push(`Income item ${index + 1} has an invalid deduction`);
+        if (
+          paycheck.retirementGoalId &&
+          !userPlan.goals?.some((goal) => goal.id === paycheck.retirementGoalId)
+        )
+          errors.push(
+            `Income item ${index + 1} pays into an unknown retirement goal`
+          );
+      }
     });
   }
 
@@ -415,6 +547,15 @@ export function validateExportData(userPlan: UserPlan): {
         errors.push(`Expense item ${index + 1} is missing name`);
       if (expense.amount < 0)
         errors.push(`Expense item ${index + 1} has negative amount`);
+      if (
+        expense.recurrence &&
+        validateRecurrenceRule(expense.recurrence).length > 0
+      )
+        errors.push(`Expense item ${index + 1} has an invalid recurrence rule`);
+      if (expense.sinkingFund && expense.sinkingFund.balance < 0)
+        errors.push(
+          `Expense item ${index + 1} has a negative sinking fund balance`
+        );
     });
   }
 
@@ -427,9 +568,84 @@ export function validateExportData(userPlan: UserPlan): {
         errors.push(`Goal item ${index + 1} has invalid target amount`);
       if (goal.currentAmount < 0)
         errors.push(`Goal item ${index + 1} has negative current amount`);
+      if (goal.annualVolatility !== undefined && goal.annualVolatility < 0)
+        errors.push(`Goal item ${index + 1} has negative volatility`);
+    });
+  }
+
+  // Validate categorization rules
+  if (userPlan.categorizationRules) {
+    userPlan.categorizationRules.forEach((rule, index) => {
+      if (!rule.id) errors.push(`Rule ${index + 1} is missing ID`);
+      if (!rule.name) errors.push(`Rule ${index + 1} is missing name`);
+      if (!isValidRulePattern(rule))
+        errors.push(`Rule ${index + 1} has an invalid regular expression`);
+    });
+  }
+
+  // Validate transfers point at two different, existing accounts
+  if (userPlan.transfers) {
+    const accountIds = new Set(
+      (userPlan.accounts || []).map((account) => account.id)
+    );
+    userPlan.transfers.forEach((transfer, index) => {
+      if (!transfer.id) errors.push(`Transfer ${index + 1} is missing ID`);
+      if (
+        !accountIds.has(transfer.fromAccountId) ||
+        !accountIds.has(transfer.toAccountId)
+      )
+        errors.push(`Transfer ${index + 1} refers to an unknown account`);
+      if (transfer.fromAccountId === transfer.toAccountId)
+        errors.push(`Transfer ${index + 1} has the same source and target`);
+    });
+  }
+
+  // Validate debts
+  if (userPlan.debts) {
+    userPlan.debts.forEach((debt, index) => {
+      if (!debt.id) errors.push(`Debt ${index + 1} is missing ID`);
+      if (!debt.name) errors.push(`Debt ${index + 1} is missing name`);
+      if (debt.balance < 0 || debt.apr < 0 || debt.minimumPayment < 0)
+        errors.push(`Debt ${index + 1} has a negative balance, APR or payment`);
     });
   }
 
+  // Validate exchange rates
+  if (userPlan.exchangeRates) {
+    userPlan.exchangeRates.forEach((rate, index) => {
+      if (!rate.id) errors.push(`Exchange rate ${index + 1} is missing ID`);
+      if (!(rate.rate > 0))
+        errors.push(`Exchange rate ${index + 1} must be positive`);
+      if (!rate.from || !rate.to || rate.from === rate.to)
+        errors.push(`Exchange rate ${index + 1} has an invalid currency pair`);
+    });
+  }
+
+  // Validate categories
+  if (userPlan.categories) {
+    userPlan.categories.forEach((category, index) => {
+      if (!category.id) errors.push(`Category ${index + 1} is missing ID`);
+      if (!category.name) errors.push(`Category ${index + 1} is missing name`);
+      if (category.parentId === category.id)
+        errors.push(`Category ${index + 1} cannot be its own parent`);
+    });
+  }
+
+  // Validate budgets
+  if (userPlan.budgetSettings) {
+    Object.entries(userPlan.budgetSettings.categories || {}).forEach(
+      ([category, budget]) => {
+        if (budget && budget.amount < 0)
+          errors.push(`Budget for ${category} cannot be negative`);
+      }
+    );
+  }
+
+  // Validate the low-balance buffer
+  if (userPlan.cashFlowSettings && userPlan.cashFlowSettings.buffer < 0) {
+    errors.push("Low-balance buffer cannot be negative");
+  }
+
   return { isValid: errors.length === 0, errors };
 }
 
@@ -3,14 +3,26 @@ import {
   Income,
   Expense,
   Goal,
+  Category,
   Frequency,
   ExpenseCategory,
   Priority,
   GoalCategory,
   GoalType,
+  RecurrenceRule,
+  SinkingFund,
+  IncomeRange,
 } from "@/types";
 import { ExportData } from "./dataExport";
 import { initialForecastConfig } from "../context/initialState";
+import { migrateUserPlan, parseSchemaVersion } from "../context/migrations";
+import { decryptWithPassphrase, isEncryptedPayload } from "./encryption";
+import {
+  ensurePlanCategories,
+  findCategoryIdByName,
+  getCategories,
+} from "./categories";
+import { parseRRule } from "./recurrence";
 
 /**
  * Import result interface
@@ -20,6 +32,8 @@ export interface ImportResult {
   userPlan?: UserPlan;
   errors: string[];
   warnings: string[];
+  /** The file is encrypted and needs (the right) passphrase */
+  isEncrypted?: boolean;
 }
 
 /**
@@ -64,8 +78,11 @@ export function parseJSONImport(jsonContent: string): ImportResult {
         );
       }
 
-      // Extract user plan
-      const userPlan = exportData.userPlan;
+      // Extract user plan, bringing older exports up to the current schema
+      const userPlan = migrateUserPlan(
+        exportData.userPlan,
+        parseSchemaVersion(exportData.metadata.schemaVersion)
+      );
       const validation = validateImportedUserPlan(userPlan);
 
       if (validation.isValid) {
@@ -77,11 +94,12 @@ export function parseJSONImport(jsonContent: string): ImportResult {
     }
     // Check if it's a direct UserPlan object
     else if (data.id && (data.income || data.expenses || data.goals)) {
-      const validation = validateImportedUserPlan(data);
+      const userPlan = migrateUserPlan(data);
+      const validation = validateImportedUserPlan(userPlan);
 
       if (validation.isValid) {
         result.success = true;
-        result.userPlan = sanitizeUserPlan(data);
+        result.userPlan = sanitizeUserPlan(userPlan);
       } else {
         result.errors = validation.errors;
       }
@@ -138,11 +156,6 @@ export function parseCSVImport(
     for (const line of lines) {
       const trimmedLine = line.trim();
 
-      // Skip comments and metadata
-      if (trimmedLine.startsWith("#")) {
-        continue;
-      }
-
       // Check for section headers
       if (trimmedLine.startsWith("## ")) {
         // Process previous section
@@ -161,6 +174,11 @@ export function parseCSVImport(
         continue;
       }
 
+      // Skip comments and metadata
+      if (trimmedLine.startsWith("#")) {
+        continue;
+      }
+
       // Add data to current section
       if (currentSection && trimmedLine) {
         sectionData.push(trimmedLine);
@@ -211,8 +229,16 @@ function processCsvSection(
     case "INCOME":
       userPlan.income = parseIncomeFromCSV(rows, headers, result);
       break;
+    case "CATEGORIES":
+      userPlan.categories = parseCategoriesFromCSV(rows, headers, result);
+      break;
     case "EXPENSES":
-      userPlan.expenses = parseExpensesFromCSV(rows, headers, result);
+      userPlan.expenses = parseExpensesFromCSV(
+        rows,
+        headers,
+        result,
+        getCategories(userPlan as UserPlan)
+      );
       break;
     case "GOALS":
       userPlan.goals = parseGoalsFromCSV(rows, headers, result);
@@ -225,6 +251,51 @@ function processCsvSection(
   }
 }
 
+/**
+ * Parse expense categories from CSV rows
+ */
+function parseCategoriesFromCSV(
+  rows: string[][],
+  headers?: string[],
+  result?: ImportResult
+): Category[] {
+  const categories: Category[] = [];
+
+  const columnMap = mapCSVColumns(headers, [
+    "ID",
+    "Name",
+    "Parent ID",
+    "Icon",
+    "Color",
+    "Built In",
+  ]);
+
+  for (const row of rows) {
+    const now = new Date().toISOString();
+    const name = row[columnMap.Name] || "";
+    const categoryItem: Category = {
+      id: row[columnMap.ID] || generateId(),
+      name,
+      parentId: row[columnMap["Parent ID"]] || undefined,
+      icon: row[columnMap.Icon] || undefined,
+      color: row[columnMap.Color] || undefined,
+      builtIn: parseBoolean(row[columnMap["Built In"]]) || undefined,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    if (categoryItem.name) {
+      categories.push(categoryItem);
+    } else {
+      result?.warnings.push(
+        `Skipped category without a name: ${row.join(",")}`
+      );
+    }
+  }
+
+  return categories;
+}
+
 /**
  * Parse income data from CSV rows
  */
@@ -247,6 +318,10 @@ function parseIncomeFromCSV(
     "Is Active",
     "Created At",
     "Updated At",
+    "Recurrence",
+    "Amount Range",
+    "Seasonality",
+    "Monthly Schedule",
   ]);
 
   for (const row of rows) {
@@ -259,6 +334,16 @@ function parseIncomeFromCSV(
         description: row[columnMap.Description] || undefined,
         startDate: row[columnMap["Start Date"]] || new Date().toISOString(),
         endDate: row[columnMap["End Date"]] || undefined,
+        recurrence: parseRecurrenceColumn(row[columnMap.Recurrence], result),
+        amountRange: parseAmountRangeColumn(
+          row[columnMap["Amount Range"]],
+          result
+        ),
+        seasonality: parseSeasonalityColumn(row[columnMap.Seasonality], result),
+        monthlySchedule: parseMonthlyScheduleColumn(
+          row[columnMap["Monthly Schedule"]],
+          result
+        ),
         isActive: parseBoolean(row[columnMap["Is Active"]]),
         createdAt: row[columnMap["Created At"]] || new Date().toISOString(),
         updatedAt: row[columnMap["Updated At"]] || new Date().toISOString(),
@@ -281,7 +366,8 @@ function parseIncomeFromCSV(
 function parseExpensesFromCSV(
   rows: string[][],
   headers?: string[],
-  result?: ImportResult
+  result?: ImportResult,
+  categories: Category[] = []
 ): Expense[] {
   const expenses: Expense[] = [];
 
@@ -298,6 +384,8 @@ function parseExpensesFromCSV(
     "Is Active",
     "Created At",
     "Updated At",
+    "Recurrence",
+    "Sinking Fund Balance",
   ]);
 
   for (const row of rows) {
@@ -306,14 +394,21 @@ function parseExpensesFromCSV(
         id: row[columnMap.ID] || generateId(),
         name: row[columnMap.Name] || "",
         amount: parseFloat(row[columnMap.Amount]) || 0,
+        // Match categories by id or name; unknown ones are added on import
         category:
-          (row[columnMap.Category] as ExpenseCategory) ||
+          findCategoryIdByName(categories, row[columnMap.Category] || "") ||
+          row[columnMap.Category] ||
           ExpenseCategory.MISCELLANEOUS,
         dueDate: row[columnMap["Due Date"]] || new Date().toISOString(),
         recurring: parseBoolean(row[columnMap.Recurring]),
         frequency: row[columnMap.Frequency]
           ? (row[columnMap.Frequency] as Frequency)
           : undefined,
+        recurrence: parseRecurrenceColumn(row[columnMap.Recurrence], result),
+        sinkingFund: parseSinkingFundColumn(
+          row[columnMap["Sinking Fund Balance"]],
+          result
+        ),
         description: row[columnMap.Description] || undefined,
         priority: (row[columnMap.Priority] as Priority) || Priority.MEDIUM,
         isActive: parseBoolean(row[columnMap["Is Active"]]),
@@ -406,6 +501,90 @@ function parseGoalsFromCSV(
   return goals;
 }
 
+/**
+ * Parse an RRULE column, warning about (and dropping) rules that are not valid
+ */
+function parseRecurrenceColumn(
+  value: string | undefined,
+  result?: ImportResult
+): RecurrenceRule | undefined {
+  if (!value) return undefined;
+  const rule = parseRRule(value);
+  if (!rule) result?.warnings.push(`Ignored invalid recurrence rule: ${value}`);
+  return rule || undefined;
+}
+
+/**
+ * Parse a "min..max" amount range column
+ */
+function parseAmountRangeColumn(
+  value: string | undefined,
+  result?: ImportResult
+): IncomeRange | undefined {
+  if (!value) return undefined;
+  const match = /^\s*([\d.]+)\s*\.\.\s*([\d.]+)\s*$/.exec(value);
+  const min = match ? parseFloat(match[1]) : NaN;
+  const max = match ? parseFloat(match[2]) : NaN;
+  if (isNaN(min) || isNaN(max) || min > max) {
+    result?.warnings.push(`Ignored invalid amount range: ${value}`);
+    return undefined;
+  }
+  return { min, max };
+}
+
+/**
+ * Parse a seasonal profile column - 12 percentages separated by semicolons
+ */
+function parseSeasonalityColumn(
+  value: string | undefined,
+  result?: ImportResult
+): number[] | undefined {
+  if (!value) return undefined;
+  const percents = value.split(";").map((percent) => parseFloat(percent));
+  if (percents.length !== 12 || percents.some((p) => isNaN(p) || p < 0)) {
+    result?.warnings.push(`Ignored invalid seasonal profile: ${value}`);
+    return undefined;
+  }
+  return percents;
+}
+
+/**
+ * Parse a monthly schedule column - "YYYY-MM=amount" pairs separated by
+ * semicolons
+ */
+function parseMonthlyScheduleColumn(
+  value: string | undefined,
+  result?: ImportResult
+): Record<string, number> | undefined {
+  if (!value) return undefined;
+  const schedule: Record<string, number> = {};
+  for (const entry of value.split(";")) {
+    const [month, amount] = entry.split("=").map((part) => part.trim());
+    if (!/^\d{4}-\d{2}$/.test(month) || isNaN(parseFloat(amount))) {
+      result?.warnings.push(`Ignored invalid monthly schedule: ${value}`);
+      return undefined;
+    }
+    schedule[month] = parseFloat(amount);
+  }
+  return schedule;
+}
+
+/**
+ * Parse a sinking fund balance column - empty when the expense has no fund
+ */
+function parseSinkingFundColumn(
+  value: string | undefined,
+  result?: ImportResult
+): SinkingFund | undefined {
+  if (!value) return undefined;
+  const balance = parseFloat(value);
+  if (isNaN(balance) || balance < 0) {
+    result?.warnings.push(`Ignored invalid sinking fund balance: ${value}`);
+    return undefined;
+  }
+  return { balance };
+}
+
 /**
  * Map CSV columns to expected fields
  */
@@ -434,7 +613,7 @@ function mapCSVColumns(
 /**
  * Parse a CSV line into array of values
  */
-function parseCSVLine(line: string, delimiter: string): string[] {
+export function parseCSVLine(line: string, delimiter: string): string[] {
   const values: string[] = [];
   let current = "";
   let inQuotes = false;
@@ -540,6 +719,10 @@ function sanitizeUserPlan(userPlan: UserPlan): UserPlan {
     expenses: userPlan.expenses || [],
     goals: userPlan.goals || [],
     forecast: userPlan.forecast || [],
+    categories: ensurePlanCategories({
+      ...userPlan,
+      expenses: userPlan.expenses || [],
+    }),
     currentBalance: userPlan.currentBalance || 0,
     forecastConfig: userPlan.forecastConfig || {
       ...initialForecastConfig,
@@ -560,13 +743,14 @@ function generateId(): string {
 /**
  * Detect file format based on content
  */
-export function detectFileFormat(content: string): "json" | "csv" | "unknown" {
+export function detectFileFormat(
+  content: string
+): "json" | "csv" | "encrypted" | "unknown" {
   const trimmed = content.trim();
 
   if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
     try {
-      JSON.parse(trimmed);
-      return "json";
+      return isEncryptedPayload(JSON.parse(trimmed)) ? "encrypted" : "json";
     } catch {
       return "unknown";
     }
@@ -589,12 +773,44 @@ export function detectFileFormat(content: string): "json" | "csv" | "unknown" {
 }
 
 /**
- * Import data from file content (auto-detects format)
+ * Import data from file content (auto-detects format). Encrypted exports are
+ * decrypted with the passphrase; without one the result asks for it.
  */
-export function importFinancialData(content: string): ImportResult {
+export async function importFinancialData(
+  content: string,
+  passphrase?: string
+): Promise<ImportResult> {
   const format = detectFileFormat(content);
 
   switch (format) {
+    case "encrypted": {
+      if (!passphrase) {
+        return {
+          success: false,
+          isEncrypted: true,
+          errors: [
+            "This file is encrypted. Enter its passphrase to import it.",
+          ],
+          warnings: [],
+        };
+      }
+      try {
+        const decrypted = await decryptWithPassphrase(
+          JSON.parse(content),
+          passphrase
+        );
+        return importFinancialData(decrypted);
+      } catch (error) {
+        return {
+          success: false,
+          isEncrypted: true,
+          errors: [
+            error instanceof Error ? error.message : "Failed to decrypt file",
+          ],
+          warnings: [],
+        };
+      }
+    }
     case "json":
       return parseJSONImport(content);
     case "csv":
@@ -0,0 +1,356 @@
+/**
+ * Debt Calculator
+ *
+ * Amortizes the plan's debts month by month and simulates paying them off
+ * with the snowball, avalanche or custom ordering. The same monthly payment
+ * step is used by the forecast and by the payoff planner, so both agree on
+ * interest and payoff dates.
+ */
+
+import {
+  Debt,
+  DebtPayoffSettings,
+  DebtPayoffStrategy,
+  CompoundingFrequency,
+} from "@/types";
+
+/**
+ * Default payoff settings - no extra payments until the user opts in
+ */
+export const DEFAULT_DEBT_PAYOFF_SETTINGS: DebtPayoffSettings = {
+  strategy: DebtPayoffStrategy.AVALANCHE,
+  extraPaymentPercent: 0,
+};
+
+/**
+ * Simulations stop after this many months (50 years) so debts whose payments
+ * don't cover the interest can't loop forever
+ */
+export const MAX_PAYOFF_MONTHS = 600;
+
+/**
+ * Balances below this are treated as paid off
+ */
+const PAID_OFF_THRESHOLD = 0.005;
+
+/**
+ * One debt's payment for a month
+ */
+export interface DebtPayment {
+  id: string;
+  name: string;
+  /** Total paid this month (interest + principal) */
+  payment: number;
+  /** Interest charged this month */
+  interest: number;
+  /** Part of the payment that reduced the balance */
+  principal: number;
+  /** Balance left after the payment */
+  remainingBalance: number;
+}
+
+/**
+ * One row of an amortization schedule
+ */
+export interface AmortizationRow {
+  month: string;
+  payment: number;
+  interest: number;
+  principal: number;
+  balance: number;
+}
+
+/**
+ * Result of paying off a set of debts with one strategy
+ */
+export interface PayoffPlan {
+  strategy: DebtPayoffStrategy;
+  /** Months until every debt is paid off (or MAX_PAYOFF_MONTHS) */
+  months: number;
+  /** Month the last debt is paid off (YYYY-MM), if within the limit */
+  payoffMonth?: string;
+  isPaidOff: boolean;
+  totalInterest: number;
+  totalPaid: number;
+  /** Per-debt payoff month and interest, in the order they are paid off */
+  debts: Array<{
+    id: string;
+    name: string;
+    payoffMonth?: string;
+    interestPaid: number;
+  }>;
+  /** Combined balance at the end of each month */
+  balanceByMonth: number[];
+}
+
+/**
+ * Get the month key (YYYY-MM) for a date
+ */
+function getMonthKey(date: Date): string {
+  return `${date.getFullYear()}-${(date.getMonth() + 1)
+    .toString()
+    .padStart(2, "0")}`;
+}
+
+/**
+ * Get the month key a number of months after the start date
+ */
+function addMonths(startDate: Date, months: number): string {
+  return getMonthKey(
+    new Date(startDate.getFullYear(), startDate.getMonth() + months, 1)
+  );
+}
+
+/**
+ * Convert an APR to the effective interest rate for one month
+ */
+export function getMonthlyInterestRate(
+  apr: number,
+  compounding: CompoundingFrequency
+): number {
+  const annualRate = Math.max(0, apr) / 100;
+
+  switch (compounding) {
+    case CompoundingFrequency.DAILY:
+      return Math.pow(1 + annualRate / 365, 365 / 12) - 1;
+    case CompoundingFrequency.YEARLY:
+      return Math.pow(1 + annualRate, 1 / 12) - 1;
+    case CompoundingFrequency.MONTHLY:
+    default:
+      return annualRate / 12;
+  }
+}
+
+/**
+ * Order debts for extra payments. Snowball targets the smallest current
+ * balance, avalanche the highest rate, custom keeps the list order.
+ */
+export function orderDebtsForPayoff(
+  debts: Debt[],
+  strategy: DebtPayoffStrategy,
+  balances?: Map<string, number>
+): Debt[] {
+  const balanceOf = (debt: Debt) => balances?.get(debt.id) ?? debt.balance;
+
+  switch (strategy) {
+    case DebtPayoffStrategy.SNOWBALL:
+      return [...debts].sort(
+        (a, b) => balanceOf(a) - balanceOf(b) || b.apr - a.apr
+      );
+    case DebtPayoffStrategy.AVALANCHE:
+      return [...debts].sort(
+        (a, b) => b.apr - a.apr || balanceOf(a) - balanceOf(b)
+      );
+    case DebtPayoffStrategy.CUSTOM:
+    default:
+      return [...debts];
+  }
+}
+
+/**
+ * Charge a month's interest and pay the minimum on every debt with a balance.
+ * Updates the balances map in place.
+ */
+export function payDebtMinimums(
+  debts: Debt[],
+  balances: Map<string, number>
+): DebtPayment[] {
+  const payments: DebtPayment[] = [];
+
+  for (const debt of debts) {
+    const balance = balances.get(debt.id) ?? 0;
+    if (balance <= PAID_OFF_THRESHOLD) continue;
+
+    const interest =
+      balance * getMonthlyInterestRate(debt.apr, debt.compounding);
+    const owed = balance + interest;
+    const payment = Math.min(Math.max(0, debt.minimumPayment), owed);
+    const remainingBalance = owed - payment;
+
+    balances.set(debt.id, remainingBalance);
+    payments.push({
+      id: debt.id,
+      name: debt.name,
+      payment,
+      interest,
+      principal: payment - interest,
+      remainingBalance,
+    });
+  }
+
+  return payments;
+}
+
+/**
+ * Put an extra amount toward debts in strategy order, after the minimums have
+ * been paid. Updates the balances map and payments in place and returns the
+ * amount actually used (less than offered once debts are paid off).
+ */
+export function applyExtraDebtPayment(
+  debts: Debt[],
+  balances: Map<string, number>,
+  payments: DebtPayment[],
+  extraPayment: number,
+  strategy: DebtPayoffStrategy
+): number {
+  let remaining = Math.max(0, extraPayment);
+
+  for (const debt of orderDebtsForPayoff(debts, strategy, balances)) {
+    if (remaining <= 0) break;
+
+    const balance = balances.get(debt.id) ?? 0;
+    if (balance <= PAID_OFF_THRESHOLD) continue;
+
+    const amount = Math.min(balance, remaining);
+    balances.set(debt.id, balance - amount);
+    remaining -= amount;
+
+    const payment = payments.find((entry) => entry.id === debt.id);
+    if (payment) {
+      payment.payment += amount;
+      payment.principal += amount;
+      payment.remainingBalance -= amount;
+    }
+  }
+
+  return Math.max(0, extraPayment) - remaining;
+}
+
+/**
+ * Build the amortization schedule for a single debt
+ */
+export function generateAmortizationSchedule(
+  debt: Debt,
+  extraPayment: number = 0,
+  startDate: Date = new Date()
+): AmortizationRow[] {
+  const balances = new Map([[debt.id, debt.balance]]);
+  const schedule: AmortizationRow[] = [];
+
+  for (let month = 0; month < MAX_PAYOFF_MONTHS; month++) {
+    if ((balances.get(debt.id) ?? 0) <= PAID_OFF_THRESHOLD) break;
+
+    const [payment] = payDebtMinimums([debt], balances);
+    applyExtraDebtPayment(
+      [debt],
+      balances,
+      [payment],
+      extraPayment,
+      DebtPayoffStrategy.CUSTOM
+    );
+
+    schedule.push({
+      month: addMonths(startDate, month),
+      payment: payment.payment,
+      interest: payment.interest,
+      principal: payment.principal,
+      balance: payment.remainingBalance,
+    });
+  }
+
+  return schedule;
+}
+
+/**
+ * Simulate paying off all debts with one strategy. The monthly budget is the
+ * sum of the minimum payments plus the extra payment; minimums freed up by
+ * paid-off debts roll over to the next debt in line.
+ */
+export function simulateDebtPayoff(
+  debts: Debt[],
+  strategy: DebtPayoffStrategy,
+  extraPayment: number,
+  startDate: Date = new Date()
+): PayoffPlan {
+  const activeDebts = debts.filter((debt) => debt.isActive && debt.balance > 0);
+  const balances = new Map(activeDebts.map((debt) => [debt.id, debt.balance]));
+  const monthlyBudget =
+    activeDebts.reduce((sum, debt) => sum + debt.minimumPayment, 0) +
+    Math.max(0, extraPayment);
+
+  const interestPaid = new Map<string, number>();
+  const payoffMonths = new Map<string, string>();
+  const balanceByMonth: number[] = [];
+  let totalInterest = 0;
+  let totalPaid = 0;
+  let months = 0;
+
+  const totalBalance = () =>
+    Array.from(balances.values()).reduce(
+      (sum, balance) => sum + Math.max(0, balance),
+      0
+    );
+
+  while (totalBalance() > PAID_OFF_THRESHOLD && months < MAX_PAYOFF_MONTHS) {
+    const monthKey = addMonths(startDate, months);
+    const payments = payDebtMinimums(activeDebts, balances);
+    const minimumsPaid = payments.reduce((sum, p) => sum + p.payment, 0);
+    applyExtraDebtPayment(
+      activeDebts,
+      balances,
+      payments,
+      monthlyBudget - minimumsPaid,
+      strategy
+    );
+
+    for (const payment of payments) {
+      interestPaid.set(
+        payment.id,
+        (interestPaid.get(payment.id) || 0) + payment.interest
+      );
+      totalInterest += payment.interest;
+      totalPaid += payment.payment;
+
+      if (
+        payment.remainingBalance <= PAID_OFF_THRESHOLD &&
+        !payoffMonths.has(payment.id)
+      ) {
+        payoffMonths.set(payment.id, monthKey);
+      }
+    }
+
+    balanceByMonth.push(totalBalance());
+    months++;
+  }
+
+  const isPaidOff = totalBalance() <= PAID_OFF_THRESHOLD;
+  const debtResults = activeDebts
+    .map((debt) => ({
+      id: debt.id,
+      name: debt.name,
+      payoffMonth: payoffMonths.get(debt.id),
+      interestPaid: interestPaid.get(debt.id) || 0,
+    }))
+    .sort((a, b) =>
+      (a.payoffMonth || "9999-99").localeCompare(b.payoffMonth || "9999-99")
+    );
+
+  return {
+    strategy,
+    months,
+    payoffMonth:
+      isPaidOff && months > 0 ? addMonths(startDate, months - 1) : undefined,
+    isPaidOff,
+    totalInterest,
+    totalPaid,
+    debts: debtResults,
+    balanceByMonth,
+  };
+}
+
+/**
+ * Compare snowball, avalanche and custom orderings for the same extra payment
+ */
+export function compareDebtStrategies(
+  debts: Debt[],
+  extraPayment: number,
+  startDate: Date = new Date()
+): PayoffPlan[] {
+  return [
+    DebtPayoffStrategy.SNOWBALL,
+    DebtPayoffStrategy.AVALANCHE,
+    DebtPayoffStrategy.CUSTOM,
+  ].map((strategy) =>
+    simulateDebtPayoff(debts, strategy, extraPayment, startDate)
+  );
+}
@@ -0,0 +1,206 @@
+/**
+ * Encryption Utilities
+ *
+ * Passphrase-based encryption for the stored plan and exported files using
+ * WebCrypto: a PBKDF2-SHA-256 key derived from the passphrase encrypts with
+ * AES-GCM. Payloads carry their KDF parameters and IV, so an exported file
+ * can be decrypted anywhere with just the passphrase.
+ */
+
+export const ENCRYPTED_FORMAT = "finance-planner-encrypted";
+
+/**
+ * PBKDF2 iterations for new keys (OWASP recommendation for SHA-256)
+ */
+export const DEFAULT_KDF_ITERATIONS = 600000;
+
+/**
+ * Iteration range accepted from a payload. Fewer would make the passphrase
+ * cheap to guess; more would hang the browser deriving the key.
+ */
+export const MIN_KDF_ITERATIONS = 100000;
+export const MAX_KDF_ITERATIONS = 10000000;
+
+/**
+ * How the key was derived from the passphrase
+ */
+export interface KeyDerivationParams {
+  name: "PBKDF2";
+  hash: "SHA-256";
+  iterations: number;
+  /** Base64 salt */
+  salt: string;
+}
+
+/**
+ * Ciphertext with everything needed to decrypt it except the passphrase
+ */
+export interface EncryptedPayload {
+  format: typeof ENCRYPTED_FORMAT;
+  version: 1;
+  algorithm: "AES-GCM";
+  kdf: KeyDerivationParams;
+  /** Base64 initialisation vector */
+  iv: string;
+  /** Base64 ciphertext, including the GCM authentication tag */
+  ciphertext: string;
+}
+
+/**
+ * A derived key together with the parameters it was derived with
+ */
+export interface PassphraseKey {
+  key: CryptoKey;
+  kdf: KeyDerivationParams;
+}
+
+function getSubtle(): SubtleCrypto {
+  if (!globalThis.crypto?.subtle) {
+    throw new Error("Encryption requires WebCrypto, which is not available");
+  }
+  return globalThis.crypto.subtle;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary);
+}
+
+function fromBase64(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/**
+ * Check whether parsed data is an encrypted payload
+ */
+export function isEncryptedPayload(data: unknown): data is EncryptedPayload {
+  const payload = data as EncryptedPayload | null;
+  return (
+    !!payload &&
+    typeof payload === "object" &&
+    payload.format === ENCRYPTED_FORMAT &&
+    typeof payload.iv === "string" &&
+    typeof payload.ciphertext === "string" &&
+    !!payload.kdf
+  );
+}
+
+/**
+ * Derive an AES-GCM key from a passphrase. A new random salt is used unless
+ * existing parameters are given; their iteration count must be in range.
+ */
+export async function deriveKey(
+  passphrase: string,
+  params?: KeyDerivationParams
+): Promise<PassphraseKey> {
+  if (
+    params &&
+    !(
+      Number.isInteger(params.iterations) &&
+      params.iterations >= MIN_KDF_ITERATIONS &&
+      params.iterations <= MAX_KDF_ITERATIONS
+    )
+  ) {
+    throw new Error(
+      `Unsupported key derivation: ${params.iterations} iterations`
+    );
+  }
+
+  const subtle = getSubtle();
+  const kdf: KeyDerivationParams = params || {
+    name: "PBKDF2",
+    hash: "SHA-256",
+    iterations: DEFAULT_KDF_ITERATIONS,
+    salt: toBase64(globalThis.crypto.getRandomValues(new Uint8Array(16))),
+  };
+
+  const baseKey = await subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+  const key = await subtle.deriveKey(
+    {
+      name: "PBKDF2",
+      hash: kdf.hash,
+      iterations: kdf.iterations,
+      salt: fromBase64(kdf.salt),
+    },
+    baseKey,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+
+  return { key, kdf };
+}
+
+/**
+ * Encrypt text with a derived key
+ */
+export async function encryptWithKey(
+  plaintext: string,
+  { key, kdf }: PassphraseKey
+): Promise<EncryptedPayload> {
+  const iv = globalThis.crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await getSubtle().encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+
+  return {
+    format: ENCRYPTED_FORMAT,
+    version: 1,
+    algorithm: "AES-GCM",
+    kdf,
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  };
+}
+
+/**
+ * Decrypt a payload with a derived key. Throws if the key is wrong or the
+ * data has been tampered with.
+ */
+export async function decryptWithKey(
+  payload: EncryptedPayload,
+  { key }: PassphraseKey
+): Promise<string> {
+  try {
+    const plaintext = await getSubtle().decrypt(
+      { name: "AES-GCM", iv: fromBase64(payload.iv) },
+      key,
+      fromBase64(payload.ciphertext)
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    throw new Error("Incorrect passphrase or corrupted data");
+  }
+}
+
+/**
+ * Encrypt text with a passphrase (derives a new key with a fresh salt)
+ */
+export async function encryptWithPassphrase(
+  plaintext: string,
+  passphrase: string
+): Promise<EncryptedPayload> {
+  return encryptWithKey(plaintext, await deriveKey(passphrase));
+}
+
+/**
+ * Decrypt a payload with the passphrase it was encrypted with
+ */
+export async function decryptWithPassphrase(
+  payload: EncryptedPayload,
+  passphrase: string
+): Promise<string> {
+  return decryptWithKey(payload, await deriveKey(passphrase, payload.kdf));
+}
@@ -0,0 +1,317 @@
+/**
+ * Exchange Rate Utilities
+ *
+ * Income, expenses, goals and accounts can each be kept in their own
+ * currency. The plan's currency preference is its base currency; amounts in
+ * other currencies are converted into it with the plan's dated exchange
+ * rates before anything is totalled or forecast. A rate applies from its
+ * date until the next rate for the same pair.
+ */
+
+import { CreateExchangeRateInput, ExchangeRate, UserPlan } from "@/types";
+import { parseCSVLine } from "./dataImport";
+
+/**
+ * Base currency of plans without a currency preference
+ */
+export const DEFAULT_BASE_CURRENCY = "USD";
+
+/**
+ * Result of parsing an exchange rate CSV file
+ */
+export interface ExchangeRateParseResult {
+  success: boolean;
+  rates: CreateExchangeRateInput[];
+  errors: string[];
+  warnings: string[];
+}
+
+/**
+ * Currency pair without a usable exchange rate
+ */
+export interface MissingExchangeRate {
+  from: string;
+  to: string;
+}
+
+/**
+ * Currency every amount in the plan is converted into
+ */
+export function getBaseCurrency(userPlan: UserPlan): string {
+  return userPlan.preferences?.currency || DEFAULT_BASE_CURRENCY;
+}
+
+/**
+ * Currency an item's amount is in
+ */
+export function getItemCurrency(
+  item: { currency?: string },
+  baseCurrency: string
+): string {
+  return item.currency || baseCurrency;
+}
+
+function toDateKey(date: Date | string): string {
+  return typeof date === "string"
+    ? date.slice(0, 10)
+    : date.toISOString().slice(0, 10);
+}
+
+/**
+ * Rate of a pair as entered, or as the inverse of the opposite pair. Uses the
+ * latest rate dated on or before the date, or the earliest rate when all of
+ * them are later.
+ */
+function findPairRate(
+  rates: ExchangeRate[],
+  from: string,
+  to: string,
+  dateKey: string
+): number | null {
+  const candidates = rates
+    .filter(
+      (rate) =>
+        rate.rate > 0 &&
+        ((rate.from === from && rate.to === to) ||
+          (rate.from === to && rate.to === from))
+    )
+    .sort((a, b) => a.date.localeCompare(b.date));
+  if (candidates.length === 0) return null;
+
+  const applicable =
+    [...candidates].reverse().find((rate) => rate.date <= dateKey) ||
+    candidates[0];
+  return applicable.from === from ? applicable.rate : 1 / applicable.rate;
+}
+
+/**
+ * Value of one unit of `from` in `to` on a date. Pairs without a rate of
+ * their own are crossed through a shared currency. Returns null when no rate
+ * connects the two.
+ */
+export function getExchangeRate(
+  rates: ExchangeRate[] = [],
+  from: string,
+  to: string,
+  date: Date | string = new Date()
+): number | null {
+  if (from === to) return 1;
+
+  const dateKey = toDateKey(date);
+  const direct = findPairRate(rates, from, to, dateKey);
+  if (direct !== null) return direct;
+
+  const currencies = new Set(rates.flatMap((rate) => [rate.from, rate.to]));
+  for (const via of currencies) {
+    if (via === from || via === to) continue;
+    const first = findPairRate(rates, from, via, dateKey);
+    if (first === null) continue;
+    const second = findPairRate(rates, via, to, dateKey);
+    if (second !== null) return first * second;
+  }
+
+  return null;
+}
+
+/**
+ * Convert an amount into another currency, leaving it unchanged when there is
+ * no rate
+ */
+export function convertAmount(
+  amount: number,
+  rates: ExchangeRate[] | undefined,
+  from: string,
+  to: string,
+  date?: Date | string
+): number {
+  return amount * (getExchangeRate(rates, from, to, date) ?? 1);
+}
+
+/**
+ * Currencies used in the plan other than the base currency
+ */
+export function getForeignCurrencies(userPlan: UserPlan): string[] {
+  const baseCurrency = getBaseCurrency(userPlan);
+  const currencies = new Set<string>();
+  for (const item of [
+    ...userPlan.income,
+    ...userPlan.expenses,
+    ...userPlan.goals,
+    ...(userPlan.accounts || []),
+  ]) {
+    if (item.currency && item.currency !== baseCurrency) {
+      currencies.add(item.currency);
+    }
+  }
+  return [...currencies].sort();
+}
+
+export function hasForeignCurrencies(userPlan: UserPlan): boolean {
+  return getForeignCurrencies(userPlan).length > 0;
+}
+
+/**
+ * Foreign currencies with no rate into the base currency. Their amounts are
+ * counted one-for-one until a rate is added.
+ */
+export function getMissingExchangeRates(
+  userPlan: UserPlan
+): MissingExchangeRate[] {
+  const baseCurrency = getBaseCurrency(userPlan);
+  return getForeignCurrencies(userPlan)
+    .filter(
+      (currency) =>
+        getExchangeRate(userPlan.exchangeRates, currency, baseCurrency) === null
+    )
+    .map((currency) => ({ from: currency, to: baseCurrency }));
+}
+
+/**
+ * The plan with every amount in its base currency, using the rates in effect
+ * on the date. Converted items lose their currency; a plan with nothing in a
+ * foreign currency is returned as is.
+ */
+export function convertPlanToBaseCurrency(
+  userPlan: UserPlan,
+  date: Date | string = new Date()
+): UserPlan {
+  if (!hasForeignCurrencies(userPlan)) return userPlan;
+
+  const baseCurrency = getBaseCurrency(userPlan);
+  const rateCache = new Map<string, number>();
+  const rateFor = (currency: string | undefined) => {
+    if (!currency || currency === baseCurrency) return 1;
+    if (!rateCache.has(currency)) {
+      rateCache.set(
+        currency,
+        getExchangeRate(userPlan.exchangeRates, currency, baseCurrency, date) ??
+          1
+      );
+    }
+    return rateCache.get(currency)!;
+  };
+
+  return {
+    ...userPlan,
+    income: userPlan.income.map((income) => ({
+      ...income,
+      amount: income.amount * rateFor(income.currency),
+      amountRange: income.amountRange && {
+        min: income.amountRange.min * rateFor(income.currency),
+        max: income.amountRange.max * rateFor(income.currency),
+      },
+      monthlySchedule:
+        income.monthlySchedule &&
+        Object.fromEntries(
+          Object.entries(income.monthlySchedule).map(([month, amount]) => [
+            month,
+            amount * rateFor(income.currency),
+          ])
+        ),
+      paycheck: income.paycheck && {
+        ...income.paycheck,
+        grossPay: income.paycheck.grossPay * rateFor(income.currency),
+        taxWithheld:
+          income.paycheck.taxWithheld !== undefined
+            ? income.paycheck.taxWithheld * rateFor(income.currency)
+            : undefined,
+        deductions: income.paycheck.deductions.map((deduction) => ({
+          ...deduction,
+          amount: deduction.isPercent
+            ? deduction.amount
+            : deduction.amount * rateFor(income.currency),
+        })),
+      },
+      currency: undefined,
+    })),
+    expenses: userPlan.expenses.map((expense) => ({
+      ...expense,
+      amount: expense.amount * rateFor(expense.currency),
+      sinkingFund: expense.sinkingFund && {
+        balance: expense.sinkingFund.balance * rateFor(expense.currency),
+      },
+      currency: undefined,
+    })),
+    goals: userPlan.goals.map((goal) => ({
+      ...goal,
+      targetAmount: goal.targetAmount * rateFor(goal.currency),
+      currentAmount: goal.currentAmount * rateFor(goal.currency),
+      currency: undefined,
+    })),
+    accounts: userPlan.accounts?.map((account) => ({
+      ...account,
+      balance: account.balance * rateFor(account.currency),
+      currency: undefined,
+    })),
+  };
+}
+
+/**
+ * Parse historical rates from CSV with date, from, to and rate columns (in
+ * any order, matched by header)
+ */
+export function parseExchangeRatesCSV(
+  content: string
+): ExchangeRateParseResult {
+  const result: ExchangeRateParseResult = {
+    success: false,
+    rates: [],
+    errors: [],
+    warnings: [],
+  };
+
+  const lines = content.split(/\r?\n/).filter((line) => line.trim() !== "");
+  if (lines.length === 0) {
+    result.errors.push("File is empty");
+    return result;
+  }
+
+  const headers = parseCSVLine(lines[0], ",").map((header) =>
+    header.toLowerCase()
+  );
+  const columns = {
+    date: headers.indexOf("date"),
+    from: headers.indexOf("from"),
+    to: headers.indexOf("to"),
+    rate: headers.indexOf("rate"),
+  };
+  for (const [column, index] of Object.entries(columns)) {
+    if (index === -1) result.errors.push(`Column "${column}" not found`);
+  }
+  if (result.errors.length > 0) return result;
+
+  lines.slice(1).forEach((line, index) => {
+    const lineNumber = index + 2;
+    const values = parseCSVLine(line, ",");
+    const date = values[columns.date] || "";
+    const from = (values[columns.from] || "").toUpperCase();
+    const to = (values[columns.to] || "").toUpperCase();
+    const rate = parseFloat(values[columns.rate]);
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date))) {
+      result.warnings.push(
+        `Row ${lineNumber}: invalid date "${date}", skipped`
+      );
+      return;
+    }
+    if (!/^[A-Z]{3}$/.test(from) || !/^[A-Z]{3}$/.test(to) || from === to) {
+      result.warnings.push(
+        `Row ${lineNumber}: invalid currency pair "${from}/${to}", skipped`
+      );
+      return;
+    }
+    if (!(rate > 0)) {
+      result.warnings.push(`Row ${lineNumber}: invalid rate, skipped`);
+      return;
+    }
+
+    result.rates.push({ date, from, to, rate });
+  });
+
+  result.success = result.rates.length > 0;
+  if (!result.success) {
+    result.errors.push("No valid exchange rates found in file");
+  }
+
+  return result;
+}
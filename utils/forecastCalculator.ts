@@ -14,7 +14,46 @@ import {
   UserPlan,
   Priority,
   GoalType,
+  Scenario,
+  AccountType,
 } from "@/types";
+import { applyScenario } from "./scenarios";
+import {
+  getActiveAccounts,
+  getPrimaryAccountId,
+  getTotalAccountBalance,
+  isLiabilityAccount,
+  resolveAccountId,
+} from "./accounts";
+import {
+  DEFAULT_DEBT_PAYOFF_SETTINGS,
+  DebtPayment,
+  applyExtraDebtPayment,
+  payDebtMinimums,
+} from "./debtCalculator";
+import {
+  getCategoryInflationRate,
+  getInflationFactor,
+  getRaiseFactor,
+} from "./inflation";
+import { getTakeHomeRatio, getTaxCurrencyRate, getTaxRuleSet } from "./tax";
+import {
+  convertPlanToBaseCurrency,
+  hasForeignCurrencies,
+} from "./exchangeRates";
+import { getCategories } from "./categories";
+import { getPaycheckRetirementAmount } from "./paycheck";
+import {
+  calculateMonthlyAmount,
+  getExpenseOccurrences,
+  getIncomeMonthlyEquivalent,
+  getIncomeOccurrences,
+  getMonthlyMultiplier,
+  getSeasonalFactor,
+  isExpenseActiveInMonth,
+  isIncomeActiveInMonth,
+  isSinkingFundExpense,
+} from "./amounts";
 
 /**
  * Configuration for forecast calculation
@@ -30,6 +69,26 @@ export interface ForecastConfig {
   includeGoalContributions: boolean;
   /** Conservative mode reduces income by 10% and increases expenses by 10% */
   conservativeMode: boolean;
+  /** What-if scenario to layer on top of the baseline plan */
+  scenario?: Scenario;
+  /** Deflate results to today's money using the plan's general inflation rate */
+  todaysMoney?: boolean;
+  /** Random draws for one Monte Carlo run (deterministic when omitted) */
+  sampler?: ForecastSampler;
+  /** Skip the development logging, e.g. for repeated Monte Carlo runs */
+  quiet?: boolean;
+}
+
+/**
+ * Source of random variation for a single Monte Carlo run
+ */
+export interface ForecastSampler {
+  /** Multiplier applied to an income source's amount for the month */
+  incomeFactor: (income: Income) => number;
+  /** Multiplier applied to an expense's amount for the month */
+  expenseFactor: (expense: Expense) => number;
+  /** Return on a goal's invested balance for the month */
+  goalReturn: (goal: Goal, expectedMonthlyReturn: number) => number;
 }
 
 /**
@@ -46,7 +105,11 @@ export interface MonthlyForecast {
   expenses: number;
   /** Goal contributions for the month */
   goalContributions: number;
-  /** Net change (income - expenses - goal contributions) */
+  /** Investment growth on goal balances for the month (not cash flow) */
+  goalGrowth: number;
+  /** Debt payments for the month (minimums plus any extra) */
+  debtPayments: number;
+  /** Net change (income - expenses - debt payments - goal contributions) */
   netChange: number;
   /** Ending balance for the month */
   endingBalance: number;
@@ -73,6 +136,44 @@ export interface MonthlyForecast {
     name: string;
     amount: number;
   }>;
+  /** Breakdown by goal investment growth */
+  goalGrowthBreakdown: Array<{
+    id: string;
+    name: string;
+    amount: number;
+  }>;
+  /** Retirement contributions and employer match paid from paychecks straight into goals (not cash flow) */
+  payrollContributions: Array<{
+    id: string;
+    name: string;
+    amount: number;
+  }>;
+  /** Breakdown by debt payments */
+  debtBreakdown: DebtPayment[];
+  /** Sinking fund set-asides and the bills they pay (set-asides count as expenses, bills paid from the fund do not) */
+  sinkingFundBreakdown: SinkingFundMonth[];
+  /** Ending balance of each account (empty when the plan has no accounts) */
+  accountBalances: Array<{
+    id: string;
+    name: string;
+    endingBalance: number;
+  }>;
+}
+
+/**
+ * One month of a sinking fund
+ */
+export interface SinkingFundMonth {
+  id: string;
+  name: string;
+  /** Monthly equivalent of the bill set aside this month */
+  contribution: number;
+  /** Amount of the bill paid from the fund */
+  withdrawal: number;
+  /** Amount of the bill the fund could not cover, paid from cash */
+  shortfall: number;
+  /** Fund balance at the end of the month */
+  balance: number;
 }
 
 /**
@@ -86,6 +187,9 @@ export interface ForecastResult {
     totalIncome: number;
     totalExpenses: number;
     totalGoalContributions: number;
+    totalGoalGrowth: number;
+    totalDebtPayments: number;
+    totalDebtInterest: number;
     finalBalance: number;
     averageMonthlyIncome: number;
     averageMonthlyExpenses: number;
@@ -93,6 +197,8 @@ export interface ForecastResult {
     lowestBalance: number;
     highestBalance: number;
     monthsWithNegativeBalance: number;
+    /** Asset accounts that go negative at some point in the forecast */
+    accountsWithNegativeBalance: number;
   };
   /** Goal progress projections */
   goalProgress: Array<{
@@ -101,203 +207,90 @@ export interface ForecastResult {
     targetAmount: number;
     currentAmount: number;
     projectedAmount: number;
+    /** Current amount plus contributions over the forecast */
+    contributedAmount: number;
+    /** Investment growth over the forecast */
+    growthAmount: number;
     projectedProgress: number;
     estimatedCompletionMonth?: string;
     onTrack: boolean;
     goalType: GoalType;
     averageMonthlyAllocation: number;
   }>;
+  /** Debt balance projections */
+  debtProgress: Array<{
+    id: string;
+    name: string;
+    startingBalance: number;
+    finalBalance: number;
+    interestPaid: number;
+    /** Month the debt is paid off, if within the forecast */
+    payoffMonth?: string;
+  }>;
+  /** Sinking fund projections */
+  sinkingFundProgress: Array<{
+    id: string;
+    name: string;
+    startingBalance: number;
+    finalBalance: number;
+    /** Part of the bills the fund could not cover over the forecast */
+    totalShortfall: number;
+    /** First month a bill is due before enough has been set aside */
+    firstShortfallMonth?: string;
+    /** Every bill in the forecast is paid in full from the fund */
+    isFunded: boolean;
+  }>;
+  /** Per-account balance projections */
+  accountProjections: Array<{
+    id: string;
+    name: string;
+    type: AccountType;
+    startingBalance: number;
+    finalBalance: number;
+    lowestBalance: number;
+    /** First month an asset account is overdrawn, if it ever is */
+    firstNegativeMonth?: string;
+    /** Asset account dips below zero (liabilities are negative by design) */
+    goesNegative: boolean;
+  }>;
 }
 
 /**
- * Convert frequency to monthly multiplier
- */
-export function getMonthlyMultiplier(frequency: Frequency): number {
-  switch (frequency) {
-    case Frequency.DAILY:
-      return 30.44; // Average days per month
-    case Frequency.WEEKLY:
-      return 4.33; // Average weeks per month
-    case Frequency.BIWEEKLY:
-      return 2.17; // Average bi-weeks per month
-    case Frequency.MONTHLY:
-      return 1;
-    case Frequency.QUARTERLY:
-      return 1 / 3;
-    case Frequency.YEARLY:
-      return 1 / 12;
-    case Frequency.ONE_TIME:
-      return 0; // Handled separately
-    default:
-      return 1;
-  }
-}
-
-/**
- * Calculate monthly amount from frequency
- */
-export function calculateMonthlyAmount(
-  amount: number,
-  frequency: Frequency
-): number {
-  // Handle one-time income/expense separately since they use the full amount
-  if (frequency === Frequency.ONE_TIME) {
-    return amount;
-  }
-  return amount * getMonthlyMultiplier(frequency);
-}
-
-/**
- * Check if an income is active for a given month
+ * Amount an income pays in a month before tax: the scheduled total when the
+ * month has one, otherwise its payments with raises and the seasonal profile
+ * applied
  */
-export function isIncomeActiveInMonth(
+export function getIncomeAmountForMonth(
   income: Income,
-  monthDate: Date
-): boolean {
-  // Check if the income is active
-  if (!income.isActive) return false;
-
-  const startDate = new Date(income.startDate);
-  const endDate = income.endDate ? new Date(income.endDate) : null;
-
-  // For one-time income, only active in the specific month of the start date
-  if (income.frequency === Frequency.ONE_TIME) {
-    const incomeMonth = new Date(
-      startDate.getFullYear(),
-      startDate.getMonth(),
-      1
-    );
-    const forecastMonth = new Date(
-      monthDate.getFullYear(),
-      monthDate.getMonth(),
-      1
-    );
-    return incomeMonth.getTime() === forecastMonth.getTime();
-  }
-
-  // For recurring income, check if it's within the active period
-  // Check if the month is after the start date
-  if (monthDate < startDate) return false;
-
-  // Check if the month is before the end date (if exists)
-  if (endDate && monthDate > endDate) return false;
-
-  return true;
+  monthDate: Date,
+  forecastStart: Date
+): number {
+  const monthKey = `${monthDate.getFullYear()}-${String(
+    monthDate.getMonth() + 1
+  ).padStart(2, "0")}`;
+  const scheduled = income.monthlySchedule?.[monthKey];
+  if (scheduled !== undefined) return scheduled;
+
+  return (
+    (income.recurrence
+      ? income.amount * getIncomeOccurrences(income, monthDate)
+      : calculateMonthlyAmount(income.amount, income.frequency)) *
+    getSeasonalFactor(income, monthDate) *
+    getRaiseFactor(income, forecastStart, monthDate)
+  );
 }
 
 /**
- * Check if an expense is active for a given month
+ * Share of an income's expected amount a conservative forecast counts on:
+ * the low end of its range, or 90% when it has none
  */
-export function isExpenseActiveInMonth(
-  expense: Expense,
-  monthDate: Date
-): boolean {
-  // Check if the expense is active
-  if (!expense.isActive) return false;
-
-  // Handle installment expenses
-  if (
-    expense.isInstallment &&
-    expense.installmentStartMonth &&
-    expense.installmentMonths
-  ) {
-    // Create dates in UTC to avoid timezone issues
-    const startDate = new Date(
-      expense.installmentStartMonth + "-01T00:00:00.000Z"
-    );
-    const endDate = new Date(startDate);
-    endDate.setUTCMonth(endDate.getUTCMonth() + expense.installmentMonths - 1); // Fix: should be -1 because we include the start month
-
-    const currentMonthStart = new Date(
-      monthDate.getFullYear(),
-      monthDate.getMonth(),
-      1
-    );
-    // Convert to UTC for consistent comparison
-    const currentMonthUTC = new Date(
-      Date.UTC(currentMonthStart.getFullYear(), currentMonthStart.getMonth(), 1)
-    );
-
-    const isActive = currentMonthUTC >= startDate && currentMonthUTC <= endDate;
-
-    // Add debug logging for installments
-    if (process.env.NODE_ENV === "development") {
-      console.log(`🔍 Installment Check: ${expense.name}`);
-      console.log(`   StartMonth: ${expense.installmentStartMonth}`);
-      console.log(`   StartDate: ${startDate.toISOString()}`);
-      console.log(
-        `   StartDate Local: ${startDate.getUTCFullYear()}-${String(
-          startDate.getUTCMonth() + 1
-        ).padStart(2, "0")}-${String(startDate.getUTCDate()).padStart(2, "0")}`
-      );
-      console.log(`   EndDate: ${endDate.toISOString()}`);
-      console.log(`   CurrentMonth: ${currentMonthUTC.toISOString()}`);
-      console.log(
-        `   CurrentMonth Local: ${currentMonthUTC.getUTCFullYear()}-${String(
-          currentMonthUTC.getUTCMonth() + 1
-        ).padStart(2, "0")}-${String(currentMonthUTC.getUTCDate()).padStart(
-          2,
-          "0"
-        )}`
-      );
-      console.log(
-        `   Comparison: ${currentMonthUTC.getTime()} >= ${startDate.getTime()} && ${currentMonthUTC.getTime()} <= ${endDate.getTime()}`
-      );
-      console.log(`   IsActive: ${isActive}`);
-    }
-
-    // Fix: should be <= endDate to include the last month
-    return isActive;
-  }
-
-  // For recurring expenses, check frequency to determine if active in this month
-  if (expense.recurring && expense.frequency) {
-    const dueDate = new Date(expense.dueDate);
-    const forecastMonth = new Date(
-      monthDate.getFullYear(),
-      monthDate.getMonth(),
-      1
-    );
-    const dueDateMonth = new Date(dueDate.getFullYear(), dueDate.getMonth(), 1);
-
-    switch (expense.frequency) {
-      case Frequency.YEARLY:
-        // Yearly expenses only happen in the month of the due date each year
-        return forecastMonth.getMonth() === dueDateMonth.getMonth();
-
-      case Frequency.QUARTERLY:
-        // Quarterly expenses happen every 3 months from the due date month
-        const monthsDiff =
-          (forecastMonth.getFullYear() - dueDateMonth.getFullYear()) * 12 +
-          (forecastMonth.getMonth() - dueDateMonth.getMonth());
-        return monthsDiff >= 0 && monthsDiff % 3 === 0;
-
-      case Frequency.MONTHLY:
-        // Monthly expenses happen every month
-        return true;
-
-      case Frequency.WEEKLY:
-      case Frequency.BIWEEKLY:
-      case Frequency.DAILY:
-        // These happen frequently enough to be considered monthly
-        return true;
-
-      default:
-        return true;
-    }
+export function getConservativeIncomeFactor(
+  income: Pick<Income, "amount" | "amountRange">
+): number {
+  if (income.amountRange && income.amount > 0) {
+    return Math.min(1, Math.max(0, income.amountRange.min / income.amount));
   }
-
-  // For one-time expenses, check if the due date is in the current month
-  const dueDate = new Date(expense.dueDate);
-  const monthStart = new Date(monthDate.getFullYear(), monthDate.getMonth(), 1);
-  const monthEnd = new Date(
-    monthDate.getFullYear(),
-    monthDate.getMonth() + 1,
-    0
-  );
-
-  // One-time expenses are only active in the month they're due
-  return dueDate >= monthStart && dueDate <= monthEnd;
+  return 0.9;
 }
 
 /**
@@ -368,7 +361,8 @@ function roundToThousand(amount: number): number {
 export function calculateSmartGoalAllocations(
   goals: Goal[],
   availableSurplus: number,
-  currentMonth: Date
+  currentMonth: Date,
+  quiet = false
 ): Array<{ id: string; name: string; amount: number }> {
   // Filter active goals and sort by priority order
   const activeGoals = goals
@@ -379,7 +373,7 @@ export function calculateSmartGoalAllocations(
   let remainingSurplus = availableSurplus;
 
   // Add debug logging
-  if (process.env.NODE_ENV === "development") {
+  if (process.env.NODE_ENV === "development" && !quiet) {
     console.log(
       `Smart goal allocation: Available surplus = ${availableSurplus}, Active goals = ${activeGoals.length}`
     );
@@ -482,7 +476,7 @@ export function calculateSmartGoalAllocations(
       remainingSurplus -= allocation;
 
       // Add debug logging
-      if (process.env.NODE_ENV === "development") {
+      if (process.env.NODE_ENV === "development" && !quiet) {
         console.log(
           `Allocated ${allocation} to goal ${
             goal.name
@@ -515,6 +509,13 @@ function getPriorityMultiplier(priority: Priority): number {
   }
 }
 
+/**
+ * Monthly growth rate for a goal's balance from its expected annual return
+ */
+export function getGoalMonthlyReturn(goal: Goal): number {
+  return Math.max(-100, goal.expectedAnnualReturn || 0) / 100 / 12;
+}
+
 /**
  * Calculate forecast completion date for a goal
  */
@@ -531,12 +532,24 @@ export function calculateGoalCompletionForecast(
     return { isAchievable: true }; // Already completed
   }
 
-  if (monthlyAllocation <= 0) {
+  const monthlyReturn = getGoalMonthlyReturn(goal);
+  if (monthlyAllocation <= 0 && monthlyReturn <= 0) {
     return { isAchievable: false }; // No allocation means not achievable
   }
 
-  // Calculate months needed to complete
-  const monthsNeeded = Math.ceil(remainingAmount / monthlyAllocation);
+  // Calculate months needed to complete, compounding any expected return
+  let monthsNeeded = Math.ceil(remainingAmount / monthlyAllocation);
+  if (monthlyReturn > 0) {
+    let balance = goal.currentAmount;
+    monthsNeeded = 0;
+    while (balance < goal.targetAmount && monthsNeeded < 600) {
+      balance += balance * monthlyReturn + monthlyAllocation;
+      monthsNeeded++;
+    }
+    if (balance < goal.targetAmount) {
+      return { isAchievable: false };
+    }
+  }
 
   // Calculate estimated completion date
   const currentDate = new Date();
@@ -556,13 +569,56 @@ export function calculateGoalCompletionForecast(
   return { estimatedCompletionMonth, isAchievable };
 }
 
+/**
+ * Convert a scenario's persisted forecast settings to calculation config
+ */
+function getScenarioConfigOverrides(
+  scenario: Scenario
+): Partial<ForecastConfig> {
+  const overrides = scenario.forecastConfigOverrides || {};
+  const result: Partial<ForecastConfig> = {};
+
+  if (overrides.months !== undefined) result.months = overrides.months;
+  if (overrides.startingBalance !== undefined)
+    result.startingBalance = overrides.startingBalance;
+  if (overrides.startDate)
+    result.startDate = new Date(overrides.startDate + "-01");
+  if (overrides.includeGoalContributions !== undefined)
+    result.includeGoalContributions = overrides.includeGoalContributions;
+  if (overrides.conservativeMode !== undefined)
+    result.conservativeMode = overrides.conservativeMode;
+
+  return result;
+}
+
 /**
  * Generate financial forecast
+ *
+ * Amounts in foreign currencies are converted once, at the exchange rates in
+ * effect on the start date, and that rate holds for the whole horizon. Rates
+ * dated later in the forecast are not applied to later months.
  */
 export function generateForecast(
   userPlan: UserPlan,
   config: Partial<ForecastConfig> = {}
 ): ForecastResult {
+  // Layer the scenario on top of the baseline plan without touching it
+  if (config.scenario) {
+    const { scenario, ...baseConfig } = config;
+    return generateForecast(applyScenario(userPlan, scenario), {
+      ...baseConfig,
+      ...getScenarioConfigOverrides(scenario),
+    });
+  }
+
+  // Forecast in the base currency, at the rates in effect when it starts
+  if (hasForeignCurrencies(userPlan)) {
+    return generateForecast(
+      convertPlanToBaseCurrency(userPlan, config.startDate || new Date()),
+      config
+    );
+  }
+
   const defaultConfig: ForecastConfig = {
     months: 12,
     startingBalance: userPlan.currentBalance || 0,
@@ -572,17 +628,62 @@ export function generateForecast(
   };
 
   const finalConfig = { ...defaultConfig, ...config };
+  const debug = process.env.NODE_ENV === "development" && !finalConfig.quiet;
   const monthlyForecasts: MonthlyForecast[] = [];
   let currentBalance = finalConfig.startingBalance;
 
+  // Track each open account alongside the total. Any difference between the
+  // configured starting balance and the account total lands in the primary
+  // account, so the account balances always add up to the total.
+  const accounts = getActiveAccounts(userPlan.accounts);
+  const primaryAccountId = getPrimaryAccountId(accounts);
+  const accountBalances = new Map<string, number>(
+    accounts.map((account) => [account.id, account.balance])
+  );
+  if (primaryAccountId) {
+    accountBalances.set(
+      primaryAccountId,
+      (accountBalances.get(primaryAccountId) || 0) +
+        finalConfig.startingBalance -
+        getTotalAccountBalance(accounts)
+    );
+  }
+  const accountStartingBalances = new Map(accountBalances);
+
+  // Track outstanding debt balances
+  const debts = (userPlan.debts || []).filter((debt) => debt.isActive);
+  const debtSettings = {
+    ...DEFAULT_DEBT_PAYOFF_SETTINGS,
+    ...userPlan.debtPayoffSettings,
+  };
+  const debtBalances = new Map<string, number>(
+    debts.map((debt) => [debt.id, debt.balance])
+  );
+  const adjustAccount = (accountId: string | undefined, amount: number) => {
+    const resolvedId = resolveAccountId(accountId, accounts);
+    if (resolvedId) {
+      accountBalances.set(
+        resolvedId,
+        (accountBalances.get(resolvedId) || 0) + amount
+      );
+    }
+  };
+
   // Create a copy of goals with running totals to track progress
   const goalTracker = new Map<string, { goal: Goal; currentAmount: number }>();
   userPlan.goals.forEach((goal) => {
     goalTracker.set(goal.id, { goal, currentAmount: goal.currentAmount });
   });
 
+  // Running balance of each sinking fund
+  const sinkingFundBalances = new Map<string, number>(
+    userPlan.expenses
+      .filter(isSinkingFundExpense)
+      .map((expense) => [expense.id, expense.sinkingFund.balance])
+  );
+
   // Add debug logging for forecast configuration
-  if (process.env.NODE_ENV === "development") {
+  if (debug) {
     console.log("🔍 Forecast Generation Started");
     console.log("Config:", finalConfig);
     console.log("User Plan Summary:", {
@@ -593,6 +694,18 @@ export function generateForecast(
     });
   }
 
+  const taxRuleSet = getTaxRuleSet(userPlan.taxSettings?.ruleSetId);
+  const categories = getCategories(userPlan);
+
+  // Raises and inflation are measured from the first forecast month
+  const forecastStart = new Date(finalConfig.startDate || new Date());
+  forecastStart.setDate(1);
+
+  // Tax thresholds are in the rule set's currency
+  const taxCurrencyRate =
+    (taxRuleSet && getTaxCurrencyRate(userPlan, taxRuleSet, forecastStart)) ??
+    1;
+
   // Generate forecasts for each month
   for (let monthIndex = 0; monthIndex < finalConfig.months; monthIndex++) {
     const currentDate = new Date(finalConfig.startDate || new Date());
@@ -609,7 +722,7 @@ export function generateForecast(
     const monthStartingBalance = currentBalance;
 
     // Add debug logging for each month
-    if (process.env.NODE_ENV === "development") {
+    if (debug) {
       console.log(`\n📅 Processing ${monthKey}:`);
       console.log(`Starting balance: ${monthStartingBalance}`);
     }
@@ -619,29 +732,56 @@ export function generateForecast(
       [];
     let totalIncome = 0;
 
-    for (const income of userPlan.income) {
-      if (isIncomeActiveInMonth(income, currentDate)) {
-        let monthlyAmount = calculateMonthlyAmount(
-          income.amount,
-          income.frequency
-        );
+    const activeIncome = userPlan.income
+      .filter((income) => isIncomeActiveInMonth(income, currentDate))
+      .map((income) => ({
+        income,
+        amount: getIncomeAmountForMonth(income, currentDate, forecastStart),
+      }));
+
+    // Gross income is taxed at the rate for this month's pay over a full
+    // year, with one-time income counted once on top. Income on a recurrence
+    // rule, a seasonal profile or a schedule counts its average year, not
+    // this month's payments.
+    const takeHomeRatio = getTakeHomeRatio(
+      activeIncome
+        .filter(({ income }) => income.isGross)
+        .reduce(
+          (total, { income, amount }) =>
+            total +
+            (income.frequency === Frequency.ONE_TIME && !income.recurrence
+              ? amount
+              : getIncomeMonthlyEquivalent(income) *
+                12 *
+                getRaiseFactor(income, forecastStart, currentDate)),
+          0
+        ),
+      taxRuleSet,
+      taxCurrencyRate
+    );
 
-        // Apply conservative mode adjustment
-        if (finalConfig.conservativeMode) {
-          monthlyAmount *= 0.9; // Reduce income by 10%
-        }
+    for (const { income, amount } of activeIncome) {
+      let monthlyAmount = income.isGross ? amount * takeHomeRatio : amount;
 
-        incomeBreakdown.push({
-          id: income.id,
-          name: income.name,
-          amount: monthlyAmount,
-        });
-        totalIncome += monthlyAmount;
+      // Conservative mode counts on the low end of a varying income
+      if (finalConfig.conservativeMode) {
+        monthlyAmount *= getConservativeIncomeFactor(income);
+      }
+      if (finalConfig.sampler) {
+        monthlyAmount *= finalConfig.sampler.incomeFactor(income);
+      }
 
-        // Add debug logging for income
-        if (process.env.NODE_ENV === "development") {
-          console.log(`  💰 Income: ${income.name} = ${monthlyAmount}`);
-        }
+      incomeBreakdown.push({
+        id: income.id,
+        name: income.name,
+        amount: monthlyAmount,
+      });
+      totalIncome += monthlyAmount;
+      adjustAccount(income.accountId, monthlyAmount);
+
+      // Add debug logging for income
+      if (debug) {
+        console.log(`  💰 Income: ${income.name} = ${monthlyAmount}`);
       }
     }
 
@@ -657,10 +797,11 @@ export function generateForecast(
       };
     }> = [];
     let totalExpenses = 0;
+    const sinkingFundBreakdown: SinkingFundMonth[] = [];
 
     for (const expense of userPlan.expenses) {
       // Add debug logging for expense processing
-      if (process.env.NODE_ENV === "development") {
+      if (debug) {
         console.log(`  🔍 Checking expense: ${expense.name}`);
         console.log(`     Amount: ${expense.amount}`);
         console.log(`     IsInstallment: ${expense.isInstallment}`);
@@ -676,7 +817,11 @@ export function generateForecast(
         );
       }
 
-      if (isExpenseActiveInMonth(expense, currentDate)) {
+      // A sinking fund is topped up every month, not only when the bill is due
+      const isDue = isExpenseActiveInMonth(expense, currentDate);
+      const hasSinkingFund = isSinkingFundExpense(expense) && expense.isActive;
+
+      if (isDue || hasSinkingFund) {
         let monthlyAmount: number;
 
         // Handle installment expenses
@@ -687,14 +832,24 @@ export function generateForecast(
           monthlyAmount = roundToThousand(monthlyAmount);
 
           // Add debug logging for installment calculations
-          if (process.env.NODE_ENV === "development") {
+          if (debug) {
             console.log(
               `  📦 Installment expense ${expense.name}: Total=${expense.amount}, Months=${expense.installmentMonths}, Monthly=${monthlyAmount}`
             );
           }
+        } else if (expense.recurring && expense.recurrence) {
+          // Each payment the rule falls on this month
+          monthlyAmount =
+            expense.amount * getExpenseOccurrences(expense, currentDate);
         } else if (expense.recurring && expense.frequency) {
           // For recurring expenses, calculate based on frequency
-          if (
+          if (hasSinkingFund) {
+            // Set aside the monthly equivalent; the bill is paid from the fund below
+            monthlyAmount = calculateMonthlyAmount(
+              expense.amount,
+              expense.frequency
+            );
+          } else if (
             expense.frequency === Frequency.YEARLY ||
             expense.frequency === Frequency.QUARTERLY
           ) {
@@ -720,10 +875,51 @@ export function generateForecast(
           monthlyAmount = 0;
         }
 
+        // Prices rise with inflation; installment amounts are fixed
+        if (!expense.isInstallment) {
+          monthlyAmount *= getInflationFactor(
+            getCategoryInflationRate(
+              userPlan.inflationSettings,
+              expense.category,
+              categories
+            ),
+            monthIndex
+          );
+        }
+
         // Apply conservative mode adjustment
         if (finalConfig.conservativeMode) {
           monthlyAmount *= 1.1; // Increase expenses by 10%
         }
+        if (finalConfig.sampler) {
+          monthlyAmount *= finalConfig.sampler.expenseFactor(expense);
+        }
+
+        // The bill comes out of the sinking fund; only what the fund can't
+        // cover is paid from this month's cash
+        if (hasSinkingFund) {
+          const contribution = monthlyAmount;
+          let balance =
+            (sinkingFundBalances.get(expense.id) || 0) + contribution;
+          let withdrawal = 0;
+          let shortfall = 0;
+          if (isDue) {
+            const bill = contribution / getMonthlyMultiplier(expense.frequency);
+            withdrawal = Math.min(balance, bill);
+            shortfall = bill - withdrawal > 0.005 ? bill - withdrawal : 0;
+            balance -= withdrawal;
+          }
+          sinkingFundBalances.set(expense.id, balance);
+          sinkingFundBreakdown.push({
+            id: expense.id,
+            name: expense.name,
+            contribution,
+            withdrawal,
+            shortfall,
+            balance,
+          });
+          monthlyAmount = contribution + shortfall;
+        }
 
         // Calculate installment progress if applicable
         let installmentInfo = undefined;
@@ -768,9 +964,10 @@ export function generateForecast(
           installmentInfo: installmentInfo,
         });
         totalExpenses += monthlyAmount;
+        adjustAccount(expense.accountId, -monthlyAmount);
 
         // Add debug logging for expenses
-        if (process.env.NODE_ENV === "development") {
+        if (debug) {
           const expenseType = expense.isInstallment
             ? "Installment"
             : expense.recurring
@@ -783,17 +980,118 @@ export function generateForecast(
       }
     }
 
+    // Pay debt minimums, then put the configured share of the surplus toward
+    // debts before the rest is offered to goals
+    const debtBreakdown = payDebtMinimums(debts, debtBalances);
+    const minimumDebtPayments = debtBreakdown.reduce(
+      (sum, payment) => sum + payment.payment,
+      0
+    );
+    const surplusAfterMinimums = Math.max(
+      0,
+      Math.min(
+        totalIncome - totalExpenses - minimumDebtPayments,
+        currentBalance + totalIncome - totalExpenses - minimumDebtPayments
+      )
+    );
+    const extraDebtPayment = applyExtraDebtPayment(
+      debts,
+      debtBalances,
+      debtBreakdown,
+      (surplusAfterMinimums * debtSettings.extraPaymentPercent) / 100,
+      debtSettings.strategy
+    );
+    const totalDebtPayments = minimumDebtPayments + extraDebtPayment;
+
+    debtBreakdown.forEach((payment) => {
+      adjustAccount(
+        debts.find((debt) => debt.id === payment.id)?.accountId,
+        -payment.payment
+      );
+    });
+
     // Calculate available cash after essential expenses
     const availableCashAfterExpenses =
-      currentBalance + totalIncome - totalExpenses;
+      currentBalance + totalIncome - totalExpenses - totalDebtPayments;
 
     // Add debug logging for cash flow
-    if (process.env.NODE_ENV === "development") {
+    if (debug) {
       console.log(
         `  📊 Cash Flow: Income=${totalIncome}, Expenses=${totalExpenses}, Available=${availableCashAfterExpenses}`
       );
     }
 
+    // Grow invested goal balances before this month's contributions go in
+    const goalGrowthBreakdown: Array<{
+      id: string;
+      name: string;
+      amount: number;
+    }> = [];
+    goalTracker.forEach((entry) => {
+      const expectedReturn = getGoalMonthlyReturn(entry.goal);
+      const monthlyReturn = finalConfig.sampler
+        ? finalConfig.sampler.goalReturn(entry.goal, expectedReturn)
+        : expectedReturn;
+      if (
+        entry.goal.isActive &&
+        monthlyReturn !== 0 &&
+        entry.currentAmount > 0
+      ) {
+        const growth = entry.currentAmount * monthlyReturn;
+        entry.currentAmount += growth;
+        goalGrowthBreakdown.push({
+          id: entry.goal.id,
+          name: entry.goal.name,
+          amount: growth,
+        });
+      }
+    });
+    const totalGoalGrowth = goalGrowthBreakdown.reduce(
+      (sum, growth) => sum + growth.amount,
+      0
+    );
+
+    // Retirement contributions and the employer match come out of the
+    // paycheck before it is deposited, so they go into the linked goal
+    // without touching the balance
+    const payrollContributions: Array<{
+      id: string;
+      name: string;
+      amount: number;
+    }> = [];
+    for (const { income } of activeIncome) {
+      const goalEntry = income.paycheck?.retirementGoalId
+        ? goalTracker.get(income.paycheck.retirementGoalId)
+        : undefined;
+      if (!income.paycheck || !goalEntry || !goalEntry.goal.isActive) {
+        continue;
+      }
+
+      const amount =
+        (income.recurrence
+          ? getPaycheckRetirementAmount(income.paycheck) *
+            getIncomeOccurrences(income, currentDate)
+          : calculateMonthlyAmount(
+              getPaycheckRetirementAmount(income.paycheck),
+              income.frequency
+            )) * getRaiseFactor(income, forecastStart, currentDate);
+      if (amount > 0) {
+        goalEntry.currentAmount += amount;
+        const existing = payrollContributions.find(
+          (entry) => entry.id === goalEntry.goal.id
+        );
+        if (existing) {
+          existing.amount += amount;
+        } else {
+          payrollContributions.push({
+            id: goalEntry.goal.id,
+            name: goalEntry.goal.name,
+            amount,
+          });
+        }
+      }
+    }
+
     // Calculate goal contributions for this month
     const goalBreakdown: Array<{ id: string; name: string; amount: number }> =
       [];
@@ -801,7 +1099,7 @@ export function generateForecast(
 
     if (finalConfig.includeGoalContributions) {
       // Only allocate to goals if we have positive cash flow or sufficient balance
-      const surplusForGoals = totalIncome - totalExpenses;
+      const surplusForGoals = totalIncome - totalExpenses - totalDebtPayments;
 
       if (surplusForGoals > 0 || availableCashAfterExpenses > 0) {
         // Use the minimum of surplus or available cash for goal allocation
@@ -823,7 +1121,8 @@ export function generateForecast(
           const smartAllocations = calculateSmartGoalAllocations(
             goalsWithUpdatedAmounts,
             availableForGoals,
-            currentDate
+            currentDate,
+            finalConfig.quiet
           );
 
           goalBreakdown.push(...smartAllocations);
@@ -846,7 +1145,7 @@ export function generateForecast(
               0
             );
 
-            if (process.env.NODE_ENV === "development") {
+            if (debug) {
               console.log(
                 `  🎯 Goal allocations scaled by ${scaleFactor.toFixed(
                   2
@@ -862,7 +1161,7 @@ export function generateForecast(
               goalEntry.currentAmount += allocation.amount;
 
               // Add debug logging for goal progress
-              if (process.env.NODE_ENV === "development") {
+              if (debug) {
                 const progress =
                   goalEntry.goal.goalType === GoalType.FIXED_AMOUNT
                     ? (goalEntry.currentAmount / goalEntry.goal.targetAmount) *
@@ -878,14 +1177,14 @@ export function generateForecast(
           });
 
           // Add debug logging for goal allocations
-          if (process.env.NODE_ENV === "development") {
+          if (debug) {
             console.log(
               `  🎯 Goal allocations: Total=${totalGoalContributions}, Available=${availableForGoals}`
             );
           }
         }
       } else {
-        if (process.env.NODE_ENV === "development") {
+        if (debug) {
           console.log(
             `  🎯 No goal allocations: Surplus=${surplusForGoals}, Available=${availableCashAfterExpenses}`
           );
@@ -893,12 +1192,40 @@ export function generateForecast(
       }
     }
 
+    // Goal contributions are set aside from the goal's account
+    goalBreakdown.forEach((allocation) => {
+      adjustAccount(
+        goalTracker.get(allocation.id)?.goal.accountId,
+        -allocation.amount
+      );
+    });
+
+    // Move money between accounts; transfers don't change the total
+    for (const transfer of userPlan.transfers || []) {
+      const fromAccountId = resolveAccountId(transfer.fromAccountId, accounts);
+      const toAccountId = resolveAccountId(transfer.toAccountId, accounts);
+      if (
+        fromAccountId === transfer.fromAccountId &&
+        toAccountId === transfer.toAccountId &&
+        fromAccountId !== toAccountId &&
+        isIncomeActiveInMonth(transfer, currentDate)
+      ) {
+        const amount = calculateMonthlyAmount(
+          transfer.amount,
+          transfer.frequency
+        );
+        adjustAccount(fromAccountId, -amount);
+        adjustAccount(toAccountId, amount);
+      }
+    }
+
     // Calculate net change and ending balance
-    const netChange = totalIncome - totalExpenses - totalGoalContributions;
+    const netChange =
+      totalIncome - totalExpenses - totalDebtPayments - totalGoalContributions;
     const endingBalance = monthStartingBalance + netChange;
 
     // Add debug logging for final calculations
-    if (process.env.NODE_ENV === "development") {
+    if (debug) {
       console.log(
         `  📈 Final: NetChange=${netChange}, EndingBalance=${endingBalance}`
       );
@@ -911,11 +1238,22 @@ export function generateForecast(
       income: totalIncome,
       expenses: totalExpenses,
       goalContributions: totalGoalContributions,
+      goalGrowth: totalGoalGrowth,
+      debtPayments: totalDebtPayments,
       netChange,
       endingBalance,
       incomeBreakdown,
       expenseBreakdown,
       goalBreakdown,
+      goalGrowthBreakdown,
+      payrollContributions,
+      debtBreakdown,
+      sinkingFundBreakdown,
+      accountBalances: accounts.map((account) => ({
+        id: account.id,
+        name: account.name,
+        endingBalance: accountBalances.get(account.id) || 0,
+      })),
     };
 
     monthlyForecasts.push(monthlyForecast);
@@ -925,7 +1263,7 @@ export function generateForecast(
   }
 
   // Add debug logging for summary
-  if (process.env.NODE_ENV === "development") {
+  if (debug) {
     console.log("\n📋 Forecast Summary:");
     console.log(`Total months: ${monthlyForecasts.length}`);
     console.log(`Starting balance: ${finalConfig.startingBalance}`);
@@ -945,6 +1283,14 @@ export function generateForecast(
     (sum, month) => sum + month.goalContributions,
     0
   );
+  const totalGoalGrowth = monthlyForecasts.reduce(
+    (sum, month) => sum + month.goalGrowth,
+    0
+  );
+  const totalDebtPayments = monthlyForecasts.reduce(
+    (sum, month) => sum + month.debtPayments,
+    0
+  );
   const finalBalance =
     monthlyForecasts[monthlyForecasts.length - 1]?.endingBalance || 0;
 
@@ -955,19 +1301,110 @@ export function generateForecast(
     (balance) => balance < 0
   ).length;
 
+  // Project each debt's balance, interest and payoff month
+  const debtProgress = debts.map((debt) => {
+    const payments = monthlyForecasts.map((month) => ({
+      month: month.month,
+      payment: month.debtBreakdown.find((entry) => entry.id === debt.id),
+    }));
+
+    return {
+      id: debt.id,
+      name: debt.name,
+      startingBalance: debt.balance,
+      finalBalance: debtBalances.get(debt.id) ?? debt.balance,
+      interestPaid: payments.reduce(
+        (sum, entry) => sum + (entry.payment?.interest || 0),
+        0
+      ),
+      payoffMonth: payments.find(
+        (entry) => entry.payment && entry.payment.remainingBalance <= 0.005
+      )?.month,
+    };
+  });
+
+  // Project each sinking fund and flag bills it can't cover in time
+  const sinkingFundProgress = userPlan.expenses
+    .filter(isSinkingFundExpense)
+    .map((expense) => {
+      const months = monthlyForecasts.map((month) => ({
+        month: month.month,
+        entry: month.sinkingFundBreakdown.find(
+          (fund) => fund.id === expense.id
+        ),
+      }));
+      const totalShortfall = months.reduce(
+        (sum, { entry }) => sum + (entry?.shortfall || 0),
+        0
+      );
+
+      return {
+        id: expense.id,
+        name: expense.name,
+        startingBalance: expense.sinkingFund.balance,
+        finalBalance:
+          sinkingFundBalances.get(expense.id) ?? expense.sinkingFund.balance,
+        totalShortfall,
+        firstShortfallMonth: months.find(({ entry }) => entry?.shortfall)
+          ?.month,
+        isFunded: totalShortfall === 0,
+      };
+    });
+
+  // Project each account and flag asset accounts that would be overdrawn
+  const accountProjections = accounts.map((account) => {
+    const monthlyBalances = monthlyForecasts.map((month) => ({
+      month: month.month,
+      balance:
+        month.accountBalances.find((entry) => entry.id === account.id)
+          ?.endingBalance || 0,
+    }));
+    const startingBalance = accountStartingBalances.get(account.id) || 0;
+    const firstNegativeMonth = isLiabilityAccount(account.type)
+      ? undefined
+      : monthlyBalances.find((entry) => entry.balance < 0)?.month;
+
+    return {
+      id: account.id,
+      name: account.name,
+      type: account.type,
+      startingBalance,
+      finalBalance:
+        monthlyBalances[monthlyBalances.length - 1]?.balance ?? startingBalance,
+      lowestBalance: Math.min(
+        startingBalance,
+        ...monthlyBalances.map((entry) => entry.balance)
+      ),
+      firstNegativeMonth,
+      goesNegative: firstNegativeMonth !== undefined,
+    };
+  });
+
   const summary = {
     totalIncome,
     totalExpenses,
     totalGoalContributions,
+    totalGoalGrowth,
+    totalDebtPayments,
+    totalDebtInterest: debtProgress.reduce(
+      (sum, debt) => sum + debt.interestPaid,
+      0
+    ),
     finalBalance,
     averageMonthlyIncome: totalIncome / finalConfig.months,
     averageMonthlyExpenses: totalExpenses / finalConfig.months,
     averageMonthlyNet:
-      (totalIncome - totalExpenses - totalGoalContributions) /
+      (totalIncome -
+        totalExpenses -
+        totalDebtPayments -
+        totalGoalContributions) /
       finalConfig.months,
     lowestBalance,
     highestBalance,
     monthsWithNegativeBalance,
+    accountsWithNegativeBalance: accountProjections.filter(
+      (account) => account.goesNegative
+    ).length,
   };
 
   // Calculate goal progress projections
@@ -977,25 +1414,43 @@ export function generateForecast(
       return sum + (contribution?.amount || 0);
     }, 0);
 
-    const projectedAmount = goal.currentAmount + totalContributions;
+    const growthAmount = monthlyForecasts.reduce((sum, month) => {
+      const growth = month.goalGrowthBreakdown.find((g) => g.id === goal.id);
+      return sum + (growth?.amount || 0);
+    }, 0);
+
+    const payrollAmount = monthlyForecasts.reduce((sum, month) => {
+      const payroll = month.payrollContributions.find((g) => g.id === goal.id);
+      return sum + (payroll?.amount || 0);
+    }, 0);
+
+    const contributedAmount =
+      goal.currentAmount + totalContributions + payrollAmount;
+    const projectedAmount = contributedAmount + growthAmount;
     const projectedProgress =
       goal.targetAmount > 0 ? (projectedAmount / goal.targetAmount) * 100 : 0;
 
     // Calculate average monthly allocation for completion forecast
-    const averageMonthlyAllocation = totalContributions / finalConfig.months;
+    const averageMonthlyAllocation =
+      (totalContributions + payrollAmount) / finalConfig.months;
     const completionForecast = calculateGoalCompletionForecast(
       goal,
       averageMonthlyAllocation
     );
 
-    // Find estimated completion month from actual allocations
+    // Find estimated completion month from actual allocations and growth
     let estimatedCompletionMonth: string | undefined;
     let accumulatedContributions = goal.currentAmount;
 
     for (const month of monthlyForecasts) {
       const contribution = month.goalBreakdown.find((g) => g.id === goal.id);
-      if (contribution) {
-        accumulatedContributions += contribution.amount;
+      const growth = month.goalGrowthBreakdown.find((g) => g.id === goal.id);
+      const payroll = month.payrollContributions.find((g) => g.id === goal.id);
+      if (contribution || growth || payroll) {
+        accumulatedContributions +=
+          (contribution?.amount || 0) +
+          (growth?.amount || 0) +
+          (payroll?.amount || 0);
         if (
           goal.goalType === GoalType.FIXED_AMOUNT &&
           accumulatedContributions >= goal.targetAmount
@@ -1037,6 +1492,8 @@ export function generateForecast(
       targetAmount: goal.targetAmount,
       currentAmount: goal.currentAmount,
       projectedAmount,
+      contributedAmount,
+      growthAmount,
       projectedProgress,
       estimatedCompletionMonth,
       onTrack,
@@ -1045,11 +1502,158 @@ export function generateForecast(
     };
   });
 
-  return {
+  const result = {
     monthlyForecasts,
     summary,
     goalProgress,
+    debtProgress,
+    sinkingFundProgress,
+    accountProjections,
   };
+
+  return finalConfig.todaysMoney
+    ? convertForecastToTodaysMoney(
+        result,
+        userPlan.inflationSettings?.rate || 0
+      )
+    : result;
+}
+
+/**
+ * Express a forecast in today's money by deflating each month's amounts with
+ * the general inflation rate. Goal and debt progress stay in nominal terms
+ * because targets and balances are nominal amounts.
+ */
+export function convertForecastToTodaysMoney(
+  result: ForecastResult,
+  inflationRate: number
+): ForecastResult {
+  if (!inflationRate) return result;
+
+  const monthlyForecasts = result.monthlyForecasts.map((month, index) => {
+    const factor = getInflationFactor(inflationRate, index);
+    const deflate = (amount: number) => amount / factor;
+    const deflateAmounts = <T extends { amount: number }>(items: T[]) =>
+      items.map((item) => ({ ...item, amount: deflate(item.amount) }));
+
+    return {
+      ...month,
+      startingBalance: deflate(month.startingBalance),
+      income: deflate(month.income),
+      expenses: deflate(month.expenses),
+      goalContributions: deflate(month.goalContributions),
+      goalGrowth: deflate(month.goalGrowth),
+      debtPayments: deflate(month.debtPayments),
+      netChange: deflate(month.netChange),
+      endingBalance: deflate(month.endingBalance),
+      incomeBreakdown: deflateAmounts(month.incomeBreakdown),
+      expenseBreakdown: deflateAmounts(month.expenseBreakdown),
+      goalBreakdown: deflateAmounts(month.goalBreakdown),
+      goalGrowthBreakdown: deflateAmounts(month.goalGrowthBreakdown),
+      payrollContributions: deflateAmounts(month.payrollContributions),
+      sinkingFundBreakdown: month.sinkingFundBreakdown.map((fund) => ({
+        ...fund,
+        contribution: deflate(fund.contribution),
+        withdrawal: deflate(fund.withdrawal),
+        shortfall: deflate(fund.shortfall),
+        balance: deflate(fund.balance),
+      })),
+      debtBreakdown: month.debtBreakdown.map((payment) => ({
+        ...payment,
+        payment: deflate(payment.payment),
+        interest: deflate(payment.interest),
+        principal: deflate(payment.principal),
+        remainingBalance: deflate(payment.remainingBalance),
+      })),
+      accountBalances: month.accountBalances.map((account) => ({
+        ...account,
+        endingBalance: deflate(account.endingBalance),
+      })),
+    };
+  });
+
+  const months = monthlyForecasts.length || 1;
+  const sum = (getValue: (month: MonthlyForecast) => number) =>
+    monthlyForecasts.reduce((total, month) => total + getValue(month), 0);
+  const balances = monthlyForecasts.map((month) => month.endingBalance);
+  const totalIncome = sum((month) => month.income);
+  const totalExpenses = sum((month) => month.expenses);
+
+  return {
+    ...result,
+    monthlyForecasts,
+    summary: {
+      ...result.summary,
+      totalIncome,
+      totalExpenses,
+      totalGoalContributions: sum((month) => month.goalContributions),
+      totalGoalGrowth: sum((month) => month.goalGrowth),
+      totalDebtPayments: sum((month) => month.debtPayments),
+      totalDebtInterest: sum((month) =>
+        month.debtBreakdown.reduce((total, debt) => total + debt.interest, 0)
+      ),
+      finalBalance: balances[balances.length - 1] || 0,
+      averageMonthlyIncome: totalIncome / months,
+      averageMonthlyExpenses: totalExpenses / months,
+      averageMonthlyNet: sum((month) => month.netChange) / months,
+      lowestBalance: Math.min(...balances),
+      highestBalance: Math.max(...balances),
+    },
+    accountProjections: result.accountProjections.map((account) => {
+      const accountBalances = monthlyForecasts.map(
+        (month) =>
+          month.accountBalances.find((entry) => entry.id === account.id)
+            ?.endingBalance || 0
+      );
+      return {
+        ...account,
+        finalBalance:
+          accountBalances[accountBalances.length - 1] ??
+          account.startingBalance,
+        lowestBalance: Math.min(account.startingBalance, ...accountBalances),
+      };
+    }),
+  };
+}
+
+/**
+ * Forecast for one scenario in a side-by-side comparison
+ */
+export interface ScenarioForecast {
+  /** Scenario identifier (null for the baseline plan) */
+  scenarioId: string | null;
+  /** Display name */
+  name: string;
+  /** Colour used for this series */
+  color: string;
+  /** Forecast generated with the scenario applied */
+  result: ForecastResult;
+}
+
+/**
+ * Generate the baseline forecast plus one forecast per selected scenario
+ */
+export function compareScenarios(
+  userPlan: UserPlan,
+  scenarios: Scenario[],
+  config: Partial<ForecastConfig> = {}
+): ScenarioForecast[] {
+  const baseline: ScenarioForecast = {
+    scenarioId: null,
+    name: "Baseline",
+    color: "#3B82F6",
+    result: generateForecast(userPlan, config),
+  };
+
+  return [
+    baseline,
+    ...scenarios.map((scenario) => ({
+      scenarioId: scenario.id,
+      name: scenario.name,
+      color: scenario.color,
+      result: generateForecast(userPlan, { ...config, scenario }),
+    })),
+  ];
 }
 
 /**
@@ -0,0 +1,347 @@
+/**
+ * Household Utilities
+ *
+ * Splits a jointly planned household between its members. Income, expenses
+ * and goals belong to one member or are joint; joint items are divided by a
+ * split rule (equal, in proportion to income, or fixed percentages). A
+ * member's view of the plan holds their own items plus their share of the
+ * joint ones, so the dashboard and forecast can be shown per member.
+ */
+
+import {
+  Expense,
+  Frequency,
+  HouseholdMember,
+  HouseholdSettings,
+  SplitRule,
+  UserPlan,
+} from "@/types";
+import {
+  getExpenseMonthlyEquivalent,
+  getIncomeMonthlyEquivalent,
+} from "./amounts";
+
+/**
+ * Default household settings - joint costs split equally
+ */
+export const DEFAULT_HOUSEHOLD_SETTINGS: HouseholdSettings = {
+  splitRule: SplitRule.EQUAL,
+  fixedShares: {},
+};
+
+/**
+ * The whole household, with every item at its full amount
+ */
+export const HOUSEHOLD_VIEW_ALL = "all";
+
+/**
+ * Only the joint items, at their full amount
+ */
+export const HOUSEHOLD_VIEW_JOINT = "joint";
+
+/**
+ * Colours offered for new members
+ */
+export const MEMBER_COLORS = [
+  "#3b82f6",
+  "#ec4899",
+  "#10b981",
+  "#f59e0b",
+  "#8b5cf6",
+  "#ef4444",
+];
+
+export const SPLIT_RULE_LABELS: Record<SplitRule, string> = {
+  [SplitRule.EQUAL]: "Equal (50/50)",
+  [SplitRule.PROPORTIONAL]: "Proportional to income",
+  [SplitRule.FIXED]: "Fixed percentages",
+};
+
+/**
+ * Household view: everything, joint items only, or one member's id
+ */
+export type HouseholdView = string;
+
+/**
+ * What one member earns, pays and has left for goals each month
+ */
+export interface MemberSummary {
+  member: HouseholdMember;
+  monthlyIncome: number;
+  /** Expenses the member pays alone */
+  personalExpenses: number;
+  /** The member's share of shared expenses */
+  sharedExpenses: number;
+  /** Income left after both, available for goals */
+  availableForGoals: number;
+  /** Fraction of joint goals the member is responsible for */
+  jointGoalShare: number;
+}
+
+export function getHouseholdMembers(userPlan: UserPlan): HouseholdMember[] {
+  return userPlan.householdMembers || [];
+}
+
+/**
+ * Recurring monthly income earned by each member (joint income excluded)
+ */
+export function getMonthlyIncomeByMember(
+  userPlan: UserPlan
+): Record<string, number> {
+  const totals: Record<string, number> = {};
+  for (const income of userPlan.income) {
+    if (
+      !income.isActive ||
+      !income.ownerId ||
+      (income.frequency === Frequency.ONE_TIME && !income.recurrence)
+    ) {
+      continue;
+    }
+    totals[income.ownerId] =
+      (totals[income.ownerId] || 0) + getIncomeMonthlyEquivalent(income);
+  }
+  return totals;
+}
+
+/**
+ * Fraction of a joint item each member carries under a split rule. Shares
+ * add up to 1; rules with nothing to go on (no income, no percentages) fall
+ * back to equal shares.
+ */
+export function getSplitShares(
+  userPlan: UserPlan,
+  splitRule: SplitRule,
+  fixedShares: Record<string, number> = {}
+): Record<string, number> {
+  const members = getHouseholdMembers(userPlan);
+  if (members.length === 0) return {};
+
+  let weights: number[];
+  switch (splitRule) {
+    case SplitRule.PROPORTIONAL: {
+      const incomes = getMonthlyIncomeByMember(userPlan);
+      weights = members.map((member) => Math.max(0, incomes[member.id] || 0));
+      break;
+    }
+    case SplitRule.FIXED:
+      weights = members.map((member) =>
+        Math.max(0, fixedShares[member.id] || 0)
+      );
+      break;
+    default:
+      weights = members.map(() => 1);
+  }
+
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  return Object.fromEntries(
+    members.map((member, index) => [
+      member.id,
+      total > 0 ? weights[index] / total : 1 / members.length,
+    ])
+  );
+}
+
+function getHouseholdSettings(userPlan: UserPlan): HouseholdSettings {
+  return { ...DEFAULT_HOUSEHOLD_SETTINGS, ...userPlan.householdSettings };
+}
+
+/**
+ * Member shares of joint goals, income and balances
+ */
+export function getJointShares(userPlan: UserPlan): Record<string, number> {
+  const settings = getHouseholdSettings(userPlan);
+  return getSplitShares(userPlan, settings.splitRule, settings.fixedShares);
+}
+
+/**
+ * Member shares of a shared expense, using its own rule when it has one
+ */
+export function getExpenseShares(
+  userPlan: UserPlan,
+  expense: Expense
+): Record<string, number> {
+  if (!expense.splitRule) return getJointShares(userPlan);
+  return getSplitShares(userPlan, expense.splitRule, expense.splitShares);
+}
+
+/**
+ * Whether an item belongs to an existing member. Items of removed members
+ * count as joint.
+ */
+function isOwnedByMember(userPlan: UserPlan, ownerId: string | undefined) {
+  return (
+    !!ownerId &&
+    getHouseholdMembers(userPlan).some((member) => member.id === ownerId)
+  );
+}
+
+/**
+ * Part of the household balance a view starts from: a member's share of it,
+ * or all of it for the household and joint views
+ */
+export function getHouseholdViewShare(
+  userPlan: UserPlan,
+  view: HouseholdView
+): number {
+  if (view === HOUSEHOLD_VIEW_ALL || view === HOUSEHOLD_VIEW_JOINT) return 1;
+  if (getHouseholdMembers(userPlan).length === 0) return 1;
+  return getJointShares(userPlan)[view] || 0;
+}
+
+/**
+ * The plan as seen from one view. A member's view scales joint items to
+ * their share; accounts, transfers and debts belong to the household and
+ * are left out, with the member's share of the balance to start from.
+ */
+export function getHouseholdViewPlan(
+  userPlan: UserPlan,
+  view: HouseholdView
+): UserPlan {
+  if (view === HOUSEHOLD_VIEW_ALL || getHouseholdMembers(userPlan).length === 0)
+    return userPlan;
+
+  if (view === HOUSEHOLD_VIEW_JOINT) {
+    return {
+      ...userPlan,
+      income: userPlan.income.filter(
+        (income) => !isOwnedByMember(userPlan, income.ownerId)
+      ),
+      expenses: userPlan.expenses.filter(
+        (expense) => !isOwnedByMember(userPlan, expense.ownerId)
+      ),
+      goals: userPlan.goals.filter(
+        (goal) => !isOwnedByMember(userPlan, goal.ownerId)
+      ),
+    };
+  }
+
+  const jointShare = getHouseholdViewShare(userPlan, view);
+  const scale = <T extends { ownerId?: string }>(
+    items: T[],
+    getShare: (item: T) => number,
+    applyShare: (item: T, share: number) => T
+  ): T[] =>
+    items.flatMap((item) => {
+      if (isOwnedByMember(userPlan, item.ownerId)) {
+        return item.ownerId === view ? [item] : [];
+      }
+      const share = getShare(item);
+      return share > 0 ? [applyShare(item, share)] : [];
+    });
+
+  const startingBalance = userPlan.currentBalance * jointShare;
+
+  return {
+    ...userPlan,
+    income: scale(
+      userPlan.income,
+      () => jointShare,
+      (income, share) => ({
+        ...income,
+        amount: income.amount * share,
+        amountRange: income.amountRange && {
+          min: income.amountRange.min * share,
+          max: income.amountRange.max * share,
+        },
+        monthlySchedule:
+          income.monthlySchedule &&
+          Object.fromEntries(
+            Object.entries(income.monthlySchedule).map(([month, amount]) => [
+              month,
+              amount * share,
+            ])
+          ),
+        paycheck: income.paycheck && {
+          ...income.paycheck,
+          grossPay: income.paycheck.grossPay * share,
+          taxWithheld:
+            income.paycheck.taxWithheld !== undefined
+              ? income.paycheck.taxWithheld * share
+              : undefined,
+          deductions: income.paycheck.deductions.map((deduction) => ({
+            ...deduction,
+            amount: deduction.isPercent
+              ? deduction.amount
+              : deduction.amount * share,
+          })),
+        },
+      })
+    ),
+    expenses: scale(
+      userPlan.expenses,
+      (expense) => getExpenseShares(userPlan, expense)[view] || 0,
+      (expense, share) => ({
+        ...expense,
+        amount: expense.amount * share,
+        sinkingFund: expense.sinkingFund && {
+          balance: expense.sinkingFund.balance * share,
+        },
+      })
+    ),
+    goals: scale(
+      userPlan.goals,
+      () => jointShare,
+      (goal, share) => ({
+        ...goal,
+        targetAmount: goal.targetAmount * share,
+        currentAmount: goal.currentAmount * share,
+      })
+    ),
+    currentBalance: startingBalance,
+    forecastConfig: { ...userPlan.forecastConfig, startingBalance },
+    accounts: undefined,
+    transfers: undefined,
+    debts: undefined,
+  };
+}
+
+/**
+ * Monthly breakdown for each member, including their share of shared costs
+ */
+export function getMemberSummaries(userPlan: UserPlan): MemberSummary[] {
+  const members = getHouseholdMembers(userPlan);
+  const incomes = getMonthlyIncomeByMember(userPlan);
+  const jointShares = getJointShares(userPlan);
+
+  const jointIncome = userPlan.income
+    .filter(
+      (income) =>
+        income.isActive &&
+        (income.frequency !== Frequency.ONE_TIME || !!income.recurrence) &&
+        !isOwnedByMember(userPlan, income.ownerId)
+    )
+    .reduce((sum, income) => sum + getIncomeMonthlyEquivalent(income), 0);
+
+  return members.map((member) => {
+    let personalExpenses = 0;
+    let sharedExpenses = 0;
+
+    for (const expense of userPlan.expenses) {
+      if (
+        !expense.isActive ||
+        (expense.frequency === Frequency.ONE_TIME && !expense.recurrence)
+      ) {
+        continue;
+      }
+      const monthly = getExpenseMonthlyEquivalent(expense);
+      if (isOwnedByMember(userPlan, expense.ownerId)) {
+        if (expense.ownerId === member.id) personalExpenses += monthly;
+      } else {
+        sharedExpenses +=
+          monthly * (getExpenseShares(userPlan, expense)[member.id] || 0);
+      }
+    }
+
+    const monthlyIncome =
+      (incomes[member.id] || 0) + jointIncome * (jointShares[member.id] || 0);
+
+    return {
+      member,
+      monthlyIncome,
+      personalExpenses,
+      sharedExpenses,
+      availableForGoals: monthlyIncome - personalExpenses - sharedExpenses,
+      jointGoalShare: jointShares[member.id] || 0,
+    };
+  });
+}
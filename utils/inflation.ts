@@ -0,0 +1,100 @@
+/**
+ * Inflation Utilities
+ *
+ * Price inflation for expenses, annual raises for income and conversion of
+ * forecast amounts to today's money. Rates are annual percentages; prices
+ * compound monthly from the forecast start, raises step once a year.
+ */
+
+import {
+  Category,
+  ExpenseCategory,
+  ExpenseCategoryId,
+  Income,
+  InflationSettings,
+} from "@/types";
+import { getCategoryAncestry } from "./categories";
+
+/**
+ * Default inflation settings - no inflation until the user sets a rate
+ */
+export const DEFAULT_INFLATION_SETTINGS: InflationSettings = {
+  rate: 0,
+  categoryRates: {},
+};
+
+/**
+ * Suggested overrides for categories that usually outpace general inflation
+ */
+export const SUGGESTED_CATEGORY_RATES: Partial<
+  Record<ExpenseCategory, number>
+> = {
+  [ExpenseCategory.HEALTHCARE]: 5,
+  [ExpenseCategory.EDUCATION]: 5,
+};
+
+/**
+ * Annual inflation rate (percent) for an expense category. Sub-categories
+ * without a rate of their own use their parent's.
+ */
+export function getCategoryInflationRate(
+  settings: InflationSettings | undefined,
+  category: ExpenseCategoryId,
+  categories: Category[] = []
+): number {
+  const ancestorIds = getCategoryAncestry(categories, category).map(
+    (ancestor) => ancestor.id
+  );
+  for (const id of ancestorIds.length > 0 ? ancestorIds : [category]) {
+    const rate = settings?.categoryRates?.[id];
+    if (rate !== undefined) return rate;
+  }
+  return settings?.rate ?? 0;
+}
+
+/**
+ * Price multiplier after a number of months at an annual rate (percent)
+ */
+export function getInflationFactor(
+  annualRate: number,
+  monthsElapsed: number
+): number {
+  if (!annualRate || monthsElapsed <= 0) return 1;
+  return Math.pow(1 + annualRate / 100, monthsElapsed / 12);
+}
+
+/**
+ * Month of the year (1-12) an income's raise takes effect
+ */
+export function getRaiseMonth(income: Income): number {
+  return income.raiseMonth || new Date(income.startDate).getMonth() + 1 || 1;
+}
+
+/**
+ * Income multiplier from the raises that have taken effect between the
+ * forecast start and the given month. Raises before the forecast (or before
+ * the income starts) are assumed to be in the entered amount already.
+ */
+export function getRaiseFactor(
+  income: Income,
+  forecastStart: Date,
+  currentMonth: Date
+): number {
+  if (!income.annualRaisePercent) return 1;
+
+  // Count raise months after the first month, up to and including this one
+  const monthIndex = (date: Date) => date.getFullYear() * 12 + date.getMonth();
+  const incomeStart = new Date(income.startDate);
+  const firstMonth = Math.max(
+    monthIndex(forecastStart),
+    isNaN(incomeStart.getTime()) ? 0 : monthIndex(incomeStart)
+  );
+  const raiseMonth = getRaiseMonth(income) - 1;
+  const raises = Math.max(
+    0,
+    Math.floor((monthIndex(currentMonth) - raiseMonth) / 12) -
+      Math.floor((firstMonth - raiseMonth) / 12)
+  );
+
+  return Math.pow(1 + income.annualRaisePercent / 100, raises);
+}
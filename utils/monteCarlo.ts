@@ -0,0 +1,301 @@
+/**
+ * Monte Carlo Forecast
+ *
+ * Runs the deterministic forecast many times with randomised income, expenses
+ * and investment returns, then summarises the runs as percentile bands per
+ * month and the probability of reaching each goal by its target date.
+ * Heavy enough to belong in a Web Worker - see monteCarlo.worker.ts.
+ */
+
+import { GoalType, UserPlan } from "@/types";
+import {
+  ForecastConfig,
+  ForecastSampler,
+  ForecastResult,
+  generateForecast,
+} from "./forecastCalculator";
+
+/**
+ * Distributions used for the simulation
+ */
+export interface MonteCarloSettings {
+  /** Number of forecast runs */
+  runs: number;
+  /** Standard deviation of each income source per month, in percent */
+  incomeVariability: number;
+  /** Standard deviation of each expense per month, in percent */
+  expenseVariability: number;
+  /** Draw goal returns from each goal's annual volatility */
+  randomizeReturns: boolean;
+  /** Seed for reproducible runs */
+  seed?: number;
+}
+
+export const DEFAULT_MONTE_CARLO_SETTINGS: MonteCarloSettings = {
+  runs: 500,
+  incomeVariability: 10,
+  expenseVariability: 10,
+  randomizeReturns: true,
+};
+
+/**
+ * Runs extend past the forecast period to cover goal target dates, up to
+ * this many months (30 years)
+ */
+export const MAX_MONTE_CARLO_MONTHS = 360;
+
+/**
+ * 10th, 50th and 90th percentile of a value for one month
+ */
+export interface PercentileBand {
+  month: string;
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+/**
+ * Chance of reaching a fixed-amount goal by its target date
+ */
+export interface GoalProbability {
+  id: string;
+  name: string;
+  targetAmount: number;
+  /** Target month (YYYY-MM) */
+  targetMonth: string;
+  /** Share of runs that reached the target by the target month (0-1) */
+  probability: number;
+  /** Median balance in the target month (or at the end of the runs) */
+  medianAmountAtTarget: number;
+}
+
+/**
+ * Summary of all runs
+ */
+export interface MonteCarloResult {
+  runs: number;
+  /** Ending balance bands for the requested forecast period */
+  balance: PercentileBand[];
+  income: PercentileBand[];
+  expenses: PercentileBand[];
+  goalProbabilities: GoalProbability[];
+  /** Share of runs where the balance goes negative within the period (0-1) */
+  probabilityOfNegativeBalance: number;
+}
+
+/**
+ * Seeded pseudo-random generator (mulberry32) so runs can be reproduced
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Draw from a normal distribution (Box-Muller)
+ */
+function sampleNormal(random: () => number, mean: number, stdDev: number) {
+  if (stdDev <= 0) return mean;
+  const u = Math.max(random(), Number.EPSILON);
+  const v = random();
+  return (
+    mean + stdDev * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v)
+  );
+}
+
+/**
+ * Build the sampler for one run. Amounts never go below zero; monthly returns
+ * use the goal's annual volatility scaled to a month.
+ */
+export function createForecastSampler(
+  settings: MonteCarloSettings,
+  random: () => number
+): ForecastSampler {
+  return {
+    incomeFactor: () =>
+      Math.max(0, sampleNormal(random, 1, settings.incomeVariability / 100)),
+    expenseFactor: () =>
+      Math.max(0, sampleNormal(random, 1, settings.expenseVariability / 100)),
+    goalReturn: (goal, expectedMonthlyReturn) =>
+      settings.randomizeReturns
+        ? Math.max(
+            -1,
+            sampleNormal(
+              random,
+              expectedMonthlyReturn,
+              (goal.annualVolatility || 0) / 100 / Math.sqrt(12)
+            )
+          )
+        : expectedMonthlyReturn,
+  };
+}
+
+/**
+ * Value at a percentile (0-100) of an ascending list
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = (sorted.length - 1) * (p / 100);
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+/**
+ * Bands for one value across all runs
+ */
+function getBands(
+  months: string[],
+  runs: ForecastResult[],
+  getValue: (result: ForecastResult, monthIndex: number) => number
+): PercentileBand[] {
+  return months.map((month, monthIndex) => {
+    const values = runs
+      .map((result) => getValue(result, monthIndex))
+      .sort((a, b) => a - b);
+    return {
+      month,
+      p10: percentile(values, 10),
+      p50: percentile(values, 50),
+      p90: percentile(values, 90),
+    };
+  });
+}
+
+/**
+ * Months from the start month until a target month (YYYY-MM)
+ */
+function monthsUntil(startDate: Date, targetMonth: string): number {
+  const [year, month] = targetMonth.split("-").map(Number);
+  return (
+    (year - startDate.getFullYear()) * 12 + (month - 1 - startDate.getMonth())
+  );
+}
+
+/**
+ * Run the forecast many times and summarise the spread of outcomes
+ */
+export function runMonteCarloForecast(
+  userPlan: UserPlan,
+  config: Partial<ForecastConfig> = {},
+  settings: MonteCarloSettings = DEFAULT_MONTE_CARLO_SETTINGS,
+  onProgress?: (completedRuns: number) => void
+): MonteCarloResult {
+  const periodMonths = config.months || 12;
+  const startDate = config.startDate || new Date();
+  const runs = Math.max(1, Math.round(settings.runs));
+
+  // Goals that still need money and have a target we can check
+  const goals = userPlan.goals.filter(
+    (goal) =>
+      goal.isActive &&
+      goal.goalType === GoalType.FIXED_AMOUNT &&
+      goal.targetDate
+  );
+  const targetMonths = new Map(
+    goals.map((goal) => [goal.id, goal.targetDate.slice(0, 7)])
+  );
+
+  // Simulate far enough to reach the latest goal target date
+  const simulatedMonths = Math.min(
+    MAX_MONTE_CARLO_MONTHS,
+    Math.max(
+      periodMonths,
+      ...Array.from(targetMonths.values()).map(
+        (targetMonth) => monthsUntil(startDate, targetMonth) + 1
+      )
+    )
+  );
+
+  const random = createRandom(settings.seed ?? Date.now());
+  const results: ForecastResult[] = [];
+
+  for (let run = 0; run < runs; run++) {
+    results.push(
+      generateForecast(userPlan, {
+        ...config,
+        startDate,
+        months: simulatedMonths,
+        sampler: createForecastSampler(settings, random),
+        quiet: true,
+      })
+    );
+    onProgress?.(run + 1);
+  }
+
+  const months = (results[0]?.monthlyForecasts || [])
+    .slice(0, periodMonths)
+    .map((month) => month.month);
+
+  // Track each goal's balance through every run
+  const goalProbabilities = goals.map((goal): GoalProbability => {
+    const targetMonth = targetMonths.get(goal.id) as string;
+    let hits = 0;
+    const amountsAtTarget: number[] = [];
+
+    for (const result of results) {
+      let amount = goal.currentAmount;
+      let reached = amount >= goal.targetAmount;
+      let amountAtTarget = amount;
+
+      for (const month of result.monthlyForecasts) {
+        if (month.month > targetMonth) break;
+        amount +=
+          (month.goalBreakdown.find((g) => g.id === goal.id)?.amount || 0) +
+          (month.goalGrowthBreakdown.find((g) => g.id === goal.id)?.amount ||
+            0) +
+          (month.payrollContributions.find((g) => g.id === goal.id)?.amount ||
+            0);
+        amountAtTarget = amount;
+        if (amount >= goal.targetAmount) reached = true;
+      }
+
+      if (reached) hits++;
+      amountsAtTarget.push(amountAtTarget);
+    }
+
+    return {
+      id: goal.id,
+      name: goal.name,
+      targetAmount: goal.targetAmount,
+      targetMonth,
+      probability: hits / results.length,
+      medianAmountAtTarget: percentile(
+        amountsAtTarget.sort((a, b) => a - b),
+        50
+      ),
+    };
+  });
+
+  return {
+    runs: results.length,
+    balance: getBands(
+      months,
+      results,
+      (result, index) => result.monthlyForecasts[index].endingBalance
+    ),
+    income: getBands(
+      months,
+      results,
+      (result, index) => result.monthlyForecasts[index].income
+    ),
+    expenses: getBands(
+      months,
+      results,
+      (result, index) => result.monthlyForecasts[index].expenses
+    ),
+    goalProbabilities,
+    probabilityOfNegativeBalance:
+      results.filter((result) =>
+        result.monthlyForecasts
+          .slice(0, periodMonths)
+          .some((month) => month.endingBalance < 0)
+      ).length / results.length,
+  };
+}
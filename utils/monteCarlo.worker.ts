@@ -0,0 +1,54 @@
+/**
+ * Web Worker that runs the Monte Carlo forecast off the main thread.
+ *
+ * Receives a MonteCarloRequest and posts progress updates followed by the
+ * result (or an error) tagged with the request id.
+ */
+
+import { UserPlan } from "@/types";
+import { ForecastConfig } from "./forecastCalculator";
+import {
+  MonteCarloResult,
+  MonteCarloSettings,
+  runMonteCarloForecast,
+} from "./monteCarlo";
+
+export interface MonteCarloRequest {
+  id: number;
+  userPlan: UserPlan;
+  config: Partial<ForecastConfig>;
+  settings: MonteCarloSettings;
+}
+
+export type MonteCarloResponse =
+  | { type: "progress"; id: number; completedRuns: number }
+  | { type: "result"; id: number; result: MonteCarloResult }
+  | { type: "error"; id: number; message: string };
+
+const post = (response: MonteCarloResponse) => self.postMessage(response);
+
+self.onmessage = (event: MessageEvent<MonteCarloRequest>) => {
+  const { id, userPlan, config, settings } = event.data;
+  const progressStep = Math.max(1, Math.floor(settings.runs / 20));
+
+  try {
+    const result = runMonteCarloForecast(
+      userPlan,
+      config,
+      settings,
+      (completedRuns) => {
+        if (completedRuns % progressStep === 0) {
+          post({ type: "progress", id, completedRuns });
+        }
+      }
+    );
+    post({ type: "result", id, result });
+  } catch (error) {
+    post({
+      type: "error",
+      id,
+      message:
+        error instanceof Error ? error.message : "Monte Carlo forecast failed",
+    });
+  }
+};
@@ -0,0 +1,169 @@
+/**
+ * Paycheck Breakdown
+ *
+ * Gross pay, pre-tax deductions, tax withheld and the net deposit of a
+ * salary, plus the employer's match. Retirement and provident fund
+ * contributions and the match never reach the bank account; the forecast
+ * pays them into the linked retirement goal instead.
+ */
+
+import {
+  Frequency,
+  Income,
+  Paycheck,
+  PaycheckDeduction,
+  PaycheckDeductionType,
+} from "@/types";
+import { getAverageMonthlyOccurrences } from "./recurrence";
+
+export const PAYCHECK_DEDUCTION_LABELS: Record<PaycheckDeductionType, string> =
+  {
+    [PaycheckDeductionType.RETIREMENT]: "Retirement plan",
+    [PaycheckDeductionType.PROVIDENT_FUND]: "Provident fund",
+    [PaycheckDeductionType.HEALTH_INSURANCE]: "Health insurance",
+    [PaycheckDeductionType.OTHER]: "Other",
+  };
+
+/**
+ * One paycheck, component by component
+ */
+export interface PaycheckBreakdown {
+  grossPay: number;
+  deductions: Array<{
+    id: string;
+    name: string;
+    type: PaycheckDeductionType;
+    amount: number;
+  }>;
+  /** All pre-tax deductions */
+  totalDeductions: number;
+  /** Retirement and provident fund contributions */
+  retirementContributions: number;
+  taxWithheld: number;
+  /** What lands in the bank account */
+  netPay: number;
+  employerMatch: number;
+}
+
+/**
+ * Whether a deduction is saved for retirement (and can be matched)
+ */
+export function isRetirementDeduction(type: PaycheckDeductionType): boolean {
+  return (
+    type === PaycheckDeductionType.RETIREMENT ||
+    type === PaycheckDeductionType.PROVIDENT_FUND
+  );
+}
+
+/**
+ * Amount of a deduction from one paycheck
+ */
+export function getDeductionAmount(
+  deduction: PaycheckDeduction,
+  grossPay: number
+): number {
+  return deduction.isPercent
+    ? (grossPay * deduction.amount) / 100
+    : deduction.amount;
+}
+
+/**
+ * Work out every component of one paycheck
+ */
+export function calculatePaycheck(paycheck: Paycheck): PaycheckBreakdown {
+  const deductions = paycheck.deductions.map((deduction) => ({
+    id: deduction.id,
+    name: deduction.name,
+    type: deduction.type,
+    amount: getDeductionAmount(deduction, paycheck.grossPay),
+  }));
+  const totalDeductions = deductions.reduce(
+    (sum, deduction) => sum + deduction.amount,
+    0
+  );
+  const retirementContributions = deductions
+    .filter((deduction) => isRetirementDeduction(deduction.type))
+    .reduce((sum, deduction) => sum + deduction.amount, 0);
+  const taxWithheld = paycheck.taxWithheld || 0;
+
+  // The match is a share of what the employee puts in, up to the cap
+  let employerMatch =
+    (retirementContributions * (paycheck.employerMatchPercent || 0)) / 100;
+  if (paycheck.employerMatchCapPercent !== undefined) {
+    employerMatch = Math.min(
+      employerMatch,
+      (paycheck.grossPay * paycheck.employerMatchCapPercent) / 100
+    );
+  }
+
+  return {
+    grossPay: paycheck.grossPay,
+    deductions,
+    totalDeductions,
+    retirementContributions,
+    taxWithheld,
+    netPay: paycheck.grossPay - totalDeductions - taxWithheld,
+    employerMatch,
+  };
+}
+
+/**
+ * Amount a paycheck pays into the linked retirement goal - the employee's
+ * contributions plus the employer's match
+ */
+export function getPaycheckRetirementAmount(paycheck: Paycheck): number {
+  const breakdown = calculatePaycheck(paycheck);
+  return breakdown.retirementContributions + breakdown.employerMatch;
+}
+
+/**
+ * Number of paychecks an income pays in a year
+ */
+export function getPaychecksPerYear(
+  income: Pick<Income, "frequency" | "recurrence" | "startDate">
+): number {
+  if (income.recurrence) {
+    return (
+      getAverageMonthlyOccurrences(income.recurrence, income.startDate) * 12
+    );
+  }
+
+  switch (income.frequency) {
+    case Frequency.DAILY:
+      return 365;
+    case Frequency.WEEKLY:
+      return 52;
+    case Frequency.BIWEEKLY:
+      return 26;
+    case Frequency.MONTHLY:
+      return 12;
+    case Frequency.QUARTERLY:
+      return 4;
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Every component of a paycheck over a year of paychecks
+ */
+export function getAnnualPaycheckTotals(
+  income: Pick<Income, "frequency" | "recurrence" | "startDate">,
+  paycheck: Paycheck
+): PaycheckBreakdown {
+  const breakdown = calculatePaycheck(paycheck);
+  const paychecks = getPaychecksPerYear(income);
+
+  return {
+    grossPay: breakdown.grossPay * paychecks,
+    deductions: breakdown.deductions.map((deduction) => ({
+      ...deduction,
+      amount: deduction.amount * paychecks,
+    })),
+    totalDeductions: breakdown.totalDeductions * paychecks,
+    retirementContributions: breakdown.retirementContributions * paychecks,
+    taxWithheld: breakdown.taxWithheld * paychecks,
+    netPay: breakdown.netPay * paychecks,
+    employerMatch: breakdown.employerMatch * paychecks,
+  };
+}
@@ -0,0 +1,81 @@
+/**
+ * Plan Diff
+ *
+ * Summarises how two versions of a user plan differ, e.g. what restoring a
+ * backup would change compared with the current plan.
+ */
+
+import { UserPlan } from "@/types";
+
+/**
+ * Records added, removed and edited in one collection
+ */
+export interface CollectionDiff {
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+export interface PlanDiff {
+  income: CollectionDiff;
+  expenses: CollectionDiff;
+  goals: CollectionDiff;
+  /** Change in the current balance going from one plan to the other */
+  balanceDelta: number;
+}
+
+/**
+ * Compare two lists of records by id. A record counts as changed when any of
+ * its fields differ.
+ */
+export function diffCollection<T extends { id: string }>(
+  from: T[] = [],
+  to: T[] = []
+): CollectionDiff {
+  const fromById = new Map(from.map((record) => [record.id, record]));
+  const toIds = new Set(to.map((record) => record.id));
+  let added = 0;
+  let changed = 0;
+
+  for (const record of to) {
+    const previous = fromById.get(record.id);
+    if (!previous) {
+      added++;
+    } else if (
+      previous !== record &&
+      JSON.stringify(previous) !== JSON.stringify(record)
+    ) {
+      changed++;
+    }
+  }
+
+  return {
+    added,
+    removed: from.filter((record) => !toIds.has(record.id)).length,
+    changed,
+  };
+}
+
+/**
+ * Summarise the changes going from one plan to another
+ */
+export function diffUserPlans(from: UserPlan, to: UserPlan): PlanDiff {
+  return {
+    income: diffCollection(from.income, to.income),
+    expenses: diffCollection(from.expenses, to.expenses),
+    goals: diffCollection(from.goals, to.goals),
+    balanceDelta: (to.currentBalance || 0) - (from.currentBalance || 0),
+  };
+}
+
+/**
+ * Whether a diff has no changes at all
+ */
+export function isEmptyDiff(diff: PlanDiff): boolean {
+  return (
+    [diff.income, diff.expenses, diff.goals].every(
+      (collection) =>
+        collection.added + collection.removed + collection.changed === 0
+    ) && diff.balanceDelta === 0
+  );
+}
@@ -0,0 +1,216 @@
+/**
+ * Plan vs Actual Reconciliation
+ *
+ * Compares the planned amounts in each MonthlyForecast breakdown with the
+ * transactions that were actually recorded against those items, so users can
+ * see whether the plan is working line by line.
+ */
+
+import { UserPlan, Transaction, TransactionLinkType } from "@/types";
+import {
+  generateForecast,
+  ForecastConfig,
+  MonthlyForecast,
+} from "./forecastCalculator";
+
+/**
+ * A single planned line compared with its matched actuals
+ */
+export interface ReconciliationLine {
+  /** ID of the Income, Expense or Goal */
+  id: string;
+  /** Display name of the planned item */
+  name: string;
+  /** Amount the forecast expected for the month */
+  planned: number;
+  /** Amount actually recorded (always positive in the line's direction) */
+  actual: number;
+  /** actual - planned */
+  variance: number;
+  /** Number of transactions matched to this line */
+  transactionCount: number;
+}
+
+/**
+ * Reconciliation of a single month
+ */
+export interface MonthReconciliation {
+  /** Month identifier (YYYY-MM) */
+  month: string;
+  income: ReconciliationLine[];
+  expenses: ReconciliationLine[];
+  goals: ReconciliationLine[];
+  /** Transactions in the month that are not linked to any planned item */
+  unmatched: Transaction[];
+  totals: {
+    plannedIncome: number;
+    actualIncome: number;
+    plannedExpenses: number;
+    actualExpenses: number;
+    plannedGoalContributions: number;
+    actualGoalContributions: number;
+    unmatchedIn: number;
+    unmatchedOut: number;
+  };
+}
+
+/**
+ * Get the month (YYYY-MM) a transaction was posted in
+ */
+export function getTransactionMonth(transaction: Transaction): string {
+  return transaction.date.slice(0, 7);
+}
+
+/**
+ * Build reconciliation lines for one kind of planned item.
+ *
+ * Income actuals are the sum of signed amounts; expense and goal actuals are
+ * the sum of outflows, so a refund reduces the actual spend.
+ */
+function buildLines(
+  breakdown: Array<{ id: string; name: string; amount: number }>,
+  transactions: Transaction[],
+  linkType: TransactionLinkType,
+  planItems: Array<{ id: string; name: string }>
+): ReconciliationLine[] {
+  const direction = linkType === TransactionLinkType.INCOME ? 1 : -1;
+  const linked = transactions.filter(
+    (transaction) => transaction.linkedType === linkType
+  );
+
+  const lines: ReconciliationLine[] = breakdown.map((item) => ({
+    id: item.id,
+    name: item.name,
+    planned: item.amount,
+    actual: 0,
+    variance: 0,
+    transactionCount: 0,
+  }));
+
+  for (const transaction of linked) {
+    let line = lines.find((l) => l.id === transaction.linkedId);
+
+    // Paid in a month the plan did not expect it (e.g. a yearly bill paid early)
+    if (!line) {
+      const planItem = planItems.find((p) => p.id === transaction.linkedId);
+      line = {
+        id: transaction.linkedId || transaction.id,
+        name: planItem?.name || transaction.description,
+        planned: 0,
+        actual: 0,
+        variance: 0,
+        transactionCount: 0,
+      };
+      lines.push(line);
+    }
+
+    line.actual += transaction.amount * direction;
+    line.transactionCount += 1;
+  }
+
+  return lines.map((line) => ({
+    ...line,
+    variance: line.actual - line.planned,
+  }));
+}
+
+/**
+ * Compare a month's planned breakdowns with the transactions recorded in it
+ */
+export function reconcileMonth(
+  monthForecast: MonthlyForecast,
+  transactions: Transaction[],
+  userPlan: UserPlan
+): MonthReconciliation {
+  const monthTransactions = transactions.filter(
+    (transaction) => getTransactionMonth(transaction) === monthForecast.month
+  );
+
+  const income = buildLines(
+    monthForecast.incomeBreakdown,
+    monthTransactions,
+    TransactionLinkType.INCOME,
+    userPlan.income
+  );
+  const expenses = buildLines(
+    monthForecast.expenseBreakdown,
+    monthTransactions,
+    TransactionLinkType.EXPENSE,
+    userPlan.expenses
+  );
+  const goals = buildLines(
+    monthForecast.goalBreakdown,
+    monthTransactions,
+    TransactionLinkType.GOAL,
+    userPlan.goals
+  );
+  const unmatched = monthTransactions.filter(
+    (transaction) => !transaction.linkedType || !transaction.linkedId
+  );
+
+  const sum = (lines: ReconciliationLine[], field: "planned" | "actual") =>
+    lines.reduce((total, line) => total + line[field], 0);
+
+  return {
+    month: monthForecast.month,
+    income,
+    expenses,
+    goals,
+    unmatched,
+    totals: {
+      plannedIncome: sum(income, "planned"),
+      actualIncome: sum(income, "actual"),
+      plannedExpenses: sum(expenses, "planned"),
+      actualExpenses: sum(expenses, "actual"),
+      plannedGoalContributions: sum(goals, "planned"),
+      actualGoalContributions: sum(goals, "actual"),
+      unmatchedIn: unmatched
+        .filter((transaction) => transaction.amount > 0)
+        .reduce((total, transaction) => total + transaction.amount, 0),
+      unmatchedOut: unmatched
+        .filter((transaction) => transaction.amount < 0)
+        .reduce((total, transaction) => total - transaction.amount, 0),
+    },
+  };
+}
+
+/**
+ * Get the range of months (YYYY-MM) covered by the recorded transactions
+ */
+export function getTransactionMonthRange(
+  transactions: Transaction[]
+): { start: string; end: string } | null {
+  if (transactions.length === 0) return null;
+
+  const months = transactions.map(getTransactionMonth).sort();
+  return { start: months[0], end: months[months.length - 1] };
+}
+
+/**
+ * Reconcile every month from the first to the last recorded transaction.
+ *
+ * The forecast is regenerated starting at the first transaction month so the
+ * planned lines line up with the months the actuals were recorded in.
+ */
+export function reconcilePlan(
+  userPlan: UserPlan,
+  config: Partial<ForecastConfig> = {}
+): MonthReconciliation[] {
+  const transactions = userPlan.transactions || [];
+  const range = getTransactionMonthRange(transactions);
+  if (!range) return [];
+
+  const [startYear, startMonth] = range.start.split("-").map(Number);
+  const [endYear, endMonth] = range.end.split("-").map(Number);
+  const months = (endYear - startYear) * 12 + (endMonth - startMonth) + 1;
+
+  const forecast = generateForecast(userPlan, {
+    ...config,
+    months,
+    startDate: new Date(startYear, startMonth - 1, 1),
+  });
+
+  return forecast.monthlyForecasts.map((monthForecast) =>
+    reconcileMonth(monthForecast, transactions, userPlan)
+  );
+}
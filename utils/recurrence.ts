@@ -0,0 +1,670 @@
+/**
+ * Recurrence Rules
+ *
+ * RFC 5545-style recurrence rules for income and expenses whose schedule the
+ * Frequency options cannot express - "last business day of the month",
+ * "every 2nd and 4th Friday", "every 18 months". Rules are evaluated day by
+ * day: each period (day, week, month or year) is expanded into its matching
+ * dates, BYSETPOS picks among them, and COUNT / UNTIL end the series.
+ * The item's start or due date is the first possible occurrence.
+ */
+
+import {
+  RecurrenceDay,
+  RecurrenceFrequency,
+  RecurrenceRule,
+  RecurrenceWeekday,
+} from "@/types";
+
+/** Weekdays in Date.getDay() order */
+const WEEKDAYS: RecurrenceWeekday[] = [
+  "SU",
+  "MO",
+  "TU",
+  "WE",
+  "TH",
+  "FR",
+  "SA",
+];
+
+const BUSINESS_DAYS: RecurrenceWeekday[] = ["MO", "TU", "WE", "TH", "FR"];
+
+export const WEEKDAY_LABELS: Record<RecurrenceWeekday, string> = {
+  MO: "Monday",
+  TU: "Tuesday",
+  WE: "Wednesday",
+  TH: "Thursday",
+  FR: "Friday",
+  SA: "Saturday",
+  SU: "Sunday",
+};
+
+const PERIOD_LABELS: Record<RecurrenceFrequency, string> = {
+  [RecurrenceFrequency.DAILY]: "day",
+  [RecurrenceFrequency.WEEKLY]: "week",
+  [RecurrenceFrequency.MONTHLY]: "month",
+  [RecurrenceFrequency.YEARLY]: "year",
+};
+
+/**
+ * Ready-made rules for the schedules people ask for most
+ */
+export const RECURRENCE_PRESETS: Array<{
+  label: string;
+  rule: RecurrenceRule;
+}> = [
+  {
+    label: "Last business day of the month",
+    rule: {
+      freq: RecurrenceFrequency.MONTHLY,
+      byDay: BUSINESS_DAYS.map((day) => ({ day })),
+      bySetPos: [-1],
+    },
+  },
+  {
+    label: "Last day of the month",
+    rule: { freq: RecurrenceFrequency.MONTHLY, byMonthDay: [-1] },
+  },
+  {
+    label: "1st and 15th of the month",
+    rule: { freq: RecurrenceFrequency.MONTHLY, byMonthDay: [1, 15] },
+  },
+  {
+    label: "Every 2nd and 4th Friday",
+    rule: {
+      freq: RecurrenceFrequency.MONTHLY,
+      byDay: [
+        { day: "FR", ordinal: 2 },
+        { day: "FR", ordinal: 4 },
+      ],
+    },
+  },
+  {
+    label: "Twice a year, in March and September",
+    rule: { freq: RecurrenceFrequency.YEARLY, byMonth: [3, 9] },
+  },
+  {
+    label: "Every 18 months",
+    rule: { freq: RecurrenceFrequency.MONTHLY, interval: 18 },
+  },
+];
+
+/**
+ * Local midnight of an ISO date, ignoring any time part - "2025-03-31"
+ * stays the 31st in every time zone
+ */
+export function parseDateOnly(value: string | Date): Date {
+  if (value instanceof Date) {
+    return new Date(value.getFullYear(), value.getMonth(), value.getDate());
+  }
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(value);
+  if (match) {
+    return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  }
+  return parseDateOnly(new Date(value));
+}
+
+function getInterval(rule: RecurrenceRule): number {
+  return Math.max(1, Math.floor(rule.interval || 1));
+}
+
+function getDaysInMonth(year: number, month: number): number {
+  return new Date(year, month + 1, 0).getDate();
+}
+
+function matchesMonthDay(day: number, daysInMonth: number, monthDay: number) {
+  return monthDay > 0 ? day === monthDay : day === daysInMonth + monthDay + 1;
+}
+
+/**
+ * Whether a day matches a BYDAY entry - ordinals count within the month
+ */
+function matchesDay(date: Date, entry: RecurrenceDay): boolean {
+  if (WEEKDAYS[date.getDay()] !== entry.day) return false;
+  if (!entry.ordinal) return true;
+
+  const daysInMonth = getDaysInMonth(date.getFullYear(), date.getMonth());
+  return entry.ordinal > 0
+    ? Math.ceil(date.getDate() / 7) === entry.ordinal
+    : Math.ceil((daysInMonth - date.getDate() + 1) / 7) === -entry.ordinal;
+}
+
+/**
+ * Matching days of one month. Without BYDAY or BYMONTHDAY the rule repeats
+ * on the start date's day, and months too short for it are skipped.
+ */
+function expandMonth(
+  rule: RecurrenceRule,
+  year: number,
+  month: number,
+  start: Date
+): Date[] {
+  const daysInMonth = getDaysInMonth(year, month);
+  if (!rule.byDay?.length && !rule.byMonthDay?.length) {
+    return start.getDate() <= daysInMonth
+      ? [new Date(year, month, start.getDate())]
+      : [];
+  }
+
+  const days: Date[] = [];
+  for (let day = 1; day <= daysInMonth; day++) {
+    const date = new Date(year, month, day);
+    if (
+      rule.byMonthDay?.length &&
+      !rule.byMonthDay.some((monthDay) =>
+        matchesMonthDay(day, daysInMonth, monthDay)
+      )
+    ) {
+      continue;
+    }
+    if (
+      rule.byDay?.length &&
+      !rule.byDay.some((entry) => matchesDay(date, entry))
+    ) {
+      continue;
+    }
+    days.push(date);
+  }
+  return days;
+}
+
+/**
+ * Candidate dates of the period `index` periods after the start's
+ */
+function expandPeriod(
+  rule: RecurrenceRule,
+  start: Date,
+  index: number
+): Date[] {
+  const step = index * getInterval(rule);
+  let dates: Date[];
+
+  switch (rule.freq) {
+    case RecurrenceFrequency.DAILY: {
+      dates = [
+        new Date(start.getFullYear(), start.getMonth(), start.getDate() + step),
+      ];
+      break;
+    }
+    case RecurrenceFrequency.WEEKLY: {
+      // Weeks start on Monday (WKST=MO)
+      const monday = new Date(
+        start.getFullYear(),
+        start.getMonth(),
+        start.getDate() - ((start.getDay() + 6) % 7) + step * 7
+      );
+      const weekdays = rule.byDay?.length
+        ? rule.byDay.map((entry) => entry.day)
+        : [WEEKDAYS[start.getDay()]];
+      dates = Array.from(
+        { length: 7 },
+        (_, offset) =>
+          new Date(
+            monday.getFullYear(),
+            monday.getMonth(),
+            monday.getDate() + offset
+          )
+      ).filter((date) => weekdays.includes(WEEKDAYS[date.getDay()]));
+      break;
+    }
+    case RecurrenceFrequency.MONTHLY: {
+      const month = new Date(start.getFullYear(), start.getMonth() + step, 1);
+      dates = expandMonth(rule, month.getFullYear(), month.getMonth(), start);
+      break;
+    }
+    case RecurrenceFrequency.YEARLY: {
+      const year = start.getFullYear() + step;
+      const months = rule.byMonth?.length
+        ? [...rule.byMonth].sort((a, b) => a - b)
+        : [start.getMonth() + 1];
+      dates = months.flatMap((month) =>
+        expandMonth(rule, year, month - 1, start)
+      );
+      break;
+    }
+    default:
+      dates = [];
+  }
+
+  // BYMONTH, BYMONTHDAY and BYDAY narrow down the shorter periods
+  if (rule.byMonth?.length) {
+    dates = dates.filter((date) => rule.byMonth!.includes(date.getMonth() + 1));
+  }
+  if (
+    rule.byMonthDay?.length &&
+    (rule.freq === RecurrenceFrequency.DAILY ||
+      rule.freq === RecurrenceFrequency.WEEKLY)
+  ) {
+    dates = dates.filter((date) =>
+      rule.byMonthDay!.some((monthDay) =>
+        matchesMonthDay(
+          date.getDate(),
+          getDaysInMonth(date.getFullYear(), date.getMonth()),
+          monthDay
+        )
+      )
+    );
+  }
+  if (rule.byDay?.length && rule.freq === RecurrenceFrequency.DAILY) {
+    dates = dates.filter((date) =>
+      rule.byDay!.some((entry) => WEEKDAYS[date.getDay()] === entry.day)
+    );
+  }
+
+  if (rule.bySetPos?.length) {
+    const picked = rule.bySetPos
+      .map((position) =>
+        position > 0 ? dates[position - 1] : dates[dates.length + position]
+      )
+      .filter((date): date is Date => !!date);
+    dates = dates.filter((date) => picked.includes(date));
+  }
+
+  return dates;
+}
+
+/**
+ * Index of the first period that can reach `from` - rules without COUNT can
+ * skip the periods before it
+ */
+function getFirstPeriodIndex(
+  rule: RecurrenceRule,
+  start: Date,
+  from: Date
+): number {
+  if (rule.count || from <= start) return 0;
+
+  const interval = getInterval(rule);
+  const days = Math.floor((from.getTime() - start.getTime()) / 86400000);
+  const months =
+    (from.getFullYear() - start.getFullYear()) * 12 +
+    (from.getMonth() - start.getMonth());
+
+  switch (rule.freq) {
+    case RecurrenceFrequency.DAILY:
+      return Math.max(0, Math.floor(days / interval) - 1);
+    case RecurrenceFrequency.WEEKLY:
+      return Math.max(0, Math.floor(days / 7 / interval) - 1);
+    case RecurrenceFrequency.MONTHLY:
+      return Math.max(0, Math.floor(months / interval) - 1);
+    case RecurrenceFrequency.YEARLY:
+      return Math.max(0, Math.floor(months / 12 / interval) - 1);
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Dates the rule falls on between `from` and `to` (both inclusive), for a
+ * series starting on `start`
+ */
+export function getOccurrences(
+  rule: RecurrenceRule,
+  start: string | Date,
+  from: Date,
+  to: Date
+): Date[] {
+  const startDate = parseDateOnly(start);
+  const fromDate = parseDateOnly(from);
+  const toDate = parseDateOnly(to);
+  const until = rule.until ? parseDateOnly(rule.until) : null;
+  const occurrences: Date[] = [];
+  let counted = 0;
+
+  for (let index = getFirstPeriodIndex(rule, startDate, fromDate); ; index++) {
+    const dates = expandPeriod(rule, startDate, index);
+
+    for (const date of dates) {
+      if (date < startDate) continue;
+      if (date > toDate || (until && date > until)) return occurrences;
+      if (rule.count && counted >= rule.count) return occurrences;
+      counted++;
+      if (date >= fromDate) occurrences.push(date);
+    }
+
+    // Periods only move forward, so one that starts after `to` ends the search
+    const nextPeriodStart = getPeriodStart(rule, startDate, index + 1);
+    if (nextPeriodStart > toDate || (until && nextPeriodStart > until)) {
+      return occurrences;
+    }
+  }
+}
+
+/**
+ * First day of the period `index` periods after the start's
+ */
+function getPeriodStart(
+  rule: RecurrenceRule,
+  start: Date,
+  index: number
+): Date {
+  const step = index * getInterval(rule);
+  switch (rule.freq) {
+    case RecurrenceFrequency.DAILY:
+      return new Date(
+        start.getFullYear(),
+        start.getMonth(),
+        start.getDate() + step
+      );
+    case RecurrenceFrequency.WEEKLY:
+      return new Date(
+        start.getFullYear(),
+        start.getMonth(),
+        start.getDate() - ((start.getDay() + 6) % 7) + step * 7
+      );
+    case RecurrenceFrequency.MONTHLY:
+      return new Date(start.getFullYear(), start.getMonth() + step, 1);
+    default:
+      return new Date(start.getFullYear() + step, 0, 1);
+  }
+}
+
+/**
+ * Number of times the rule falls in the month of `monthDate`. An income's
+ * end date ends the series like UNTIL does.
+ */
+export function countOccurrencesInMonth(
+  rule: RecurrenceRule,
+  start: string,
+  monthDate: Date,
+  endDate?: string
+): number {
+  const monthStart = new Date(monthDate.getFullYear(), monthDate.getMonth(), 1);
+  let monthEnd = new Date(monthDate.getFullYear(), monthDate.getMonth() + 1, 0);
+  if (endDate) {
+    const end = parseDateOnly(endDate);
+    if (end < monthEnd) monthEnd = end;
+  }
+  if (monthEnd < monthStart) return 0;
+  return getOccurrences(rule, start, monthStart, monthEnd).length;
+}
+
+/**
+ * The next few dates the rule falls on, from `from` onwards
+ */
+export function getNextOccurrences(
+  rule: RecurrenceRule,
+  start: string,
+  limit: number,
+  from: Date = new Date()
+): Date[] {
+  // Look far enough ahead for the sparsest rules ("every 5 years")
+  const to = new Date(from);
+  to.setFullYear(to.getFullYear() + Math.max(2, getInterval(rule) * 2));
+  return getOccurrences(rule, start, from, to).slice(0, limit);
+}
+
+/**
+ * Average number of occurrences per month while the series runs - the
+ * monthly equivalent of one payment
+ */
+export function getAverageMonthlyOccurrences(
+  rule: RecurrenceRule,
+  start: string
+): number {
+  const months =
+    rule.freq === RecurrenceFrequency.DAILY ||
+    rule.freq === RecurrenceFrequency.WEEKLY
+      ? 12
+      : 12 * getInterval(rule);
+  const startDate = parseDateOnly(start);
+  const end = new Date(
+    startDate.getFullYear(),
+    startDate.getMonth() + months,
+    startDate.getDate() - 1
+  );
+  const occurrences = getOccurrences(
+    { ...rule, count: undefined, until: undefined },
+    startDate,
+    startDate,
+    end
+  );
+  return occurrences.length / months;
+}
+
+/**
+ * Problems with a rule, empty when it is valid
+ */
+export function validateRecurrenceRule(rule: RecurrenceRule): string[] {
+  const errors: string[] = [];
+
+  if (!Object.values(RecurrenceFrequency).includes(rule.freq))
+    errors.push("Unknown repeat period");
+  if (
+    rule.interval !== undefined &&
+    (!Number.isInteger(rule.interval) || rule.interval < 1)
+  )
+    errors.push("Interval must be a whole number of at least 1");
+  if (
+    rule.byDay?.some(
+      (entry) =>
+        !WEEKDAYS.includes(entry.day) ||
+        (entry.ordinal !== undefined &&
+          (entry.ordinal === 0 || Math.abs(entry.ordinal) > 5))
+    )
+  )
+    errors.push(
+      "Days of the week must be MO-SU with an optional 1-5 or -1 to -5"
+    );
+  if (
+    rule.byMonthDay?.some(
+      (day) => !Number.isInteger(day) || day === 0 || Math.abs(day) > 31
+    )
+  )
+    errors.push("Days of the month must be 1-31 or -1 to -31");
+  if (
+    rule.byMonth?.some(
+      (month) => !Number.isInteger(month) || month < 1 || month > 12
+    )
+  )
+    errors.push("Months must be 1-12");
+  if (
+    rule.bySetPos?.some(
+      (position) => !Number.isInteger(position) || position === 0
+    )
+  )
+    errors.push("Set positions must be non-zero whole numbers");
+  if (
+    rule.count !== undefined &&
+    (!Number.isInteger(rule.count) || rule.count < 1)
+  )
+    errors.push("Occurrence count must be at least 1");
+  if (rule.until && isNaN(new Date(rule.until).getTime()))
+    errors.push("End date is not a valid date");
+
+  return errors;
+}
+
+/**
+ * Rule in RFC 5545 RRULE syntax, e.g. "FREQ=MONTHLY;BYDAY=2FR,4FR"
+ */
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval && rule.interval !== 1)
+    parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length)
+    parts.push(
+      `BYDAY=${rule.byDay
+        .map((entry) => `${entry.ordinal || ""}${entry.day}`)
+        .join(",")}`
+    );
+  if (rule.byMonthDay?.length)
+    parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(",")}`);
+  if (rule.bySetPos?.length) parts.push(`BYSETPOS=${rule.bySetPos.join(",")}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until)
+    parts.push(`UNTIL=${rule.until.slice(0, 10).replace(/-/g, "")}`);
+  return parts.join(";");
+}
+
+/**
+ * Parse an RRULE ("RRULE:" prefix optional). Returns null when the text is
+ * not a valid rule.
+ */
+export function parseRRule(text: string): RecurrenceRule | null {
+  const body = text.trim().replace(/^RRULE:/i, "");
+  if (!body) return null;
+
+  const numbers = (value: string) => value.split(",").map(Number);
+  const rule: Partial<RecurrenceRule> = {};
+
+  for (const part of body.split(";")) {
+    const [key, value = ""] = part.split("=").map((piece) => piece.trim());
+    switch (key.toUpperCase()) {
+      case "FREQ":
+        rule.freq = value.toUpperCase() as RecurrenceFrequency;
+        break;
+      case "INTERVAL":
+        rule.interval = Number(value);
+        break;
+      case "BYDAY": {
+        const days: RecurrenceDay[] = [];
+        for (const token of value.toUpperCase().split(",")) {
+          const match = /^([+-]?\d+)?(MO|TU|WE|TH|FR|SA|SU)$/.exec(token);
+          if (!match) return null;
+          days.push({
+            day: match[2] as RecurrenceWeekday,
+            ...(match[1] ? { ordinal: Number(match[1]) } : {}),
+          });
+        }
+        rule.byDay = days;
+        break;
+      }
+      case "BYMONTHDAY":
+        rule.byMonthDay = numbers(value);
+        break;
+      case "BYMONTH":
+        rule.byMonth = numbers(value);
+        break;
+      case "BYSETPOS":
+        rule.bySetPos = numbers(value);
+        break;
+      case "COUNT":
+        rule.count = Number(value);
+        break;
+      case "UNTIL": {
+        const match = /^(\d{4})-?(\d{2})-?(\d{2})/.exec(value);
+        if (!match) return null;
+        rule.until = `${match[1]}-${match[2]}-${match[3]}`;
+        break;
+      }
+      case "WKST":
+        // Weeks always start on Monday
+        break;
+      default:
+        return null;
+    }
+  }
+
+  if (!rule.freq) return null;
+  return validateRecurrenceRule(rule as RecurrenceRule).length === 0
+    ? (rule as RecurrenceRule)
+    : null;
+}
+
+function formatOrdinal(value: number): string {
+  if (value === -1) return "last";
+  if (value < -1) return `${formatOrdinal(-value)}-to-last`;
+  const suffix =
+    value % 100 >= 11 && value % 100 <= 13
+      ? "th"
+      : ["th", "st", "nd", "rd"][value % 10] || "th";
+  return `${value}${suffix}`;
+}
+
+function joinList(items: string[], conjunction = "and"): string {
+  if (items.length <= 1) return items.join("");
+  return `${items.slice(0, -1).join(", ")} ${conjunction} ${
+    items[items.length - 1]
+  }`;
+}
+
+/**
+ * Plain-English summary of a rule, e.g. "Every month on the last business
+ * day" or "Every 2 weeks on Friday, 10 times"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const interval = getInterval(rule);
+  const period = PERIOD_LABELS[rule.freq] || "period";
+  let summary =
+    interval === 1 ? `Every ${period}` : `Every ${interval} ${period}s`;
+
+  const setPositions = rule.bySetPos?.length
+    ? `the ${joinList(rule.bySetPos.map(formatOrdinal))} `
+    : "";
+
+  if (rule.byDay?.length) {
+    const weekdays = rule.byDay.map((entry) => entry.day);
+    const isBusinessDays =
+      rule.byDay.every((entry) => !entry.ordinal) &&
+      weekdays.length === BUSINESS_DAYS.length &&
+      BUSINESS_DAYS.every((day) => weekdays.includes(day));
+
+    if (isBusinessDays) {
+      summary += setPositions
+        ? ` on ${setPositions}business day`
+        : " on business days";
+    } else if (rule.byDay.some((entry) => entry.ordinal)) {
+      const sameDay = weekdays.every((day) => day === weekdays[0]);
+      summary += sameDay
+        ? ` on the ${joinList(
+            rule.byDay.map((entry) =>
+              entry.ordinal ? formatOrdinal(entry.ordinal) : "every"
+            )
+          )} ${WEEKDAY_LABELS[weekdays[0]]}`
+        : ` on ${joinList(
+            rule.byDay.map((entry) =>
+              entry.ordinal
+                ? `the ${formatOrdinal(entry.ordinal)} ${
+                    WEEKDAY_LABELS[entry.day]
+                  }`
+                : `every ${WEEKDAY_LABELS[entry.day]}`
+            )
+          )}`;
+    } else {
+      summary += ` on ${setPositions}${joinList(
+        weekdays.map((day) => WEEKDAY_LABELS[day]),
+        setPositions ? "or" : "and"
+      )}`;
+    }
+  }
+
+  if (rule.byMonthDay?.length) {
+    summary += ` on ${
+      setPositions && !rule.byDay?.length ? setPositions + "of " : ""
+    }the ${joinList(
+      rule.byMonthDay.map((day) =>
+        day === -1 ? "last day" : formatOrdinal(day)
+      )
+    )}`;
+  }
+
+  if (rule.byMonth?.length) {
+    summary += ` in ${joinList(
+      [...rule.byMonth]
+        .sort((a, b) => a - b)
+        .map((month) =>
+          new Date(2000, month - 1, 1).toLocaleDateString("en-US", {
+            month: "long",
+          })
+        )
+    )}`;
+  }
+
+  if (rule.count) {
+    summary += rule.count === 1 ? ", once" : `, ${rule.count} times`;
+  }
+  if (rule.until) {
+    summary += `, until ${parseDateOnly(rule.until).toLocaleDateString(
+      "en-US",
+      {
+        day: "numeric",
+        month: "short",
+        year: "numeric",
+      }
+    )}`;
+  }
+
+  return summary;
+}
@@ -0,0 +1,97 @@
+/**
+ * What-If Scenario Utilities
+ *
+ * Scenarios are stored alongside the plan as sets of overrides. These helpers
+ * layer a scenario on top of the baseline plan without mutating it, so the
+ * forecast can be generated for any scenario on the fly.
+ */
+
+import {
+  UserPlan,
+  Scenario,
+  ScenarioOverride,
+  ScenarioOverrideAction,
+} from "@/types";
+
+/**
+ * Colours handed out to new scenarios for side-by-side comparison
+ */
+export const SCENARIO_COLORS = [
+  "#8B5CF6",
+  "#F59E0B",
+  "#EC4899",
+  "#14B8A6",
+  "#6366F1",
+  "#84CC16",
+];
+
+/**
+ * Apply a list of overrides to a baseline list of records
+ */
+export function applyOverrides<T extends { id: string }>(
+  items: T[],
+  overrides: ScenarioOverride<T>[]
+): T[] {
+  let result = [...items];
+
+  for (const override of overrides) {
+    switch (override.action) {
+      case ScenarioOverrideAction.ADD:
+        if (override.item) {
+          result.push(override.item);
+        }
+        break;
+
+      case ScenarioOverrideAction.REMOVE:
+        result = result.filter((item) => item.id !== override.targetId);
+        break;
+
+      case ScenarioOverrideAction.MODIFY:
+        result = result.map((item) =>
+          item.id === override.targetId
+            ? { ...item, ...override.changes }
+            : item
+        );
+        break;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Build a copy of the plan with the scenario's overrides applied
+ */
+export function applyScenario(
+  userPlan: UserPlan,
+  scenario: Scenario
+): UserPlan {
+  const configOverrides = scenario.forecastConfigOverrides || {};
+
+  return {
+    ...userPlan,
+    income: applyOverrides(userPlan.income, scenario.incomeOverrides),
+    expenses: applyOverrides(userPlan.expenses, scenario.expenseOverrides),
+    goals: applyOverrides(userPlan.goals, scenario.goalOverrides),
+    currentBalance:
+      configOverrides.startingBalance !== undefined
+        ? configOverrides.startingBalance
+        : userPlan.currentBalance,
+    forecastConfig: {
+      ...userPlan.forecastConfig,
+      ...configOverrides,
+    },
+  };
+}
+
+/**
+ * Count how many changes a scenario makes to the baseline plan
+ */
+export function countScenarioChanges(scenario: Scenario): number {
+  return (
+    scenario.incomeOverrides.length +
+    scenario.expenseOverrides.length +
+    scenario.goalOverrides.length +
+    Object.keys(scenario.forecastConfigOverrides || {}).length
+  );
+}
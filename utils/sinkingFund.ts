@@ -0,0 +1,87 @@
+/**
+ * Sinking Funds
+ *
+ * A yearly or quarterly bill can be saved for month by month. The forecast
+ * tops its fund up by the bill's monthly equivalent every month, including
+ * the month it is due, and pays the bill from the fund. This module tells
+ * whether the fund will hold enough by the next due date.
+ */
+
+import { Expense } from "@/types";
+import {
+  calculateMonthlyAmount,
+  isExpenseActiveInMonth,
+  isSinkingFundExpense,
+} from "./amounts";
+
+/**
+ * Where a sinking fund stands against its next bill
+ */
+export interface SinkingFundStatus {
+  /** Amount set aside so far */
+  balance: number;
+  /** Monthly equivalent of the bill, set aside each month */
+  monthlyContribution: number;
+  /** Month the bill is next due (YYYY-MM) */
+  nextDueMonth: string;
+  /** Set-asides before the bill is paid, counting the month it is due */
+  monthsToSave: number;
+  /** What the fund holds when the bill is due */
+  projectedBalance: number;
+  /** Monthly set-aside that would cover the next bill in full */
+  requiredMonthly: number;
+  /** The fund covers the next bill at the monthly equivalent */
+  isFunded: boolean;
+}
+
+/**
+ * Status of an expense's sinking fund, or undefined when it has none
+ */
+export function getSinkingFundStatus(
+  expense: Expense,
+  asOf: Date = new Date()
+): SinkingFundStatus | undefined {
+  if (!isSinkingFundExpense(expense)) return undefined;
+
+  // A quarterly bill starts on its due date, so search at least that far
+  const dueDate = new Date(expense.dueDate);
+  const monthsToDueDate =
+    (dueDate.getFullYear() - asOf.getFullYear()) * 12 +
+    (dueDate.getMonth() - asOf.getMonth());
+  const searchMonths = Math.max(0, monthsToDueDate) + 12;
+
+  let offset = 0;
+  while (
+    offset < searchMonths &&
+    !isExpenseActiveInMonth(
+      { ...expense, isActive: true },
+      new Date(asOf.getFullYear(), asOf.getMonth() + offset, 1)
+    )
+  ) {
+    offset++;
+  }
+
+  // No bill left to save for, e.g. the expense has ended
+  if (offset === searchMonths) return undefined;
+
+  const dueMonth = new Date(asOf.getFullYear(), asOf.getMonth() + offset, 1);
+  const monthsToSave = offset + 1;
+  const monthlyContribution = calculateMonthlyAmount(
+    expense.amount,
+    expense.frequency
+  );
+  const balance = expense.sinkingFund.balance;
+  const projectedBalance = balance + monthlyContribution * monthsToSave;
+
+  return {
+    balance,
+    monthlyContribution,
+    nextDueMonth: `${dueMonth.getFullYear()}-${String(
+      dueMonth.getMonth() + 1
+    ).padStart(2, "0")}`,
+    monthsToSave,
+    projectedBalance,
+    requiredMonthly: Math.max(0, (expense.amount - balance) / monthsToSave),
+    isFunded: projectedBalance >= expense.amount - 0.005,
+  };
+}
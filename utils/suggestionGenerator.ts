@@ -11,15 +11,21 @@ import {
   Income,
   Priority,
   ExpenseCategory,
+  ExpenseCategoryId,
   GoalCategory,
   MonthlySuggestion,
   Frequency,
 } from "@/types";
+import { generateForecast, ForecastResult } from "./forecastCalculator";
+import { calculateMonthlyAmount } from "./amounts";
+import { convertPlanToBaseCurrency } from "./exchangeRates";
+import { getOverBudgetCategories } from "./budget";
+import { generateDailyCashFlow } from "./cashFlow";
 import {
-  generateForecast,
-  ForecastResult,
-  calculateMonthlyAmount,
-} from "./forecastCalculator";
+  getCategories,
+  getCategoryName,
+  rollUpCategoryTotals,
+} from "./categories";
 
 /**
  * Configuration for suggestion generation
@@ -66,17 +72,18 @@ function getTotalMonthlyAmount(items: Array<Income | Expense>): number {
 }
 
 /**
- * Find highest expense categories
+ * Find highest top-level expense categories, with sub-categories counted in
+ * their parents
  */
 function getTopExpenseCategories(
-  expenses: Expense[],
+  userPlan: UserPlan,
   count: number = 3
 ): Array<{
-  category: ExpenseCategory;
+  category: ExpenseCategoryId;
   amount: number;
   percentage: number;
 }> {
-  const categoryTotals = expenses
+  const expenseTotals = userPlan.expenses
     .filter((expense) => expense.isActive)
     .reduce((acc, expense) => {
       const monthlyAmount = calculateMonthlyAmount(
@@ -85,7 +92,11 @@ function getTopExpenseCategories(
       );
       acc[expense.category] = (acc[expense.category] || 0) + monthlyAmount;
       return acc;
-    }, {} as Record<ExpenseCategory, number>);
+    }, {} as Record<ExpenseCategoryId, number>);
+  const categoryTotals = rollUpCategoryTotals(
+    getCategories(userPlan),
+    expenseTotals
+  );
 
   const totalExpenses = Object.values(categoryTotals).reduce(
     (sum, amount) => sum + amount,
@@ -94,7 +105,7 @@ function getTopExpenseCategories(
 
   return Object.entries(categoryTotals)
     .map(([category, amount]) => ({
-      category: category as ExpenseCategory,
+      category,
       amount,
       percentage: totalExpenses > 0 ? (amount / totalExpenses) * 100 : 0,
     }))
@@ -149,20 +160,21 @@ const suggestionRules: SuggestionRule[] = [
     category: "expense",
     priority: Priority.MEDIUM,
     condition: (userPlan, forecast) => {
-      const topCategories = getTopExpenseCategories(userPlan.expenses, 1);
+      const topCategories = getTopExpenseCategories(userPlan, 1);
       return topCategories.length > 0 && topCategories[0].percentage > 30;
     },
     generate: (userPlan, forecast) => {
-      const topCategory = getTopExpenseCategories(userPlan.expenses, 1)[0];
+      const topCategory = getTopExpenseCategories(userPlan, 1)[0];
       const reductionAmount = topCategory.amount * 0.1; // Suggest 10% reduction
-      const categoryName = topCategory.category.replace("_", " ").toLowerCase();
+      const categoryName = getCategoryName(
+        getCategories(userPlan),
+        topCategory.category
+      );
 
       return {
         id: generateSuggestionId("expense"),
-        title: `Reduce ${
-          categoryName.charAt(0).toUpperCase() + categoryName.slice(1)
-        } Spending`,
-        description: `Your ${categoryName} expenses account for ${topCategory.percentage.toFixed(
+        title: `Reduce ${categoryName} Spending`,
+        description: `Your ${categoryName.toLowerCase()} expenses account for ${topCategory.percentage.toFixed(
           1
         )}% of your total spending. Consider reducing this by ${new Intl.NumberFormat(
           "en-US",
@@ -179,6 +191,79 @@ const suggestionRules: SuggestionRule[] = [
     },
   },
 
+  // Budget Suggestions
+  {
+    id: "over-budget-category",
+    category: "expense",
+    priority: Priority.HIGH,
+    condition: (userPlan, forecast) => {
+      return getOverBudgetCategories(userPlan).length > 0;
+    },
+    generate: (userPlan, forecast) => {
+      const worst = getOverBudgetCategories(userPlan).sort(
+        (a, b) => b.averageOverspend - a.averageOverspend
+      )[0];
+      const categoryName = getCategoryName(
+        getCategories(userPlan),
+        worst.category
+      );
+
+      return {
+        id: generateSuggestionId("expense"),
+        title: `${categoryName} Is Over Budget`,
+        description: `You went over your ${categoryName.toLowerCase()} budget in ${
+          worst.monthsOver
+        } of the last ${worst.monthsChecked} months, by ${new Intl.NumberFormat(
+          "en-US",
+          {
+            style: "currency",
+            currency: "USD",
+          }
+        ).format(
+          worst.averageOverspend
+        )} on average. Cut back on this spending or raise the budget to match what you really spend.`,
+        category: "expense",
+        priority: Priority.HIGH,
+        actionable: true,
+        estimatedImpact: worst.averageOverspend,
+        createdAt: new Date().toISOString(),
+      };
+    },
+  },
+
+  // A sinking fund that won't hold enough when its bill is due
+  {
+    id: "underfunded-sinking-fund",
+    category: "expense",
+    priority: Priority.MEDIUM,
+    condition: (userPlan, forecast) => {
+      return forecast.sinkingFundProgress.some((fund) => !fund.isFunded);
+    },
+    generate: (userPlan, forecast) => {
+      const fund = forecast.sinkingFundProgress.find(
+        (entry) => !entry.isFunded
+      )!;
+
+      return {
+        id: generateSuggestionId("expense"),
+        title: `Top Up Your ${fund.name} Fund`,
+        description: `Your sinking fund for ${
+          fund.name
+        } will be ${new Intl.NumberFormat("en-US", {
+          style: "currency",
+          currency: "USD",
+        }).format(fund.totalShortfall)} short when the bill is due in ${
+          fund.firstShortfallMonth
+        }. Set aside a little more each month or add to what you have already saved so the bill doesn't land on your monthly budget.`,
+        category: "expense",
+        priority: Priority.MEDIUM,
+        actionable: true,
+        estimatedImpact: fund.totalShortfall,
+        createdAt: new Date().toISOString(),
+      };
+    },
+  },
+
   // Cash Flow Warning
   {
     id: "negative-cash-flow-warning",
@@ -209,6 +294,51 @@ const suggestionRules: SuggestionRule[] = [
     },
   },
 
+  // Month-end balances can hide a dip when bills are due before payday
+  {
+    id: "low-balance-day",
+    category: "general",
+    priority: Priority.HIGH,
+    condition: (userPlan, forecast) => {
+      return (
+        forecast.summary.monthsWithNegativeBalance === 0 &&
+        generateDailyCashFlow(userPlan).daysBelowBuffer.length > 0
+      );
+    },
+    generate: (userPlan, forecast) => {
+      const cashFlow = generateDailyCashFlow(userPlan);
+      const lowestDay = cashFlow.lowestDay!;
+      const shortfall = cashFlow.buffer - lowestDay.lowBalance;
+      const formatter = new Intl.NumberFormat("en-US", {
+        style: "currency",
+        currency: "USD",
+      });
+
+      return {
+        id: generateSuggestionId("general"),
+        title: "Balance Dips Before Payday",
+        description: `Your balance is projected to fall to ${formatter.format(
+          lowestDay.lowBalance
+        )} on ${new Date(
+          `${lowestDay.date}T00:00:00`
+        ).toLocaleDateString()}, below ${
+          cashFlow.buffer > 0
+            ? `your ${formatter.format(cashFlow.buffer)} buffer`
+            : "zero"
+        } on ${
+          cashFlow.daysBelowBuffer.length
+        } days. Move bill due dates closer to payday or keep ${formatter.format(
+          shortfall
+        )} more in your account.`,
+        category: "general",
+        priority: Priority.HIGH,
+        actionable: true,
+        estimatedImpact: shortfall,
+        createdAt: new Date().toISOString(),
+      };
+    },
+  },
+
   // Emergency Fund Suggestion
   {
     id: "build-emergency-fund",
@@ -421,9 +551,12 @@ const suggestionRules: SuggestionRule[] = [
  * Generate personalized financial suggestions
  */
 export function generateSuggestions(
-  userPlan: UserPlan,
+  plan: UserPlan,
   config: Partial<SuggestionConfig> = {}
 ): MonthlySuggestion[] {
+  // Rules compare amounts, so look at them in the base currency
+  const userPlan = convertPlanToBaseCurrency(plan);
+
   const defaultConfig: SuggestionConfig = {
     maxSuggestions: 5,
     minImpactThreshold: 10,
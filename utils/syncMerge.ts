@@ -0,0 +1,362 @@
+/**
+ * Sync Merge
+ *
+ * Merges this device's plan with the copy from another device. Each
+ * collection of records (income, expenses, goals, transactions, accounts,
+ * scenarios and the rest of SYNC_COLLECTIONS) is merged record by record on
+ * each record's updatedAt, with tombstones standing in for deleted records.
+ * Each group of settings in SYNC_SETTINGS is merged as a whole on its own
+ * updatedAt. A record or settings group changed on both sides since the
+ * last sync is a conflict for the user to resolve. The plan's name, balance,
+ * display preferences and stored forecast come from whichever side was
+ * updated last.
+ */
+
+import {
+  Account,
+  CategorizationRule,
+  Category,
+  Debt,
+  BankImportProfile,
+  ExchangeRate,
+  Expense,
+  Goal,
+  HouseholdMember,
+  Income,
+  Scenario,
+  SyncCollection,
+  Tombstone,
+  Transaction,
+  Transfer,
+  UserPlan,
+} from "@/types";
+import { getTotalAccountBalance } from "./accounts";
+import { convertPlanToBaseCurrency } from "./exchangeRates";
+
+export const SYNC_COLLECTIONS: SyncCollection[] = [
+  "income",
+  "expenses",
+  "goals",
+  "transactions",
+  "accounts",
+  "transfers",
+  "debts",
+  "categories",
+  "categorizationRules",
+  "exchangeRates",
+  "scenarios",
+  "householdMembers",
+  "bankImportProfiles",
+];
+
+/**
+ * Groups of plan settings, each merged as a whole
+ */
+export const SYNC_SETTINGS = [
+  "forecastConfig",
+  "debtPayoffSettings",
+  "inflationSettings",
+  "taxSettings",
+  "budgetSettings",
+  "cashFlowSettings",
+  "householdSettings",
+] as const;
+
+export type SyncSettingsKey = (typeof SYNC_SETTINGS)[number];
+
+export type SyncSettings = NonNullable<UserPlan[SyncSettingsKey]>;
+
+export type SyncRecord =
+  | Income
+  | Expense
+  | Goal
+  | Transaction
+  | Account
+  | Transfer
+  | Debt
+  | Category
+  | CategorizationRule
+  | ExchangeRate
+  | Scenario
+  | HouseholdMember
+  | BankImportProfile;
+
+/**
+ * A record changed differently on both devices since they last synced
+ */
+export interface RecordConflict {
+  collection: SyncCollection;
+  id: string;
+  /** This device's version, or null if it was deleted here */
+  local: SyncRecord | null;
+  /** The other device's version, or null if it was deleted there */
+  remote: SyncRecord | null;
+}
+
+/**
+ * A settings group changed differently on both devices since they last
+ * synced
+ */
+export interface SettingsConflict {
+  collection: "settings";
+  id: SyncSettingsKey;
+  local: SyncSettings;
+  remote: SyncSettings;
+}
+
+export type SyncConflict = RecordConflict | SettingsConflict;
+
+export type ConflictResolution = "local" | "remote";
+
+export interface MergeResult {
+  /** Merged plan, with conflicting records left as they are locally */
+  userPlan: UserPlan;
+  conflicts: SyncConflict[];
+}
+
+/**
+ * One side's latest version of a record: the record itself, or its deletion
+ */
+interface RecordVersion {
+  record: SyncRecord | null;
+  /** When the record was last edited or deleted */
+  timestamp: string;
+}
+
+/**
+ * Key identifying a conflict, for mapping resolutions to conflicts
+ */
+export function getConflictKey({
+  collection,
+  id,
+}: Pick<SyncConflict, "collection" | "id">): string {
+  return `${collection}:${id}`;
+}
+
+function toTime(timestamp: string | undefined): number {
+  return (timestamp && Date.parse(timestamp)) || 0;
+}
+
+function getRecords(
+  userPlan: UserPlan,
+  collection: SyncCollection
+): SyncRecord[] {
+  return (userPlan[collection] as SyncRecord[] | undefined) || [];
+}
+
+function getVersions(
+  userPlan: UserPlan,
+  collection: SyncCollection
+): Map<string, RecordVersion> {
+  const versions = new Map<string, RecordVersion>();
+
+  for (const tombstone of userPlan.deletedRecords || []) {
+    if (tombstone.collection === collection) {
+      versions.set(tombstone.id, {
+        record: null,
+        timestamp: tombstone.deletedAt,
+      });
+    }
+  }
+  // A record that is present wins over its own tombstone (e.g. restored)
+  for (const record of getRecords(userPlan, collection)) {
+    versions.set(record.id, { record, timestamp: record.updatedAt });
+  }
+
+  return versions;
+}
+
+function mergeCollection(
+  collection: SyncCollection,
+  localPlan: UserPlan,
+  remotePlan: UserPlan,
+  lastSyncedAt: string | null
+) {
+  const localVersions = getVersions(localPlan, collection);
+  const remoteVersions = getVersions(remotePlan, collection);
+  const since = lastSyncedAt ? toTime(lastSyncedAt) : null;
+
+  // Local records keep their order, with records new from the other side after
+  const ids = new Set([
+    ...getRecords(localPlan, collection).map((record) => record.id),
+    ...getRecords(remotePlan, collection).map((record) => record.id),
+    ...localVersions.keys(),
+    ...remoteVersions.keys(),
+  ]);
+
+  const records: SyncRecord[] = [];
+  const tombstones: Tombstone[] = [];
+  const conflicts: RecordConflict[] = [];
+
+  for (const id of ids) {
+    const local = localVersions.get(id);
+    const remote = remoteVersions.get(id);
+    let winner: RecordVersion;
+
+    if (!local || !remote) {
+      winner = (local || remote)!;
+    } else if (JSON.stringify(local.record) === JSON.stringify(remote.record)) {
+      winner =
+        toTime(remote.timestamp) > toTime(local.timestamp) ? remote : local;
+    } else if (
+      since !== null &&
+      toTime(local.timestamp) > since &&
+      toTime(remote.timestamp) > since
+    ) {
+      conflicts.push({
+        collection,
+        id,
+        local: local.record,
+        remote: remote.record,
+      });
+      winner = local;
+    } else {
+      winner =
+        toTime(remote.timestamp) > toTime(local.timestamp) ? remote : local;
+    }
+
+    if (winner.record) {
+      records.push(winner.record);
+    } else {
+      tombstones.push({ id, collection, deletedAt: winner.timestamp });
+    }
+  }
+
+  return { records, tombstones, conflicts };
+}
+
+/**
+ * Merge one group of settings. Settings saved before they carried a
+ * timestamp count as changed when their plan was.
+ */
+function mergeSettings(
+  key: SyncSettingsKey,
+  localPlan: UserPlan,
+  remotePlan: UserPlan,
+  lastSyncedAt: string | null
+): { settings?: SyncSettings; conflict?: SettingsConflict } {
+  const local = localPlan[key];
+  const remote = remotePlan[key];
+  if (!local || !remote || JSON.stringify(local) === JSON.stringify(remote)) {
+    return { settings: local || remote };
+  }
+
+  const localTime = toTime(local.updatedAt || localPlan.updatedAt);
+  const remoteTime = toTime(remote.updatedAt || remotePlan.updatedAt);
+  const since = lastSyncedAt ? toTime(lastSyncedAt) : null;
+  if (since !== null && localTime > since && remoteTime > since) {
+    return {
+      settings: local,
+      conflict: { collection: "settings", id: key, local, remote },
+    };
+  }
+
+  return { settings: remoteTime > localTime ? remote : local };
+}
+
+/**
+ * Merge the other device's plan into this one. Without a previous sync there
+ * is nothing to tell which side changed, so the newer version of each record
+ * wins and there are no conflicts.
+ */
+export function mergeUserPlans(
+  localPlan: UserPlan,
+  remotePlan: UserPlan,
+  lastSyncedAt: string | null
+): MergeResult {
+  const newerPlan =
+    toTime(remotePlan.updatedAt) > toTime(localPlan.updatedAt)
+      ? remotePlan
+      : localPlan;
+  const merged: Record<string, unknown> = {};
+  const deletedRecords: Tombstone[] = [];
+  const conflicts: SyncConflict[] = [];
+
+  for (const collection of SYNC_COLLECTIONS) {
+    // Leave optional collections unset when neither side has them
+    if (!localPlan[collection] && !remotePlan[collection]) continue;
+
+    const result = mergeCollection(
+      collection,
+      localPlan,
+      remotePlan,
+      lastSyncedAt
+    );
+    merged[collection] = result.records;
+    deletedRecords.push(...result.tombstones);
+    conflicts.push(...result.conflicts);
+  }
+
+  for (const key of SYNC_SETTINGS) {
+    const result = mergeSettings(key, localPlan, remotePlan, lastSyncedAt);
+    if (result.settings) merged[key] = result.settings;
+    if (result.conflict) conflicts.push(result.conflict);
+  }
+
+  const userPlan: UserPlan = {
+    ...newerPlan,
+    ...merged,
+    // Each device keeps its own plan id
+    id: localPlan.id,
+    deletedRecords,
+  };
+
+  return { userPlan: withAccountBalance(userPlan), conflicts };
+}
+
+/**
+ * Keep the current balance equal to the accounts' total after merging them
+ */
+function withAccountBalance(userPlan: UserPlan): UserPlan {
+  if (!userPlan.accounts?.length) return userPlan;
+
+  return {
+    ...userPlan,
+    currentBalance: getTotalAccountBalance(
+      convertPlanToBaseCurrency(userPlan).accounts
+    ),
+  };
+}
+
+/**
+ * Apply the user's choice for each conflict. Conflicts without a choice keep
+ * this device's version.
+ */
+export function resolveConflicts(
+  result: MergeResult,
+  resolutions: Record<string, ConflictResolution>
+): UserPlan {
+  const userPlan = result.conflicts.reduce((userPlan, conflict) => {
+    if (resolutions[getConflictKey(conflict)] !== "remote") return userPlan;
+    if (conflict.collection === "settings") {
+      return { ...userPlan, [conflict.id]: conflict.remote };
+    }
+
+    const { collection, id, remote } = conflict;
+    const records = getRecords(userPlan, collection);
+    const deletedRecords = (userPlan.deletedRecords || []).filter(
+      (tombstone) => tombstone.id !== id || tombstone.collection !== collection
+    );
+
+    if (!remote) {
+      return {
+        ...userPlan,
+        [collection]: records.filter((record) => record.id !== id),
+        deletedRecords: [
+          ...deletedRecords,
+          { id, collection, deletedAt: new Date().toISOString() },
+        ],
+      };
+    }
+
+    return {
+      ...userPlan,
+      [collection]: records.some((record) => record.id === id)
+        ? records.map((record) => (record.id === id ? remote : record))
+        : [...records, remote],
+      deletedRecords,
+    };
+  }, result.userPlan);
+
+  return withAccountBalance(userPlan);
+}
@@ -0,0 +1,271 @@
+/**
+ * Tax Estimation
+ *
+ * Estimates income tax and social-security-style contributions on gross
+ * income from a rule set of progressive brackets, flat deductions and
+ * contributions. Rule sets are plain data (see taxRuleSets.ts); more can be
+ * added at runtime with registerTaxRuleSet. All amounts are annual. Income
+ * in the plan's base currency is converted into the rule set's currency
+ * before the thresholds apply.
+ */
+
+import { Frequency, TaxSettings, UserPlan } from "@/types";
+import { getBaseCurrency, getExchangeRate } from "./exchangeRates";
+import { getIncomeMonthlyEquivalent } from "./amounts";
+import { TAX_RULE_SETS } from "./taxRuleSets";
+
+/**
+ * One progressive bracket - the rate applies to taxable income up to `upTo`
+ */
+export interface TaxBracket {
+  /** Upper bound of the bracket (null for the top bracket) */
+  upTo: number | null;
+  /** Rate in percent */
+  rate: number;
+}
+
+/**
+ * Amount subtracted from gross income before the brackets apply
+ */
+export interface TaxDeduction {
+  name: string;
+  /** Flat amount */
+  amount?: number;
+  /** Percent of gross income, added to the flat amount */
+  percentOfIncome?: number;
+  /** Cap on the total deduction */
+  max?: number;
+}
+
+/**
+ * Payroll contribution charged alongside income tax
+ */
+export interface TaxContribution {
+  name: string;
+  /** Rate in percent */
+  rate: number;
+  /** Income above this is not charged */
+  maxBase?: number;
+  /** Cap on the contribution itself */
+  maxAmount?: number;
+  /** Whether the contribution reduces taxable income */
+  deductible?: boolean;
+}
+
+/**
+ * Tax rules for one country (or jurisdiction) and tax year
+ */
+export interface TaxRuleSet {
+  id: string;
+  name: string;
+  /** ISO country code */
+  country: string;
+  /** Currency the thresholds are expressed in */
+  currency: string;
+  year: number;
+  /** Brackets in ascending order */
+  brackets: TaxBracket[];
+  deductions: TaxDeduction[];
+  contributions: TaxContribution[];
+}
+
+/**
+ * Breakdown of the estimated tax on a year's gross income
+ */
+export interface TaxEstimate {
+  grossIncome: number;
+  /** Total deductions, including deductible contributions */
+  deductions: number;
+  /** Total contributions */
+  contributions: number;
+  taxableIncome: number;
+  incomeTax: number;
+  /** Income tax plus contributions */
+  totalTax: number;
+  netIncome: number;
+  /** Total tax as a percent of gross income */
+  effectiveRate: number;
+  /** Rate of the bracket the last unit of taxable income falls in */
+  marginalRate: number;
+}
+
+/**
+ * Default tax settings - no rules, so gross income is not taxed
+ */
+export const DEFAULT_TAX_SETTINGS: TaxSettings = {
+  ruleSetId: "",
+};
+
+const ruleSets = new Map<string, TaxRuleSet>(
+  TAX_RULE_SETS.map((ruleSet) => [ruleSet.id, ruleSet])
+);
+
+/**
+ * Add or replace a tax rule set
+ */
+export function registerTaxRuleSet(ruleSet: TaxRuleSet): void {
+  ruleSets.set(ruleSet.id, ruleSet);
+}
+
+/**
+ * All available tax rule sets
+ */
+export function getTaxRuleSets(): TaxRuleSet[] {
+  return Array.from(ruleSets.values());
+}
+
+/**
+ * Look up a rule set by id
+ */
+export function getTaxRuleSet(id: string | undefined): TaxRuleSet | undefined {
+  return id ? ruleSets.get(id) : undefined;
+}
+
+/**
+ * Tax owed on taxable income under progressive brackets
+ */
+export function calculateBracketTax(
+  taxableIncome: number,
+  brackets: TaxBracket[]
+): number {
+  let tax = 0;
+  let lowerBound = 0;
+
+  for (const bracket of brackets) {
+    if (taxableIncome <= lowerBound) break;
+    const upperBound = bracket.upTo ?? Infinity;
+    tax +=
+      ((Math.min(taxableIncome, upperBound) - lowerBound) * bracket.rate) / 100;
+    lowerBound = upperBound;
+  }
+
+  return tax;
+}
+
+/**
+ * Estimate the annual tax on a year's gross income
+ */
+export function calculateAnnualTax(
+  grossIncome: number,
+  ruleSet: TaxRuleSet
+): TaxEstimate {
+  const gross = Math.max(0, grossIncome);
+
+  let contributions = 0;
+  let deductibleContributions = 0;
+  for (const contribution of ruleSet.contributions) {
+    const base = Math.min(gross, contribution.maxBase ?? Infinity);
+    const amount = Math.min(
+      (base * contribution.rate) / 100,
+      contribution.maxAmount ?? Infinity
+    );
+    contributions += amount;
+    if (contribution.deductible) deductibleContributions += amount;
+  }
+
+  const deductions =
+    ruleSet.deductions.reduce(
+      (total, deduction) =>
+        total +
+        Math.min(
+          (deduction.amount || 0) +
+            (gross * (deduction.percentOfIncome || 0)) / 100,
+          deduction.max ?? Infinity
+        ),
+      0
+    ) + deductibleContributions;
+
+  const taxableIncome = Math.max(0, gross - deductions);
+  const incomeTax = calculateBracketTax(taxableIncome, ruleSet.brackets);
+  const totalTax = incomeTax + contributions;
+
+  const marginalBracket = ruleSet.brackets.find(
+    (bracket) => bracket.upTo === null || taxableIncome <= bracket.upTo
+  );
+
+  return {
+    grossIncome: gross,
+    deductions,
+    contributions,
+    taxableIncome,
+    incomeTax,
+    totalTax,
+    netIncome: gross - totalTax,
+    effectiveRate: gross > 0 ? (totalTax / gross) * 100 : 0,
+    marginalRate: taxableIncome > 0 ? marginalBracket?.rate || 0 : 0,
+  };
+}
+
+/**
+ * Value of one unit of the plan's base currency in the rule set's currency,
+ * or null when the plan has no rate between the two
+ */
+export function getTaxCurrencyRate(
+  userPlan: UserPlan,
+  ruleSet: TaxRuleSet,
+  date: Date | string = new Date()
+): number | null {
+  return getExchangeRate(
+    userPlan.exchangeRates,
+    getBaseCurrency(userPlan),
+    ruleSet.currency,
+    date
+  );
+}
+
+/**
+ * Share of gross income kept after tax (1 when nothing is owed). The income
+ * is multiplied by `currencyRate` to bring it into the rule set's currency.
+ */
+export function getTakeHomeRatio(
+  annualGrossIncome: number,
+  ruleSet: TaxRuleSet | undefined,
+  currencyRate: number = 1
+): number {
+  if (!ruleSet || annualGrossIncome <= 0) return 1;
+  const estimate = calculateAnnualTax(
+    annualGrossIncome * currencyRate,
+    ruleSet
+  );
+  return estimate.netIncome / estimate.grossIncome;
+}
+
+/**
+ * Estimated tax on the plan's active gross income over a year, in the plan's
+ * base currency, or null when no rule set is chosen. Expects a plan already
+ * converted to its base currency. Without a rate into the rule set's
+ * currency the thresholds are applied to the base currency amounts as they
+ * are.
+ */
+export function estimateAnnualTax(userPlan: UserPlan): TaxEstimate | null {
+  const ruleSet = getTaxRuleSet(userPlan.taxSettings?.ruleSetId);
+  if (!ruleSet) return null;
+
+  // Recurrence rules, seasonal profiles and schedules count their average
+  // year; one-time income counts once
+  const annualGross = userPlan.income
+    .filter((income) => income.isActive && income.isGross)
+    .reduce(
+      (total, income) =>
+        total +
+        (income.frequency === Frequency.ONE_TIME && !income.recurrence
+          ? income.amount
+          : getIncomeMonthlyEquivalent(income) * 12),
+      0
+    );
+
+  const rate = getTaxCurrencyRate(userPlan, ruleSet) ?? 1;
+  const estimate = calculateAnnualTax(annualGross * rate, ruleSet);
+  const toBaseCurrency = (amount: number) => amount / rate;
+
+  return {
+    ...estimate,
+    grossIncome: toBaseCurrency(estimate.grossIncome),
+    deductions: toBaseCurrency(estimate.deductions),
+    contributions: toBaseCurrency(estimate.contributions),
+    taxableIncome: toBaseCurrency(estimate.taxableIncome),
+    incomeTax: toBaseCurrency(estimate.incomeTax),
+    totalTax: toBaseCurrency(estimate.totalTax),
+    netIncome: toBaseCurrency(estimate.netIncome),
+  };
+}
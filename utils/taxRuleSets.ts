@@ -0,0 +1,69 @@
+/**
+ * Built-in Tax Rule Sets
+ *
+ * Resident individual rates for a single filer with the standard allowances
+ * only. They are estimates for planning - credits, itemised deductions and
+ * local taxes are not modelled.
+ */
+
+import type { TaxRuleSet } from "./tax";
+
+/**
+ * Thailand personal income tax, 2024
+ */
+export const THAILAND_2024: TaxRuleSet = {
+  id: "th-2024",
+  name: "Thailand (2024)",
+  country: "TH",
+  currency: "THB",
+  year: 2024,
+  brackets: [
+    { upTo: 150000, rate: 0 },
+    { upTo: 300000, rate: 5 },
+    { upTo: 500000, rate: 10 },
+    { upTo: 750000, rate: 15 },
+    { upTo: 1000000, rate: 20 },
+    { upTo: 2000000, rate: 25 },
+    { upTo: 5000000, rate: 30 },
+    { upTo: null, rate: 35 },
+  ],
+  deductions: [
+    { name: "Employment expenses", percentOfIncome: 50, max: 100000 },
+    { name: "Personal allowance", amount: 60000 },
+  ],
+  contributions: [
+    {
+      name: "Social security",
+      rate: 5,
+      maxBase: 180000,
+      deductible: true,
+    },
+  ],
+};
+
+/**
+ * United States federal income tax and FICA, 2024, single filer
+ */
+export const US_FEDERAL_2024: TaxRuleSet = {
+  id: "us-federal-2024",
+  name: "United States federal (2024, single)",
+  country: "US",
+  currency: "USD",
+  year: 2024,
+  brackets: [
+    { upTo: 11600, rate: 10 },
+    { upTo: 47150, rate: 12 },
+    { upTo: 100525, rate: 22 },
+    { upTo: 191950, rate: 24 },
+    { upTo: 243725, rate: 32 },
+    { upTo: 609350, rate: 35 },
+    { upTo: null, rate: 37 },
+  ],
+  deductions: [{ name: "Standard deduction", amount: 14600 }],
+  contributions: [
+    { name: "Social Security", rate: 6.2, maxBase: 168600 },
+    { name: "Medicare", rate: 1.45 },
+  ],
+};
+
+export const TAX_RULE_SETS: TaxRuleSet[] = [THAILAND_2024, US_FEDERAL_2024];